@@ -0,0 +1,63 @@
+#!/usr/bin/env bash
+# End-to-end tests of the edge functions against a local Supabase stack.
+#
+#   scripts/test.sh                       # every test file
+#   scripts/test.sh --filter geofence     # extra arguments go to `deno test`
+#
+# Starts the stack (Postgres with PostGIS, pgRouting and pg_trgm), rebuilds the database
+# from the migrations, serves the functions with a fixture server standing in for
+# Nominatim and for webhook receivers, and runs supabase/functions/tests. Needs Docker,
+# the Supabase CLI and Deno; after the first run has pulled the images and cached the
+# dependencies, no network access is needed. The stack keeps running afterwards
+# (`supabase stop` shuts it down).
+set -euo pipefail
+cd "$(dirname "$0")/.."
+
+FIXTURE_PORT="${FIXTURE_PORT:-8089}"
+FUNCTIONS_LOG="${FUNCTIONS_LOG:-$(mktemp -t functions-log.XXXXXX)}"
+env_file="$(mktemp -t functions-env.XXXXXX)"
+pids=()
+
+cleanup() {
+  if ((${#pids[@]})); then kill "${pids[@]}" 2>/dev/null || true; fi
+  rm -f "$env_file"
+}
+trap cleanup EXIT
+
+supabase start
+supabase db reset --local
+# API_URL, ANON_KEY, SERVICE_ROLE_KEY and JWT_SECRET of the local stack
+eval "$(supabase status -o env)"
+
+GEOCODER_FIXTURE_FILE=supabase/functions/tests/fixtures/places.json FIXTURE_PORT="$FIXTURE_PORT" \
+  deno run --allow-net --allow-env --allow-read supabase/functions/tests/fixture-server.ts &
+pids+=($!)
+
+# The functions run in Docker and reach the fixture server on the host
+cat > "$env_file" <<EOF
+JWT_SECRET=$JWT_SECRET
+GEOCODER_PROVIDER=nominatim
+GEOCODER_URL=http://host.docker.internal:$FIXTURE_PORT
+GEOCODER_DELAY_MS=0
+WEBHOOK_ALLOWED_HOSTS=host.docker.internal
+EOF
+
+supabase functions serve --no-verify-jwt --env-file "$env_file" >"$FUNCTIONS_LOG" 2>&1 &
+pids+=($!)
+
+echo "Waiting for the functions (log: $FUNCTIONS_LOG)"
+for _ in $(seq 60); do
+  if curl -sf -o /dev/null "$API_URL/functions/v1/openapi"; then break; fi
+  sleep 2
+done
+curl -sf -o /dev/null "$API_URL/functions/v1/openapi" || {
+  echo "Functions did not start; see $FUNCTIONS_LOG" >&2
+  exit 1
+}
+
+SUPABASE_URL="$API_URL" \
+  SUPABASE_ANON_KEY="$ANON_KEY" \
+  SUPABASE_SERVICE_ROLE_KEY="$SERVICE_ROLE_KEY" \
+  FIXTURE_URL="http://127.0.0.1:$FIXTURE_PORT" \
+  FIXTURE_URL_FROM_FUNCTIONS="http://host.docker.internal:$FIXTURE_PORT" \
+  deno test --allow-net --allow-env --allow-read supabase/functions/tests "$@"
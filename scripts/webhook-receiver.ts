@@ -0,0 +1,43 @@
+// Local stand-in for a webhook consumer: logs every delivery and verifies its signature.
+//
+//   WEBHOOK_SECRET=whsec_... deno run --allow-net --allow-env scripts/webhook-receiver.ts
+//
+// PORT (default 8787) sets the listening port. FAIL_FIRST=n answers the first n requests
+// with 500 so the dispatcher's retries and backoff can be observed.
+import { signPayload } from "../supabase/functions/_shared/webhooks.ts";
+
+const port = Number(Deno.env.get("PORT") ?? 8787);
+const secret = Deno.env.get("WEBHOOK_SECRET");
+let failuresLeft = Number(Deno.env.get("FAIL_FIRST") ?? 0);
+
+async function verify(header: string | null, body: string): Promise<string> {
+  if (!secret) return "unchecked (WEBHOOK_SECRET not set)";
+
+  const timestamp = Number(header?.match(/t=(\d+)/)?.[1]);
+  if (!timestamp) return "missing";
+
+  const expected = await signPayload(secret, timestamp, body);
+  const age = Math.abs(Date.now() / 1000 - timestamp);
+  if (expected !== header) return "INVALID";
+  return age > 300 ? `valid but ${Math.round(age)}s old` : "valid";
+}
+
+Deno.serve({ port }, async (req) => {
+  const body = await req.text();
+  const signature = await verify(req.headers.get("X-Webhook-Signature"), body);
+
+  console.log(
+    `${new Date().toISOString()} ${req.headers.get("X-Webhook-Event")} ` +
+      `${req.headers.get("X-Webhook-Id")} signature: ${signature}`,
+  );
+  console.log(body);
+
+  if (failuresLeft > 0) {
+    failuresLeft--;
+    return new Response("simulated failure", { status: 500 });
+  }
+
+  return new Response(signature === "INVALID" ? "bad signature" : "ok", {
+    status: signature === "INVALID" ? 401 : 200,
+  });
+});
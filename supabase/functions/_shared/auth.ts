@@ -0,0 +1,186 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { errorResponse } from "./http.ts";
+
+export type CallerKind = "user" | "api_key" | "service_role" | "anonymous";
+
+export interface Caller {
+  kind: CallerKind;
+  userId: string | null;
+  apiKeyId: string | null;
+  // Acts as the caller, so RLS applies; bypasses RLS for the service role
+  client: SupabaseClient;
+}
+
+export interface AuthOptions {
+  allow?: CallerKind[]; // default: user and api_key
+}
+
+export const API_KEY_PREFIX = "gk_";
+
+// Lifetime of the token minted for a request made with an API key
+const API_KEY_TOKEN_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: ArrayBuffer): string {
+  return [...new Uint8Array(bytes)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function generateApiKey(): string {
+  return API_KEY_PREFIX + toHex(crypto.getRandomValues(new Uint8Array(24)).buffer);
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", encoder.encode(key)));
+}
+
+// HS256 token signed with the project's JWT secret, accepted by PostgREST like a session
+async function signJwt(claims: Record<string, unknown>): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(Deno.env.get("JWT_SECRET")!),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const header = base64Url(encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+  const body = base64Url(encoder.encode(JSON.stringify(claims)));
+  const mac = await crypto.subtle.sign("HMAC", key, encoder.encode(`${header}.${body}`));
+  return `${header}.${body}.${base64Url(new Uint8Array(mac))}`;
+}
+
+function clientFor(token: string): SupabaseClient {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+  });
+}
+
+export function createServiceClient(): SupabaseClient {
+  return createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+}
+
+interface ConsumedKey {
+  status: "ok" | "invalid" | "forbidden" | "rate_limited" | "quota_exceeded";
+  key_id: string | null;
+  user_id: string | null;
+  org_id: string | null;
+  rate_limit: number | null;
+  rate_remaining: number | null;
+  monthly_quota: number | null;
+  quota_remaining: number | null;
+  retry_after: number | null;
+}
+
+async function authenticateApiKey(
+  apiKey: string,
+  functionName: string,
+): Promise<Caller | Response> {
+  const { data, error } = await createServiceClient().rpc("consume_api_key", {
+    key_hash: await hashApiKey(apiKey),
+    function_name: functionName,
+  });
+
+  if (error) return errorResponse(500, `API key check failed: ${error.message}`);
+
+  const key: ConsumedKey = data[0];
+  const limitHeaders: Record<string, string> = key.rate_limit === null ? {} : {
+    "X-RateLimit-Limit": String(key.rate_limit),
+    "X-RateLimit-Remaining": String(key.rate_remaining),
+    ...(key.monthly_quota === null ? {} : {
+      "X-Quota-Limit": String(key.monthly_quota),
+      "X-Quota-Remaining": String(key.quota_remaining),
+    }),
+  };
+
+  switch (key.status) {
+    case "invalid":
+      return errorResponse(401, "Invalid, expired or revoked API key", "invalid_api_key");
+    case "forbidden":
+      return errorResponse(403, `This API key is not allowed to call ${functionName}`);
+    case "rate_limited":
+      return errorResponse(429, "Rate limit exceeded", "rate_limited", undefined, {
+        ...limitHeaders,
+        "Retry-After": String(key.retry_after),
+      });
+    case "quota_exceeded":
+      return errorResponse(429, "Monthly quota exceeded", "quota_exceeded", undefined, {
+        ...limitHeaders,
+        "Retry-After": String(key.retry_after),
+      });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const token = await signJwt({
+    sub: key.user_id,
+    role: "authenticated",
+    aud: "authenticated",
+    org_id: key.org_id,
+    api_key_id: key.key_id,
+    iat: now,
+    exp: now + API_KEY_TOKEN_SECONDS,
+  });
+
+  return { kind: "api_key", userId: key.user_id, apiKeyId: key.key_id, client: clientFor(token) };
+}
+
+/**
+ * Identify the caller of an edge function from an `X-API-Key` header or an
+ * `Authorization: Bearer` token. Requests made with an API key are counted against the
+ * key's rate limit and monthly quota. Returns the caller, or the 401/403/429 response to
+ * send when the request is not allowed.
+ */
+export async function authenticate(
+  req: Request,
+  functionName: string,
+  { allow = ["user", "api_key"] }: AuthOptions = {},
+): Promise<Caller | Response> {
+  const apiKey = req.headers.get("X-API-Key");
+
+  if (apiKey) {
+    if (!allow.includes("api_key")) {
+      return errorResponse(403, `API keys cannot be used to call ${functionName}`);
+    }
+    return authenticateApiKey(apiKey, functionName);
+  }
+
+  const token = req.headers.get("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1] ?? null;
+
+  if (token && token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+    if (!allow.includes("service_role")) {
+      return errorResponse(401, "Use a user token or an API key to call this function");
+    }
+    return { kind: "service_role", userId: null, apiKeyId: null, client: createServiceClient() };
+  }
+
+  // Clients without a session send the anon key as their token
+  if (!token || token === Deno.env.get("SUPABASE_ANON_KEY")) {
+    if (!allow.includes("anonymous")) {
+      return errorResponse(401, "Authentication required: send a user token or an API key");
+    }
+    return {
+      kind: "anonymous",
+      userId: null,
+      apiKeyId: null,
+      client: createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!),
+    };
+  }
+
+  if (!allow.includes("user")) {
+    return errorResponse(401, "This function only accepts the service role key");
+  }
+
+  const client = clientFor(token);
+  const { data: { user } } = await client.auth.getUser();
+
+  if (!user) return errorResponse(401, "Invalid or expired token");
+
+  return { kind: "user", userId: user.id, apiKeyId: null, client };
+}
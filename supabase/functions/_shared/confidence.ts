@@ -0,0 +1,210 @@
+import { type AddressComponents, distanceM, type GeocodeResult } from "./geocoding.ts";
+import { isAddressKeyword, keyOf } from "./mn-address.ts";
+
+// Bump when the scoring changes, so stored scores can be told apart and recomputed
+export const CONFIDENCE_VERSION = 2;
+
+export interface ConfidenceFactor {
+  factor: "text_match" | "precision" | "extent" | "distance" | "verified";
+  score: number; // 0..1
+  weight: number; // share of the final score
+  detail: string;
+}
+
+export interface Confidence {
+  score: number;
+  breakdown: ConfidenceFactor[];
+}
+
+const FORWARD_WEIGHTS = { text_match: 0.5, precision: 0.3, extent: 0.2 };
+const REVERSE_WEIGHTS = { distance: 0.6, precision: 0.4 };
+
+// Score by place kind, for providers that report a type but no rank
+const TYPE_PRECISION: Record<string, number> = {
+  house: 1,
+  building: 1,
+  amenity: 0.95,
+  street: 0.8,
+  road: 0.8,
+  locality: 0.65,
+  neighbourhood: 0.65,
+  suburb: 0.6,
+  district: 0.55,
+  city_district: 0.55,
+  quarter: 0.6,
+  village: 0.5,
+  town: 0.45,
+  city: 0.45,
+  county: 0.3,
+  state: 0.2,
+  country: 0.05,
+};
+
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+const clamp = (n: number) => Math.min(1, Math.max(0, n));
+
+function tokens(text: string): string[] {
+  return keyOf(text.normalize("NFKC"))
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((t) => t !== "");
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// Best similarity of a query token among the result's tokens
+function tokenMatch(token: string, candidates: Set<string>): number {
+  if (candidates.has(token)) return 1;
+  if (/^\d/.test(token)) return 0; // numbers must match exactly
+
+  let best = 0;
+  for (const c of candidates) {
+    if (token.length >= 3 && c.startsWith(token)) best = Math.max(best, 0.9);
+    const similarity = 1 - levenshtein(token, c) / Math.max(token.length, c.length);
+    if (similarity >= 0.75) best = Math.max(best, similarity);
+  }
+  return best;
+}
+
+function resultTokens(result: GeocodeResult): Set<string> {
+  const { display_name, address } = result;
+  return new Set(tokens([display_name, ...Object.values(address)].filter(Boolean).join(" ")));
+}
+
+// Share of the query's words found in the result. Address keywords ("дүүрэг", "khoroo")
+// are ignored and numbers count half, since providers rarely echo either.
+function textMatch(query: string, result: GeocodeResult): { score: number; detail: string } {
+  const words = query.split(/[\s,;.]+/).filter((w) => w !== "" && !isAddressKeyword(w));
+  const queryTokens = tokens(words.join(" "));
+  if (queryTokens.length === 0) return { score: 0, detail: "no searchable words in the query" };
+
+  const candidates = resultTokens(result);
+  let total = 0;
+  let matched = 0;
+  let found = 0;
+
+  for (const token of queryTokens) {
+    const weight = /^\d/.test(token) ? 0.5 : 1;
+    const similarity = tokenMatch(token, candidates);
+    total += weight;
+    matched += weight * similarity;
+    if (similarity > 0) found++;
+  }
+
+  return {
+    score: matched / total,
+    detail: `${found} of ${queryTokens.length} query words found in the result`,
+  };
+}
+
+function fieldPrecision(address: AddressComponents): { score: number; level: string } {
+  if (address.house_number) return { score: 1, level: "house number" };
+  if (address.road) return { score: 0.8, level: "street" };
+  if (address.city) return { score: 0.45, level: "city" };
+  if (address.state) return { score: 0.2, level: "state" };
+  return { score: 0.05, level: "country" };
+}
+
+// How specific the matched place is: a house beats a street beats a city
+function precision(result: GeocodeResult): { score: number; detail: string } {
+  const { place_rank, place_type } = result;
+
+  if (typeof place_rank === "number") {
+    return {
+      score: clamp(place_rank / 30),
+      detail: `place rank ${place_rank}${place_type ? ` (${place_type})` : ""}`,
+    };
+  }
+
+  if (place_type && TYPE_PRECISION[place_type] !== undefined) {
+    return { score: TYPE_PRECISION[place_type], detail: `matched a ${place_type}` };
+  }
+
+  const { score, level } = fieldPrecision(result.address);
+  return { score, detail: `resolved to ${level} level` };
+}
+
+// Smaller bounding boxes locate the address more tightly: 100 m scores 1, 100 km scores 0
+function extent(result: GeocodeResult): { score: number; detail: string } | null {
+  if (!result.bbox) return null;
+
+  const [minLon, minLat, maxLon, maxLat] = result.bbox;
+  const diagonal = distanceM(minLat, minLon, maxLat, maxLon);
+  const km = diagonal >= 1000 ? `${round(diagonal / 1000, 1)} km` : `${Math.round(diagonal)} m`;
+  return {
+    score: clamp(1 - Math.log10(Math.max(diagonal, 100) / 100) / 3),
+    detail: `bounding box ${km} across`,
+  };
+}
+
+// Weighted mean of the factors that could be evaluated
+function combine(factors: ConfidenceFactor[]): Confidence {
+  const totalWeight = factors.reduce((sum, f) => sum + f.weight, 0);
+  const breakdown = factors.map((f) => ({
+    ...f,
+    score: round(f.score),
+    weight: round(f.weight / totalWeight),
+  }));
+  const score = factors.reduce((sum, f) => sum + f.score * f.weight, 0) / totalWeight;
+  return { score: round(score), breakdown };
+}
+
+/**
+ * Confidence that a forward geocoding result matches the query. Compares the query with
+ * the result's text, and weighs how specific the matched place is and the size of its
+ * bounding box. Only the result itself is scored, so a cached answer, a batch row and a
+ * recomputation score the same; without a bbox the remaining weights are rescaled.
+ */
+export function scoreForward(query: string, result: GeocodeResult): Confidence {
+  const text = textMatch(query, result);
+  const box = extent(result);
+
+  return combine([
+    { factor: "text_match", weight: FORWARD_WEIGHTS.text_match, ...text },
+    { factor: "precision", weight: FORWARD_WEIGHTS.precision, ...precision(result) },
+    ...(box ? [{ factor: "extent" as const, weight: FORWARD_WEIGHTS.extent, ...box }] : []),
+  ]);
+}
+
+/**
+ * Confidence of a reverse geocoding result: how close the matched place is to the
+ * requested point (10 m scores 1, 2 km scores 0) and how specific it is.
+ */
+export function scoreReverse(
+  point: { lat: number; lon: number } | null,
+  result: GeocodeResult,
+): Confidence {
+  const factors: ConfidenceFactor[] = [];
+
+  if (point) {
+    const d = distanceM(point.lat, point.lon, result.lat, result.lon);
+    factors.push({
+      factor: "distance",
+      weight: REVERSE_WEIGHTS.distance,
+      score: clamp(1 - Math.log10(Math.max(d, 10) / 10) / Math.log10(200)),
+      detail: `matched place is ${Math.round(d)} m from the point`,
+    });
+  }
+
+  factors.push({ factor: "precision", weight: REVERSE_WEIGHTS.precision, ...precision(result) });
+  return combine(factors);
+}
+
+/** Confidence of a location verified by hand, which always scores 1. */
+export function verifiedConfidence(detail = "location verified manually"): Confidence {
+  return { score: 1, breakdown: [{ factor: "verified", score: 1, weight: 1, detail }] };
+}
+
+// Stored under geo_registry.metadata.confidence next to confidence_score
+export function confidenceMetadata({ breakdown }: Confidence) {
+  return { version: CONFIDENCE_VERSION, breakdown };
+}
@@ -1,4 +1,8 @@
 export const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers":
+    "authorization, x-api-key, x-request-id, x-client-info, apikey, content-type",
+  "Access-Control-Expose-Headers":
+    "x-request-id, retry-after, x-ratelimit-limit, x-ratelimit-remaining, x-quota-limit, " +
+    "x-quota-remaining",
 };
@@ -0,0 +1,232 @@
+import { csvLine } from "./csv.ts";
+
+export type ExportFormat = "geojson" | "csv" | "kml" | "gpx";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["geojson", "csv", "kml", "gpx"];
+
+export interface RegistryExportRow {
+  id: string;
+  raw_address: string;
+  standardized_address: Record<string, unknown> | null;
+  lon: number;
+  lat: number;
+  source: string | null;
+  confidence_score: number | null;
+  metadata: Record<string, unknown>;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface GeofenceExportRow {
+  id: string;
+  name: string;
+  description: string | null;
+  metadata: Record<string, unknown>;
+  boundary: string; // GeoJSON Polygon or MultiPolygon
+  boundary_wkt: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Streams one dataset in one format: header, one chunk per row, footer
+export interface ExportWriter<T> {
+  contentType: string;
+  extension: string;
+  header(): string;
+  row(row: T, index: number): string;
+  footer(): string;
+}
+
+type Ring = [number, number][];
+
+function escapeXml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Polygons of a GeoJSON Polygon / MultiPolygon as lists of rings
+function polygonsOf(geojson: string): Ring[][] {
+  const geometry = JSON.parse(geojson);
+  return geometry.type === "MultiPolygon" ? geometry.coordinates : [geometry.coordinates];
+}
+
+function kmlData(fields: Record<string, unknown>): string {
+  const data = Object.entries(fields)
+    .filter(([, v]) => v !== null && v !== undefined)
+    .map(([k, v]) =>
+      `<Data name="${escapeXml(k)}"><value>${
+        escapeXml(typeof v === "object" ? JSON.stringify(v) : v)
+      }</value></Data>`
+    )
+    .join("");
+  return `<ExtendedData>${data}</ExtendedData>`;
+}
+
+function kmlRing(ring: Ring): string {
+  return `<LinearRing><coordinates>${
+    ring.map(([lon, lat]) => `${lon},${lat}`).join(" ")
+  }</coordinates></LinearRing>`;
+}
+
+function kmlPolygon([outer, ...holes]: Ring[]): string {
+  const inner = holes.map((h) => `<innerBoundaryIs>${kmlRing(h)}</innerBoundaryIs>`).join("");
+  return `<Polygon><outerBoundaryIs>${kmlRing(outer)}</outerBoundaryIs>${inner}</Polygon>`;
+}
+
+const KML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>\n';
+const KML_FOOTER = "</Document></kml>\n";
+
+const GPX_HEADER = '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<gpx version="1.1" creator="map.gerege.ai" xmlns="http://www.topografix.com/GPX/1/1">\n';
+const GPX_FOOTER = "</gpx>\n";
+
+const REGISTRY_CSV_COLUMNS = [
+  "id",
+  "raw_address",
+  "formatted",
+  "lat",
+  "lon",
+  "source",
+  "confidence_score",
+  "created_by",
+  "created_at",
+];
+
+function registryProperties(r: RegistryExportRow) {
+  return {
+    id: r.id,
+    raw_address: r.raw_address,
+    standardized_address: r.standardized_address,
+    source: r.source,
+    confidence_score: r.confidence_score,
+    metadata: r.metadata,
+    created_by: r.created_by,
+    created_at: r.created_at,
+  };
+}
+
+function geofenceProperties(f: GeofenceExportRow) {
+  return {
+    id: f.id,
+    name: f.name,
+    description: f.description,
+    metadata: f.metadata,
+    created_by: f.created_by,
+    created_at: f.created_at,
+  };
+}
+
+export const registryWriters: Record<ExportFormat, ExportWriter<RegistryExportRow>> = {
+  geojson: {
+    contentType: "application/geo+json",
+    extension: "geojson",
+    header: () => '{"type":"FeatureCollection","features":[\n',
+    row: (r, i) =>
+      (i > 0 ? ",\n" : "") + JSON.stringify({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [r.lon, r.lat] },
+        properties: registryProperties(r),
+      }),
+    footer: () => "\n]}\n",
+  },
+  csv: {
+    contentType: "text/csv; charset=utf-8",
+    extension: "csv",
+    header: () => csvLine(REGISTRY_CSV_COLUMNS),
+    row: (r) =>
+      csvLine([
+        r.id,
+        r.raw_address,
+        r.standardized_address?.formatted,
+        r.lat,
+        r.lon,
+        r.source,
+        r.confidence_score,
+        r.created_by,
+        r.created_at,
+      ]),
+    footer: () => "",
+  },
+  kml: {
+    contentType: "application/vnd.google-earth.kml+xml",
+    extension: "kml",
+    header: () => KML_HEADER,
+    row: (r) =>
+      `<Placemark><name>${escapeXml(r.raw_address)}</name>` +
+      kmlData(registryProperties(r)) +
+      `<Point><coordinates>${r.lon},${r.lat}</coordinates></Point></Placemark>\n`,
+    footer: () => KML_FOOTER,
+  },
+  gpx: {
+    contentType: "application/gpx+xml",
+    extension: "gpx",
+    header: () => GPX_HEADER,
+    row: (r) =>
+      `<wpt lat="${r.lat}" lon="${r.lon}"><time>${new Date(r.created_at).toISOString()}</time>` +
+      `<name>${escapeXml(r.raw_address)}</name>` +
+      `<desc>${escapeXml(r.standardized_address?.formatted ?? "")}</desc>` +
+      `<src>${escapeXml(r.source ?? "")}</src></wpt>\n`,
+    footer: () => GPX_FOOTER,
+  },
+};
+
+export const geofenceWriters: Record<ExportFormat, ExportWriter<GeofenceExportRow>> = {
+  geojson: {
+    contentType: "application/geo+json",
+    extension: "geojson",
+    header: () => '{"type":"FeatureCollection","features":[\n',
+    row: (f, i) =>
+      (i > 0 ? ",\n" : "") + JSON.stringify({
+        type: "Feature",
+        geometry: JSON.parse(f.boundary),
+        properties: geofenceProperties(f),
+      }),
+    footer: () => "\n]}\n",
+  },
+  csv: {
+    contentType: "text/csv; charset=utf-8",
+    extension: "csv",
+    // A WKT geometry column is picked up directly by QGIS "Delimited Text" layers
+    header: () => csvLine(["id", "name", "description", "wkt", "created_by", "created_at"]),
+    row: (f) => csvLine([f.id, f.name, f.description, f.boundary_wkt, f.created_by, f.created_at]),
+    footer: () => "",
+  },
+  kml: {
+    contentType: "application/vnd.google-earth.kml+xml",
+    extension: "kml",
+    header: () => KML_HEADER,
+    row: (f) => {
+      const polygons = polygonsOf(f.boundary).map(kmlPolygon);
+      const geometry = polygons.length === 1
+        ? polygons[0]
+        : `<MultiGeometry>${polygons.join("")}</MultiGeometry>`;
+      return `<Placemark><name>${escapeXml(f.name)}</name>` +
+        `<description>${escapeXml(f.description ?? "")}</description>` +
+        kmlData(geofenceProperties(f)) + geometry + "</Placemark>\n";
+    },
+    footer: () => KML_FOOTER,
+  },
+  gpx: {
+    contentType: "application/gpx+xml",
+    extension: "gpx",
+    header: () => GPX_HEADER,
+    // GPX has no polygons: each outer ring becomes a closed track segment
+    row: (f) => {
+      const segments = polygonsOf(f.boundary)
+        .map(([outer]) =>
+          "<trkseg>" +
+          outer.map(([lon, lat]) => `<trkpt lat="${lat}" lon="${lon}"/>`).join("") +
+          "</trkseg>"
+        )
+        .join("");
+      return `<trk><name>${escapeXml(f.name)}</name>` +
+        `<desc>${escapeXml(f.description ?? "")}</desc>${segments}</trk>\n`;
+    },
+    footer: () => GPX_FOOTER,
+  },
+};
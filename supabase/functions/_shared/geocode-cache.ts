@@ -0,0 +1,162 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { GeocodeResult } from "./geocoding.ts";
+
+const DEFAULT_TTL_HOURS = 720; // 30 days
+
+export interface CachedGeocode {
+  result: GeocodeResult | null;
+  registry_id: string | null;
+}
+
+// Mirrors the normalize_address() SQL function used for geo_registry.normalized_address
+export function normalizeAddress(address: string): string {
+  return address.normalize("NFKC").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function ttlMs(): number {
+  const hours = Number(Deno.env.get("GEOCODE_CACHE_TTL_HOURS") ?? DEFAULT_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS) * 3600_000;
+}
+
+// Fetch unexpired cache entries for the given normalized addresses
+export async function lookupCached(
+  client: SupabaseClient,
+  provider: string,
+  keys: string[],
+): Promise<Map<string, CachedGeocode>> {
+  const cached = new Map<string, CachedGeocode>();
+  if (keys.length === 0) return cached;
+
+  const { data, error } = await client
+    .from("geocode_cache")
+    .select("normalized_address, result, registry_id")
+    .eq("provider", provider)
+    .in("normalized_address", [...new Set(keys)])
+    .gt("expires_at", new Date().toISOString());
+
+  if (error) throw new Error(`Geocode cache lookup failed: ${error.message}`);
+
+  for (const row of data ?? []) {
+    cached.set(row.normalized_address, { result: row.result, registry_id: row.registry_id });
+  }
+  return cached;
+}
+
+// Insert or refresh cache entries; a null result records a "not found" answer
+export async function storeCached(
+  client: SupabaseClient,
+  provider: string,
+  entries: { key: string; result: GeocodeResult | null; registry_id?: string | null }[],
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const expires_at = new Date(Date.now() + ttlMs()).toISOString();
+  const rows = new Map(
+    entries.map((e) => [e.key, {
+      normalized_address: e.key,
+      provider,
+      result: e.result,
+      registry_id: e.registry_id ?? null,
+      expires_at,
+    }]),
+  );
+
+  const { error } = await client
+    .from("geocode_cache")
+    .upsert([...rows.values()], { onConflict: "normalized_address,provider" });
+
+  if (error) throw new Error(`Geocode cache write failed: ${error.message}`);
+}
+
+// Point cache entries at the geo_registry row created from them
+export async function linkCachedRow(
+  client: SupabaseClient,
+  provider: string,
+  key: string,
+  registry_id: string,
+): Promise<void> {
+  await client
+    .from("geocode_cache")
+    .update({ registry_id })
+    .eq("provider", provider)
+    .eq("normalized_address", key);
+}
+
+// Existing geo_registry rows of an organization for the given normalized addresses (best
+// confidence wins)
+export async function findExistingRows(
+  client: SupabaseClient,
+  keys: string[],
+  orgId: string | null,
+): Promise<Map<string, Record<string, unknown>>> {
+  const existing = new Map<string, Record<string, unknown>>();
+  if (keys.length === 0) return existing;
+
+  let query = client
+    .from("geo_registry")
+    .select()
+    .in("normalized_address", [...new Set(keys)])
+    .is("deleted_at", null);
+  query = orgId ? query.eq("org_id", orgId) : query.is("org_id", null);
+
+  const { data, error } = await query
+    .order("confidence_score", { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: true });
+
+  if (error) throw new Error(`Registry lookup failed: ${error.message}`);
+
+  for (const row of data ?? []) {
+    if (!existing.has(row.normalized_address)) existing.set(row.normalized_address, row);
+  }
+  return existing;
+}
+
+// Source of entries whose location was verified by hand
+export const VERIFIED_SOURCE = "manual_verified";
+
+export interface VerifiedCorrection {
+  registry_id: string;
+  result: GeocodeResult;
+}
+
+// An organization's verified corrections for the given normalized addresses, ignoring
+// deleted entries
+export async function lookupCorrections(
+  client: SupabaseClient,
+  keys: string[],
+  orgId: string | null,
+): Promise<Map<string, VerifiedCorrection>> {
+  const corrections = new Map<string, VerifiedCorrection>();
+  if (keys.length === 0 || !orgId) return corrections;
+
+  const { data, error } = await client
+    .from("geocode_corrections")
+    .select("normalized_address, registry_id, lat, lon, standardized_address, geo_registry!inner()")
+    .eq("org_id", orgId)
+    .in("normalized_address", [...new Set(keys)])
+    .is("geo_registry.deleted_at", null);
+
+  if (error) throw new Error(`Correction lookup failed: ${error.message}`);
+
+  for (const row of data ?? []) {
+    const std = row.standardized_address ?? {};
+    corrections.set(row.normalized_address, {
+      registry_id: row.registry_id,
+      result: {
+        lat: row.lat,
+        lon: row.lon,
+        display_name: std.formatted ?? row.normalized_address,
+        address: {
+          house_number: std.house_number ?? undefined,
+          road: std.road ?? undefined,
+          city: std.city ?? undefined,
+          state: std.state ?? undefined,
+          postcode: std.postcode ?? undefined,
+          country: std.country ?? undefined,
+          country_code: std.country_code ?? undefined,
+        },
+      },
+    });
+  }
+  return corrections;
+}
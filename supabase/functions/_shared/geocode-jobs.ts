@@ -0,0 +1,76 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const MAX_JOB_SIZE = 10000;
+const INSERT_CHUNK_SIZE = 1000;
+
+export interface NewGeocodeJob {
+  addresses: unknown[];
+  source?: string | null;
+  reuse_existing?: boolean;
+  created_by: string | null;
+  // Never null: the worker looks up reusable rows in the job's organization, which must be
+  // the one its rows are inserted into
+  org_id: string;
+}
+
+/**
+ * Queue an asynchronous geocoding job for the geocode-worker. Item positions
+ * follow the order of `addresses`; invalid entries are recorded as failed up
+ * front. The job stays 'submitting', where the worker cannot claim it, until
+ * all its items are inserted. Must be called with the service role client.
+ */
+export async function createGeocodeJob(
+  serviceClient: SupabaseClient,
+  { addresses, source, reuse_existing = false, created_by, org_id }: NewGeocodeJob,
+): Promise<Record<string, unknown>> {
+  const { data: job, error } = await serviceClient
+    .from("geocode_jobs")
+    .insert({
+      status: "submitting",
+      source: source ?? null,
+      reuse_existing,
+      total: addresses.length,
+      created_by,
+      org_id,
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+
+  const items = addresses.map((address, position) =>
+    typeof address === "string" && address.trim() !== "" ? { job_id: job.id, position, address } : {
+      job_id: job.id,
+      position,
+      address: String(address ?? ""),
+      status: "error",
+      error: "Invalid address string",
+      processed_at: new Date().toISOString(),
+    }
+  );
+
+  for (let i = 0; i < items.length; i += INSERT_CHUNK_SIZE) {
+    const { error: itemsError } = await serviceClient
+      .from("geocode_job_items")
+      .insert(items.slice(i, i + INSERT_CHUNK_SIZE));
+
+    if (itemsError) {
+      await serviceClient.from("geocode_jobs").delete().eq("id", job.id);
+      throw new Error(itemsError.message);
+    }
+  }
+
+  const { data: queued, error: queueError } = await serviceClient
+    .from("geocode_jobs")
+    .update({ status: "queued" })
+    .eq("id", job.id)
+    .select()
+    .single();
+
+  if (queueError) {
+    await serviceClient.from("geocode_jobs").delete().eq("id", job.id);
+    throw new Error(queueError.message);
+  }
+
+  return queued;
+}
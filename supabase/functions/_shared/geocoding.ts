@@ -0,0 +1,146 @@
+// Address components every provider maps its native response onto
+export interface AddressComponents {
+  house_number?: string;
+  road?: string;
+  city?: string;
+  state?: string;
+  postcode?: string;
+  country?: string;
+  country_code?: string;
+}
+
+// [min_lon, min_lat, max_lon, max_lat]
+export type BBox = [number, number, number, number];
+
+export interface GeocodeResult {
+  lat: number;
+  lon: number;
+  display_name: string;
+  address: AddressComponents;
+  bbox?: BBox;
+  /** Provider relevance in 0..1 where available */
+  importance?: number;
+  /** Address rank on Nominatim's 0..30 scale (30 = house), where available */
+  place_rank?: number;
+  /** Kind of place matched, e.g. "house", "street", "city" */
+  place_type?: string;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  /** Prefer results inside this box; restrict to it when `bounded` is set */
+  viewbox?: BBox;
+  bounded?: boolean;
+  /** ISO 3166-1 alpha-2 codes, lowercase */
+  country_codes?: string[];
+}
+
+export interface BatchItem {
+  address: string;
+  result: GeocodeResult | null;
+  error?: string;
+}
+
+export interface GeocodingProvider {
+  /** Identifier recorded in geo_registry.source / metadata.provider */
+  readonly name: string;
+  /** Minimum delay between consecutive upstream requests */
+  readonly delayMs: number;
+  search(query: string, options?: SearchOptions): Promise<GeocodeResult[]>;
+  reverse(lat: number, lon: number): Promise<GeocodeResult | null>;
+  batch(queries: string[]): Promise<BatchItem[]>;
+}
+
+// Thrown when the upstream geocoding service fails (mapped to 502 by callers)
+export class GeocodingProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GeocodingProviderError";
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Geocode addresses one by one, waiting `delayMs` between upstream calls
+export async function sequentialBatch(
+  provider: GeocodingProvider,
+  queries: string[],
+): Promise<BatchItem[]> {
+  const items: BatchItem[] = [];
+
+  for (let i = 0; i < queries.length; i++) {
+    const address = queries[i];
+    try {
+      if (i > 0 && provider.delayMs > 0) await sleep(provider.delayMs);
+      const [top] = await provider.search(address, { limit: 1 });
+      items.push({ address, result: top ?? null });
+    } catch (err) {
+      const error = err instanceof GeocodingProviderError
+        ? "Geocoding service request failed"
+        : "Unexpected geocoding failure";
+      items.push({ address, result: null, error });
+    }
+  }
+
+  return items;
+}
+
+// Great-circle distance in meters
+export function distanceM(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLon = (lon2 - lon1) * rad;
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLon / 2) ** 2;
+  return 6371008.8 * 2 * Math.asin(Math.sqrt(a));
+}
+
+export function inBBox(result: GeocodeResult, [minLon, minLat, maxLon, maxLat]: BBox): boolean {
+  return result.lon >= minLon && result.lon <= maxLon && result.lat >= minLat &&
+    result.lat <= maxLat;
+}
+
+// Apply the viewbox / country filters for providers that cannot do it upstream
+export function filterResults(results: GeocodeResult[], options: SearchOptions): GeocodeResult[] {
+  const { viewbox, bounded, country_codes } = options;
+  return results.filter((r) =>
+    (!bounded || !viewbox || inBBox(r, viewbox)) &&
+    (!country_codes?.length || country_codes.includes(r.address.country_code ?? ""))
+  );
+}
+
+/**
+ * Re-rank provider results towards a proximity point. Provider order and
+ * closeness are weighted equally; closeness halves every 25 km.
+ */
+export function rankByProximity(
+  results: GeocodeResult[],
+  point: { lat: number; lon: number },
+): (GeocodeResult & { distance_m: number })[] {
+  return results
+    .map((r, i) => {
+      const distance_m = distanceM(point.lat, point.lon, r.lat, r.lon);
+      const relevance = 1 - i / results.length;
+      const closeness = 1 / (1 + distance_m / 25000);
+      return { result: { ...r, distance_m }, score: relevance + closeness };
+    })
+    .sort((a, b) => b.score - a.score)
+    .map((s) => s.result);
+}
+
+// Build the standardized_address jsonb stored in geo_registry
+export function buildStandardized(result: GeocodeResult) {
+  const { address } = result;
+  return {
+    house_number: address.house_number ?? null,
+    road: address.road ?? null,
+    city: address.city ?? null,
+    state: address.state ?? null,
+    postcode: address.postcode ?? null,
+    country: address.country ?? null,
+    country_code: address.country_code ?? null,
+    formatted: result.display_name,
+  };
+}
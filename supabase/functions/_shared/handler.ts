@@ -0,0 +1,127 @@
+import { authenticate, type AuthOptions, type Caller } from "./auth.ts";
+import { corsHeaders } from "./cors.ts";
+import { ApiError, errorCode, errorResponse } from "./http.ts";
+import { type Schema, validate } from "./schema.ts";
+
+export interface Parameter {
+  name: string;
+  in: "path" | "query";
+  required?: boolean;
+  description?: string;
+  schema: Schema;
+}
+
+// What a function accepts, used both to check requests and to document them
+export interface FunctionSpec {
+  name: string;
+  summary: string;
+  description?: string;
+  method?: "GET" | "POST"; // default POST
+  path?: string; // OpenAPI path, default /<name>
+  auth?: AuthOptions;
+  request?: Schema; // JSON body; the body of functions without one is ignored
+  parameters?: Parameter[];
+}
+
+export interface RequestContext {
+  req: Request;
+  caller: Caller;
+  requestId: string;
+}
+
+type Handler<T> = (payload: T, context: RequestContext) => Response | Promise<Response>;
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Callers may pass their own X-Request-Id to correlate logs across services
+function requestIdOf(req: Request): string {
+  const given = req.headers.get("X-Request-Id");
+  return given && REQUEST_ID_PATTERN.test(given) ? given : crypto.randomUUID();
+}
+
+async function handle<T>(
+  spec: FunctionSpec,
+  handler: Handler<T>,
+  req: Request,
+  requestId: string,
+): Promise<Response> {
+  const method = spec.method ?? "POST";
+  if (req.method !== method) return errorResponse(405, `Use ${method} to call ${spec.name}`);
+
+  const caller = await authenticate(req, spec.name, spec.auth);
+  if (caller instanceof Response) return caller;
+
+  let payload: unknown;
+  if (spec.request) {
+    try {
+      payload = await req.json();
+    } catch {
+      return errorResponse(400, "Request body must be valid JSON", "invalid_json");
+    }
+
+    const issues = validate(spec.request, payload);
+    if (issues.length) return errorResponse(400, issues[0].message, "validation_failed", issues);
+  }
+
+  return await handler(payload as T, { req, caller, requestId });
+}
+
+function fromException(err: unknown): Response {
+  if (err instanceof ApiError) {
+    return errorResponse(err.status, err.message, err.code, err.details);
+  }
+  return errorResponse(500, err instanceof Error ? err.message : String(err));
+}
+
+// Every response carries the request id, error bodies as `request_id` too. Messages of
+// internal errors are logged rather than returned, as they may expose database details.
+async function finalize(response: Response, name: string, requestId: string) {
+  const headers = new Headers(response.headers);
+  headers.set("X-Request-Id", requestId);
+
+  const isJson = headers.get("Content-Type")?.includes("application/json");
+  if (response.status < 400 || !isJson) {
+    return new Response(response.body, { status: response.status, headers });
+  }
+
+  const body = await response.json();
+  const envelope = {
+    ...body,
+    error: typeof body?.error === "string" ? body.error : "Request failed",
+    code: body?.code ?? errorCode(response.status),
+  };
+
+  if (envelope.code === "internal_error") {
+    console.error(`[${name}] ${requestId}: ${envelope.error}`);
+    envelope.error = "Internal server error";
+  }
+
+  return new Response(JSON.stringify({ ...envelope, request_id: requestId }), {
+    status: response.status,
+    headers,
+  });
+}
+
+/**
+ * Serve an edge function: answers CORS preflights, assigns a request id, authenticates
+ * the caller, parses and validates the JSON body against `spec.request`, and turns
+ * errors into the `{ error, code, details?, request_id }` envelope.
+ */
+export function serve<T = unknown>(spec: FunctionSpec, handler: Handler<T>) {
+  Deno.serve(async (req) => {
+    if (req.method === "OPTIONS") {
+      return new Response("ok", { headers: corsHeaders });
+    }
+
+    const requestId = requestIdOf(req);
+    let response: Response;
+
+    try {
+      response = await handle(spec, handler, req, requestId);
+    } catch (err) {
+      response = fromException(err);
+    }
+
+    return await finalize(response, spec.name, requestId);
+  });
+}
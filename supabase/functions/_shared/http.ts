@@ -0,0 +1,58 @@
+import { corsHeaders } from "./cors.ts";
+
+// Machine-readable `code` of error responses that do not set a more specific one
+export const ERROR_CODES: Record<number, string> = {
+  400: "invalid_request",
+  401: "unauthenticated",
+  403: "forbidden",
+  404: "not_found",
+  405: "method_not_allowed",
+  409: "conflict",
+  410: "gone",
+  429: "rate_limited",
+  500: "internal_error",
+  502: "upstream_error",
+};
+
+export function errorCode(status: number): string {
+  return ERROR_CODES[status] ?? (status >= 500 ? "internal_error" : "invalid_request");
+}
+
+/**
+ * Error with an HTTP status, thrown from handlers and shared helpers. The request
+ * pipeline turns it into the error envelope; other exceptions become a 500 whose
+ * message is only logged.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code = errorCode(status),
+    readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+}
+
+// Error envelope: `{ error, code, details? }`; the pipeline adds `request_id`
+export function errorResponse(
+  status: number,
+  message: string,
+  code = errorCode(status),
+  details?: unknown,
+  headers: Record<string, string> = {},
+) {
+  return jsonResponse(
+    { error: message, code, ...(details !== undefined ? { details } : {}) },
+    status,
+    headers,
+  );
+}
@@ -0,0 +1,426 @@
+import { transliterate } from "./transliteration.ts";
+
+/**
+ * Components of a Mongolian address. Numbers are kept as strings since building and
+ * door numbers may carry letters ("45а", "12/2"). Recognized districts, aimags and
+ * cities use their canonical Cyrillic names; other names keep the input spelling.
+ */
+export interface ParsedAddress {
+  city: string | null;
+  aimag: string | null; // province
+  sum: string | null; // rural district of an aimag
+  district: string | null; // düüreg of Ulaanbaatar
+  khoroo: string | null; // subdistrict number
+  bag: string | null; // subdivision of a sum
+  microdistrict: string | null; // numbered khoroolol
+  street: string | null;
+  building: string | null; // bair
+  entrance: string | null; // orts
+  floor: string | null; // davkhar
+  door: string | null; // toot
+  khashaa: string | null; // fenced plot number in ger districts
+  ger_district: boolean;
+  postcode: string | null;
+  unparsed: string | null; // text not attributed to any component, e.g. landmarks
+  script: "cyrillic" | "latin" | "mixed";
+  formatted: string;
+  latin: string;
+}
+
+type Field =
+  | "district"
+  | "khoroo"
+  | "microdistrict"
+  | "aimag"
+  | "sum"
+  | "bag"
+  | "building"
+  | "entrance"
+  | "floor"
+  | "door"
+  | "street"
+  | "khashaa";
+
+interface Token {
+  text: string; // as typed
+  key: string; // lowercased and romanized
+}
+
+interface Place {
+  name: string;
+  kind: "district" | "aimag" | "city";
+  variants: string[]; // romanized spellings, spaces and hyphens ignored
+}
+
+// Keywords by romanized spelling, covering Cyrillic input and common Latin spellings
+const KEYWORDS: Record<string, Field> = {
+  duureg: "district",
+  duuregt: "district",
+  duu: "district",
+  district: "district",
+  khoroo: "khoroo",
+  khorooi: "khoroo",
+  khoroony: "khoroo",
+  horoo: "khoroo",
+  khoroolol: "microdistrict",
+  horoolol: "microdistrict",
+  microdistrict: "microdistrict",
+  mkr: "microdistrict",
+  aimag: "aimag",
+  aimgiin: "aimag",
+  aimak: "aimag",
+  province: "aimag",
+  sum: "sum",
+  sumyn: "sum",
+  soum: "sum",
+  som: "sum",
+  bag: "bag",
+  bagiin: "bag",
+  bair: "building",
+  bairny: "building",
+  bayr: "building",
+  building: "building",
+  bldg: "building",
+  orts: "entrance",
+  ortz: "entrance",
+  entrance: "entrance",
+  davkhar: "floor",
+  davhar: "floor",
+  floor: "floor",
+  toot: "door",
+  tood: "door",
+  apt: "door",
+  apartment: "door",
+  door: "door",
+  gudamj: "street",
+  gudamjny: "street",
+  street: "street",
+  str: "street",
+  st: "street",
+  khashaa: "khashaa",
+  hashaa: "khashaa",
+};
+
+// One-letter abbreviations ("б.", "т.") only count next to a number or a known name
+const SHORT_KEYWORDS: Record<string, Field> = {
+  d: "district",
+  kh: "khoroo",
+  h: "khoroo",
+  b: "building",
+  t: "door",
+};
+
+const NUMBERED = new Set<Field>([
+  "khoroo",
+  "microdistrict",
+  "bag",
+  "building",
+  "entrance",
+  "floor",
+  "door",
+  "khashaa",
+]);
+const NAMED = new Set<Field>(["district", "aimag", "sum", "bag", "street"]);
+
+const PLACES: Place[] = [
+  { name: "Улаанбаатар", kind: "city", variants: ["ulaanbaatar", "ulanbator", "ulaanbator", "ub"] },
+  { name: "Дархан", kind: "city", variants: ["darkhan"] },
+  { name: "Эрдэнэт", kind: "city", variants: ["erdenet"] },
+  { name: "Баянгол", kind: "district", variants: ["bayangol", "bgd"] },
+  { name: "Баянзүрх", kind: "district", variants: ["bayanzurkh", "bzd"] },
+  { name: "Сүхбаатар", kind: "district", variants: ["sukhbaatar", "sbd"] },
+  { name: "Чингэлтэй", kind: "district", variants: ["chingeltei", "chingeltey", "chd"] },
+  { name: "Хан-Уул", kind: "district", variants: ["khanuul", "khud"] },
+  { name: "Сонгинохайрхан", kind: "district", variants: ["songinokhairkhan", "skhd", "shd"] },
+  { name: "Налайх", kind: "district", variants: ["nalaikh", "nd"] },
+  { name: "Багануур", kind: "district", variants: ["baganuur", "bnd"] },
+  { name: "Багахангай", kind: "district", variants: ["bagakhangai", "bkhd"] },
+  { name: "Архангай", kind: "aimag", variants: ["arkhangai"] },
+  { name: "Баян-Өлгий", kind: "aimag", variants: ["bayanolgii", "bayanulgii"] },
+  { name: "Баянхонгор", kind: "aimag", variants: ["bayankhongor"] },
+  { name: "Булган", kind: "aimag", variants: ["bulgan"] },
+  { name: "Говь-Алтай", kind: "aimag", variants: ["goviailtai", "govialtai", "gobialtai"] },
+  { name: "Говьсүмбэр", kind: "aimag", variants: ["govisumber", "govsumber"] },
+  { name: "Дархан-Уул", kind: "aimag", variants: ["darkhanuul"] },
+  { name: "Дорноговь", kind: "aimag", variants: ["dornogovi", "dornogobi"] },
+  { name: "Дорнод", kind: "aimag", variants: ["dornod"] },
+  { name: "Дундговь", kind: "aimag", variants: ["dundgovi", "dundgobi"] },
+  { name: "Завхан", kind: "aimag", variants: ["zavkhan"] },
+  { name: "Орхон", kind: "aimag", variants: ["orkhon"] },
+  { name: "Өвөрхангай", kind: "aimag", variants: ["ovorkhangai", "uvurkhangai"] },
+  { name: "Өмнөговь", kind: "aimag", variants: ["omnogovi", "umnugovi", "omnogobi"] },
+  { name: "Сүхбаатар", kind: "aimag", variants: ["sukhbaatar"] },
+  { name: "Сэлэнгэ", kind: "aimag", variants: ["selenge"] },
+  { name: "Төв", kind: "aimag", variants: ["tov", "tuv"] },
+  { name: "Увс", kind: "aimag", variants: ["uvs"] },
+  { name: "Ховд", kind: "aimag", variants: ["khovd"] },
+  { name: "Хөвсгөл", kind: "aimag", variants: ["khovsgol", "khuvsgul"] },
+  { name: "Хэнтий", kind: "aimag", variants: ["khentii", "khentiy"] },
+];
+
+const NUMBER = /^\d+[\p{L}]?(?:\/\d+)?$/u;
+const POSTCODE = /^\d{5}$/;
+
+// Lowercase, romanize and fold Latin spelling variants (ü, ö, h for kh)
+export function keyOf(text: string): string {
+  return transliterate(text.toLowerCase())
+    .replace(/ü/g, "u")
+    .replace(/ö/g, "o")
+    .replace(/kh/g, "h");
+}
+
+function placeKey(text: string): string {
+  return keyOf(text).replace(/[\s-]+/g, "");
+}
+
+const PLACE_INDEX = new Map<string, Place[]>();
+for (const place of PLACES) {
+  for (const variant of [place.name, ...place.variants]) {
+    const key = placeKey(variant);
+    const list = PLACE_INDEX.get(key) ?? [];
+    if (!list.includes(place)) list.push(place);
+    PLACE_INDEX.set(key, list);
+  }
+}
+
+function keyword(key: string): Field | undefined {
+  return KEYWORDS[key.replace(/h/g, "kh").replace(/kkh/g, "kh")] ?? KEYWORDS[key];
+}
+
+/** Whether a word is an address keyword such as "дүүрэг", "khoroo" or "б". */
+export function isAddressKeyword(word: string): boolean {
+  const key = keyOf(word);
+  return keyword(key) !== undefined || SHORT_KEYWORDS[key] !== undefined;
+}
+
+function detectScript(text: string): ParsedAddress["script"] {
+  const cyrillic = (text.match(/\p{Script=Cyrillic}/gu) ?? []).length;
+  const latin = (text.match(/\p{Script=Latin}/gu) ?? []).length;
+  if (cyrillic > 0 && latin > 0) return "mixed";
+  return cyrillic > 0 ? "cyrillic" : "latin";
+}
+
+function titleCase(words: string[]): string {
+  return words.map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
+}
+
+function tokenize(raw: string): Token[] {
+  const text = raw
+    .normalize("NFKC")
+    // "26-р", "26 дугаар", "3rd" -> "26", "3"
+    .replace(
+      /(\d+)\s*-?\s*(?:р|r|th|st|nd|rd|дугаар|дүгээр|dugaar|dugeer)(?=[\s,.;]|$)/giu,
+      "$1",
+    )
+    .replace(/№/g, " ");
+
+  return text
+    .split(/[\s,;.]+/)
+    .filter((t) => t !== "" && t !== "-")
+    .map((t) => ({ text: t, key: keyOf(t) }));
+}
+
+// Match a known place on one token or two tokens ("Хан Уул", "Bayan Ölgii")
+function matchPlace(tokens: Token[], i: number): { places: Place[]; length: number } | null {
+  if (i + 1 < tokens.length) {
+    const pair = PLACE_INDEX.get(placeKey(tokens[i].key + tokens[i + 1].key));
+    if (pair) return { places: pair, length: 2 };
+  }
+  const single = PLACE_INDEX.get(placeKey(tokens[i].key));
+  return single ? { places: single, length: 1 } : null;
+}
+
+/** Split a free-text Mongolian address (Cyrillic or Latin) into its components. */
+export function parseMongolianAddress(raw: string): ParsedAddress {
+  const tokens = tokenize(raw);
+  const used = new Array<boolean>(tokens.length).fill(false);
+  const parsed: Record<string, string | null> = {};
+  const places: { index: number; places: Place[]; field?: Field }[] = [];
+  let ger_district = false;
+
+  const set = (field: string, value: string) => {
+    if (parsed[field] === undefined || parsed[field] === null) parsed[field] = value;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (used[i]) continue;
+    const { key } = tokens[i];
+
+    // "гэр хороолол" marks a ger district rather than a numbered microdistrict
+    if (key === "ger" && keyword(tokens[i + 1]?.key ?? "") === "microdistrict") {
+      ger_district = true;
+      used[i] = used[i + 1] = true;
+      i++;
+      continue;
+    }
+
+    // "өргөн чөлөө" (avenue) behaves like a street keyword
+    if (key === "orgon" && tokens[i + 1]?.key === "choloo") {
+      const start = Math.max(0, i - 2);
+      const name: string[] = [];
+      for (let j = start; j < i; j++) {
+        if (!used[j] && !NUMBER.test(tokens[j].text)) {
+          name.push(tokens[j].text);
+          used[j] = true;
+        }
+      }
+      set("street", [titleCase(name), "өргөн чөлөө"].filter(Boolean).join(" "));
+      used[i] = used[i + 1] = true;
+      i++;
+      continue;
+    }
+
+    const place = matchPlace(tokens, i);
+    if (place) {
+      const next = i + place.length;
+      const field = keyword(tokens[next]?.key ?? "") ??
+        (tokens[next] && SHORT_KEYWORDS[tokens[next].key] === "district" ? "district" : undefined);
+      places.push({ index: i, places: place.places, field });
+      for (let j = i; j < next; j++) used[j] = true;
+      if (field) used[next] = true;
+      i = next - (field ? 0 : 1);
+      continue;
+    }
+
+    const field = keyword(key);
+    if (!field) continue;
+
+    const prev = i > 0 && !used[i - 1] ? tokens[i - 1] : null;
+    const next = i + 1 < tokens.length && !used[i + 1] ? tokens[i + 1] : null;
+
+    // "26 хороо" / "хороо 26"
+    if (NUMBERED.has(field) && prev && NUMBER.test(prev.text)) {
+      set(field, prev.text);
+      used[i - 1] = used[i] = true;
+      continue;
+    }
+    if (NUMBERED.has(field) && next && NUMBER.test(next.text)) {
+      set(field, next.text);
+      used[i] = used[i + 1] = true;
+      i++;
+      continue;
+    }
+
+    // "Хэрлэн сум", "Бага тойруу гудамж": up to two unclaimed words before the keyword
+    if (NAMED.has(field) && prev && !NUMBER.test(prev.text)) {
+      const before = i > 1 && !used[i - 2] && !NUMBER.test(tokens[i - 2].text) &&
+          !keyword(tokens[i - 2].key) && field === "street"
+        ? [tokens[i - 2], prev]
+        : [prev];
+      set(field, titleCase(before.map((t) => t.text)));
+      for (let j = i - before.length; j <= i; j++) used[j] = true;
+    }
+  }
+
+  // One-letter abbreviations next to numbers: "45 б", "т 67"
+  for (let i = 0; i < tokens.length; i++) {
+    const field = SHORT_KEYWORDS[tokens[i].key];
+    if (used[i] || !field || !NUMBERED.has(field)) continue;
+
+    if (i > 0 && !used[i - 1] && NUMBER.test(tokens[i - 1].text)) {
+      set(field, tokens[i - 1].text);
+      used[i - 1] = used[i] = true;
+    } else if (i + 1 < tokens.length && !used[i + 1] && NUMBER.test(tokens[i + 1].text)) {
+      set(field, tokens[i + 1].text);
+      used[i] = used[i + 1] = true;
+    }
+  }
+
+  // Postcode: a remaining five-digit number
+  for (let i = 0; i < tokens.length; i++) {
+    if (!used[i] && POSTCODE.test(tokens[i].text)) {
+      set("postcode", tokens[i].text);
+      used[i] = true;
+      break;
+    }
+  }
+
+  // Known places: the following keyword decides the kind, otherwise the context does
+  // ("Сүхбаатар" is both a district of Ulaanbaatar and an aimag)
+  const inCapital = () =>
+    parsed.city === "Улаанбаатар" || !!parsed.khoroo || !!parsed.microdistrict ||
+    places.some((p) =>
+      p.places.every((pl) => pl.kind === "district") ||
+      p.places.some((pl) => pl.name === "Улаанбаатар")
+    );
+
+  for (const { places: candidates, field } of places) {
+    const kind = field === "district" || field === "aimag"
+      ? field
+      : candidates.length === 1
+      ? candidates[0].kind
+      : inCapital()
+      ? "district"
+      : "aimag";
+    const place = candidates.find((p) => p.kind === kind) ?? candidates[0];
+
+    if (field === "sum") set("sum", place.name);
+    else set(place.kind === "city" && field !== "district" ? "city" : kind, place.name);
+  }
+
+  if (!parsed.city && parsed.district) set("city", "Улаанбаатар");
+
+  const leftover = tokens.filter((_, i) => !used[i]).map((t) => t.text);
+  const get = (field: string) => parsed[field] ?? null;
+
+  const result = {
+    city: get("city"),
+    aimag: get("aimag"),
+    sum: get("sum"),
+    district: get("district"),
+    khoroo: get("khoroo"),
+    bag: get("bag"),
+    microdistrict: get("microdistrict"),
+    street: get("street"),
+    building: get("building"),
+    entrance: get("entrance"),
+    floor: get("floor"),
+    door: get("door"),
+    khashaa: get("khashaa"),
+    ger_district,
+    postcode: get("postcode"),
+    unparsed: leftover.length ? leftover.join(" ") : null,
+    script: detectScript(raw),
+  };
+
+  const formatted = formatParts(result).join(", ");
+  return { ...result, formatted, latin: transliterate(formatted.toLowerCase()) };
+}
+
+// Coarse-to-fine display parts in conventional Mongolian order
+function formatParts(
+  p: Omit<ParsedAddress, "formatted" | "latin">,
+  { units = true } = {},
+): string[] {
+  const ordinal = (n: string | null, word: string) => (n ? `${n}-р ${word}` : null);
+  const bag = p.bag && NUMBER.test(p.bag) ? `${p.bag}-р баг` : p.bag ? `${p.bag} баг` : null;
+
+  return [
+    p.aimag ? `${p.aimag} аймаг` : null,
+    p.city,
+    p.sum ? `${p.sum} сум` : null,
+    p.district ? `${p.district} дүүрэг` : null,
+    ordinal(p.khoroo, "хороо"),
+    bag,
+    ordinal(p.microdistrict, "хороолол"),
+    p.ger_district ? "гэр хороолол" : null,
+    p.street,
+    ordinal(p.building, "байр"),
+    units ? ordinal(p.entrance, "орц") : null,
+    units && p.floor ? `${p.floor} давхар` : null,
+    units && p.door ? `${p.door} тоот` : null,
+    p.khashaa ? `${p.khashaa} хашаа` : null,
+    units ? p.unparsed : null,
+  ].filter((part): part is string => !!part);
+}
+
+/**
+ * Query sent to the geocoding provider: the normalized address without entrance, floor
+ * and door, which providers cannot resolve. Addresses with unrecognized text, such as
+ * landmarks and street names, are sent as written: the provider may know the name, and
+ * the normalized parts would lose it.
+ */
+export function geocodingQuery(raw: string, parsed = parseMongolianAddress(raw)): string {
+  const parts = formatParts(parsed, { units: false });
+  return parts.length > 0 && !parsed.unparsed ? parts.join(", ") : raw;
+}
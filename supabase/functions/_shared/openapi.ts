@@ -0,0 +1,122 @@
+import type { CallerKind } from "./auth.ts";
+import type { FunctionSpec } from "./handler.ts";
+import { ERROR_CODES } from "./http.ts";
+import { object, string } from "./schema.ts";
+
+const CALLERS: Record<CallerKind, string> = {
+  user: "user access tokens",
+  api_key: "API keys",
+  service_role: "the service role key",
+  anonymous: "anonymous callers",
+};
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "The request is invalid; `details` lists every field that failed validation",
+  401: "Missing or invalid credentials",
+  403: "The caller may not do this",
+  429: "Rate limit or monthly quota of the API key exceeded",
+  500: "Internal error; the message is logged under the request id",
+};
+
+const errorSchema = object({
+  error: string({ description: "Human readable message" }),
+  code: string({
+    description: `Machine readable code, such as ${Object.values(ERROR_CODES).join(", ")}, ` +
+      "invalid_json or validation_failed",
+  }),
+  details: {
+    description: "Extra information; validation failures list `{ path, message }` issues",
+  },
+  request_id: string({ description: "Also sent as the X-Request-Id header" }),
+}, ["error", "code", "request_id"]);
+
+function security(allow: CallerKind[]) {
+  const schemes = [];
+  if (allow.includes("user") || allow.includes("service_role")) schemes.push({ bearerAuth: [] });
+  if (allow.includes("api_key")) schemes.push({ apiKeyAuth: [] });
+  if (allow.includes("anonymous")) schemes.push({});
+  return schemes;
+}
+
+function operation(spec: FunctionSpec) {
+  const allow = spec.auth?.allow ?? ["user", "api_key"];
+  const accepts = `Accepts ${allow.map((kind) => CALLERS[kind]).join(", ")}.`;
+
+  const errors = [400, 401, 403, ...(allow.includes("api_key") ? [429] : []), 500];
+  const responses: Record<string, unknown> = {
+    200: { description: "Success", content: { "application/json": { schema: {} } } },
+  };
+  for (const status of errors) {
+    responses[status] = {
+      description: ERROR_DESCRIPTIONS[status],
+      headers: { "X-Request-Id": { $ref: "#/components/headers/RequestId" } },
+      content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+    };
+  }
+
+  return {
+    operationId: spec.name,
+    summary: spec.summary,
+    description: spec.description ? `${spec.description} ${accepts}` : accepts,
+    security: security(allow),
+    parameters: [
+      { $ref: "#/components/parameters/RequestId" },
+      ...(spec.parameters ?? []),
+    ],
+    ...(spec.request
+      ? {
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: spec.request } },
+        },
+      }
+      : {}),
+    responses,
+  };
+}
+
+/**
+ * OpenAPI 3.1 document of the edge functions, generated from the same specs that
+ * validate their requests.
+ */
+export function buildOpenApi(specs: FunctionSpec[], serverUrl: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const spec of specs) {
+    const method = (spec.method ?? "POST").toLowerCase();
+    paths[spec.path ?? `/${spec.name}`] = { [method]: operation(spec) };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "map.gerege.ai",
+      version: "1.0.0",
+      description: "Location intelligence API: geocoding, registry, geofences and routing.",
+    },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          description: "Supabase Auth access token, or the service role key where accepted",
+        },
+        apiKeyAuth: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      parameters: {
+        RequestId: {
+          name: "X-Request-Id",
+          in: "header",
+          required: false,
+          description: "Correlation id echoed in the response; generated when omitted",
+          schema: string(),
+        },
+      },
+      headers: {
+        RequestId: { description: "Id of this request, as logged", schema: string() },
+      },
+      schemas: { Error: errorSchema },
+    },
+  };
+}
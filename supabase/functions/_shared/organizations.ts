@@ -0,0 +1,39 @@
+import type { Caller } from "./auth.ts";
+import { errorResponse } from "./http.ts";
+
+export const ORG_ROLES = ["viewer", "editor", "admin"] as const;
+
+export type OrgRole = typeof ORG_ROLES[number];
+
+// Organization the caller works in, for functions acting for them with the service role:
+// the API key's organization, or the one the user switched to. Null for anonymous and
+// service role callers and users without a membership.
+export async function resolveActiveOrg(caller: Caller): Promise<string | null> {
+  if (!caller.userId) return null;
+
+  const { data, error } = await caller.client.rpc("active_org_id");
+
+  if (error) throw new Error(`Organization lookup failed: ${error.message}`);
+  return data ?? null;
+}
+
+/**
+ * Active organization of a caller about to add rows to it with the service role, which
+ * bypasses the "editor or higher" RLS policies. Returns the organization, or a 403
+ * response for viewers and callers without one, so new rows always get an organization.
+ */
+export async function requireEditorOrg(caller: Caller): Promise<string | Response> {
+  const org_id = await resolveActiveOrg(caller);
+
+  if (org_id) {
+    const { data, error } = await caller.client.rpc("has_org_role", {
+      org: org_id,
+      min_role: "editor",
+    });
+
+    if (error) throw new Error(`Organization role lookup failed: ${error.message}`);
+    if (data) return org_id;
+  }
+
+  return errorResponse(403, "Only editors of the active organization can add to it");
+}
@@ -0,0 +1,160 @@
+import {
+  type BatchItem,
+  distanceM,
+  filterResults,
+  type GeocodeResult,
+  type GeocodingProvider,
+  GeocodingProviderError,
+  type SearchOptions,
+} from "../geocoding.ts";
+
+// A known place: every entry in `names` resolves to this result
+export interface FixturePlace extends GeocodeResult {
+  names: string[];
+}
+
+const REVERSE_MAX_DISTANCE_M = 5000;
+
+const DEFAULT_PLACES: FixturePlace[] = [
+  {
+    names: ["sukhbaatar square", "сүхбаатарын талбай", "chinggis square"],
+    lat: 47.9188,
+    lon: 106.9176,
+    display_name: "Sukhbaatar Square, Peace Avenue, Sukhbaatar, Ulaanbaatar, 14200, Mongolia",
+    address: {
+      road: "Peace Avenue",
+      city: "Ulaanbaatar",
+      state: "Ulaanbaatar",
+      postcode: "14200",
+      country: "Mongolia",
+      country_code: "mn",
+    },
+  },
+  {
+    names: ["ulaanbaatar", "улаанбаатар", "ulan bator"],
+    lat: 47.9185,
+    lon: 106.9177,
+    display_name: "Ulaanbaatar, Mongolia",
+    address: { city: "Ulaanbaatar", state: "Ulaanbaatar", country: "Mongolia", country_code: "mn" },
+  },
+  {
+    names: ["zaisan", "зайсан"],
+    lat: 47.8735,
+    lon: 106.9179,
+    display_name: "Zaisan, Khan-Uul, Ulaanbaatar, 17011, Mongolia",
+    address: {
+      city: "Ulaanbaatar",
+      state: "Ulaanbaatar",
+      postcode: "17011",
+      country: "Mongolia",
+      country_code: "mn",
+    },
+  },
+  {
+    names: ["darkhan", "дархан"],
+    lat: 49.4867,
+    lon: 105.9228,
+    display_name: "Darkhan, Darkhan-Uul, Mongolia",
+    address: { city: "Darkhan", state: "Darkhan-Uul", country: "Mongolia", country_code: "mn" },
+  },
+  {
+    names: ["erdenet", "эрдэнэт"],
+    lat: 49.0275,
+    lon: 104.0445,
+    display_name: "Erdenet, Orkhon, Mongolia",
+    address: { city: "Erdenet", state: "Orkhon", country: "Mongolia", country_code: "mn" },
+  },
+  {
+    names: ["kharkhorin", "хархорин", "karakorum"],
+    lat: 47.1975,
+    lon: 102.8238,
+    display_name: "Kharkhorin, Övörkhangai, Mongolia",
+    address: { city: "Kharkhorin", state: "Övörkhangai", country: "Mongolia", country_code: "mn" },
+  },
+];
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+// Share of the longer string covered by the shorter one when one contains the other
+function matchScore(query: string, name: string): number {
+  if (query === name) return 1;
+  if (query.includes(name)) return name.length / query.length;
+  if (name.includes(query)) return query.length / name.length;
+  return 0;
+}
+
+function toResult({ names: _names, ...result }: FixturePlace): GeocodeResult {
+  return structuredClone(result);
+}
+
+/**
+ * Offline provider answering from an in-memory list of places, so the
+ * geocoding functions can run and be tested without network access.
+ */
+export class FixtureProvider implements GeocodingProvider {
+  readonly name = "fixture";
+  readonly delayMs = 0;
+  private places: FixturePlace[] | null;
+  private fixtureFile?: string;
+
+  constructor(options: { places?: FixturePlace[]; fixtureFile?: string } = {}) {
+    const { places, fixtureFile } = options;
+    this.places = fixtureFile ? null : places ?? DEFAULT_PLACES;
+    this.fixtureFile = fixtureFile;
+  }
+
+  // Read the fixture file on first use, so a missing or malformed file fails the
+  // request like any other provider error
+  private async loadPlaces(): Promise<FixturePlace[]> {
+    if (this.places) return this.places;
+    try {
+      this.places = JSON.parse(await Deno.readTextFile(this.fixtureFile!)) as FixturePlace[];
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new GeocodingProviderError(`Could not load fixture file: ${reason}`);
+    }
+    return this.places;
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<GeocodeResult[]> {
+    const { limit = 1 } = options;
+    const q = normalize(query);
+    if (!q) return [];
+
+    const scored = (await this.loadPlaces())
+      .map((place) => ({
+        place,
+        score: Math.max(...place.names.map((n) => matchScore(q, normalize(n)))),
+      }))
+      .filter((s) => s.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    return filterResults(scored.map((s) => toResult(s.place)), options).slice(0, limit);
+  }
+
+  async reverse(lat: number, lon: number): Promise<GeocodeResult | null> {
+    let nearest: FixturePlace | null = null;
+    let best = REVERSE_MAX_DISTANCE_M;
+
+    for (const place of await this.loadPlaces()) {
+      const d = distanceM(lat, lon, place.lat, place.lon);
+      if (d <= best) {
+        best = d;
+        nearest = place;
+      }
+    }
+
+    return nearest ? toResult(nearest) : null;
+  }
+
+  async batch(queries: string[]): Promise<BatchItem[]> {
+    const items: BatchItem[] = [];
+    for (const address of queries) {
+      const [top] = await this.search(address, { limit: 1 });
+      items.push({ address, result: top ?? null });
+    }
+    return items;
+  }
+}
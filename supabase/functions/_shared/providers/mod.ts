@@ -0,0 +1,29 @@
+import type { GeocodingProvider } from "../geocoding.ts";
+import { NominatimProvider } from "./nominatim.ts";
+import { PhotonProvider } from "./photon.ts";
+import { FixtureProvider } from "./fixture.ts";
+
+/**
+ * Select the provider from the environment:
+ *   GEOCODER_PROVIDER      nominatim (default) | photon | fixture
+ *   GEOCODER_URL           base URL of a self-hosted Nominatim or Photon instance
+ *   GEOCODER_DELAY_MS      override the delay between upstream requests
+ *   GEOCODER_FIXTURE_FILE  JSON file replacing the built-in fixture places
+ */
+export function getGeocodingProvider(): GeocodingProvider {
+  const kind = (Deno.env.get("GEOCODER_PROVIDER") ?? "nominatim").toLowerCase();
+  const baseUrl = Deno.env.get("GEOCODER_URL") || undefined;
+  const delay = Deno.env.get("GEOCODER_DELAY_MS");
+  const delayMs = delay ? Number(delay) : undefined;
+
+  switch (kind) {
+    case "nominatim":
+      return new NominatimProvider({ baseUrl, delayMs });
+    case "photon":
+      return new PhotonProvider({ baseUrl, delayMs });
+    case "fixture":
+      return new FixtureProvider({ fixtureFile: Deno.env.get("GEOCODER_FIXTURE_FILE") });
+    default:
+      throw new Error(`Unknown GEOCODER_PROVIDER '${kind}'`);
+  }
+}
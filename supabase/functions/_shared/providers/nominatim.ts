@@ -0,0 +1,102 @@
+import {
+  type BatchItem,
+  type GeocodeResult,
+  type GeocodingProvider,
+  GeocodingProviderError,
+  type SearchOptions,
+  sequentialBatch,
+} from "../geocoding.ts";
+
+const PUBLIC_URL = "https://nominatim.openstreetmap.org";
+const PUBLIC_DELAY_MS = 1100; // Nominatim usage policy requires ~1 req/sec
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  display_name: string;
+  boundingbox?: [string, string, string, string]; // south, north, west, east
+  importance?: number;
+  place_rank?: number;
+  addresstype?: string;
+  type?: string;
+  address: {
+    house_number?: string;
+    road?: string;
+    city?: string;
+    state?: string;
+    postcode?: string;
+    country?: string;
+    country_code?: string;
+  };
+}
+
+function toResult(r: NominatimResult): GeocodeResult {
+  return {
+    lat: parseFloat(r.lat),
+    lon: parseFloat(r.lon),
+    display_name: r.display_name,
+    address: { ...r.address },
+    bbox: r.boundingbox
+      ? [
+        parseFloat(r.boundingbox[2]),
+        parseFloat(r.boundingbox[0]),
+        parseFloat(r.boundingbox[3]),
+        parseFloat(r.boundingbox[1]),
+      ]
+      : undefined,
+    importance: r.importance,
+    place_rank: r.place_rank,
+    place_type: r.addresstype ?? r.type,
+  };
+}
+
+export class NominatimProvider implements GeocodingProvider {
+  readonly name = "nominatim";
+  readonly delayMs: number;
+  private readonly baseUrl: string;
+
+  constructor(options: { baseUrl?: string; delayMs?: number } = {}) {
+    this.baseUrl = (options.baseUrl ?? PUBLIC_URL).replace(/\/+$/, "");
+    // Self-hosted instances have no usage policy, so only throttle the public one
+    this.delayMs = options.delayMs ?? (options.baseUrl ? 0 : PUBLIC_DELAY_MS);
+  }
+
+  private async get<T>(path: string): Promise<T> {
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      headers: { "User-Agent": "map.gerege.ai/1.0" },
+    });
+    if (!res.ok) {
+      throw new GeocodingProviderError(`Nominatim responded with ${res.status}`);
+    }
+    return await res.json();
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<GeocodeResult[]> {
+    const { limit = 1, viewbox, bounded, country_codes } = options;
+    const params = new URLSearchParams({
+      q: query,
+      format: "json",
+      addressdetails: "1",
+      limit: String(limit),
+    });
+    if (viewbox) {
+      params.set("viewbox", viewbox.join(","));
+      if (bounded) params.set("bounded", "1");
+    }
+    if (country_codes?.length) params.set("countrycodes", country_codes.join(","));
+
+    const results = await this.get<NominatimResult[]>(`/search?${params}`);
+    return results.map(toResult);
+  }
+
+  async reverse(lat: number, lon: number): Promise<GeocodeResult | null> {
+    const result = await this.get<NominatimResult & { error?: string }>(
+      `/reverse?lat=${lat}&lon=${lon}&format=json&addressdetails=1`,
+    );
+    return result.error ? null : toResult(result);
+  }
+
+  batch(queries: string[]): Promise<BatchItem[]> {
+    return sequentialBatch(this, queries);
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  type BatchItem,
+  filterResults,
+  type GeocodeResult,
+  type GeocodingProvider,
+  GeocodingProviderError,
+  type SearchOptions,
+  sequentialBatch,
+} from "../geocoding.ts";
+
+const PUBLIC_URL = "https://photon.komoot.io";
+
+interface PhotonFeature {
+  geometry: { type: "Point"; coordinates: [number, number] };
+  properties: {
+    extent?: [number, number, number, number]; // min_lon, max_lat, max_lon, min_lat
+    type?: string; // house, street, locality, district, city, county, state, country
+    name?: string;
+    housenumber?: string;
+    street?: string;
+    city?: string;
+    district?: string;
+    state?: string;
+    postcode?: string;
+    country?: string;
+    countrycode?: string;
+  };
+}
+
+interface PhotonResponse {
+  features: PhotonFeature[];
+}
+
+function toResult(feature: PhotonFeature): GeocodeResult {
+  const p = feature.properties;
+  const [lon, lat] = feature.geometry.coordinates;
+  const line = [p.name, [p.street, p.housenumber].filter(Boolean).join(" "), p.city, p.state]
+    .filter(Boolean);
+  return {
+    lat,
+    lon,
+    display_name: [...line, p.postcode, p.country].filter(Boolean).join(", "),
+    address: {
+      house_number: p.housenumber,
+      road: p.street,
+      city: p.city ?? p.district,
+      state: p.state,
+      postcode: p.postcode,
+      country: p.country,
+      country_code: p.countrycode?.toLowerCase(),
+    },
+    bbox: p.extent ? [p.extent[0], p.extent[3], p.extent[2], p.extent[1]] : undefined,
+    place_type: p.type,
+  };
+}
+
+export class PhotonProvider implements GeocodingProvider {
+  readonly name = "photon";
+  readonly delayMs: number;
+  private readonly baseUrl: string;
+
+  constructor(options: { baseUrl?: string; delayMs?: number } = {}) {
+    this.baseUrl = (options.baseUrl ?? PUBLIC_URL).replace(/\/+$/, "");
+    this.delayMs = options.delayMs ?? (options.baseUrl ? 0 : 1000);
+  }
+
+  private async get(path: string): Promise<PhotonResponse> {
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      headers: { "User-Agent": "map.gerege.ai/1.0" },
+    });
+    if (!res.ok) {
+      throw new GeocodingProviderError(`Photon responded with ${res.status}`);
+    }
+    return await res.json();
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<GeocodeResult[]> {
+    const { limit = 1, viewbox, bounded, country_codes } = options;
+    // Photon has no country filter, so over-fetch and filter locally
+    const fetchLimit = country_codes?.length ? Math.max(limit * 3, 10) : limit;
+    const params = new URLSearchParams({ q: query, limit: String(fetchLimit) });
+    if (viewbox && bounded) params.set("bbox", viewbox.join(","));
+
+    const { features } = await this.get(`/api/?${params}`);
+    return filterResults(features.map(toResult), options).slice(0, limit);
+  }
+
+  async reverse(lat: number, lon: number): Promise<GeocodeResult | null> {
+    const { features } = await this.get(`/reverse?lat=${lat}&lon=${lon}&limit=1`);
+    return features.length > 0 ? toResult(features[0]) : null;
+  }
+
+  batch(queries: string[]): Promise<BatchItem[]> {
+    return sequentialBatch(this, queries);
+  }
+}
@@ -0,0 +1,360 @@
+// Request schemas are plain JSON Schema objects (the OpenAPI 3.1 dialect), so the same
+// definitions validate request bodies and describe them in the OpenAPI document.
+
+type SchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export interface Schema {
+  type?: SchemaType | SchemaType[];
+  description?: string;
+  enum?: readonly unknown[];
+  default?: unknown;
+  format?: "uuid" | "date-time" | "uri" | "email";
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  additionalProperties?: boolean | Schema;
+  oneOf?: Schema[];
+  discriminator?: { propertyName: string };
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+type Options = Omit<Schema, "type">;
+
+export function string(options: Options = {}): Schema {
+  return { type: "string", ...options };
+}
+
+export function number(options: Options = {}): Schema {
+  return { type: "number", ...options };
+}
+
+export function integer(options: Options = {}): Schema {
+  return { type: "integer", ...options };
+}
+
+export function boolean(options: Options = {}): Schema {
+  return { type: "boolean", ...options };
+}
+
+export function oneOf(values: readonly string[], options: Options = {}): Schema {
+  return { type: "string", enum: values, ...options };
+}
+
+export function array(items: Schema, options: Options = {}): Schema {
+  return { type: "array", items, ...options };
+}
+
+export function object(
+  properties: Record<string, Schema>,
+  required: string[] = [],
+  options: Options = {},
+): Schema {
+  return { type: "object", properties, ...(required.length ? { required } : {}), ...options };
+}
+
+// Any JSON object, such as free-form metadata or a GeoJSON geometry checked by PostGIS
+export function anyObject(description?: string): Schema {
+  return { type: "object", ...(description ? { description } : {}) };
+}
+
+export function nullable(schema: Schema): Schema {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  return { ...schema, type: [...types, "null"] };
+}
+
+/**
+ * Union of request shapes told apart by one property, such as the `action` of most
+ * functions. The property may be omitted when `fallback` names the default variant.
+ */
+export function variants(
+  propertyName: string,
+  shapes: Record<string, Schema>,
+  fallback?: string,
+): Schema {
+  return {
+    oneOf: Object.entries(shapes).map(([value, shape]) => ({
+      ...shape,
+      properties: {
+        [propertyName]: {
+          type: "string",
+          enum: [value],
+          ...(value === fallback ? { default: value } : {}),
+        },
+        ...shape.properties,
+      },
+      required: [...(value === fallback ? [] : [propertyName]), ...(shape.required ?? [])],
+    })),
+    discriminator: { propertyName },
+  };
+}
+
+export function actions(shapes: Record<string, Schema>): Schema {
+  return variants("action", shapes);
+}
+
+// --- Shared building blocks ---
+
+// Pattern of strings with a character other than whitespace
+const NOT_BLANK = "\\S";
+
+// A string that must not be empty or only whitespace, such as a name or an address
+export const text = (options: Options = {}) =>
+  string({ minLength: 1, pattern: NOT_BLANK, ...options });
+
+export const uuid = (description?: string) =>
+  string({ format: "uuid", ...(description ? { description } : {}) });
+
+export const timestamp = (description?: string) =>
+  string({ format: "date-time", ...(description ? { description } : {}) });
+
+export const latitude = () => number({ minimum: -90, maximum: 90 });
+
+export const longitude = () => number({ minimum: -180, maximum: 180 });
+
+export const fraction = (description?: string) =>
+  number({ minimum: 0, maximum: 1, ...(description ? { description } : {}) });
+
+export const point = (description?: string) =>
+  object({ lat: latitude(), lon: longitude() }, ["lat", "lon"], description ? { description } : {});
+
+export const bbox = () =>
+  array(number(), {
+    minItems: 4,
+    maxItems: 4,
+    description: "[min_lon, min_lat, max_lon, max_lat]",
+  });
+
+export const polygon = (description?: string) =>
+  object(
+    {
+      type: oneOf(["Polygon", "MultiPolygon"]),
+      coordinates: array({}, { minItems: 1 }),
+    },
+    ["type", "coordinates"],
+    {
+      description: description ?? "GeoJSON Polygon or MultiPolygon geometry",
+    },
+  );
+
+export const pageSize = (max: number, fallback: number) =>
+  integer({ minimum: 1, maximum: max, default: fallback });
+
+export const cursor = () => string({ description: "next_cursor from the previous page" });
+
+// --- Validation ---
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+$/;
+
+function typeOf(value: unknown): SchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as SchemaType;
+}
+
+function matchesType(value: unknown, type: SchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function describeType(types: SchemaType[]): string {
+  const names: Record<SchemaType, string> = {
+    object: "an object",
+    array: "an array",
+    string: "a string",
+    number: "a number",
+    integer: "an integer",
+    boolean: "a boolean",
+    null: "null",
+  };
+  return types.map((t) => names[t]).join(" or ");
+}
+
+function describeRange(schema: Schema): string | null {
+  const { minimum, maximum, exclusiveMinimum } = schema;
+  if (minimum !== undefined && maximum !== undefined) {
+    return `between ${minimum} and ${maximum}`;
+  }
+  if (exclusiveMinimum !== undefined) {
+    return maximum !== undefined
+      ? `greater than ${exclusiveMinimum} and at most ${maximum}`
+      : `greater than ${exclusiveMinimum}`;
+  }
+  if (minimum !== undefined) return `at least ${minimum}`;
+  if (maximum !== undefined) return `at most ${maximum}`;
+  return null;
+}
+
+function label(path: string): string {
+  return path === "" ? "Request body" : `'${path}'`;
+}
+
+function child(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path === "" ? key : `${path}.${key}`;
+}
+
+/**
+ * Check a value against a schema. Returns every problem found, with the path of the
+ * offending field; an empty list means the value is valid. Unknown properties are
+ * allowed unless the schema says otherwise.
+ */
+export function validate(schema: Schema, value: unknown, path = ""): ValidationIssue[] {
+  const issue = (message: string): ValidationIssue[] => [{ path, message }];
+
+  if (schema.oneOf) return validateOneOf(schema, value, path);
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      return issue(`${label(path)} must be ${describeType(types)}`);
+    }
+  }
+  if (value === null) return [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return issue(`${label(path)} must be one of: ${schema.enum.join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return issue(
+        schema.minLength === 1
+          ? `${label(path)} must not be empty`
+          : `${label(path)} must be at least ${schema.minLength} characters`,
+      );
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return issue(`${label(path)} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+      return issue(
+        schema.pattern === NOT_BLANK
+          ? `${label(path)} must not be blank`
+          : `${label(path)} must match ${schema.pattern}`,
+      );
+    }
+    if (schema.format === "uuid" && !UUID_PATTERN.test(value)) {
+      return issue(`${label(path)} must be a UUID`);
+    }
+    if (schema.format === "date-time" && isNaN(Date.parse(value))) {
+      return issue(`${label(path)} must be an ISO 8601 timestamp`);
+    }
+    if (schema.format === "uri" && !URL.canParse(value)) {
+      return issue(`${label(path)} must be a URL`);
+    }
+    if (schema.format === "email" && !EMAIL_PATTERN.test(value)) {
+      return issue(`${label(path)} must be an email address`);
+    }
+  }
+
+  if (typeof value === "number") {
+    const tooLow = (schema.minimum !== undefined && value < schema.minimum) ||
+      (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum);
+    const tooHigh = schema.maximum !== undefined && value > schema.maximum;
+    if (!Number.isFinite(value) || tooLow || tooHigh) {
+      return issue(`${label(path)} must be ${describeRange(schema) ?? "a finite number"}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const { minItems, maxItems } = schema;
+    if (
+      (minItems !== undefined && value.length < minItems) ||
+      (maxItems !== undefined && value.length > maxItems)
+    ) {
+      const range = minItems !== undefined && maxItems !== undefined
+        ? minItems === maxItems ? `${minItems}` : `${minItems} to ${maxItems}`
+        : minItems !== undefined
+        ? `at least ${minItems}`
+        : `at most ${maxItems}`;
+      return issue(`${label(path)} must have ${range} items`);
+    }
+    if (schema.items) {
+      return value.flatMap((item, i) => validate(schema.items!, item, child(path, i)));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    const issues: ValidationIssue[] = [];
+
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        issues.push({ path: child(path, key), message: `'${child(path, key)}' is required` });
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (record[key] !== undefined) {
+        issues.push(...validate(propertySchema, record[key], child(path, key)));
+      }
+    }
+    if (schema.additionalProperties !== undefined && schema.additionalProperties !== true) {
+      for (const key of Object.keys(record)) {
+        if (schema.properties?.[key]) continue;
+        if (schema.additionalProperties === false) {
+          issues.push({ path: child(path, key), message: `'${child(path, key)}' is not allowed` });
+        } else {
+          issues.push(...validate(schema.additionalProperties, record[key], child(path, key)));
+        }
+      }
+    }
+    return issues;
+  }
+
+  return [];
+}
+
+function validateOneOf(schema: Schema, value: unknown, path: string): ValidationIssue[] {
+  const shapes = schema.oneOf!;
+  const property = schema.discriminator?.propertyName;
+
+  if (property) {
+    if (typeOf(value) !== "object") return [{ path, message: `${label(path)} must be an object` }];
+
+    const given = (value as Record<string, unknown>)[property];
+    const allowed = shapes.map((s) => s.properties?.[property]);
+    const match = given === undefined
+      ? shapes.find((_, i) => allowed[i]?.default !== undefined)
+      : shapes.find((_, i) => allowed[i]?.enum?.includes(given));
+
+    if (!match) {
+      const names = allowed.flatMap((a) => a?.enum ?? []).join(", ");
+      const at = child(path, property);
+      return [{
+        path: at,
+        message: given === undefined ? `'${at}' is required` : `'${at}' must be one of: ${names}`,
+      }];
+    }
+    return validate(match, value, path);
+  }
+
+  // Without a discriminator the closest shape's problems are reported, preferring shapes
+  // of the value's type
+  const sameType = shapes.filter((shape) => {
+    if (shape.type === undefined) return false;
+    const types = Array.isArray(shape.type) ? shape.type : [shape.type];
+    return types.some((t) => matchesType(value, t));
+  });
+
+  let best: ValidationIssue[] | null = null;
+  for (const shape of sameType.length ? sameType : shapes) {
+    const issues = validate(shape, value, path);
+    if (issues.length === 0) return [];
+    if (!best || issues.length < best.length) best = issues;
+  }
+  return best ?? [];
+}
@@ -0,0 +1,57 @@
+import type { FunctionSpec } from "../handler.ts";
+import {
+  actions,
+  anyObject,
+  array,
+  boolean,
+  integer,
+  latitude,
+  longitude,
+  object,
+  oneOf,
+  string,
+  uuid,
+} from "../schema.ts";
+
+export const MAX_IMPORT_FEATURES = 5000;
+
+const level = () =>
+  integer({
+    minimum: 0,
+    maximum: 3,
+    description: "0 country, 1 aimag, 2 sum / district, 3 bag / khoroo",
+  });
+
+export const adminAreasSpec: FunctionSpec = {
+  name: "admin-areas",
+  summary: "Administrative hierarchy at a point, registry counts per area, boundary imports",
+  description: "Imports require the service role key.",
+  auth: { allow: ["user", "api_key", "service_role"] },
+  request: actions({
+    lookup: object({ lat: latitude(), lon: longitude() }, ["lat", "lon"]),
+    counts: object({ level: level(), parent_id: uuid(), source: string() }),
+    import: object({
+      level: level(),
+      kind: string({ description: "For every feature without a kind property" }),
+      geojson: object({
+        type: oneOf(["FeatureCollection"]),
+        features: array(anyObject(), { minItems: 1, maxItems: MAX_IMPORT_FEATURES }),
+      }, ["type", "features"]),
+      properties: object(
+        {
+          code: string(),
+          name: string(),
+          name_en: string(),
+          parent_code: string(),
+          kind: string(),
+        },
+        [],
+        { description: "Feature property holding each field, default the field name" },
+      ),
+      refresh_registry: boolean({
+        default: true,
+        description: "Re-enrich existing registry entries",
+      }),
+    }, ["level", "geojson"]),
+  }),
+};
@@ -0,0 +1,69 @@
+import type { FunctionSpec } from "../handler.ts";
+import {
+  actions,
+  array,
+  boolean,
+  integer,
+  nullable,
+  object,
+  oneOf,
+  text,
+  timestamp,
+  uuid,
+} from "../schema.ts";
+
+export const MAX_RATE_LIMIT = 6000;
+
+// Functions that accept API keys
+export const KEY_FUNCTIONS = [
+  "admin-areas",
+  "asset-tracking",
+  "autocomplete",
+  "batch-geocode",
+  "geocode",
+  "geocode-jobs",
+  "geofence",
+  "nearby-search",
+  "parse-address",
+  "recompute-confidence",
+  "registry-duplicates",
+  "registry-export",
+  "registry-history",
+  "registry-import",
+  "registry-review",
+  "registry-search",
+  "reverse-geocode",
+  "routing",
+  "spatial-cluster",
+  "tiles",
+  "webhooks",
+];
+
+const key = object({ key_id: uuid() }, ["key_id"]);
+
+export const apiKeysSpec: FunctionSpec = {
+  name: "api-keys",
+  summary: "Create, list and revoke API keys, and read their usage",
+  description: "Keys are managed by signed-in users, never with another key.",
+  auth: { allow: ["user"] },
+  request: actions({
+    create: object(
+      {
+        name: text(),
+        org_id: uuid("Default: the caller's active organization"),
+        functions: nullable(array(oneOf(KEY_FUNCTIONS), {
+          minItems: 1,
+          description: "Functions the key may call, null for all",
+        })),
+        rate_limit_per_minute: integer({ minimum: 1, maximum: MAX_RATE_LIMIT, default: 60 }),
+        monthly_quota: nullable(integer({ minimum: 1, description: "null for no quota" })),
+        expires_at: nullable(timestamp("Must be in the future")),
+      },
+      ["name"],
+      { additionalProperties: false },
+    ),
+    list: object({ org_id: uuid(), include_revoked: boolean({ default: false }) }),
+    revoke: key,
+    usage: key,
+  }),
+};
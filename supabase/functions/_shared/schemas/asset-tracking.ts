@@ -0,0 +1,54 @@
+import type { FunctionSpec } from "../handler.ts";
+import {
+  actions,
+  array,
+  integer,
+  latitude,
+  longitude,
+  object,
+  oneOf,
+  text,
+  timestamp,
+  uuid,
+} from "../schema.ts";
+
+export const MAX_PINGS = 500;
+
+const assetId = () => text();
+const recordedAt = () => timestamp("Default: the time the ping is received");
+
+export const assetTrackingSpec: FunctionSpec = {
+  name: "asset-tracking",
+  summary: "Record asset positions, returning geofence enter, exit and dwell events",
+  request: actions({
+    ping: object({
+      asset_id: assetId(),
+      lat: latitude(),
+      lon: longitude(),
+      recorded_at: recordedAt(),
+      pings: array(
+        object({
+          asset_id: assetId(),
+          lat: latitude(),
+          lon: longitude(),
+          recorded_at: recordedAt(),
+        }, ["asset_id", "lat", "lon"]),
+        { minItems: 1, maxItems: MAX_PINGS, description: "Batch form, replaces the single ping" },
+      ),
+      dwell_seconds: integer({
+        minimum: 0,
+        default: 300,
+        description: "Dwell threshold for fences without metadata.dwell_seconds",
+      }),
+    }),
+    history: object({
+      asset_id: assetId(),
+      since: timestamp(),
+      until: timestamp(),
+      event_type: oneOf(["enter", "exit", "dwell"]),
+      fence_id: uuid(),
+      max_results: integer({ minimum: 1, default: 100, description: "Capped at 1000" }),
+    }, ["asset_id"]),
+    occupants: object({ fence_id: uuid() }, ["fence_id"]),
+  }),
+};
@@ -0,0 +1,18 @@
+import type { FunctionSpec } from "../handler.ts";
+import { boolean, number, object, point, string } from "../schema.ts";
+
+export const MIN_QUERY_LENGTH = 2;
+
+export const autocompleteSpec: FunctionSpec = {
+  name: "autocomplete",
+  summary: "Typeahead suggestions from the registry, with provider fallback",
+  request: object({
+    q: string({ minLength: MIN_QUERY_LENGTH }),
+    near: point("Rank suggestions near this point"),
+    limit: number({ default: 8, description: "Clamped to 1..20" }),
+    fallback: boolean({
+      default: true,
+      description: "Ask the geocoding provider when local results are weak",
+    }),
+  }, ["q"]),
+};
@@ -0,0 +1,18 @@
+import type { FunctionSpec } from "../handler.ts";
+import { array, boolean, object, string } from "../schema.ts";
+
+export const MAX_BATCH_SIZE = 50;
+
+export const batchGeocodeSpec: FunctionSpec = {
+  name: "batch-geocode",
+  summary: "Geocode up to 50 addresses in one request, with per-address results",
+  request: object({
+    // Entries are not checked here: invalid ones fail individually in the results
+    addresses: array({}, { minItems: 1, maxItems: MAX_BATCH_SIZE, description: "Address strings" }),
+    source: string(),
+    reuse_existing: boolean({
+      default: false,
+      description: "Return matching registry entries instead of inserting duplicates",
+    }),
+  }, ["addresses"]),
+};
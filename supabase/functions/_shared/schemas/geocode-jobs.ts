@@ -0,0 +1,30 @@
+import type { FunctionSpec } from "../handler.ts";
+import { MAX_JOB_SIZE } from "../geocode-jobs.ts";
+import { actions, array, boolean, integer, object, oneOf, string, uuid } from "../schema.ts";
+
+const job = object({ job_id: uuid() }, ["job_id"]);
+
+export const geocodeJobsSpec: FunctionSpec = {
+  name: "geocode-jobs",
+  summary: "Submit large geocoding jobs processed in the background, and page through results",
+  request: actions({
+    submit: object({
+      // Entries are not checked here: invalid ones are recorded as failed items
+      addresses: array({}, {
+        minItems: 1,
+        maxItems: MAX_JOB_SIZE,
+        description: "Address strings, in result order",
+      }),
+      source: string(),
+      reuse_existing: boolean({ default: false }),
+    }, ["addresses"]),
+    status: job,
+    results: object({
+      job_id: uuid(),
+      status: oneOf(["pending", "success", "not_found", "error"]),
+      offset: integer({ minimum: 0, default: 0 }),
+      limit: integer({ minimum: 1, default: 100, description: "Capped at 1000" }),
+    }, ["job_id"]),
+    cancel: job,
+  }),
+};
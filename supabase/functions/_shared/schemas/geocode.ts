@@ -0,0 +1,49 @@
+import type { FunctionSpec } from "../handler.ts";
+import {
+  array,
+  bbox,
+  boolean,
+  integer,
+  object,
+  point,
+  string,
+  text,
+  uuid,
+  variants,
+} from "../schema.ts";
+
+export const MAX_CANDIDATES = 10;
+
+// Result biasing of the single and candidates modes
+const bias = {
+  viewbox: bbox(),
+  bounded: boolean({ default: false, description: "Only return results inside viewbox" }),
+  country_codes: array(string({ description: "ISO 3166-1 alpha-2" })),
+  proximity: point("Prefer results near this point"),
+};
+
+export const geocodeSpec: FunctionSpec = {
+  name: "geocode",
+  summary: "Geocode an address into the registry, or pick it from a set of candidates",
+  request: variants("mode", {
+    single: object({
+      address: text(),
+      source: string(),
+      reuse_existing: boolean({
+        default: false,
+        description: "Return a matching registry entry instead of inserting a duplicate",
+      }),
+      ...bias,
+    }, ["address"]),
+    candidates: object({
+      address: text(),
+      limit: integer({ minimum: 1, maximum: MAX_CANDIDATES, default: 5 }),
+      ...bias,
+    }, ["address"]),
+    commit: object({
+      candidate_set_id: uuid(),
+      candidate_index: integer({ minimum: 0 }),
+      source: string(),
+    }, ["candidate_set_id", "candidate_index"]),
+  }, "single"),
+};
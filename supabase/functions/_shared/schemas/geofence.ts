@@ -0,0 +1,56 @@
+import type { FunctionSpec } from "../handler.ts";
+import {
+  actions,
+  anyObject,
+  array,
+  integer,
+  latitude,
+  longitude,
+  nullable,
+  number,
+  object,
+  string,
+  text,
+  uuid,
+} from "../schema.ts";
+
+// Boundaries are checked further in the function, and by PostGIS
+const boundary = {
+  polygon: array(array(number(), { minItems: 2, maxItems: 2 }), {
+    minItems: 4,
+    description: "Single outer ring of [lon, lat] pairs; first and last must match",
+  }),
+  geometry: anyObject(
+    "Alternative to polygon: GeoJSON Polygon or MultiPolygon, or a Feature wrapping one",
+  ),
+};
+
+const fence = object({ fence_id: uuid() }, ["fence_id"]);
+
+export const geofenceSpec: FunctionSpec = {
+  name: "geofence",
+  summary: "Manage geofences, check which contain a point, and list registry entries inside",
+  request: actions({
+    create: object({
+      name: text(),
+      description: string(),
+      ...boundary,
+      metadata: anyObject(),
+    }, ["name"]),
+    get: fence,
+    update: object({
+      fence_id: uuid(),
+      name: text(),
+      description: nullable(string()),
+      metadata: anyObject(),
+      ...boundary,
+    }, ["fence_id"]),
+    delete: fence,
+    check: object({ lat: latitude(), lon: longitude() }, ["lat", "lon"]),
+    entries: object({
+      fence_id: uuid(),
+      max_results: integer({ minimum: 1, default: 100, description: "Capped at 500" }),
+    }, ["fence_id"]),
+    list: object({}),
+  }),
+};
@@ -0,0 +1,56 @@
+import type { FunctionSpec } from "../handler.ts";
+import { adminAreasSpec } from "./admin-areas.ts";
+import { apiKeysSpec } from "./api-keys.ts";
+import { assetTrackingSpec } from "./asset-tracking.ts";
+import { autocompleteSpec } from "./autocomplete.ts";
+import { batchGeocodeSpec } from "./batch-geocode.ts";
+import { geocodeJobsSpec } from "./geocode-jobs.ts";
+import { geocodeSpec } from "./geocode.ts";
+import { geofenceSpec } from "./geofence.ts";
+import { nearbySearchSpec } from "./nearby-search.ts";
+import { openapiSpec } from "./openapi.ts";
+import { organizationsSpec } from "./organizations.ts";
+import { parseAddressSpec } from "./parse-address.ts";
+import { recomputeConfidenceSpec } from "./recompute-confidence.ts";
+import { registryDuplicatesSpec } from "./registry-duplicates.ts";
+import { registryExportSpec } from "./registry-export.ts";
+import { registryHistorySpec } from "./registry-history.ts";
+import { registryImportSpec } from "./registry-import.ts";
+import { registryReviewSpec } from "./registry-review.ts";
+import { registrySearchSpec } from "./registry-search.ts";
+import { reverseGeocodeSpec } from "./reverse-geocode.ts";
+import { routingSpec } from "./routing.ts";
+import { spatialClusterSpec } from "./spatial-cluster.ts";
+import { tilesSpec } from "./tiles.ts";
+import { webhooksSpec } from "./webhooks.ts";
+import { geocodeWorkerSpec, webhookDispatcherSpec } from "./workers.ts";
+
+// Every edge function, in the order they are documented
+export const FUNCTION_SPECS: FunctionSpec[] = [
+  geocodeSpec,
+  parseAddressSpec,
+  recomputeConfidenceSpec,
+  registryHistorySpec,
+  registryReviewSpec,
+  registryDuplicatesSpec,
+  organizationsSpec,
+  apiKeysSpec,
+  reverseGeocodeSpec,
+  nearbySearchSpec,
+  registrySearchSpec,
+  autocompleteSpec,
+  batchGeocodeSpec,
+  geocodeJobsSpec,
+  geocodeWorkerSpec,
+  registryImportSpec,
+  registryExportSpec,
+  tilesSpec,
+  routingSpec,
+  spatialClusterSpec,
+  adminAreasSpec,
+  geofenceSpec,
+  assetTrackingSpec,
+  webhooksSpec,
+  webhookDispatcherSpec,
+  openapiSpec,
+];
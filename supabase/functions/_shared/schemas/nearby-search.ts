@@ -0,0 +1,46 @@
+import type { FunctionSpec } from "../handler.ts";
+import {
+  array,
+  fraction,
+  integer,
+  latitude,
+  longitude,
+  number,
+  object,
+  point,
+  string,
+  variants,
+} from "../schema.ts";
+
+export const MAX_K = 100;
+export const MAX_BATCH_POINTS = 100;
+// A batch answers with up to points × k rows, which must fit in the API's max_rows (1000)
+export const MAX_BATCH_RESULTS = 1000;
+
+export const nearbySearchSpec: FunctionSpec = {
+  name: "nearby-search",
+  summary: "Registry entries within a radius, or the k nearest to one or more points",
+  request: variants("mode", {
+    radius: object({
+      lat: latitude(),
+      lon: longitude(),
+      radius_m: number({ exclusiveMinimum: 0, maximum: 50000, default: 1000 }),
+      max_results: integer({ minimum: 1, default: 50, description: "Capped at 100" }),
+    }, ["lat", "lon"]),
+    knn: object({
+      lat: latitude(),
+      lon: longitude(),
+      points: array(point(), {
+        minItems: 1,
+        maxItems: MAX_BATCH_POINTS,
+        description: "Batch form, replaces lat/lon; points × k may not exceed 1000",
+      }),
+      k: integer({ minimum: 1, maximum: MAX_K, default: 5 }),
+      max_distance_m: number({ exclusiveMinimum: 0 }),
+      source: string(),
+      min_confidence: fraction(),
+      max_confidence: fraction(),
+      country_code: string(),
+    }),
+  }, "radius"),
+};
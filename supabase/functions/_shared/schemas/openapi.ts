@@ -0,0 +1,8 @@
+import type { FunctionSpec } from "../handler.ts";
+
+export const openapiSpec: FunctionSpec = {
+  name: "openapi",
+  summary: "This OpenAPI 3.1 document",
+  method: "GET",
+  auth: { allow: ["user", "service_role", "anonymous"] },
+};
@@ -0,0 +1,32 @@
+import type { FunctionSpec } from "../handler.ts";
+import { ORG_ROLES } from "../organizations.ts";
+import { actions, boolean, object, oneOf, string, text, uuid } from "../schema.ts";
+
+const org = object({ org_id: uuid() }, ["org_id"]);
+const member = object({ org_id: uuid(), user_id: uuid() }, ["org_id", "user_id"]);
+
+export const organizationsSpec: FunctionSpec = {
+  name: "organizations",
+  summary: "Organizations the caller belongs to, the active one, and their members",
+  auth: { allow: ["user"] },
+  request: actions({
+    list: object({}),
+    create: object({
+      name: text(),
+      activate: boolean({ default: true, description: "Switch to the new organization" }),
+    }, ["name"]),
+    switch: org,
+    members: org,
+    add_member: object({
+      org_id: uuid(),
+      email: string({ format: "email" }),
+      role: oneOf(ORG_ROLES, { default: "viewer" }),
+    }, ["org_id", "email"]),
+    set_role: object({
+      org_id: uuid(),
+      user_id: uuid(),
+      role: oneOf(ORG_ROLES),
+    }, ["org_id", "user_id", "role"]),
+    remove_member: member,
+  }),
+};
@@ -0,0 +1,18 @@
+import type { FunctionSpec } from "../handler.ts";
+import { array, object, text } from "../schema.ts";
+
+export const MAX_ADDRESSES = 1000;
+
+export const parseAddressSpec: FunctionSpec = {
+  name: "parse-address",
+  summary: "Parse Mongolian addresses into their components",
+  // Parsing needs no data, so anonymous callers are allowed; API keys still count
+  auth: { allow: ["user", "api_key", "anonymous"] },
+  request: object({
+    address: text(),
+    addresses: array({ description: "Batch form, replaces address" }, {
+      minItems: 1,
+      maxItems: MAX_ADDRESSES,
+    }),
+  }),
+};
@@ -0,0 +1,19 @@
+import type { FunctionSpec } from "../handler.ts";
+import { array, boolean, integer, object, string, uuid } from "../schema.ts";
+
+export const MAX_LIMIT = 1000;
+
+export const recomputeConfidenceSpec: FunctionSpec = {
+  name: "recompute-confidence",
+  summary: "Rescore the caller's geocoded registry entries with the current confidence model",
+  request: object({
+    registry_ids: array(uuid(), { minItems: 1, maxItems: MAX_LIMIT }),
+    source: string(),
+    only_outdated: boolean({
+      default: true,
+      description: "Skip entries already scored by the current model version",
+    }),
+    after_id: uuid("next_after_id from the previous call"),
+    limit: integer({ minimum: 1, maximum: MAX_LIMIT, default: 200 }),
+  }),
+};
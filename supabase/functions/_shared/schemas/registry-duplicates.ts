@@ -0,0 +1,52 @@
+import type { FunctionSpec } from "../handler.ts";
+import {
+  actions,
+  array,
+  boolean,
+  cursor,
+  fraction,
+  number,
+  object,
+  pageSize,
+  string,
+  timestamp,
+  uuid,
+} from "../schema.ts";
+
+export const MAX_PAGE_SIZE = 200;
+export const MAX_DISTANCE_M = 1000;
+export const MAX_MERGE = 50;
+export const MAX_RESOLVE = 1000;
+
+const ownedOnly = () =>
+  boolean({ default: true, description: "Only pairs with an entry created by the caller" });
+
+export const registryDuplicatesSpec: FunctionSpec = {
+  name: "registry-duplicates",
+  summary: "Detect, review and merge duplicate registry entries, and resolve merged ids",
+  description: "With the service role key, detection and merges span all users.",
+  auth: { allow: ["user", "api_key", "service_role"] },
+  request: actions({
+    detect: object({
+      max_distance_m: number({ exclusiveMinimum: 0, maximum: MAX_DISTANCE_M, default: 50 }),
+      min_text_similarity: fraction(),
+      source: string(),
+      owned_only: ownedOnly(),
+      created_after: timestamp("Only pairs with an entry created after this time"),
+    }),
+    list: object({
+      min_similarity: fraction(),
+      owned_only: ownedOnly(),
+      page_size: pageSize(MAX_PAGE_SIZE, 50),
+      cursor: cursor(),
+    }),
+    merge: object({
+      canonical_id: uuid(),
+      merged_ids: array(uuid(), { minItems: 1, maxItems: MAX_MERGE }),
+    }, ["canonical_id", "merged_ids"]),
+    dismiss: object({ candidate_id: uuid() }, ["candidate_id"]),
+    resolve: object({
+      registry_ids: array(uuid(), { minItems: 1, maxItems: MAX_RESOLVE }),
+    }, ["registry_ids"]),
+  }),
+};
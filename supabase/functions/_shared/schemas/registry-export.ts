@@ -0,0 +1,20 @@
+import type { FunctionSpec } from "../handler.ts";
+import { EXPORT_FORMATS } from "../export-formats.ts";
+import { bbox, fraction, object, oneOf, string, timestamp, uuid } from "../schema.ts";
+
+export const registryExportSpec: FunctionSpec = {
+  name: "registry-export",
+  summary: "Stream the registry or geofences as GeoJSON, CSV, KML or GPX",
+  request: object({
+    dataset: oneOf(["registry", "geofences"], { default: "registry" }),
+    format: oneOf(EXPORT_FORMATS, { default: "geojson" }),
+    bbox: bbox(),
+    fence_id: uuid(),
+    source: string({ description: "Registry only" }),
+    min_confidence: fraction("Registry only"),
+    max_confidence: fraction("Registry only"),
+    created_by: uuid(),
+    created_after: timestamp(),
+    created_before: timestamp(),
+  }),
+};
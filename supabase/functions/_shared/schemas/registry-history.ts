@@ -0,0 +1,18 @@
+import type { FunctionSpec } from "../handler.ts";
+import { actions, integer, object, uuid } from "../schema.ts";
+
+const entry = object({ registry_id: uuid() }, ["registry_id"]);
+
+export const registryHistorySpec: FunctionSpec = {
+  name: "registry-history",
+  summary: "Version history of registry entries, with soft delete, restore and revert",
+  request: actions({
+    history: entry,
+    delete: entry,
+    restore: entry,
+    revert: object({
+      registry_id: uuid(),
+      version: integer({ minimum: 1 }),
+    }, ["registry_id", "version"]),
+  }),
+};
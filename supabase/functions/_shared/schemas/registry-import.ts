@@ -0,0 +1,41 @@
+import type { FunctionSpec } from "../handler.ts";
+import { actions, boolean, object, oneOf, string, uuid } from "../schema.ts";
+
+export const registryImportSpec: FunctionSpec = {
+  name: "registry-import",
+  summary: "Import CSV or GeoJSON into the registry, geocoding rows without coordinates",
+  request: actions({
+    create: object({
+      format: oneOf(["csv", "geojson"]),
+      content: {
+        type: ["string", "object"],
+        description: "CSV text, or a GeoJSON FeatureCollection (as an object or text)",
+      },
+      columns: object(
+        {
+          address: {
+            type: ["string", "array"],
+            items: string(),
+            description: 'Address column; several are joined with ", "',
+          },
+          lat: string(),
+          lon: string(),
+        },
+        [],
+        { description: "Column or property names, default common names" },
+      ),
+      delimiter: string({ minLength: 1, maxLength: 1, default: "," }),
+      source: string(),
+      reuse_existing: boolean({
+        default: false,
+        description: "Applies to rows that need geocoding",
+      }),
+    }, ["format", "content"]),
+    status: object({ import_id: uuid() }, ["import_id"]),
+    report: object({
+      import_id: uuid(),
+      format: oneOf(["json", "csv"], { default: "json" }),
+      errors_only: boolean({ default: false }),
+    }, ["import_id"]),
+  }),
+};
@@ -0,0 +1,62 @@
+import type { FunctionSpec } from "../handler.ts";
+import {
+  actions,
+  boolean,
+  cursor,
+  fraction,
+  latitude,
+  longitude,
+  nullable,
+  object,
+  oneOf,
+  pageSize,
+  type Schema,
+  string,
+  text,
+  uuid,
+} from "../schema.ts";
+
+export const MAX_PAGE_SIZE = 200;
+export const REASONS = ["low_confidence", "flagged"] as const;
+
+// standardized_address fields a correction may set
+export const ADDRESS_FIELDS = [
+  "house_number",
+  "road",
+  "city",
+  "state",
+  "postcode",
+  "country",
+  "country_code",
+  "formatted",
+] as const;
+
+const fields: Record<string, Schema> = Object.fromEntries(
+  ADDRESS_FIELDS.map((field) => [field, nullable(string())]),
+);
+
+export const registryReviewSpec: FunctionSpec = {
+  name: "registry-review",
+  summary: "Review queue of low-confidence and flagged entries, flags and verified corrections",
+  request: actions({
+    queue: object({
+      threshold: fraction("Default 0.5"),
+      reason: oneOf(REASONS),
+      owned_only: boolean({ default: true }),
+      page_size: pageSize(MAX_PAGE_SIZE, 50),
+      cursor: cursor(),
+    }),
+    flag: object({
+      registry_id: uuid(),
+      reason: text(),
+    }, ["registry_id", "reason"]),
+    dismiss: object({ registry_id: uuid(), note: string() }, ["registry_id"]),
+    correct: object({
+      registry_id: uuid(),
+      reason: text(),
+      lat: latitude(),
+      lon: longitude(),
+      standardized_address: object(fields, [], { additionalProperties: false }),
+    }, ["registry_id", "reason"]),
+  }),
+};
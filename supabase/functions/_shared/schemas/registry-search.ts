@@ -0,0 +1,39 @@
+import type { FunctionSpec } from "../handler.ts";
+import {
+  bbox,
+  cursor,
+  fraction,
+  object,
+  oneOf,
+  pageSize,
+  point,
+  polygon,
+  string,
+  timestamp,
+  uuid,
+} from "../schema.ts";
+
+export const MAX_PAGE_SIZE = 500;
+export const SORTS = ["distance", "confidence", "recency"] as const;
+
+export const registrySearchSpec: FunctionSpec = {
+  name: "registry-search",
+  summary: "Search the registry by area, attributes and time, with keyset pagination",
+  request: object({
+    bbox: bbox(),
+    polygon: polygon(),
+    fence_id: uuid(),
+    source: string(),
+    min_confidence: fraction(),
+    max_confidence: fraction(),
+    country_code: string(),
+    city: string(),
+    created_by: uuid(),
+    created_after: timestamp(),
+    created_before: timestamp(),
+    near: point("Origin for distance sort and distance_m"),
+    sort: oneOf(SORTS, { description: "Default distance with near, otherwise recency" }),
+    page_size: pageSize(MAX_PAGE_SIZE, 50),
+    cursor: cursor(),
+  }),
+};
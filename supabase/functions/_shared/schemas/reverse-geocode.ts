@@ -0,0 +1,12 @@
+import type { FunctionSpec } from "../handler.ts";
+import { latitude, longitude, object, string } from "../schema.ts";
+
+export const reverseGeocodeSpec: FunctionSpec = {
+  name: "reverse-geocode",
+  summary: "Reverse geocode coordinates and store the result",
+  request: object({
+    lat: latitude(),
+    lon: longitude(),
+    source: string({ description: "Default <provider>_reverse" }),
+  }, ["lat", "lon"]),
+};
@@ -0,0 +1,65 @@
+import type { FunctionSpec } from "../handler.ts";
+import {
+  actions,
+  array,
+  number,
+  object,
+  oneOf,
+  point,
+  type Schema,
+  string,
+  text,
+  uuid,
+} from "../schema.ts";
+
+// route_matrix returns a row per ordered pair: 32 × 31 = 992 stays within the API's
+// max_rows of 1000, above which PostgREST would cut the result short
+export const MAX_MATRIX_SIZE = 32;
+export const MAX_ISOCHRONE_MINUTES = 60;
+export const MAX_SNAP_M = 5000;
+
+// Options of every action
+const common = {
+  profile: oneOf(["car", "foot"], { default: "car" }),
+  snap_m: number({
+    exclusiveMinimum: 0,
+    maximum: MAX_SNAP_M,
+    default: 1000,
+    description: "How far points may be from the road network",
+  }),
+};
+
+const waypoint = (description: string): Schema => ({
+  description: `${description}: coordinates, or a registry entry`,
+  oneOf: [point(), object({ registry_id: uuid() }, ["registry_id"])],
+});
+
+const minutes = () => number({ exclusiveMinimum: 0, maximum: MAX_ISOCHRONE_MINUTES });
+
+export const routingSpec: FunctionSpec = {
+  name: "routing",
+  summary: "Routes, distance matrices and isochrones over the road network",
+  request: actions({
+    route: object({
+      from: waypoint("Start"),
+      to: waypoint("Destination"),
+      ...common,
+    }, ["from", "to"]),
+    matrix: object({
+      registry_ids: array(uuid(), { minItems: 2, maxItems: MAX_MATRIX_SIZE }),
+      ...common,
+    }, ["registry_ids"]),
+    isochrone: object({
+      origin: waypoint("Origin"),
+      minutes: {
+        description: "Travel time, or up to 5 of them",
+        oneOf: [minutes(), array(minutes(), { minItems: 1, maxItems: 5 })],
+      },
+      save_as_geofence: object({
+        name: text({ description: 'Geofences are named "<name> (<n> min)"' }),
+        description: string(),
+      }, ["name"]),
+      ...common,
+    }, ["origin", "minutes"]),
+  }),
+};
@@ -0,0 +1,67 @@
+import type { FunctionSpec } from "../handler.ts";
+import {
+  array,
+  fraction,
+  integer,
+  latitude,
+  longitude,
+  number,
+  object,
+  oneOf,
+  string,
+  text,
+  variants,
+} from "../schema.ts";
+
+export const MAX_KMEANS_CLUSTERS = 100;
+
+const common = {
+  lat: latitude(),
+  lon: longitude(),
+  radius_m: number({ exclusiveMinimum: 0, maximum: 100000, default: 5000 }),
+  hull: oneOf(["convex", "concave", "none"], { default: "convex" }),
+  hull_convexity: fraction("Concave hulls: 1 is the convex hull, lower hugs the points"),
+  hull_buffer_m: number({
+    minimum: 0,
+    maximum: 5000,
+    default: 0,
+    description: "Grows each hull, so clusters of one or two entries get a polygon",
+  }),
+  save_as_geofence: object({
+    name: text({ description: 'Geofences are named "<name> (cluster <id>)"' }),
+    description: string(),
+    cluster_ids: array(integer({ minimum: 0 }), {
+      minItems: 1,
+      description: "Clusters to save, all by default",
+    }),
+  }, ["name"]),
+};
+
+export const spatialClusterSpec: FunctionSpec = {
+  name: "spatial-cluster",
+  summary: "Clusters of registry entries around a point, with member ids and hulls",
+  request: variants("algorithm", {
+    dbscan: object({
+      ...common,
+      cluster_distance_m: number({
+        exclusiveMinimum: 0,
+        default: 500,
+        description: "Largest gap between neighbours of a cluster, at most radius_m",
+      }),
+      min_points: integer({ minimum: 1, default: 1 }),
+    }, ["lat", "lon"]),
+    kmeans: object({
+      ...common,
+      num_clusters: integer({ minimum: 1, maximum: MAX_KMEANS_CLUSTERS }),
+    }, ["lat", "lon", "num_clusters"]),
+    grid: object({
+      ...common,
+      cluster_distance_m: number({
+        exclusiveMinimum: 0,
+        default: 500,
+        description: "Cell size, at most radius_m",
+      }),
+      min_points: integer({ minimum: 1, default: 1 }),
+    }, ["lat", "lon"]),
+  }, "dbscan"),
+};
@@ -0,0 +1,23 @@
+import type { FunctionSpec } from "../handler.ts";
+import { integer } from "../schema.ts";
+
+export const MAX_ZOOM = 22;
+
+export const tilesSpec: FunctionSpec = {
+  name: "tiles",
+  summary: "Mapbox Vector Tiles of registry points and geofences",
+  description: "Returns application/vnd.mapbox-vector-tile, or 204 for an empty tile.",
+  method: "GET",
+  path: "/tiles/{z}/{x}/{y}",
+  parameters: [
+    { name: "z", in: "path", required: true, schema: integer({ minimum: 0, maximum: MAX_ZOOM }) },
+    { name: "x", in: "path", required: true, schema: integer({ minimum: 0 }) },
+    { name: "y", in: "path", required: true, schema: integer({ minimum: 0 }) },
+    {
+      name: "cluster_max_zoom",
+      in: "query",
+      description: "Highest zoom with clustered points; -1 disables clustering",
+      schema: integer({ minimum: -1, default: 13 }),
+    },
+  ],
+};
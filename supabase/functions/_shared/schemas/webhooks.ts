@@ -0,0 +1,50 @@
+import type { FunctionSpec } from "../handler.ts";
+import { WEBHOOK_EVENT_TYPES } from "../webhooks.ts";
+import {
+  actions,
+  array,
+  boolean,
+  fraction,
+  integer,
+  nullable,
+  object,
+  oneOf,
+  string,
+  uuid,
+} from "../schema.ts";
+
+const subscriptionFields = {
+  url: string({ format: "uri", description: "http(s) URL receiving the events" }),
+  event_types: array(oneOf(WEBHOOK_EVENT_TYPES), { minItems: 1 }),
+  fence_ids: nullable(array(uuid(), { description: "Geofences whose events are sent" })),
+  low_confidence_threshold: fraction(),
+  active: boolean(),
+  description: nullable(string()),
+};
+
+const subscription = object({ subscription_id: uuid() }, ["subscription_id"]);
+
+export const webhooksSpec: FunctionSpec = {
+  name: "webhooks",
+  summary: "Manage webhook subscriptions and inspect or retry their deliveries",
+  request: actions({
+    create: object({
+      ...subscriptionFields,
+      secret: string({ minLength: 16, description: "Generated when omitted" }),
+    }, ["url", "event_types"]),
+    list: object({}),
+    update: object({
+      subscription_id: uuid(),
+      ...subscriptionFields,
+      rotate_secret: boolean({ default: false }),
+    }, ["subscription_id"]),
+    delete: subscription,
+    test: subscription,
+    deliveries: object({
+      subscription_id: uuid(),
+      status: oneOf(["pending", "delivered", "failed"]),
+      limit: integer({ minimum: 1, default: 50, description: "Capped at 500" }),
+    }),
+    redeliver: object({ delivery_id: uuid() }, ["delivery_id"]),
+  }),
+};
@@ -0,0 +1,15 @@
+import type { FunctionSpec } from "../handler.ts";
+
+// Invoked on a schedule with the service role key; the request body is ignored
+
+export const geocodeWorkerSpec: FunctionSpec = {
+  name: "geocode-worker",
+  summary: "Process queued geocode jobs for up to ~50 seconds",
+  auth: { allow: ["service_role"] },
+};
+
+export const webhookDispatcherSpec: FunctionSpec = {
+  name: "webhook-dispatcher",
+  summary: "Send due webhook deliveries for up to ~50 seconds",
+  auth: { allow: ["service_role"] },
+};
@@ -0,0 +1,30 @@
+// Mongolian Cyrillic to Latin, multi-letter mappings first.
+// Mirrors the mn_transliterate() SQL function used for registry search.
+const MULTI: [string, string][] = [
+  ["х", "kh"],
+  ["ц", "ts"],
+  ["ч", "ch"],
+  ["ш", "sh"],
+  ["щ", "sh"],
+  ["ж", "j"],
+  ["ё", "yo"],
+  ["ю", "yu"],
+  ["я", "ya"],
+  ["е", "ye"],
+];
+
+const SINGLE_FROM = "абвгдзийклмноөпрстуүфыьэъ";
+const SINGLE_TO = "abvgdziiklmnooprstuufyie";
+
+/** Romanize lowercase Mongolian Cyrillic; other characters pass through unchanged. */
+export function transliterate(input: string): string {
+  let text = input;
+  for (const [from, to] of MULTI) text = text.replaceAll(from, to);
+
+  let out = "";
+  for (const ch of text) {
+    const i = SINGLE_FROM.indexOf(ch);
+    out += i === -1 ? ch : (SINGLE_TO[i] ?? "");
+  }
+  return out;
+}
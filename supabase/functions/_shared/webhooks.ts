@@ -0,0 +1,191 @@
+export const WEBHOOK_EVENT_TYPES = [
+  "geofence.enter",
+  "geofence.exit",
+  "geofence.dwell",
+  "registry.inside_fence",
+  "geocode.low_confidence",
+];
+
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const BASE_BACKOFF_SECONDS = 30;
+const MAX_BACKOFF_SECONDS = 6 * 3600;
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// Hosts exempt from the address check, for receivers on a local network in development
+const ALLOWED_HOSTS = (Deno.env.get("WEBHOOK_ALLOWED_HOSTS") ?? "")
+  .split(",")
+  .map((h) => h.trim().toLowerCase())
+  .filter(Boolean);
+
+export interface WebhookDelivery {
+  id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  created_at: string;
+  url: string;
+  secret: string;
+}
+
+export interface DeliveryOutcome {
+  ok: boolean;
+  status_code: number | null;
+  error: string | null;
+  duration_ms: number;
+}
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: ArrayBuffer): string {
+  return [...new Uint8Array(bytes)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function generateSecret(): string {
+  return "whsec_" + toHex(crypto.getRandomValues(new Uint8Array(24)).buffer);
+}
+
+/**
+ * HMAC-SHA256 signature sent in the X-Webhook-Signature header as `t=<unix>,v1=<hex>`.
+ * The signed message is `<unix>.<body>`, so receivers can reject replayed requests by
+ * checking the timestamp.
+ */
+export async function signPayload(secret: string, timestamp: number, body: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return `t=${timestamp},v1=${toHex(mac)}`;
+}
+
+// Delay before retrying after `attempts` failed attempts: 30s, 1m, 2m, ... capped at 6h
+export function backoffSeconds(attempts: number): number {
+  return Math.min(BASE_BACKOFF_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_SECONDS);
+}
+
+// Loopback, private, shared, link-local (cloud metadata), benchmark and multicast ranges
+function isBlockedIpv4(ip: string): boolean {
+  const [a, b, c] = ip.split(".").map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 198 && (b === 18 || b === 19));
+}
+
+// The eight 16-bit groups of an IPv6 address, with an embedded IPv4 tail expanded
+function ipv6Groups(ip: string): number[] {
+  const parse = (part: string) =>
+    part
+      ? part.split(":").flatMap((g) => {
+        if (!g.includes(".")) return [parseInt(g, 16)];
+        const [a, b, c, d] = g.split(".").map(Number);
+        return [(a << 8) | b, (c << 8) | d];
+      })
+      : [];
+  const [head, tail] = ip.split("::");
+  const start = parse(head);
+  const end = tail === undefined ? [] : parse(tail);
+  return [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+// Unspecified, loopback, unique local, link-local, multicast, and IPv4-mapped or NAT64
+// addresses of blocked IPv4 ranges
+function isBlockedIpv6(ip: string): boolean {
+  const g = ipv6Groups(ip.toLowerCase());
+  const v4 = `${g[6] >> 8}.${g[6] & 255}.${g[7] >> 8}.${g[7] & 255}`;
+
+  if (g.slice(0, 7).every((x) => x === 0)) return g[7] <= 1;
+  if (g.slice(0, 5).every((x) => x === 0) && g[5] === 0xffff) return isBlockedIpv4(v4);
+  if (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every((x) => x === 0)) {
+    return isBlockedIpv4(v4);
+  }
+  return (g[0] & 0xfe00) === 0xfc00 || (g[0] & 0xffc0) === 0xfe80 ||
+    (g[0] & 0xffc0) === 0xfec0 || (g[0] & 0xff00) === 0xff00;
+}
+
+const IPV4 = /^\d+\.\d+\.\d+\.\d+$/;
+
+/**
+ * Check that a webhook URL is http(s) and that its host resolves only to public
+ * addresses, so subscriptions cannot make the functions probe internal services. Runs
+ * when a subscription is saved and again before every delivery, since DNS can change.
+ * Returns the reason the URL is refused, or null.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "https:" && protocol !== "http:") return "'url' must be an http(s) URL";
+
+  const host = hostname.toLowerCase();
+  if (ALLOWED_HOSTS.includes(host)) return null;
+
+  let addresses: string[];
+  if (IPV4.test(host)) {
+    addresses = [host];
+  } else if (host.startsWith("[")) {
+    addresses = [host.slice(1, -1)];
+  } else if (host === "localhost" || host.endsWith(".localhost")) {
+    return "'url' must not point to a loopback, private or link-local address";
+  } else {
+    const lookups = await Promise.allSettled([
+      Deno.resolveDns(host, "A"),
+      Deno.resolveDns(host, "AAAA"),
+    ]);
+    addresses = lookups.flatMap((r) => r.status === "fulfilled" ? r.value : []);
+    if (addresses.length === 0) return `'url' host ${host} could not be resolved`;
+  }
+
+  const blocked = addresses.some((ip) => IPV4.test(ip) ? isBlockedIpv4(ip) : isBlockedIpv6(ip));
+  return blocked ? "'url' must not point to a loopback, private or link-local address" : null;
+}
+
+// POST one signed delivery; any 2xx response counts as delivered. Redirects are not
+// followed, since their target has not been checked.
+export async function sendDelivery(delivery: WebhookDelivery): Promise<DeliveryOutcome> {
+  const body = JSON.stringify({
+    id: delivery.id,
+    type: delivery.event_type,
+    created_at: delivery.created_at,
+    data: delivery.payload,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+
+  const refused = await checkWebhookUrl(delivery.url);
+  if (refused) return { ok: false, status_code: null, error: refused, duration_ms: 0 };
+
+  try {
+    const res = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "map.gerege.ai-webhooks",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event_type,
+        "X-Webhook-Signature": await signPayload(delivery.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    await res.body?.cancel();
+
+    return {
+      ok: res.ok,
+      status_code: res.status,
+      error: res.ok ? null : `HTTP ${res.status}`,
+      duration_ms: Date.now() - started,
+    };
+  } catch (err) {
+    return {
+      ok: false,
+      status_code: null,
+      error: (err as Error).message,
+      duration_ms: Date.now() - started,
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { adminAreasSpec } from "../_shared/schemas/admin-areas.ts";
+
+// Feature property names holding each field (defaults: the field names themselves)
+interface PropertyMap {
+  code?: string;
+  name?: string;
+  name_en?: string;
+  parent_code?: string;
+  kind?: string;
+}
+
+interface LookupRequest {
+  action: "lookup";
+  lat: number;
+  lon: number;
+}
+
+interface CountsRequest {
+  action: "counts";
+  level?: number;
+  parent_id?: string;
+  source?: string;
+}
+
+interface ImportRequest {
+  action: "import";
+  level: number;
+  kind?: string; // for every feature without a kind property
+  geojson: {
+    type: "FeatureCollection";
+    features: { geometry: unknown; properties: Record<string, unknown> | null }[];
+  };
+  properties?: PropertyMap;
+  refresh_registry?: boolean; // re-enrich existing geo_registry rows (default true)
+}
+
+type RequestPayload = LookupRequest | CountsRequest | ImportRequest;
+
+const DEFAULT_PROPERTIES: Required<PropertyMap> = {
+  code: "code",
+  name: "name",
+  name_en: "name_en",
+  parent_code: "parent_code",
+  kind: "kind",
+};
+
+serve<RequestPayload>(adminAreasSpec, async (payload, { caller }) => {
+  // Act as the caller so RLS policies are enforced; imports need the service role key
+  const supabase = caller.client;
+
+  switch (payload.action) {
+    // --- LOOKUP: full admin hierarchy at a point, answered from the local dataset ---
+    case "lookup": {
+      const { lat, lon } = payload;
+
+      const { data, error } = await supabase.rpc("admin_areas_at", { lat, lon });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      return jsonResponse({ lat, lon, count: data?.length ?? 0, hierarchy: data ?? [] });
+    }
+
+    // --- COUNTS: registry entries per admin area ---
+    case "counts": {
+      const { level, parent_id, source } = payload;
+
+      const { data, error } = await supabase.rpc("admin_area_counts", {
+        level_filter: level ?? null,
+        parent_filter: parent_id ?? null,
+        source_filter: source ?? null,
+      });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      return jsonResponse({ count: data?.length ?? 0, areas: data ?? [] });
+    }
+
+    // --- IMPORT: load one level of boundaries from a GeoJSON FeatureCollection ---
+    case "import": {
+      const { level, kind, geojson, refresh_registry = true } = payload;
+      const props = { ...DEFAULT_PROPERTIES, ...payload.properties };
+
+      const features = [];
+      for (const [index, feature] of geojson.features.entries()) {
+        const p = feature?.properties ?? {};
+        const code = p[props.code];
+        const name = p[props.name];
+        const type = (feature?.geometry as { type?: string } | null)?.type;
+
+        if (typeof code !== "string" && typeof code !== "number") {
+          return jsonResponse({ error: `features[${index}]: missing '${props.code}'` }, 400);
+        }
+        if (typeof name !== "string" || name.trim() === "") {
+          return jsonResponse({ error: `features[${index}]: missing '${props.name}'` }, 400);
+        }
+        if (type !== "Polygon" && type !== "MultiPolygon") {
+          return jsonResponse(
+            { error: `features[${index}]: geometry must be a Polygon or MultiPolygon` },
+            400,
+          );
+        }
+
+        const parent = p[props.parent_code];
+        features.push({
+          code: String(code),
+          name,
+          name_en: (p[props.name_en] as string | undefined) ?? null,
+          level,
+          kind: (p[props.kind] as string | undefined) ?? kind ?? null,
+          parent_code: parent === undefined || parent === null ? null : String(parent),
+          geometry: JSON.stringify(feature.geometry),
+          properties: p,
+        });
+      }
+
+      const { data: loaded, error } = await supabase.rpc("upsert_admin_boundaries", {
+        features,
+      });
+
+      if (error) {
+        // RLS rejects the write unless the request carries the service role key
+        const status = error.code === "42501" ? 403 : 500;
+        return jsonResponse({ error: error.message }, status);
+      }
+
+      let registry_rows_updated: number | null = null;
+      if (refresh_registry) {
+        const { data, error: refreshError } = await supabase.rpc(
+          "refresh_registry_admin_areas",
+        );
+        if (refreshError) return jsonResponse({ error: refreshError.message }, 500);
+        registry_rows_updated = data;
+      }
+
+      return jsonResponse({ level, loaded, registry_rows_updated });
+    }
+  }
+});
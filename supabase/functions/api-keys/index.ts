@@ -0,0 +1,153 @@
+import { generateApiKey, hashApiKey } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { resolveActiveOrg } from "../_shared/organizations.ts";
+import { apiKeysSpec } from "../_shared/schemas/api-keys.ts";
+
+const KEY_COLUMNS =
+  "id, name, prefix, org_id, user_id, functions, rate_limit_per_minute, monthly_quota, " +
+  "expires_at, revoked_at, last_used_at, created_by, created_at";
+const PREFIX_LENGTH = 11; // "gk_" and the first 8 hex characters
+
+interface CreateRequest {
+  action: "create";
+  name: string;
+  org_id?: string; // default: the caller's active organization
+  functions?: string[] | null; // default: all functions
+  rate_limit_per_minute?: number; // default 60
+  monthly_quota?: number | null; // default unlimited
+  expires_at?: string | null;
+}
+
+interface ListRequest {
+  action: "list";
+  org_id?: string;
+  include_revoked?: boolean;
+}
+
+interface KeyRequest {
+  action: "revoke" | "usage";
+  key_id: string;
+}
+
+type RequestPayload = CreateRequest | ListRequest | KeyRequest;
+
+serve<RequestPayload>(apiKeysSpec, async (payload, { caller }) => {
+  // Act as the caller so RLS limits keys to the caller's own and, for admins, the
+  // organization's
+  const supabase = caller.client;
+
+  switch (payload.action) {
+    // --- CREATE a key (admins); the key itself is only returned here ---
+    case "create": {
+      const { name, rate_limit_per_minute = 60, expires_at = null } = payload;
+
+      if (expires_at !== null && Date.parse(expires_at) <= Date.now()) {
+        return jsonResponse({ error: "'expires_at' must be in the future" }, 400);
+      }
+
+      const org_id = payload.org_id ?? await resolveActiveOrg(caller);
+      if (!org_id) return jsonResponse({ error: "No active organization" }, 400);
+
+      const key = generateApiKey();
+      const { data, error } = await supabase
+        .from("api_keys")
+        .insert({
+          name: name.trim(),
+          prefix: key.slice(0, PREFIX_LENGTH),
+          key_hash: await hashApiKey(key),
+          org_id,
+          user_id: caller.userId,
+          functions: payload.functions ?? null,
+          rate_limit_per_minute,
+          monthly_quota: payload.monthly_quota ?? null,
+          expires_at,
+          created_by: caller.userId,
+        })
+        .select(KEY_COLUMNS)
+        .single();
+
+      if (error?.code === "42501") {
+        return jsonResponse(
+          { error: "Only admins of the organization can create keys" },
+          403,
+        );
+      }
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      return jsonResponse(Object.assign({}, data, { key }), 201);
+    }
+
+    // --- LIST keys acting as the caller, or all of the organization's for admins ---
+    case "list": {
+      const { org_id, include_revoked = false } = payload;
+
+      let query = supabase
+        .from("api_keys")
+        .select(KEY_COLUMNS)
+        .order("created_at", { ascending: false });
+
+      if (org_id) query = query.eq("org_id", org_id);
+      if (!include_revoked) query = query.is("revoked_at", null);
+
+      const { data, error } = await query;
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      return jsonResponse({ count: (data ?? []).length, keys: data });
+    }
+
+    // --- REVOKE a key (admins, or the member it acts as) ---
+    case "revoke": {
+      const { key_id } = payload;
+
+      const { data, error } = await supabase.rpc("revoke_api_key", { key_id });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!data) {
+        return jsonResponse({ error: "Key not found, already revoked or not yours" }, 404);
+      }
+
+      return jsonResponse({ key_id, revoked: true });
+    }
+
+    // --- USAGE: requests per month and function ---
+    case "usage": {
+      const { key_id } = payload;
+
+      const { data: key, error: keyError } = await supabase
+        .from("api_keys")
+        .select("id, rate_limit_per_minute, monthly_quota, last_used_at")
+        .eq("id", key_id)
+        .maybeSingle();
+
+      if (keyError) return jsonResponse({ error: keyError.message }, 500);
+      if (!key) return jsonResponse({ error: "Key not found" }, 404);
+
+      const { data, error } = await supabase
+        .from("api_key_usage")
+        .select("period, function_name, requests, rejected")
+        .eq("key_id", key_id)
+        .order("period", { ascending: false })
+        .order("function_name");
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      const rows = data ?? [];
+      const currentPeriod = new Date().toISOString().slice(0, 8) + "01";
+      const used = rows
+        .filter((r) => r.period === currentPeriod)
+        .reduce((sum, r) => sum + Number(r.requests), 0);
+
+      return jsonResponse({
+        key_id,
+        rate_limit_per_minute: key.rate_limit_per_minute,
+        monthly_quota: key.monthly_quota,
+        current_period: currentPeriod,
+        current_period_requests: used,
+        quota_remaining: key.monthly_quota !== null ? Math.max(key.monthly_quota - used, 0) : null,
+        last_used_at: key.last_used_at,
+        usage: rows,
+      });
+    }
+  }
+});
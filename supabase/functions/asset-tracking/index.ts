@@ -0,0 +1,142 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { assetTrackingSpec } from "../_shared/schemas/asset-tracking.ts";
+
+interface Ping {
+  asset_id: string;
+  lat: number;
+  lon: number;
+  recorded_at?: string; // defaults to the time the ping is received
+}
+
+interface PingPayload {
+  action: "ping";
+  asset_id?: string;
+  lat?: number;
+  lon?: number;
+  recorded_at?: string;
+  pings?: Ping[]; // alternative to a single ping
+  dwell_seconds?: number; // default dwell threshold for fences without metadata.dwell_seconds
+}
+
+interface HistoryPayload {
+  action: "history";
+  asset_id: string;
+  since?: string;
+  until?: string;
+  event_type?: "enter" | "exit" | "dwell";
+  fence_id?: string;
+  max_results?: number;
+}
+
+interface OccupantsPayload {
+  action: "occupants";
+  fence_id: string;
+}
+
+type RequestPayload = PingPayload | HistoryPayload | OccupantsPayload;
+
+async function recordPing(
+  supabase: SupabaseClient,
+  ping: Ping & { recorded_at: string },
+  dwell_seconds: number,
+) {
+  const { data, error } = await supabase.rpc("record_asset_ping", {
+    asset_id: ping.asset_id,
+    lat: ping.lat,
+    lon: ping.lon,
+    recorded_at: ping.recorded_at,
+    dwell_seconds,
+  });
+
+  if (error) throw new Error(error.message);
+  return { asset_id: ping.asset_id, events: data ?? [] };
+}
+
+serve<RequestPayload>(assetTrackingSpec, async (payload, { caller }) => {
+  // Act as the caller so assets, state and events are scoped to the caller
+  const supabase = caller.client;
+
+  switch (payload.action) {
+    // --- PING: record one or more positions and return the resulting events ---
+    case "ping": {
+      const { pings, dwell_seconds = 300, ...single } = payload;
+      const batch: Ping[] = pings ?? [single as Ping];
+
+      if (
+        !pings && (single.asset_id === undefined || single.lat === undefined ||
+          single.lon === undefined)
+      ) {
+        return jsonResponse(
+          { error: "'asset_id', 'lat' and 'lon' are required unless 'pings' is given" },
+          400,
+        );
+      }
+
+      // Pings without recorded_at happened when received; replay all in time order so
+      // transitions are computed in the order they happened
+      const receivedAt = new Date().toISOString();
+      const ordered = batch
+        .map((ping, index) => {
+          const recorded_at = ping.recorded_at ?? receivedAt;
+          return { ping: { ...ping, recorded_at }, index, t: Date.parse(recorded_at) };
+        })
+        .sort((a, b) => a.t - b.t || a.index - b.index);
+
+      const results = [];
+      for (const { ping } of ordered) {
+        results.push(await recordPing(supabase, ping, dwell_seconds));
+      }
+
+      const events = results.flatMap((r) =>
+        r.events.map((e: Record<string, unknown>) => ({ asset_id: r.asset_id, ...e }))
+      );
+
+      return jsonResponse({ processed: results.length, count: events.length, events });
+    }
+
+    // --- HISTORY: events for one asset, newest first ---
+    case "history": {
+      const { asset_id, since, until, event_type, fence_id, max_results = 100 } = payload;
+
+      const { data, error } = await supabase.rpc("asset_event_history", {
+        asset_id,
+        since: since ?? null,
+        until: until ?? null,
+        event_type_filter: event_type ?? null,
+        fence_id_filter: fence_id ?? null,
+        max_results: Math.min(max_results, 1000),
+      });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      const events = (data ?? []).map(
+        (row: { location: string; [key: string]: unknown }) => ({
+          ...row,
+          location: JSON.parse(row.location),
+        }),
+      );
+
+      return jsonResponse({ asset_id, count: events.length, events });
+    }
+
+    // --- OCCUPANTS: assets currently inside a geofence ---
+    case "occupants": {
+      const { fence_id } = payload;
+
+      const { data, error } = await supabase.rpc("geofence_occupants", { fence_id });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      const assets = (data ?? []).map(
+        (row: { location: string | null; [key: string]: unknown }) => ({
+          ...row,
+          location: row.location ? JSON.parse(row.location) : null,
+        }),
+      );
+
+      return jsonResponse({ fence_id, count: assets.length, assets });
+    }
+  }
+});
@@ -0,0 +1,135 @@
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import {
+  buildStandardized,
+  type GeocodeResult,
+  GeocodingProviderError,
+  rankByProximity,
+} from "../_shared/geocoding.ts";
+import { getGeocodingProvider } from "../_shared/providers/mod.ts";
+import { autocompleteSpec } from "../_shared/schemas/autocomplete.ts";
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 20;
+// Local results whose best text similarity is below this go to the provider as well
+const WEAK_SIMILARITY = 0.6;
+
+interface AutocompleteRequest {
+  q: string;
+  near?: { lat: number; lon: number };
+  limit?: number;
+  fallback?: boolean; // ask the geocoding provider when local results are weak (default true)
+}
+
+interface RegistryMatch {
+  id: string;
+  raw_address: string;
+  standardized_address: Record<string, unknown> | null;
+  coordinates: string;
+  source: string | null;
+  confidence_score: number | null;
+  similarity: number;
+  distance_m: number | null;
+  score: number;
+}
+
+interface Suggestion {
+  origin: "registry" | "provider";
+  id: string | null; // geo_registry id for registry suggestions
+  label: string;
+  lat: number;
+  lon: number;
+  standardized_address: Record<string, unknown> | null;
+  confidence_score: number | null;
+  similarity: number | null;
+  distance_m: number | null;
+}
+
+function roundDistance(distance_m: number | null | undefined) {
+  return typeof distance_m === "number" ? Math.round(distance_m * 100) / 100 : null;
+}
+
+function registrySuggestion(row: RegistryMatch): Suggestion {
+  const [lon, lat] = JSON.parse(row.coordinates).coordinates;
+  return {
+    origin: "registry",
+    id: row.id,
+    label: (row.standardized_address?.formatted as string | undefined) ?? row.raw_address,
+    lat,
+    lon,
+    standardized_address: row.standardized_address,
+    confidence_score: row.confidence_score,
+    similarity: Math.round(row.similarity * 1000) / 1000,
+    distance_m: roundDistance(row.distance_m),
+  };
+}
+
+function providerSuggestion(result: GeocodeResult & { distance_m?: number }): Suggestion {
+  return {
+    origin: "provider",
+    id: null,
+    label: result.display_name,
+    lat: result.lat,
+    lon: result.lon,
+    standardized_address: buildStandardized(result),
+    confidence_score: null,
+    similarity: null,
+    distance_m: roundDistance(result.distance_m),
+  };
+}
+
+serve<AutocompleteRequest>(autocompleteSpec, async (payload, { caller }) => {
+  const { q, near, limit = DEFAULT_LIMIT, fallback = true } = payload;
+
+  const max_results = Math.min(Math.max(Math.trunc(limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  // Act as the caller so RLS policies are enforced
+  const supabase = caller.client;
+
+  const { data, error } = await supabase.rpc("registry_autocomplete", {
+    q,
+    near_lat: near?.lat ?? null,
+    near_lon: near?.lon ?? null,
+    max_results,
+  });
+
+  if (error) return jsonResponse({ error: error.message }, 500);
+
+  const local: RegistryMatch[] = data ?? [];
+  const suggestions = local.map(registrySuggestion);
+  const weak = local.length === 0 ||
+    Math.max(...local.map((r) => r.similarity)) < WEAK_SIMILARITY;
+
+  if (!fallback || !weak) {
+    return jsonResponse({ count: suggestions.length, fallback_used: false, suggestions });
+  }
+
+  const provider = getGeocodingProvider();
+  let results: GeocodeResult[];
+  try {
+    results = await provider.search(q, { limit: max_results });
+  } catch (err) {
+    if (!(err instanceof GeocodingProviderError)) throw err;
+    return jsonResponse({
+      count: suggestions.length,
+      fallback_used: false,
+      fallback_error: "Geocoding service request failed",
+      suggestions,
+    });
+  }
+
+  // Provider answers take up to half the list, after the local matches and without
+  // repeating places already listed
+  const extra = (near ? rankByProximity(results, near) : results)
+    .filter((r) => !suggestions.some((s) => s.label === r.display_name))
+    .slice(0, Math.ceil(max_results / 2))
+    .map(providerSuggestion);
+  const merged = [...suggestions.slice(0, max_results - extra.length), ...extra];
+
+  return jsonResponse({
+    count: merged.length,
+    fallback_used: true,
+    provider: provider.name,
+    suggestions: merged,
+  });
+});
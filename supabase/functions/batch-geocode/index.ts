@@ -1,36 +1,42 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { corsHeaders } from "../_shared/cors.ts";
-
-const MAX_BATCH_SIZE = 50;
-const NOMINATIM_DELAY_MS = 1100; // Nominatim requires ~1 req/sec
+import { createServiceClient } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { confidenceMetadata, scoreForward, verifiedConfidence } from "../_shared/confidence.ts";
+import { buildStandardized, type GeocodeResult } from "../_shared/geocoding.ts";
+import {
+  findExistingRows,
+  linkCachedRow,
+  lookupCached,
+  lookupCorrections,
+  normalizeAddress,
+  storeCached,
+  VERIFIED_SOURCE,
+} from "../_shared/geocode-cache.ts";
+import {
+  geocodingQuery,
+  type ParsedAddress,
+  parseMongolianAddress,
+} from "../_shared/mn-address.ts";
+import { requireEditorOrg } from "../_shared/organizations.ts";
+import { getGeocodingProvider } from "../_shared/providers/mod.ts";
+import { batchGeocodeSpec } from "../_shared/schemas/batch-geocode.ts";
 
 interface BatchGeocodeRequest {
   addresses: string[];
   source?: string;
-}
-
-interface NominatimResult {
-  lat: string;
-  lon: string;
-  display_name: string;
-  address: {
-    house_number?: string;
-    road?: string;
-    city?: string;
-    state?: string;
-    postcode?: string;
-    country?: string;
-    country_code?: string;
-  };
+  reuse_existing?: boolean; // return matching geo_registry rows instead of inserting duplicates
 }
 
 interface GeocodedRow {
   raw_address: string;
+  parsed_address: ParsedAddress;
   standardized_address: Record<string, unknown>;
   coordinates: string;
   source: string;
   confidence_score: number;
+  metadata: Record<string, unknown>;
   created_by: string | null;
+  org_id: string | null;
 }
 
 interface ResultItem {
@@ -38,178 +44,189 @@ interface ResultItem {
   status: "success" | "not_found" | "error";
   data?: Record<string, unknown>;
   error?: string;
+  cache_hit?: boolean;
+  reused?: boolean;
+  corrected?: boolean;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-function buildStandardized(address: NominatimResult["address"], formatted: string) {
-  return {
-    house_number: address.house_number ?? null,
-    road: address.road ?? null,
-    city: address.city ?? null,
-    state: address.state ?? null,
-    postcode: address.postcode ?? null,
-    country: address.country ?? null,
-    country_code: address.country_code ?? null,
-    formatted,
-  };
-}
+serve<BatchGeocodeRequest>(batchGeocodeSpec, async (payload, { caller, requestId }) => {
+  const { addresses, source, reuse_existing = false } = payload;
+
+  const created_by = caller.userId;
+  const provider = getGeocodingProvider();
+  const supabase = createServiceClient();
+  // Rows are added to the caller's active organization; reuse and corrections are limited
+  // to it
+  const org_id = await requireEditorOrg(caller);
+  if (org_id instanceof Response) return org_id;
+
+  const results: ResultItem[] = [];
+  const rowsToInsert: GeocodedRow[] = [];
+  const insertKeys: string[] = [];
+
+  // Resolve each distinct normalized address once: existing rows, then cache, then provider
+  const keyOf = new Map<string, string>();
+  for (const a of addresses) {
+    if (typeof a === "string" && a.trim() !== "") keyOf.set(a, normalizeAddress(a));
+  }
+  const keys = [...new Set(keyOf.values())];
+
+  const existing = reuse_existing
+    ? await findExistingRows(supabase, keys, org_id)
+    : new Map<string, Record<string, unknown>>();
+  // Verified corrections take precedence over the cache and provider
+  const corrections = await lookupCorrections(
+    supabase,
+    keys.filter((k) => !existing.has(k)),
+    org_id,
+  );
+  const cached = await lookupCached(
+    supabase,
+    provider.name,
+    keys.filter((k) => !existing.has(k) && !corrections.has(k)),
+  );
+
+  // One representative address per unresolved key goes to the provider
+  const toFetch = new Map<string, string>();
+  for (const [address, key] of keyOf) {
+    if (!existing.has(key) && !corrections.has(key) && !cached.has(key) && !toFetch.has(key)) {
+      toFetch.set(key, address);
+    }
+  }
 
-function computeConfidence(address: NominatimResult["address"]): number {
-  const fields = [
-    address.house_number,
-    address.road,
-    address.city,
-    address.state,
-    address.postcode,
-    address.country,
-  ];
-  const filled = fields.filter(Boolean).length;
-  return parseFloat((filled / fields.length).toFixed(2));
-}
+  // Normalized addresses can share a provider query once unit details are dropped
+  const queryKeys = new Map<string, string[]>();
+  for (const [key, address] of toFetch) {
+    const query = geocodingQuery(address);
+    queryKeys.set(query, [...(queryKeys.get(query) ?? []), key]);
+  }
 
-Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
+  // The provider geocodes sequentially and respects its own rate limit
+  const fetched = new Map<string, { result: GeocodeResult | null; error?: string }>();
+  const geocoded = await provider.batch([...queryKeys.keys()]);
+  for (const item of geocoded) {
+    for (const key of queryKeys.get(item.address)!) fetched.set(key, item);
   }
 
-  try {
-    const { addresses, source }: BatchGeocodeRequest = await req.json();
+  await storeCached(
+    supabase,
+    provider.name,
+    [...fetched].filter(([, f]) => !f.error).map(([key, f]) => ({ key, result: f.result })),
+  );
+
+  for (const address of addresses) {
+    if (typeof address !== "string" || address.trim() === "") {
+      results.push({ address, status: "error", error: "Invalid address string" });
+      continue;
+    }
+
+    const key = keyOf.get(address)!;
+    const row = existing.get(key);
 
-    if (!Array.isArray(addresses) || addresses.length === 0) {
-      return new Response(
-        JSON.stringify({ error: "'addresses' must be a non-empty array of strings" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
+    if (row) {
+      results.push({ address, status: "success", data: row, cache_hit: false, reused: true });
+      continue;
     }
 
-    if (addresses.length > MAX_BATCH_SIZE) {
-      return new Response(
-        JSON.stringify({ error: `Batch size exceeds maximum of ${MAX_BATCH_SIZE}` }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
+    const cache_hit = cached.has(key);
+    const correction = corrections.get(key);
+    const outcome: { result: GeocodeResult | null; error?: string } = correction ??
+      cached.get(key) ?? fetched.get(key)!;
+    const { result, error } = outcome;
+
+    if (error) {
+      results.push({ address, status: "error", error });
+      continue;
     }
 
-    // Resolve the calling user
-    const authHeader = req.headers.get("Authorization");
-    let created_by: string | null = null;
-
-    if (authHeader) {
-      const userClient = createClient(
-        Deno.env.get("SUPABASE_URL")!,
-        Deno.env.get("SUPABASE_ANON_KEY")!,
-        { global: { headers: { Authorization: authHeader } } },
-      );
-      const { data: { user } } = await userClient.auth.getUser();
-      created_by = user?.id ?? null;
+    if (!result) {
+      results.push({ address, status: "not_found", cache_hit });
+      continue;
     }
 
-    const results: ResultItem[] = [];
-    const rowsToInsert: GeocodedRow[] = [];
-
-    // Geocode each address sequentially to respect Nominatim rate limits
-    for (let i = 0; i < addresses.length; i++) {
-      const address = addresses[i];
-
-      if (typeof address !== "string" || address.trim() === "") {
-        results.push({ address, status: "error", error: "Invalid address string" });
-        continue;
-      }
-
-      try {
-        if (i > 0) await sleep(NOMINATIM_DELAY_MS);
-
-        const encoded = encodeURIComponent(address);
-        const nominatimUrl =
-          `https://nominatim.openstreetmap.org/search?q=${encoded}&format=json&addressdetails=1&limit=1`;
-
-        const geoRes = await fetch(nominatimUrl, {
-          headers: { "User-Agent": "map.gerege.ai/1.0" },
-        });
-
-        if (!geoRes.ok) {
-          results.push({ address, status: "error", error: "Geocoding service request failed" });
-          continue;
-        }
-
-        const nominatimResults: NominatimResult[] = await geoRes.json();
-
-        if (nominatimResults.length === 0) {
-          results.push({ address, status: "not_found" });
-          continue;
-        }
-
-        const top = nominatimResults[0];
-        const lat = parseFloat(top.lat);
-        const lon = parseFloat(top.lon);
-        const standardized_address = buildStandardized(top.address, top.display_name);
-        const confidence_score = computeConfidence(top.address);
-
-        rowsToInsert.push({
-          raw_address: address,
-          standardized_address,
-          coordinates: `SRID=4326;POINT(${lon} ${lat})`,
-          source: source ?? "nominatim_batch",
-          confidence_score,
-          created_by,
-        });
-
-        results.push({
-          address,
-          status: "success",
-          data: {
-            standardized_address,
-            lat,
-            lon,
-            confidence_score,
-          },
-        });
-      } catch {
-        results.push({ address, status: "error", error: "Unexpected geocoding failure" });
-      }
+    const { lat, lon } = result;
+    const standardized_address = buildStandardized(result);
+    const confidence = correction
+      ? verifiedConfidence()
+      : scoreForward(geocodingQuery(address), result);
+    const confidence_score = confidence.score;
+
+    // With reuse_existing, repeats of an address within the batch share one new row
+    const duplicate = reuse_existing && insertKeys.includes(key);
+    if (!duplicate) {
+      rowsToInsert.push({
+        raw_address: address,
+        parsed_address: parseMongolianAddress(address),
+        standardized_address,
+        coordinates: `SRID=4326;POINT(${lon} ${lat})`,
+        source: correction ? VERIFIED_SOURCE : source ?? `${provider.name}_batch`,
+        confidence_score,
+        metadata: {
+          provider: provider.name,
+          confidence: confidenceMetadata(confidence),
+          ...(correction ? { verified_correction: correction.registry_id } : {}),
+        },
+        created_by,
+        org_id,
+      });
+      insertKeys.push(key);
     }
 
-    // Bulk insert all successful results in a single database call
-    let inserted = 0;
-    if (rowsToInsert.length > 0) {
-      const supabase = createClient(
-        Deno.env.get("SUPABASE_URL")!,
-        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
-      );
-
-      const { error } = await supabase.from("geo_registry").insert(rowsToInsert);
-
-      if (error) {
-        return new Response(
-          JSON.stringify({
-            error: `Geocoding succeeded but database insert failed: ${error.message}`,
-            results,
-          }),
-          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-        );
-      }
-
-      inserted = rowsToInsert.length;
+    results.push({
+      address,
+      status: "success",
+      data: {
+        standardized_address,
+        lat,
+        lon,
+        confidence_score,
+        confidence_breakdown: confidence.breakdown,
+        provider: provider.name,
+      },
+      cache_hit,
+      reused: duplicate,
+      corrected: !!correction,
+    });
+  }
+
+  // Bulk insert all successful results in a single database call
+  let inserted = 0;
+  if (rowsToInsert.length > 0) {
+    const { data, error } = await supabase
+      .from("geo_registry")
+      .insert(rowsToInsert)
+      .select("id");
+
+    if (error) {
+      // The results are still returned so callers can tell what was geocoded
+      console.error(`[batch-geocode] ${requestId}: ${error.message}`);
+      return jsonResponse({
+        error: "Geocoding succeeded but the database insert failed",
+        code: "insert_failed",
+        results,
+      }, 500);
     }
 
-    const summary = {
-      total: addresses.length,
-      succeeded: results.filter((r) => r.status === "success").length,
-      not_found: results.filter((r) => r.status === "not_found").length,
-      failed: results.filter((r) => r.status === "error").length,
-      inserted,
-    };
-
-    return new Response(
-      JSON.stringify({ summary, results }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-    );
-  } catch (err) {
-    return new Response(
-      JSON.stringify({ error: (err as Error).message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-    );
+    inserted = rowsToInsert.length;
+
+    // Link cache entries to the first row created from them
+    const linked = new Set<string>();
+    for (let i = 0; i < insertKeys.length; i++) {
+      const key = insertKeys[i];
+      if (linked.has(key) || corrections.has(key) || cached.get(key)?.registry_id) continue;
+      linked.add(key);
+      await linkCachedRow(supabase, provider.name, key, data[i].id);
+    }
   }
+
+  const summary = {
+    total: addresses.length,
+    succeeded: results.filter((r) => r.status === "success").length,
+    not_found: results.filter((r) => r.status === "not_found").length,
+    failed: results.filter((r) => r.status === "error").length,
+    inserted,
+    cache_hits: results.filter((r) => r.cache_hit).length,
+  };
+
+  return jsonResponse({ summary, results });
 });
@@ -0,0 +1,134 @@
+import { createServiceClient } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { createGeocodeJob } from "../_shared/geocode-jobs.ts";
+import { requireEditorOrg } from "../_shared/organizations.ts";
+import { geocodeJobsSpec } from "../_shared/schemas/geocode-jobs.ts";
+
+type Action = "submit" | "status" | "results" | "cancel";
+
+interface SubmitPayload {
+  action: "submit";
+  addresses: string[];
+  source?: string;
+  reuse_existing?: boolean;
+}
+
+interface StatusPayload {
+  action: "status";
+  job_id: string;
+}
+
+interface ResultsPayload {
+  action: "results";
+  job_id: string;
+  status?: "pending" | "success" | "not_found" | "error";
+  offset?: number;
+  limit?: number;
+}
+
+interface CancelPayload {
+  action: "cancel";
+  job_id: string;
+}
+
+type RequestPayload = SubmitPayload | StatusPayload | ResultsPayload | CancelPayload;
+
+serve<RequestPayload>(geocodeJobsSpec, async (payload, { caller }) => {
+  // Caller's client so RLS limits reads to the caller's own jobs
+  const supabase = caller.client;
+  const serviceClient = createServiceClient();
+
+  switch (payload.action) {
+    // --- SUBMIT a new job ---
+    case "submit": {
+      const { addresses, source, reuse_existing = false } = payload;
+
+      // The worker adds the rows to the caller's active organization
+      const org_id = await requireEditorOrg(caller);
+      if (org_id instanceof Response) return org_id;
+
+      const job = await createGeocodeJob(serviceClient, {
+        addresses,
+        source,
+        reuse_existing,
+        created_by: caller.userId,
+        org_id,
+      });
+
+      return jsonResponse(job, 202);
+    }
+
+    // --- STATUS and progress summary of a job ---
+    case "status": {
+      const { job_id } = payload;
+
+      const { data: job, error } = await supabase
+        .from("geocode_jobs")
+        .select("id, status, source, reuse_existing, total, created_at, started_at, finished_at")
+        .eq("id", job_id)
+        .maybeSingle();
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!job) return jsonResponse({ error: "Job not found" }, 404);
+
+      const { data: rows, error: summaryError } = await supabase.rpc("geocode_job_summary", {
+        job_id,
+      });
+
+      if (summaryError) return jsonResponse({ error: summaryError.message }, 500);
+
+      const summary = rows[0];
+      const processed = summary.total - summary.pending;
+      const progress = summary.total > 0
+        ? Math.round((processed / summary.total) * 1000) / 10
+        : 100;
+
+      return jsonResponse({ ...job, summary: { ...summary, processed, progress } });
+    }
+
+    // --- RESULTS: per-address results, paginated by position ---
+    case "results": {
+      const { job_id, status, offset = 0, limit = 100 } = payload;
+
+      let query = supabase
+        .from("geocode_job_items")
+        .select("position, address, status, result, error, registry_id, processed_at")
+        .eq("job_id", job_id)
+        .order("position", { ascending: true })
+        .range(offset, offset + Math.min(limit, 1000) - 1);
+
+      if (status) query = query.eq("status", status);
+
+      const { data, error } = await query;
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      return jsonResponse({ count: (data ?? []).length, offset, results: data });
+    }
+
+    // --- CANCEL a job; items already processed are kept ---
+    case "cancel": {
+      const { job_id } = payload;
+
+      // Ownership check through RLS before using the service role
+      const { data: job } = await supabase
+        .from("geocode_jobs")
+        .select("id")
+        .eq("id", job_id)
+        .maybeSingle();
+
+      if (!job) return jsonResponse({ error: "Job not found" }, 404);
+
+      const { data, error } = await serviceClient
+        .from("geocode_jobs")
+        .update({ status: "cancelled", finished_at: new Date().toISOString() })
+        .eq("id", job_id)
+        .in("status", ["queued", "running"])
+        .select("id, status, finished_at");
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!data?.length) return jsonResponse({ error: "Job has already finished" }, 409);
+      return jsonResponse(data[0]);
+    }
+  }
+});
@@ -0,0 +1,253 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import {
+  buildStandardized,
+  type GeocodeResult,
+  type GeocodingProvider,
+} from "../_shared/geocoding.ts";
+import { confidenceMetadata, scoreForward, verifiedConfidence } from "../_shared/confidence.ts";
+import {
+  findExistingRows,
+  lookupCached,
+  lookupCorrections,
+  normalizeAddress,
+  storeCached,
+  VERIFIED_SOURCE,
+} from "../_shared/geocode-cache.ts";
+import { geocodingQuery, parseMongolianAddress } from "../_shared/mn-address.ts";
+import { getGeocodingProvider } from "../_shared/providers/mod.ts";
+import { geocodeWorkerSpec } from "../_shared/schemas/workers.ts";
+
+const WORKER_BUDGET_MS = 50_000; // stay well inside the edge function wall-clock limit
+const CHUNK_SIZE = 10;
+const LEASE_SECONDS = 120;
+
+interface Job {
+  id: string;
+  source: string | null;
+  reuse_existing: boolean;
+  created_by: string | null;
+  org_id: string | null; // rows are inserted into the job's organization
+}
+
+interface JobItem {
+  position: number;
+  address: string;
+}
+
+// Payload element for the complete_geocode_job_items RPC
+interface CompletedItem {
+  position: number;
+  status: "success" | "not_found" | "error";
+  result?: Record<string, unknown>;
+  error?: string;
+  row?: Record<string, unknown>;
+  registry_id?: string;
+}
+
+// Geocode one chunk of a job, honouring the cache and reuse_existing like batch-geocode
+async function processChunk(
+  supabase: SupabaseClient,
+  provider: GeocodingProvider,
+  job: Job,
+  items: JobItem[],
+): Promise<CompletedItem[]> {
+  const keys = items.map((i) => normalizeAddress(i.address));
+
+  const existing = job.reuse_existing
+    ? await findExistingRows(supabase, keys, job.org_id)
+    : new Map<string, Record<string, unknown>>();
+  // Verified corrections take precedence over the cache and provider
+  const corrections = await lookupCorrections(supabase, keys, job.org_id);
+  const cached = await lookupCached(
+    supabase,
+    provider.name,
+    keys.filter((k) => !corrections.has(k)),
+  );
+
+  // Each distinct unresolved address goes to the provider once, as its geocoding query
+  const queryKeys = new Map<string, string[]>();
+  const slated = new Set<string>();
+  items.forEach((item, i) => {
+    const key = keys[i];
+    if (existing.has(key) || corrections.has(key) || cached.has(key) || slated.has(key)) return;
+    slated.add(key);
+    const query = geocodingQuery(item.address);
+    queryKeys.set(query, [...(queryKeys.get(query) ?? []), key]);
+  });
+
+  const fetched = new Map<string, { result: GeocodeResult | null; error?: string }>();
+  for (const item of await provider.batch([...queryKeys.keys()])) {
+    for (const key of queryKeys.get(item.address)!) fetched.set(key, item);
+  }
+
+  await storeCached(
+    supabase,
+    provider.name,
+    [...fetched].filter(([, f]) => !f.error).map(([key, f]) => ({ key, result: f.result })),
+  );
+
+  const completed: CompletedItem[] = [];
+  const inserting = new Set<string>();
+
+  items.forEach((item, i) => {
+    const key = keys[i];
+    const row = existing.get(key);
+
+    if (row) {
+      completed.push({
+        position: item.position,
+        status: "success",
+        result: { ...row, reused: true },
+        registry_id: row.id as string,
+      });
+      return;
+    }
+
+    // With reuse_existing, repeats of a new address stay pending until the next
+    // chunk, where findExistingRows returns the row inserted for the first one
+    const correction = corrections.get(key);
+    const outcome = correction ?? cached.get(key) ?? fetched.get(key);
+    if (!outcome || (job.reuse_existing && inserting.has(key))) return;
+
+    if ("error" in outcome && outcome.error) {
+      completed.push({ position: item.position, status: "error", error: outcome.error });
+      return;
+    }
+
+    if (!outcome.result) {
+      completed.push({ position: item.position, status: "not_found" });
+      return;
+    }
+
+    const { lat, lon } = outcome.result;
+    const standardized_address = buildStandardized(outcome.result);
+    const confidence = correction
+      ? verifiedConfidence()
+      : scoreForward(geocodingQuery(item.address), outcome.result);
+    const confidence_score = confidence.score;
+    inserting.add(key);
+
+    completed.push({
+      position: item.position,
+      status: "success",
+      result: {
+        standardized_address,
+        lat,
+        lon,
+        confidence_score,
+        confidence_breakdown: confidence.breakdown,
+        provider: provider.name,
+        cache_hit: cached.has(key),
+        corrected: !!correction,
+      },
+      row: {
+        raw_address: item.address,
+        parsed_address: parseMongolianAddress(item.address),
+        standardized_address,
+        coordinates: `SRID=4326;POINT(${lon} ${lat})`,
+        source: correction ? VERIFIED_SOURCE : job.source ?? `${provider.name}_batch`,
+        confidence_score,
+        metadata: {
+          provider: provider.name,
+          job_id: job.id,
+          confidence: confidenceMetadata(confidence),
+          ...(correction ? { verified_correction: correction.registry_id } : {}),
+        },
+        created_by: job.created_by,
+      },
+    });
+  });
+
+  return completed;
+}
+
+serve(geocodeWorkerSpec, async (_payload, { caller }) => {
+  const started = Date.now();
+  const provider = getGeocodingProvider();
+  const supabase = caller.client;
+
+  // Leave room for one more chunk before the budget runs out
+  const chunkEstimateMs = CHUNK_SIZE * (provider.delayMs + 250);
+  const hasTime = () => Date.now() - started + chunkEstimateMs < WORKER_BUDGET_MS;
+
+  const jobs: { job_id: string; processed: number; status: string }[] = [];
+
+  while (hasTime()) {
+    const { data: claimed, error: claimError } = await supabase.rpc("claim_geocode_job", {
+      lease_seconds: LEASE_SECONDS,
+    });
+
+    if (claimError) return jsonResponse({ error: claimError.message }, 500);
+    if (!claimed?.length) break;
+
+    const job: Job = claimed[0];
+    const progress = { job_id: job.id, processed: 0, status: "running" };
+    jobs.push(progress);
+
+    while (hasTime()) {
+      const { data: current } = await supabase
+        .from("geocode_jobs")
+        .select("status")
+        .eq("id", job.id)
+        .single();
+
+      if (current?.status === "cancelled") {
+        progress.status = "cancelled";
+        break;
+      }
+
+      const { data: items, error: itemsError } = await supabase
+        .from("geocode_job_items")
+        .select("position, address")
+        .eq("job_id", job.id)
+        .eq("status", "pending")
+        .order("position", { ascending: true })
+        .limit(CHUNK_SIZE);
+
+      if (itemsError) return jsonResponse({ error: itemsError.message }, 500);
+
+      if (!items?.length) {
+        await supabase
+          .from("geocode_jobs")
+          .update({
+            status: "completed",
+            finished_at: new Date().toISOString(),
+            locked_until: null,
+          })
+          .eq("id", job.id)
+          .eq("status", "running");
+        progress.status = "completed";
+        break;
+      }
+
+      const completed = await processChunk(supabase, provider, job, items);
+
+      const { data: done, error: completeError } = await supabase.rpc(
+        "complete_geocode_job_items",
+        { job_id: job.id, items: completed },
+      );
+
+      if (completeError) return jsonResponse({ error: completeError.message }, 500);
+      progress.processed += done ?? 0;
+
+      // Renew the lease so no other worker resumes this job meanwhile
+      await supabase
+        .from("geocode_jobs")
+        .update({ locked_until: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString() })
+        .eq("id", job.id);
+    }
+
+    // Out of time mid-job: release the lease so the next invocation resumes it at once
+    if (progress.status === "running") {
+      await supabase.from("geocode_jobs").update({ locked_until: null }).eq("id", job.id);
+    }
+  }
+
+  return jsonResponse({
+    processed: jobs.reduce((sum, j) => sum + j.processed, 0),
+    elapsed_ms: Date.now() - started,
+    jobs,
+  });
+});
@@ -1,143 +1,339 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { corsHeaders } from "../_shared/cors.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type Caller, createServiceClient } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import {
+  type BBox,
+  buildStandardized,
+  type GeocodeResult,
+  type GeocodingProvider,
+  GeocodingProviderError,
+  rankByProximity,
+  type SearchOptions,
+} from "../_shared/geocoding.ts";
+import { confidenceMetadata, scoreForward, verifiedConfidence } from "../_shared/confidence.ts";
+import {
+  findExistingRows,
+  linkCachedRow,
+  lookupCached,
+  lookupCorrections,
+  normalizeAddress,
+  storeCached,
+  VERIFIED_SOURCE,
+} from "../_shared/geocode-cache.ts";
+import { geocodingQuery, parseMongolianAddress } from "../_shared/mn-address.ts";
+import { requireEditorOrg, resolveActiveOrg } from "../_shared/organizations.ts";
+import { getGeocodingProvider } from "../_shared/providers/mod.ts";
+import { geocodeSpec, MAX_CANDIDATES } from "../_shared/schemas/geocode.ts";
 
 interface GeocodeRequest {
-  address: string;
+  mode?: "single" | "candidates" | "commit";
+  address?: string; // required for single and candidates modes
   source?: string;
+  reuse_existing?: boolean; // return a matching geo_registry row instead of inserting a duplicate
+  // Result biasing (single and candidates modes)
+  viewbox?: BBox;
+  bounded?: boolean;
+  country_codes?: string[];
+  proximity?: { lat: number; lon: number };
+  // Candidates mode
+  limit?: number;
+  // Commit mode
+  candidate_set_id?: string;
+  candidate_index?: number;
 }
 
-interface NominatimResult {
-  lat: string;
-  lon: string;
-  display_name: string;
-  address: {
-    house_number?: string;
-    road?: string;
-    city?: string;
-    state?: string;
-    postcode?: string;
-    country?: string;
-    country_code?: string;
-  };
-}
+// Check what the request schema cannot, returning an error message or the search options
+function parseBias(payload: GeocodeRequest): string | SearchOptions {
+  const { viewbox, bounded, country_codes } = payload;
 
-Deno.serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
+  if (viewbox !== undefined) {
+    const [minLon, minLat, maxLon, maxLat] = viewbox;
+    if (minLon >= maxLon || minLat >= maxLat || minLat < -90 || maxLat > 90) {
+      return "'viewbox' must have min < max and latitudes within -90..90";
+    }
   }
 
-  try {
-    const { address, source }: GeocodeRequest = await req.json();
+  if (country_codes?.some((c) => !/^[a-zA-Z]{2}$/.test(c))) {
+    return "'country_codes' must be an array of ISO 3166-1 alpha-2 codes";
+  }
 
-    if (!address || typeof address !== "string") {
-      return new Response(
-        JSON.stringify({ error: "A valid 'address' string is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
+  return {
+    viewbox,
+    bounded: bounded === true,
+    country_codes: country_codes?.map((c) => c.toLowerCase()),
+  };
+}
 
-    // Geocode via OpenStreetMap Nominatim
-    const encoded = encodeURIComponent(address);
-    const nominatimUrl =
-      `https://nominatim.openstreetmap.org/search?q=${encoded}&format=json&addressdetails=1&limit=1`;
+// Search the provider, over-fetching when results will be re-ranked by proximity
+async function searchRanked(
+  provider: GeocodingProvider,
+  address: string,
+  options: SearchOptions,
+  proximity: GeocodeRequest["proximity"],
+): Promise<(GeocodeResult & { distance_m?: number })[]> {
+  const limit = options.limit ?? 1;
+  if (!proximity) return await provider.search(address, options);
 
-    const geoRes = await fetch(nominatimUrl, {
-      headers: { "User-Agent": "map.gerege.ai/1.0" },
-    });
+  const results = await provider.search(address, {
+    ...options,
+    limit: Math.max(limit, MAX_CANDIDATES),
+  });
+  return rankByProximity(results, proximity).slice(0, limit);
+}
 
-    if (!geoRes.ok) {
-      return new Response(
-        JSON.stringify({ error: "Geocoding service request failed" }),
-        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
+// --- CANDIDATES: return the top N matches without inserting ---
+async function handleCandidates(
+  caller: Caller,
+  supabase: SupabaseClient,
+  provider: GeocodingProvider,
+  payload: GeocodeRequest,
+  bias: SearchOptions,
+) {
+  const { address, proximity, limit = 5 } = payload;
 
-    const results: NominatimResult[] = await geoRes.json();
+  const query = geocodingQuery(address!);
+  const results = await searchRanked(provider, query, { ...bias, limit }, proximity);
+  const created_by = caller.userId;
 
-    if (results.length === 0) {
-      return new Response(
-        JSON.stringify({ error: "No results found for the given address" }),
-        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
+  const { data, error } = await supabase
+    .from("geocode_candidate_sets")
+    .insert({
+      raw_address: address,
+      provider: provider.name,
+      candidates: results,
+      created_by,
+    })
+    .select("id, expires_at")
+    .single();
+
+  if (error) return jsonResponse({ error: error.message }, 500);
 
-    const top = results[0];
-    const lat = parseFloat(top.lat);
-    const lon = parseFloat(top.lon);
-
-    // Build standardized address from Nominatim components
-    const standardized_address = {
-      house_number: top.address.house_number ?? null,
-      road: top.address.road ?? null,
-      city: top.address.city ?? null,
-      state: top.address.state ?? null,
-      postcode: top.address.postcode ?? null,
-      country: top.address.country ?? null,
-      country_code: top.address.country_code ?? null,
-      formatted: top.display_name,
+  const candidates = results.map((r, index) => {
+    const confidence = scoreForward(query, r);
+    return {
+      index,
+      lat: r.lat,
+      lon: r.lon,
+      standardized_address: buildStandardized(r),
+      confidence_score: confidence.score,
+      confidence_breakdown: confidence.breakdown,
+      bbox: r.bbox ?? null,
+      distance_m: r.distance_m !== undefined ? Math.round(r.distance_m * 100) / 100 : null,
     };
+  });
+
+  // Surface a verified correction of the address next to the provider's candidates
+  const key = normalizeAddress(address!);
+  const org_id = await resolveActiveOrg(caller);
+  const correction = (await lookupCorrections(supabase, [key], org_id)).get(key);
+
+  return jsonResponse({
+    candidate_set_id: data.id,
+    expires_at: data.expires_at,
+    count: candidates.length,
+    candidates,
+    verified_correction: correction
+      ? {
+        registry_id: correction.registry_id,
+        lat: correction.result.lat,
+        lon: correction.result.lon,
+        standardized_address: buildStandardized(correction.result),
+      }
+      : null,
+  });
+}
 
-    // Confidence heuristic: how many address components were resolved
-    const fields = [
-      top.address.house_number,
-      top.address.road,
-      top.address.city,
-      top.address.state,
-      top.address.postcode,
-      top.address.country,
-    ];
-    const filled = fields.filter(Boolean).length;
-    const confidence_score = parseFloat((filled / fields.length).toFixed(2));
-
-    // Insert into geo_registry using the service role
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+// --- COMMIT: insert a previously returned candidate into geo_registry ---
+async function handleCommit(caller: Caller, supabase: SupabaseClient, payload: GeocodeRequest) {
+  const { candidate_set_id, candidate_index, source } = payload;
+
+  const created_by = caller.userId;
+  // The entry is added to the caller's active organization
+  const org_id = await requireEditorOrg(caller);
+  if (org_id instanceof Response) return org_id;
+
+  const { data: set, error: setError } = await supabase
+    .from("geocode_candidate_sets")
+    .select()
+    .eq("id", candidate_set_id)
+    .maybeSingle();
+
+  if (setError) return jsonResponse({ error: setError.message }, 500);
+
+  // Candidate sets are private to the user who requested them
+  if (!set || (set.created_by && set.created_by !== created_by)) {
+    return jsonResponse({ error: "Candidate set not found" }, 404);
+  }
+  if (new Date(set.expires_at) <= new Date()) {
+    return jsonResponse({ error: "Candidate set has expired" }, 410);
+  }
+  if (set.committed_registry_id) {
+    return jsonResponse(
+      {
+        error: "A candidate from this set was already committed",
+        registry_id: set.committed_registry_id,
+      },
+      409,
     );
+  }
 
-    // Extract the calling user's JWT so we can set created_by
-    const authHeader = req.headers.get("Authorization");
-    let created_by: string | null = null;
-
-    if (authHeader) {
-      const userClient = createClient(
-        Deno.env.get("SUPABASE_URL")!,
-        Deno.env.get("SUPABASE_ANON_KEY")!,
-        { global: { headers: { Authorization: authHeader } } },
-      );
-      const { data: { user } } = await userClient.auth.getUser();
-      created_by = user?.id ?? null;
-    }
+  const candidate: GeocodeResult | undefined = set.candidates[candidate_index!];
+  if (!candidate) {
+    return jsonResponse({ error: "'candidate_index' is out of range" }, 400);
+  }
 
-    const { data, error } = await supabase
-      .from("geo_registry")
-      .insert({
-        raw_address: address,
-        standardized_address,
-        coordinates: `SRID=4326;POINT(${lon} ${lat})`,
-        source: source ?? "nominatim",
-        confidence_score,
+  const confidence = scoreForward(geocodingQuery(set.raw_address), candidate);
+
+  // Insert and mark the set committed in one transaction, so a concurrent commit of the
+  // same set cannot insert a second entry
+  const { data: committed, error: commitError } = await supabase.rpc(
+    "commit_geocode_candidate",
+    {
+      candidate_set_id,
+      entry: {
+        raw_address: set.raw_address,
+        parsed_address: parseMongolianAddress(set.raw_address),
+        standardized_address: buildStandardized(candidate),
+        coordinates: `SRID=4326;POINT(${candidate.lon} ${candidate.lat})`,
+        source: source ?? set.provider,
+        confidence_score: confidence.score,
+        metadata: {
+          provider: set.provider,
+          candidate_set_id,
+          candidate_index,
+          confidence: confidenceMetadata(confidence),
+        },
         created_by,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
+        org_id,
+      },
+    },
+  );
 
-    return new Response(
-      JSON.stringify(data),
-      { status: 201, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  if (commitError) return jsonResponse({ error: commitError.message }, 500);
+
+  const [{ registry_id, created }] = committed;
+  if (!created) {
+    return jsonResponse(
+      { error: "A candidate from this set was already committed", registry_id },
+      409,
     );
-  } catch (err) {
-    return new Response(
-      JSON.stringify({ error: (err as Error).message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  }
+
+  const { data, error } = await supabase
+    .from("geo_registry")
+    .select()
+    .eq("id", registry_id)
+    .single();
+
+  if (error) return jsonResponse({ error: error.message }, 500);
+
+  return jsonResponse(data, 201);
+}
+
+serve<GeocodeRequest>(geocodeSpec, async (payload, { caller }) => {
+  const { mode = "single", source, reuse_existing = false, proximity } = payload;
+
+  // Service role client for the cache, candidate sets and geo_registry inserts
+  const supabase = createServiceClient();
+
+  if (mode === "commit") return await handleCommit(caller, supabase, payload);
+
+  // Required by the schema in the single and candidates modes
+  const address = payload.address!;
+
+  const bias = parseBias(payload);
+  if (typeof bias === "string") return jsonResponse({ error: bias }, 400);
+
+  const provider = getGeocodingProvider();
+
+  if (mode === "candidates") {
+    try {
+      return await handleCandidates(caller, supabase, provider, payload, bias);
+    } catch (err) {
+      if (!(err instanceof GeocodingProviderError)) throw err;
+      return jsonResponse({ error: "Geocoding service request failed" }, 502);
+    }
+  }
+
+  const key = normalizeAddress(address);
+  const parsed_address = parseMongolianAddress(address);
+  // The entry goes into the caller's active organization, and reuse and corrections are
+  // limited to it
+  const created_by = caller.userId;
+  const org_id = await requireEditorOrg(caller);
+  if (org_id instanceof Response) return org_id;
+
+  if (reuse_existing) {
+    const existing = (await findExistingRows(supabase, [key], org_id)).get(key);
+    if (existing) return jsonResponse({ ...existing, cache_hit: false, reused: true });
+  }
+
+  // A verified correction of this address takes precedence over the cache and provider
+  const correction = (await lookupCorrections(supabase, [key], org_id)).get(key);
+
+  // The cache holds unbiased answers only
+  const biased = !!(bias.viewbox || bias.country_codes?.length || proximity);
+  const cached = biased || correction
+    ? undefined
+    : (await lookupCached(supabase, provider.name, [key])).get(key);
+  const query = geocodingQuery(address, parsed_address);
+  let top: GeocodeResult | null;
+
+  if (correction) {
+    top = correction.result;
+  } else if (cached) {
+    top = cached.result;
+  } else {
+    try {
+      const results = await searchRanked(provider, query, { ...bias, limit: 1 }, proximity);
+      top = results[0] ?? null;
+    } catch (err) {
+      if (!(err instanceof GeocodingProviderError)) throw err;
+      return jsonResponse({ error: "Geocoding service request failed" }, 502);
+    }
+    if (!biased) await storeCached(supabase, provider.name, [{ key, result: top }]);
+  }
+
+  if (!top) {
+    return jsonResponse(
+      { error: "No results found for the given address", cache_hit: !!cached },
+      404,
     );
   }
+
+  const { lat, lon } = top;
+  const standardized_address = buildStandardized(top);
+  const confidence = correction ? verifiedConfidence() : scoreForward(query, top);
+
+  const { data, error } = await supabase
+    .from("geo_registry")
+    .insert({
+      raw_address: address,
+      parsed_address,
+      standardized_address,
+      coordinates: `SRID=4326;POINT(${lon} ${lat})`,
+      source: correction ? VERIFIED_SOURCE : source ?? provider.name,
+      confidence_score: confidence.score,
+      metadata: {
+        provider: provider.name,
+        confidence: confidenceMetadata(confidence),
+        ...(correction ? { verified_correction: correction.registry_id } : {}),
+      },
+      created_by,
+      org_id,
+    })
+    .select()
+    .single();
+
+  if (error) return jsonResponse({ error: error.message }, 500);
+
+  if (!biased && !correction && !cached?.registry_id) {
+    await linkCachedRow(supabase, provider.name, key, data.id);
+  }
+
+  return jsonResponse(
+    { ...data, cache_hit: !!cached, reused: false, corrected: !!correction },
+    201,
+  );
 });
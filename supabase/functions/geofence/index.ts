@@ -1,16 +1,50 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { corsHeaders } from "../_shared/cors.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createServiceClient } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { requireEditorOrg } from "../_shared/organizations.ts";
+import { geofenceSpec } from "../_shared/schemas/geofence.ts";
 
-type Action = "create" | "check" | "entries" | "list";
+type Action = "create" | "get" | "update" | "delete" | "check" | "entries" | "list";
+
+type Position = [number, number]; // [lon, lat]
+
+// GeoJSON boundary input; a Feature wrapping one of the geometries is accepted too
+type BoundaryGeometry =
+  | { type: "Polygon"; coordinates: Position[][] }
+  | { type: "MultiPolygon"; coordinates: Position[][][] };
+
+type BoundaryInput = BoundaryGeometry | { type: "Feature"; geometry: BoundaryGeometry };
 
 interface CreatePayload {
   action: "create";
   name: string;
   description?: string;
-  polygon: [number, number][]; // [lon, lat] pairs, first and last must match
+  polygon?: Position[]; // single outer ring, first and last must match
+  geometry?: BoundaryInput; // alternative to `polygon`, supports holes and multiple parts
   metadata?: Record<string, unknown>;
 }
 
+interface GetPayload {
+  action: "get";
+  fence_id: string;
+}
+
+interface UpdatePayload {
+  action: "update";
+  fence_id: string;
+  name?: string;
+  description?: string | null;
+  metadata?: Record<string, unknown>;
+  polygon?: Position[];
+  geometry?: BoundaryInput;
+}
+
+interface DeletePayload {
+  action: "delete";
+  fence_id: string;
+}
+
 interface CheckPayload {
   action: "check";
   lat: number;
@@ -27,157 +61,258 @@ interface ListPayload {
   action: "list";
 }
 
-type RequestPayload = CreatePayload | CheckPayload | EntriesPayload | ListPayload;
+type RequestPayload =
+  | CreatePayload
+  | GetPayload
+  | UpdatePayload
+  | DeletePayload
+  | CheckPayload
+  | EntriesPayload
+  | ListPayload;
+
+// Normalize `polygon` / `geometry` input to MultiPolygon coordinates, or return an error
+function parseBoundary(
+  polygon: Position[] | undefined,
+  geometry: BoundaryInput | undefined,
+): string | Position[][][] {
+  if (polygon !== undefined && geometry !== undefined) {
+    return "Provide either 'polygon' or 'geometry', not both";
+  }
 
-function jsonResponse(body: unknown, status = 200) {
-  return new Response(JSON.stringify(body), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
+  let polygons: Position[][][];
+  if (polygon !== undefined) {
+    polygons = [[polygon]];
+  } else {
+    const geom = geometry?.type === "Feature" ? geometry.geometry : geometry;
+    if (geom?.type === "Polygon" && Array.isArray(geom.coordinates)) {
+      polygons = [geom.coordinates];
+    } else if (geom?.type === "MultiPolygon" && Array.isArray(geom.coordinates)) {
+      polygons = geom.coordinates;
+    } else {
+      return "'geometry' must be a GeoJSON Polygon or MultiPolygon";
+    }
+  }
+
+  if (polygons.length === 0) return "Geometry has no polygons";
+
+  for (const rings of polygons) {
+    if (!Array.isArray(rings) || rings.length === 0) return "Every polygon needs an outer ring";
+
+    for (const ring of rings) {
+      if (!Array.isArray(ring) || ring.length < 4) {
+        return "Each ring must have at least 4 coordinate pairs (closed ring)";
+      }
+
+      for (const pos of ring) {
+        if (
+          !Array.isArray(pos) || typeof pos[0] !== "number" || typeof pos[1] !== "number"
+        ) {
+          return "Coordinates must be [lon, lat] number pairs";
+        }
+        if (pos[1] < -90 || pos[1] > 90 || pos[0] < -180 || pos[0] > 180) {
+          return "Coordinates out of range (lat: -90..90, lon: -180..180)";
+        }
+      }
+
+      const first = ring[0];
+      const last = ring[ring.length - 1];
+      if (first[0] !== last[0] || first[1] !== last[1]) {
+        return "Polygon must be closed (first and last coordinate must match)";
+      }
+    }
+  }
+
+  return polygons;
 }
 
-function buildPolygonWKT(polygon: [number, number][]): string {
-  const coords = polygon.map(([lon, lat]) => `${lon} ${lat}`).join(", ");
-  return `SRID=4326;POLYGON((${coords}))`;
+function buildMultiPolygonWKT(polygons: Position[][][]): string {
+  const body = polygons
+    .map((rings) =>
+      "(" + rings.map((ring) => `(${ring.map(([lon, lat]) => `${lon} ${lat}`).join(", ")})`)
+        .join(", ") +
+      ")"
+    )
+    .join(", ");
+  return `SRID=4326;MULTIPOLYGON(${body})`;
 }
 
-Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
+// Parse, validate with ST_IsValidDetail and return EWKT, or an error response
+async function resolveBoundary(
+  supabase: SupabaseClient,
+  polygon: Position[] | undefined,
+  geometry: BoundaryInput | undefined,
+): Promise<string | Response> {
+  const polygons = parseBoundary(polygon, geometry);
+  if (typeof polygons === "string") return jsonResponse({ error: polygons }, 400);
+
+  const { data, error } = await supabase.rpc("geofence_validate", {
+    boundary_geojson: JSON.stringify({ type: "MultiPolygon", coordinates: polygons }),
+  });
+
+  if (error) return jsonResponse({ error: error.message }, 500);
+
+  const [detail] = data ?? [];
+  if (!detail?.valid) {
+    return jsonResponse({
+      error: `Invalid geometry: ${detail?.reason ?? "unknown reason"}`,
+      location: detail?.location ? JSON.parse(detail.location) : null,
+    }, 400);
   }
 
-  try {
-    const payload: RequestPayload = await req.json();
-    const authHeader = req.headers.get("Authorization")!;
+  return buildMultiPolygonWKT(polygons);
+}
 
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_ANON_KEY")!,
-      { global: { headers: { Authorization: authHeader } } },
-    );
+serve<RequestPayload>(geofenceSpec, async (payload, { caller }) => {
+  const supabase = caller.client;
 
-    switch (payload.action) {
-      // --- CREATE a geofence ---
-      case "create": {
-        const { name, description, polygon, metadata } = payload;
+  switch (payload.action) {
+    // --- CREATE a geofence ---
+    case "create": {
+      const { name, description, polygon, geometry, metadata } = payload;
 
-        if (!name || typeof name !== "string") {
-          return jsonResponse({ error: "'name' is required" }, 400);
-        }
+      if (polygon === undefined && geometry === undefined) {
+        return jsonResponse({ error: "'polygon' or 'geometry' is required" }, 400);
+      }
 
-        if (!Array.isArray(polygon) || polygon.length < 4) {
-          return jsonResponse(
-            { error: "'polygon' must have at least 4 coordinate pairs (closed ring)" },
-            400,
-          );
-        }
+      const org_id = await requireEditorOrg(caller);
+      if (org_id instanceof Response) return org_id;
+
+      const boundary = await resolveBoundary(supabase, polygon, geometry);
+      if (boundary instanceof Response) return boundary;
+
+      // Use service role for insert so created_by is set via RLS default
+      const serviceClient = createServiceClient();
+
+      const { data, error } = await serviceClient
+        .from("geofences")
+        .insert({
+          name,
+          description: description ?? null,
+          boundary,
+          metadata: metadata ?? {},
+          created_by: caller.userId,
+          org_id,
+        })
+        .select("id, name, description, metadata, created_at")
+        .single();
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      return jsonResponse(data, 201);
+    }
 
-        const first = polygon[0];
-        const last = polygon[polygon.length - 1];
-        if (first[0] !== last[0] || first[1] !== last[1]) {
-          return jsonResponse(
-            { error: "Polygon must be closed (first and last coordinate must match)" },
-            400,
-          );
-        }
+    // --- GET a single geofence with its boundary ---
+    case "get": {
+      const { fence_id } = payload;
 
-        // Use service role for insert so created_by is set via RLS default
-        const serviceClient = createClient(
-          Deno.env.get("SUPABASE_URL")!,
-          Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
-        );
-
-        // Resolve user from JWT
-        const { data: { user } } = await supabase.auth.getUser();
-
-        const { data, error } = await serviceClient
-          .from("geofences")
-          .insert({
-            name,
-            description: description ?? null,
-            boundary: buildPolygonWKT(polygon),
-            metadata: metadata ?? {},
-            created_by: user?.id ?? null,
-          })
-          .select("id, name, description, metadata, created_at")
-          .single();
-
-        if (error) return jsonResponse({ error: error.message }, 500);
-        return jsonResponse(data, 201);
-      }
+      const { data, error } = await supabase.rpc("geofence_get", { fence_id });
 
-      // --- CHECK which geofences contain a point ---
-      case "check": {
-        const { lat, lon } = payload;
+      if (error) return jsonResponse({ error: error.message }, 500);
 
-        if (typeof lat !== "number" || typeof lon !== "number") {
-          return jsonResponse({ error: "'lat' and 'lon' must be numbers" }, 400);
-        }
+      const [fence] = data ?? [];
+      if (!fence) return jsonResponse({ error: "Geofence not found" }, 404);
 
-        if (lat < -90 || lat > 90 || lon < -180 || lon > 180) {
-          return jsonResponse(
-            { error: "Coordinates out of range (lat: -90..90, lon: -180..180)" },
-            400,
-          );
-        }
+      return jsonResponse({ ...fence, boundary: JSON.parse(fence.boundary) });
+    }
 
-        const { data, error } = await supabase.rpc("geofence_check", { lat, lon });
+    // --- UPDATE name, description, metadata and/or boundary ---
+    case "update": {
+      const { fence_id, name, description, metadata, polygon, geometry } = payload;
 
-        if (error) return jsonResponse({ error: error.message }, 500);
+      const changes: Record<string, unknown> = {};
 
-        const fences = (data ?? []).map(
-          (row: { boundary: string; [key: string]: unknown }) => ({
-            ...row,
-            boundary: JSON.parse(row.boundary),
-          }),
-        );
+      if (name !== undefined) changes.name = name;
+      if (description !== undefined) changes.description = description;
+      if (metadata !== undefined) changes.metadata = metadata;
 
-        return jsonResponse({ inside: fences.length > 0, count: fences.length, fences });
+      if (polygon !== undefined || geometry !== undefined) {
+        const boundary = await resolveBoundary(supabase, polygon, geometry);
+        if (boundary instanceof Response) return boundary;
+        changes.boundary = boundary;
       }
 
-      // --- ENTRIES: find geo_registry rows inside a geofence ---
-      case "entries": {
-        const { fence_id, max_results = 100 } = payload;
+      if (Object.keys(changes).length === 0) {
+        return jsonResponse({ error: "Nothing to update" }, 400);
+      }
 
-        if (!fence_id) {
-          return jsonResponse({ error: "'fence_id' is required" }, 400);
-        }
+      // Caller's client: the RLS update policy restricts this to the owner
+      const { data, error } = await supabase
+        .from("geofences")
+        .update(changes)
+        .eq("id", fence_id)
+        .select("id, name, description, metadata, created_at");
 
-        const { data, error } = await supabase.rpc("geofence_entries", {
-          fence_id,
-          max_results: Math.min(max_results, 500),
-        });
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!data?.length) {
+        return jsonResponse({ error: "Geofence not found or caller is not an editor" }, 404);
+      }
+      return jsonResponse(data[0]);
+    }
 
-        if (error) return jsonResponse({ error: error.message }, 500);
+    // --- DELETE a geofence ---
+    case "delete": {
+      const { fence_id } = payload;
 
-        const entries = (data ?? []).map(
-          (row: { coordinates: string; [key: string]: unknown }) => ({
-            ...row,
-            coordinates: JSON.parse(row.coordinates),
-          }),
-        );
+      const { data, error } = await supabase
+        .from("geofences")
+        .delete()
+        .eq("id", fence_id)
+        .select("id");
 
-        return jsonResponse({ count: entries.length, entries });
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!data?.length) {
+        return jsonResponse({ error: "Geofence not found or caller is not an editor" }, 404);
       }
+      return jsonResponse({ deleted: true, id: fence_id });
+    }
 
-      // --- LIST all geofences ---
-      case "list": {
-        const { data, error } = await supabase
-          .from("geofences")
-          .select("id, name, description, metadata, created_at")
-          .order("created_at", { ascending: false });
+    // --- CHECK which geofences contain a point ---
+    case "check": {
+      const { lat, lon } = payload;
 
-        if (error) return jsonResponse({ error: error.message }, 500);
-        return jsonResponse({ count: (data ?? []).length, geofences: data });
-      }
+      const { data, error } = await supabase.rpc("geofence_check", { lat, lon });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      const fences = (data ?? []).map(
+        (row: { boundary: string; [key: string]: unknown }) => ({
+          ...row,
+          boundary: JSON.parse(row.boundary),
+        }),
+      );
+
+      return jsonResponse({ inside: fences.length > 0, count: fences.length, fences });
+    }
+
+    // --- ENTRIES: find geo_registry rows inside a geofence ---
+    case "entries": {
+      const { fence_id, max_results = 100 } = payload;
+
+      const { data, error } = await supabase.rpc("geofence_entries", {
+        fence_id,
+        max_results: Math.min(max_results, 500),
+      });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      const entries = (data ?? []).map(
+        (row: { coordinates: string; [key: string]: unknown }) => ({
+          ...row,
+          coordinates: JSON.parse(row.coordinates),
+        }),
+      );
+
+      return jsonResponse({ count: entries.length, entries });
+    }
+
+    // --- LIST all geofences ---
+    case "list": {
+      const { data, error } = await supabase
+        .from("geofences")
+        .select("id, name, description, metadata, created_at")
+        .order("created_at", { ascending: false });
 
-      default:
-        return jsonResponse(
-          { error: "Invalid action. Use: create, check, entries, or list" },
-          400,
-        );
+      if (error) return jsonResponse({ error: error.message }, 500);
+      return jsonResponse({ count: (data ?? []).length, geofences: data });
     }
-  } catch (err) {
-    return jsonResponse({ error: (err as Error).message }, 500);
   }
 });
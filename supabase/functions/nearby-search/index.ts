@@ -1,85 +1,112 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { corsHeaders } from "../_shared/cors.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { MAX_BATCH_RESULTS, nearbySearchSpec } from "../_shared/schemas/nearby-search.ts";
 
 interface NearbySearchRequest {
-  lat: number;
-  lon: number;
+  mode?: "radius" | "knn";
+  lat?: number; // required unless points is given
+  lon?: number;
+  // Radius mode
   radius_m?: number;
   max_results?: number;
+  // KNN mode
+  k?: number;
+  points?: { lat: number; lon: number }[]; // batch form, replaces lat/lon
+  max_distance_m?: number;
+  source?: string;
+  min_confidence?: number;
+  max_confidence?: number;
+  country_code?: string;
 }
 
-Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
-  }
+// Parse the GeoJSON coordinate strings returned by the RPCs and round the measurements
+function formatRow(
+  { coordinates, distance_m, bearing_deg, ...row }: {
+    coordinates: string;
+    distance_m: number;
+    bearing_deg?: number | null;
+    [key: string]: unknown;
+  },
+) {
+  return {
+    ...row,
+    coordinates: JSON.parse(coordinates),
+    distance_m: Math.round(distance_m * 100) / 100,
+    ...(bearing_deg !== undefined
+      ? { bearing_deg: bearing_deg === null ? null : Math.round(bearing_deg * 10) / 10 }
+      : {}),
+  };
+}
 
-  try {
-    const {
-      lat,
-      lon,
-      radius_m = 1000,
-      max_results = 50,
-    }: NearbySearchRequest = await req.json();
-
-    if (typeof lat !== "number" || typeof lon !== "number") {
-      return new Response(
-        JSON.stringify({ error: "'lat' and 'lon' must be numbers" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
+serve<NearbySearchRequest>(nearbySearchSpec, async (payload, { caller }) => {
+  const { mode = "radius", lat, lon } = payload;
 
-    if (lat < -90 || lat > 90 || lon < -180 || lon > 180) {
-      return new Response(
-        JSON.stringify({ error: "Coordinates out of range (lat: -90..90, lon: -180..180)" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
+  // Act as the caller so RLS policies are enforced
+  const supabase = caller.client;
+
+  // --- KNN: the k nearest entries, for one point or a batch of points ---
+  if (mode === "knn") {
+    const { k = 5, points, max_distance_m, min_confidence, max_confidence } = payload;
+
+    const filters = {
+      k,
+      max_distance_m: max_distance_m ?? null,
+      source_filter: payload.source ?? null,
+      min_confidence: min_confidence ?? null,
+      max_confidence: max_confidence ?? null,
+      country_code: payload.country_code ?? null,
+    };
+
+    if (points !== undefined) {
+      // PostgREST would silently drop the rows past max_rows, starving the last points
+      if (points.length * k > MAX_BATCH_RESULTS) {
+        return jsonResponse({
+          error: `'points' × 'k' must be at most ${MAX_BATCH_RESULTS}; split the batch`,
+        }, 400);
+      }
+
+      const { data, error } = await supabase.rpc("nearest_registry_batch", {
+        points: points.map(({ lat, lon }) => ({ lat, lon })),
+        ...filters,
+      });
 
-    if (radius_m <= 0 || radius_m > 50000) {
-      return new Response(
-        JSON.stringify({ error: "'radius_m' must be between 1 and 50000 meters" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      const grouped = points.map((point) => ({ point, results: [] as unknown[] }));
+      for (const { point_index, ...row } of data ?? []) {
+        grouped[point_index].results.push(formatRow(row));
+      }
+
+      return jsonResponse({
+        count: grouped.length,
+        points: grouped.map((g) => ({ ...g, count: g.results.length })),
+      });
     }
 
-    // Use the caller's JWT so RLS policies are enforced
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_ANON_KEY")!,
-      { global: { headers: { Authorization: req.headers.get("Authorization")! } } },
-    );
-
-    const { data, error } = await supabase.rpc("nearby_search", {
-      lat,
-      lon,
-      radius_m,
-      max_results: Math.min(max_results, 100),
-    });
-
-    if (error) {
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
+    if (lat === undefined || lon === undefined) {
+      return jsonResponse({ error: "'lat' and 'lon' are required unless 'points' is given" }, 400);
     }
 
-    // Parse the GeoJSON coordinate strings returned by the RPC
-    const results = (data ?? []).map(
-      (row: { coordinates: string; distance_m: number; [key: string]: unknown }) => ({
-        ...row,
-        coordinates: JSON.parse(row.coordinates),
-        distance_m: Math.round(row.distance_m * 100) / 100,
-      }),
-    );
-
-    return new Response(
-      JSON.stringify({ count: results.length, results }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-    );
-  } catch (err) {
-    return new Response(
-      JSON.stringify({ error: (err as Error).message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-    );
+    const { data, error } = await supabase.rpc("nearest_registry", { lat, lon, ...filters });
+
+    if (error) return jsonResponse({ error: error.message }, 500);
+
+    const results = (data ?? []).map(formatRow);
+    return jsonResponse({ count: results.length, results });
   }
+
+  // --- RADIUS: entries within radius_m of the point ---
+  const { radius_m = 1000, max_results = 50 } = payload;
+
+  const { data, error } = await supabase.rpc("nearby_search", {
+    lat,
+    lon,
+    radius_m,
+    max_results: Math.min(max_results, 100),
+  });
+
+  if (error) return jsonResponse({ error: error.message }, 500);
+
+  const results = (data ?? []).map(formatRow);
+  return jsonResponse({ count: results.length, results });
 });
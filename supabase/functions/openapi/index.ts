@@ -0,0 +1,10 @@
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { buildOpenApi } from "../_shared/openapi.ts";
+import { FUNCTION_SPECS } from "../_shared/schemas/mod.ts";
+import { openapiSpec } from "../_shared/schemas/openapi.ts";
+
+serve(openapiSpec, () => {
+  const serverUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1`;
+  return jsonResponse(buildOpenApi(FUNCTION_SPECS, serverUrl));
+});
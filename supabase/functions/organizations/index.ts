@@ -0,0 +1,185 @@
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import type { OrgRole } from "../_shared/organizations.ts";
+import { organizationsSpec } from "../_shared/schemas/organizations.ts";
+
+interface ListRequest {
+  action: "list";
+}
+
+interface CreateRequest {
+  action: "create";
+  name: string;
+  activate?: boolean; // switch to the new organization (default true)
+}
+
+interface SwitchRequest {
+  action: "switch";
+  org_id: string;
+}
+
+interface MembersRequest {
+  action: "members";
+  org_id: string;
+}
+
+interface AddMemberRequest {
+  action: "add_member";
+  org_id: string;
+  email: string;
+  role?: OrgRole; // default viewer
+}
+
+interface SetRoleRequest {
+  action: "set_role";
+  org_id: string;
+  user_id: string;
+  role: OrgRole;
+}
+
+interface RemoveMemberRequest {
+  action: "remove_member";
+  org_id: string;
+  user_id: string;
+}
+
+type RequestPayload =
+  | ListRequest
+  | CreateRequest
+  | SwitchRequest
+  | MembersRequest
+  | AddMemberRequest
+  | SetRoleRequest
+  | RemoveMemberRequest;
+
+// Errors raised by the membership RPCs and the last-admin trigger
+const ERROR_STATUS: Record<string, number> = {
+  "42501": 403,
+  "23514": 409,
+};
+
+serve<RequestPayload>(organizationsSpec, async (payload, { caller }) => {
+  // Act as the caller so RLS policies are enforced
+  const supabase = caller.client;
+
+  switch (payload.action) {
+    // --- LIST: the caller's organizations, their role and which one is active ---
+    case "list": {
+      const { data, error } = await supabase
+        .from("organizations")
+        .select("id, name, personal, created_at, organization_members!inner(role)")
+        .eq("organization_members.user_id", caller.userId)
+        .order("personal", { ascending: false })
+        .order("name");
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      const { data: active, error: activeError } = await supabase.rpc("active_org_id");
+
+      if (activeError) return jsonResponse({ error: activeError.message }, 500);
+
+      const organizations = (data ?? []).map(({ organization_members, ...org }) => ({
+        ...org,
+        role: organization_members[0]?.role ?? null,
+        active: org.id === active,
+      }));
+
+      return jsonResponse({ active_org_id: active, count: organizations.length, organizations });
+    }
+
+    // --- CREATE an organization with the caller as admin ---
+    case "create": {
+      const { name, activate = true } = payload;
+
+      const { data: org_id, error } = await supabase.rpc("create_organization", { name });
+
+      if (error) return jsonResponse({ error: error.message }, ERROR_STATUS[error.code] ?? 500);
+
+      if (activate) {
+        const { error: switchError } = await supabase.rpc("set_active_org", { org_id });
+        if (switchError) return jsonResponse({ error: switchError.message }, 500);
+      }
+
+      return jsonResponse({ org_id, name: name.trim(), role: "admin", active: activate }, 201);
+    }
+
+    // --- SWITCH the organization the caller works in ---
+    case "switch": {
+      const { org_id } = payload;
+      const { data, error } = await supabase.rpc("set_active_org", { org_id });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!data) return jsonResponse({ error: "You are not a member of this organization" }, 404);
+
+      return jsonResponse({ active_org_id: org_id });
+    }
+
+    // --- MEMBERS of an organization with their roles ---
+    case "members": {
+      const { org_id } = payload;
+      const { data, error } = await supabase.rpc("org_members", { org_id });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!data?.length) {
+        return jsonResponse({ error: "You are not a member of this organization" }, 404);
+      }
+
+      return jsonResponse({ org_id, count: data.length, members: data });
+    }
+
+    // --- ADD_MEMBER by email, or change the role of an existing member (admins) ---
+    case "add_member": {
+      const { org_id, email, role = "viewer" } = payload;
+
+      const { data: user_id, error } = await supabase.rpc("add_org_member", {
+        org_id,
+        email,
+        role,
+      });
+
+      if (error) return jsonResponse({ error: error.message }, ERROR_STATUS[error.code] ?? 500);
+      if (!user_id) return jsonResponse({ error: "No user with this email" }, 404);
+
+      return jsonResponse({ org_id, user_id, role });
+    }
+
+    // --- SET_ROLE of a member (admins) ---
+    case "set_role": {
+      const { org_id, user_id, role } = payload;
+
+      // RLS limits the update to admins of the organization
+      const { data, error } = await supabase
+        .from("organization_members")
+        .update({ role })
+        .eq("org_id", org_id)
+        .eq("user_id", user_id)
+        .select("org_id, user_id, role");
+
+      if (error) return jsonResponse({ error: error.message }, ERROR_STATUS[error.code] ?? 500);
+      if (!data?.length) {
+        return jsonResponse({ error: "Member not found or you are not an admin" }, 404);
+      }
+
+      return jsonResponse(data[0]);
+    }
+
+    // --- REMOVE_MEMBER (admins), or leave when user_id is the caller ---
+    case "remove_member": {
+      const { org_id, user_id } = payload;
+
+      const { data, error } = await supabase
+        .from("organization_members")
+        .delete()
+        .eq("org_id", org_id)
+        .eq("user_id", user_id)
+        .select("user_id");
+
+      if (error) return jsonResponse({ error: error.message }, ERROR_STATUS[error.code] ?? 500);
+      if (!data?.length) {
+        return jsonResponse({ error: "Member not found or you are not an admin" }, 404);
+      }
+
+      return jsonResponse({ org_id, user_id, removed: true });
+    }
+  }
+});
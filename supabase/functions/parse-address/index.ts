@@ -0,0 +1,32 @@
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { geocodingQuery, parseMongolianAddress } from "../_shared/mn-address.ts";
+import { parseAddressSpec } from "../_shared/schemas/parse-address.ts";
+
+interface ParseAddressRequest {
+  address?: string;
+  addresses?: unknown[]; // batch form, replaces address
+}
+
+function parse(address: string) {
+  const parsed = parseMongolianAddress(address);
+  return { address, parsed, geocoding_query: geocodingQuery(address, parsed) };
+}
+
+serve<ParseAddressRequest>(parseAddressSpec, ({ address, addresses }) => {
+  if (addresses !== undefined) {
+    // Entries that are not strings fail on their own rather than the whole batch
+    const results = addresses.map((a) =>
+      typeof a === "string" && a.trim() !== ""
+        ? parse(a)
+        : { address: a, error: "Invalid address string" }
+    );
+    return jsonResponse({ count: results.length, results });
+  }
+
+  if (address === undefined) {
+    return jsonResponse({ error: "A valid 'address' string is required" }, 400);
+  }
+
+  return jsonResponse(parse(address));
+});
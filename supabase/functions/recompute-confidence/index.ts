@@ -0,0 +1,162 @@
+import { createServiceClient } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import {
+  CONFIDENCE_VERSION,
+  confidenceMetadata,
+  scoreForward,
+  scoreReverse,
+} from "../_shared/confidence.ts";
+import { lookupCached, VERIFIED_SOURCE } from "../_shared/geocode-cache.ts";
+import type { GeocodeResult } from "../_shared/geocoding.ts";
+import { geocodingQuery } from "../_shared/mn-address.ts";
+import { recomputeConfidenceSpec } from "../_shared/schemas/recompute-confidence.ts";
+
+interface RecomputeRequest {
+  registry_ids?: string[];
+  source?: string;
+  only_outdated?: boolean; // skip rows already scored by the current CONFIDENCE_VERSION
+  after_id?: string; // cursor from next_after_id
+  limit?: number;
+}
+
+interface RegistryRow {
+  id: string;
+  raw_address: string;
+  normalized_address: string;
+  standardized_address: Record<string, string | null> | null;
+  source: string | null;
+  confidence_score: number | null;
+  metadata: Record<string, unknown> | null;
+}
+
+// Rebuild the provider result from the stored standardized address and coordinates
+function storedResult(row: RegistryRow, point: { lat: number; lon: number }): GeocodeResult {
+  const std = row.standardized_address ?? {};
+  const field = (name: string) => std[name] ?? undefined;
+  return {
+    ...point,
+    display_name: field("formatted") ?? row.raw_address,
+    address: {
+      house_number: field("house_number"),
+      road: field("road"),
+      city: field("city"),
+      state: field("state"),
+      postcode: field("postcode"),
+      country: field("country"),
+      country_code: field("country_code"),
+    },
+  };
+}
+
+serve<RecomputeRequest>(recomputeConfidenceSpec, async (payload, { caller }) => {
+  const { registry_ids, source, only_outdated = true, after_id, limit = 200 } = payload;
+
+  // Act as the caller so RLS policies are enforced
+  const supabase = caller.client;
+
+  // Only geocoded rows (those with a provider) carry a computed confidence score;
+  // verified rows keep theirs
+  let query = supabase
+    .from("geo_registry")
+    .select(
+      "id, raw_address, normalized_address, standardized_address, source, confidence_score, metadata",
+    )
+    .eq("created_by", caller.userId)
+    .not("metadata->>provider", "is", null)
+    .neq("source", VERIFIED_SOURCE)
+    .order("id")
+    .limit(limit);
+
+  if (registry_ids) query = query.in("id", registry_ids);
+  if (source) query = query.eq("source", source);
+  if (after_id) query = query.gt("id", after_id);
+  if (only_outdated) {
+    query = query.or(
+      `metadata->confidence->>version.is.null,metadata->confidence->>version.neq.${CONFIDENCE_VERSION}`,
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) return jsonResponse({ error: error.message }, 500);
+
+  const rows = (data ?? []) as RegistryRow[];
+  if (rows.length === 0) {
+    return jsonResponse({
+      processed: 0,
+      updated: 0,
+      changed: 0,
+      next_after_id: null,
+      results: [],
+    });
+  }
+
+  const { data: coordinates, error: coordinatesError } = await supabase.rpc(
+    "registry_coordinates",
+    { registry_ids: rows.map((r) => r.id) },
+  );
+  if (coordinatesError) return jsonResponse({ error: coordinatesError.message }, 500);
+
+  const points = new Map<string, { lat: number; lon: number }>(
+    (coordinates ?? []).map((c: { id: string; lat: number; lon: number }) => [
+      c.id,
+      { lat: c.lat, lon: c.lon },
+    ]),
+  );
+
+  // Full provider answers (bbox, place rank) are still in the cache for recent lookups
+  const serviceClient = createServiceClient();
+  const byProvider = new Map<string, string[]>();
+  for (const row of rows) {
+    const provider = row.metadata?.provider as string;
+    byProvider.set(provider, [...(byProvider.get(provider) ?? []), row.normalized_address]);
+  }
+  const cached = new Map<string, GeocodeResult | null>();
+  for (const [provider, keys] of byProvider) {
+    for (const [key, entry] of await lookupCached(serviceClient, provider, keys)) {
+      cached.set(`${provider}:${key}`, entry.result);
+    }
+  }
+
+  const scores = rows.map((row) => {
+    const point = points.get(row.id)!;
+    const metadata = row.metadata ?? {};
+    const matched = metadata.matched_point as { lat: number; lon: number } | undefined;
+    const reverse = !!matched || !!row.source?.endsWith("_reverse");
+
+    // Reverse rows store the requested point; older ones lack the matched place's
+    const confidence = reverse
+      ? scoreReverse(matched ? point : null, storedResult(row, matched ?? point))
+      : scoreForward(
+        geocodingQuery(row.raw_address),
+        cached.get(`${metadata.provider}:${row.normalized_address}`) ??
+          storedResult(row, point),
+      );
+
+    return { row, confidence };
+  });
+
+  const { data: updated, error: updateError } = await supabase.rpc("apply_confidence_scores", {
+    scores: scores.map(({ row, confidence }) => ({
+      id: row.id,
+      confidence_score: confidence.score,
+      confidence: confidenceMetadata(confidence),
+    })),
+  });
+
+  if (updateError) return jsonResponse({ error: updateError.message }, 500);
+
+  return jsonResponse({
+    processed: rows.length,
+    updated,
+    changed: scores.filter(({ row, confidence }) => row.confidence_score !== confidence.score)
+      .length,
+    next_after_id: rows.length === limit ? rows[rows.length - 1].id : null,
+    results: scores.map(({ row, confidence }) => ({
+      id: row.id,
+      previous_score: row.confidence_score,
+      confidence_score: confidence.score,
+      confidence_breakdown: confidence.breakdown,
+    })),
+  });
+});
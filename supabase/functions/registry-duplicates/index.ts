@@ -0,0 +1,207 @@
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { registryDuplicatesSpec } from "../_shared/schemas/registry-duplicates.ts";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+interface DetectRequest {
+  action: "detect";
+  max_distance_m?: number; // default 50
+  min_text_similarity?: number; // default 0.5
+  source?: string;
+  owned_only?: boolean; // default true
+  created_after?: string; // only pairs with an entry created after this time
+}
+
+interface ListRequest {
+  action: "list";
+  min_similarity?: number;
+  owned_only?: boolean; // default true
+  page_size?: number;
+  cursor?: string; // next_cursor from the previous page
+}
+
+interface MergeRequest {
+  action: "merge";
+  canonical_id: string;
+  merged_ids: string[];
+}
+
+interface DismissRequest {
+  action: "dismiss";
+  candidate_id: string;
+}
+
+interface ResolveRequest {
+  action: "resolve";
+  registry_ids: string[];
+}
+
+type RequestPayload =
+  | DetectRequest
+  | ListRequest
+  | MergeRequest
+  | DismissRequest
+  | ResolveRequest;
+
+interface Cursor {
+  similarity: number;
+  id: string;
+}
+
+// Cursors are opaque to clients: base64 of the last pair's keyset position
+function encodeCursor(cursor: Cursor): string {
+  return btoa(JSON.stringify(cursor));
+}
+
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const cursor = JSON.parse(atob(value));
+    return typeof cursor.similarity === "number" && typeof cursor.id === "string" ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+// Errors raised by merge_registry_entries
+const MERGE_ERROR_STATUS: Record<string, number> = {
+  "22023": 400,
+  "42501": 403,
+  "P0002": 404,
+};
+
+serve<RequestPayload>(registryDuplicatesSpec, async (payload, { caller }) => {
+  // Act as the caller so RLS policies are enforced; the service role key may detect
+  // and merge across all users
+  const supabase = caller.client;
+
+  switch (payload.action) {
+    // --- DETECT: find candidate pairs by distance and address similarity ---
+    case "detect": {
+      const {
+        max_distance_m = 50,
+        min_text_similarity = 0.5,
+        source,
+        owned_only = true,
+        created_after,
+      } = payload;
+
+      const { data, error } = await supabase.rpc("detect_registry_duplicates", {
+        max_distance_m,
+        min_text_similarity,
+        source_filter: source ?? null,
+        owned_only: owned_only !== false,
+        created_after: created_after ?? null,
+      });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      return jsonResponse({ max_distance_m, min_text_similarity, candidates: data });
+    }
+
+    // --- LIST: pending candidate pairs, most similar first ---
+    case "list": {
+      const {
+        min_similarity = 0,
+        owned_only = true,
+        page_size = DEFAULT_PAGE_SIZE,
+        cursor,
+      } = payload;
+
+      const after = cursor !== undefined ? decodeCursor(cursor) : null;
+      if (cursor !== undefined && !after) {
+        return jsonResponse({ error: "'cursor' is invalid" }, 400);
+      }
+
+      const { data, error } = await supabase.rpc("registry_duplicate_pairs", {
+        min_similarity,
+        owned_only: owned_only !== false,
+        after_similarity: after?.similarity ?? null,
+        after_id: after?.id ?? null,
+        page_size,
+      });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      const pairs = data ?? [];
+      const last = pairs[pairs.length - 1];
+      const next_cursor = pairs.length === page_size
+        ? encodeCursor({ similarity: last.similarity, id: last.id })
+        : null;
+
+      return jsonResponse({ count: pairs.length, pairs, next_cursor });
+    }
+
+    // --- MERGE: keep one entry, redirect the others to it ---
+    case "merge": {
+      const { canonical_id, merged_ids } = payload;
+
+      if (merged_ids.includes(canonical_id)) {
+        return jsonResponse({ error: "'merged_ids' must not contain 'canonical_id'" }, 400);
+      }
+
+      const { data: merged, error } = await supabase.rpc("merge_registry_entries", {
+        canonical_id,
+        merged_ids,
+      });
+
+      if (error) {
+        return jsonResponse({ error: error.message }, MERGE_ERROR_STATUS[error.code] ?? 500);
+      }
+
+      const { data: entry, error: entryError } = await supabase
+        .from("geo_registry")
+        .select()
+        .eq("id", canonical_id)
+        .single();
+
+      if (entryError) return jsonResponse({ error: entryError.message }, 500);
+
+      return jsonResponse({ canonical_id, merged, entry });
+    }
+
+    // --- DISMISS: mark a candidate pair as not a duplicate ---
+    case "dismiss": {
+      const { candidate_id } = payload;
+
+      const { data, error } = await supabase.rpc("dismiss_registry_duplicate", {
+        candidate_id,
+      });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!data) {
+        return jsonResponse(
+          { error: "No pending candidate with this id that you can edit" },
+          404,
+        );
+      }
+
+      return jsonResponse({ candidate_id, dismissed: true });
+    }
+
+    // --- RESOLVE: follow redirects from merged ids to their canonical entries ---
+    case "resolve": {
+      const { registry_ids } = payload;
+
+      const { data, error } = await supabase.rpc("resolve_registry_ids", {
+        registry_ids: [...new Set(registry_ids)],
+      });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      const rows: { id: string; canonical_id: string; merged: boolean }[] = data ?? [];
+      const canonicalIds = [...new Set(rows.map((r) => r.canonical_id))];
+      const { data: entries, error: entriesError } = await supabase
+        .from("geo_registry")
+        .select()
+        .in("id", canonicalIds);
+
+      if (entriesError) return jsonResponse({ error: entriesError.message }, 500);
+
+      const byId = new Map((entries ?? []).map((e) => [e.id, e]));
+      const resolved = rows.map((r) => ({ ...r, entry: byId.get(r.canonical_id) ?? null }));
+
+      return jsonResponse({ count: resolved.length, resolved });
+    }
+  }
+});
@@ -0,0 +1,135 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import {
+  type ExportFormat,
+  type ExportWriter,
+  geofenceWriters,
+  registryWriters,
+} from "../_shared/export-formats.ts";
+import { registryExportSpec } from "../_shared/schemas/registry-export.ts";
+
+const REGISTRY_PAGE_SIZE = 1000;
+const GEOFENCE_PAGE_SIZE = 200;
+
+interface ExportRequest {
+  dataset?: "registry" | "geofences";
+  format?: ExportFormat;
+  bbox?: [number, number, number, number]; // [min_lon, min_lat, max_lon, max_lat]
+  fence_id?: string;
+  source?: string; // registry only
+  min_confidence?: number; // registry only
+  max_confidence?: number; // registry only
+  created_by?: string;
+  created_after?: string;
+  created_before?: string;
+}
+
+function validate(payload: ExportRequest): string | null {
+  const { bbox } = payload;
+
+  if (bbox && (bbox[0] >= bbox[2] || bbox[1] >= bbox[3])) {
+    return "'bbox' minimums must be smaller than its maximums";
+  }
+
+  return null;
+}
+
+// Keyset-paginated reader over one of the export RPCs
+function pageReader<T extends { id: string }>(
+  supabase: SupabaseClient,
+  rpc: string,
+  params: Record<string, unknown>,
+  page_size: number,
+) {
+  return async (after_id: string | null): Promise<T[]> => {
+    const { data, error } = await supabase.rpc(rpc, { ...params, after_id, page_size });
+    if (error) throw new Error(error.message);
+    return data ?? [];
+  };
+}
+
+// Emit header, rows and footer, fetching page after page while the client reads
+async function* render<T extends { id: string }>(
+  writer: ExportWriter<T>,
+  first: T[],
+  readPage: (afterId: string | null) => Promise<T[]>,
+  pageSize: number,
+): AsyncGenerator<string> {
+  yield writer.header();
+
+  let page = first;
+  let index = 0;
+  while (page.length > 0) {
+    let chunk = "";
+    for (const row of page) chunk += writer.row(row, index++);
+    yield chunk;
+
+    if (page.length < pageSize) break;
+    page = await readPage(page[page.length - 1].id);
+  }
+
+  yield writer.footer();
+}
+
+async function streamExport<T extends { id: string }>(
+  dataset: string,
+  writer: ExportWriter<T>,
+  readPage: (afterId: string | null) => Promise<T[]>,
+  pageSize: number,
+) {
+  // Read the first page before streaming so query errors still produce a JSON 500
+  const first = await readPage(null);
+  const body = ReadableStream.from(render(writer, first, readPage, pageSize))
+    .pipeThrough(new TextEncoderStream());
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  return new Response(body, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": writer.contentType,
+      "Content-Disposition": `attachment; filename="${dataset}-${stamp}.${writer.extension}"`,
+    },
+  });
+}
+
+serve<ExportRequest>(registryExportSpec, async (payload, { caller }) => {
+  const { dataset = "registry", format = "geojson" } = payload;
+
+  const invalid = validate(payload);
+  if (invalid) return jsonResponse({ error: invalid }, 400);
+
+  // Act as the caller so RLS policies are enforced
+  const supabase = caller.client;
+
+  const common = {
+    bbox: payload.bbox ?? null,
+    fence_id: payload.fence_id ?? null,
+    created_by_filter: payload.created_by ?? null,
+    created_after: payload.created_after ?? null,
+    created_before: payload.created_before ?? null,
+  };
+
+  if (dataset === "geofences") {
+    return await streamExport(
+      dataset,
+      geofenceWriters[format],
+      pageReader(supabase, "export_geofences", common, GEOFENCE_PAGE_SIZE),
+      GEOFENCE_PAGE_SIZE,
+    );
+  }
+
+  return await streamExport(
+    dataset,
+    registryWriters[format],
+    pageReader(supabase, "export_geo_registry", {
+      ...common,
+      source_filter: payload.source ?? null,
+      min_confidence: payload.min_confidence ?? null,
+      max_confidence: payload.max_confidence ?? null,
+    }, REGISTRY_PAGE_SIZE),
+    REGISTRY_PAGE_SIZE,
+  );
+});
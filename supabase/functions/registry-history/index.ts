@@ -0,0 +1,143 @@
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { registryHistorySpec } from "../_shared/schemas/registry-history.ts";
+
+// Fields compared between consecutive versions
+const TRACKED_FIELDS = [
+  "raw_address",
+  "standardized_address",
+  "parsed_address",
+  "coordinates",
+  "source",
+  "confidence_score",
+  "metadata",
+  "deleted_at",
+] as const;
+
+interface HistoryRequest {
+  action: "history" | "delete" | "restore" | "revert";
+  registry_id: string;
+  version?: number; // revert only
+}
+
+interface Version {
+  version: number;
+  operation: string;
+  changed_fields: string[];
+  coordinates: unknown; // GeoJSON text from the RPC, parsed here
+  deleted_at: string | null;
+  [field: string]: unknown;
+}
+
+// Attach { field: { old, new } } for what each version changed relative to the one before
+function withChanges(versions: Version[]) {
+  const parsed = versions.map((v): Version => ({
+    ...v,
+    coordinates: v.coordinates ? JSON.parse(v.coordinates as string) : null,
+  }));
+
+  // Versions arrive newest first
+  return parsed.map((v, i) => {
+    const previous = parsed[i + 1];
+    const changes: Record<string, { old: unknown; new: unknown }> = {};
+    if (previous) {
+      for (const field of TRACKED_FIELDS) {
+        if (JSON.stringify(previous[field]) !== JSON.stringify(v[field])) {
+          changes[field] = { old: previous[field], new: v[field] };
+        }
+      }
+    }
+    return { ...v, changes };
+  });
+}
+
+serve<HistoryRequest>(registryHistorySpec, async (payload, { caller }) => {
+  const { action, registry_id } = payload;
+
+  // Act as the caller so RLS policies are enforced
+  const supabase = caller.client;
+
+  switch (action) {
+    // --- HISTORY: every version of an entry, newest first ---
+    case "history": {
+      const { data, error } = await supabase.rpc("registry_history", { registry_id });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!data?.length) return jsonResponse({ error: "No history found for this entry" }, 404);
+
+      const versions = withChanges(data);
+      return jsonResponse({
+        registry_id,
+        current_version: versions[0].version,
+        deleted: versions[0].deleted_at !== null,
+        count: versions.length,
+        versions,
+      });
+    }
+
+    // --- DELETE: soft delete, undone with restore ---
+    case "delete": {
+      const { error } = await supabase.from("geo_registry").delete().eq("id", registry_id);
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      // The soft delete trigger cancels the actual delete and reports no rows, so
+      // confirm through the latest version instead
+      const { data: versions, error: historyError } = await supabase.rpc("registry_history", {
+        registry_id,
+      });
+
+      if (historyError) return jsonResponse({ error: historyError.message }, 500);
+      if (versions?.[0]?.operation !== "delete") {
+        return jsonResponse({
+          error: "Entry not found or you are not an editor of its organization",
+        }, 404);
+      }
+
+      return jsonResponse({ registry_id, deleted: true });
+    }
+
+    // --- RESTORE a soft-deleted entry ---
+    case "restore": {
+      const { data, error } = await supabase.rpc("restore_registry_entry", { registry_id });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!data) {
+        return jsonResponse({ error: "No deleted entry with this id that you can edit" }, 404);
+      }
+
+      return jsonResponse({ registry_id, restored: true });
+    }
+
+    // --- REVERT to the content of an earlier version ---
+    case "revert": {
+      const { version } = payload;
+
+      const { data, error } = await supabase.rpc("revert_registry_entry", {
+        registry_id,
+        target_version: version,
+      });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!data) {
+        return jsonResponse(
+          {
+            error:
+              "Version not found, you are not an editor, or entry is deleted (restore it first)",
+          },
+          404,
+        );
+      }
+
+      const { data: entry, error: entryError } = await supabase
+        .from("geo_registry")
+        .select()
+        .eq("id", registry_id)
+        .single();
+
+      if (entryError) return jsonResponse({ error: entryError.message }, 500);
+
+      return jsonResponse({ registry_id, reverted_to: version, entry });
+    }
+  }
+});
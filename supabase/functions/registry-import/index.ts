@@ -0,0 +1,391 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { createServiceClient } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { parseCsv, toCsv } from "../_shared/csv.ts";
+import { createGeocodeJob, MAX_JOB_SIZE } from "../_shared/geocode-jobs.ts";
+import { parseMongolianAddress } from "../_shared/mn-address.ts";
+import { requireEditorOrg } from "../_shared/organizations.ts";
+import { registryImportSpec } from "../_shared/schemas/registry-import.ts";
+
+const MAX_IMPORT_ROWS = MAX_JOB_SIZE;
+const INSERT_CHUNK_SIZE = 500;
+// Report rows are read in pages of PostgREST's max_rows, ordered by row_number
+const REPORT_PAGE_SIZE = 1000;
+
+const DEFAULT_ADDRESS_COLUMNS = ["address"];
+const DEFAULT_LAT_COLUMNS = ["lat", "latitude", "y"];
+const DEFAULT_LON_COLUMNS = ["lon", "lng", "long", "longitude", "x"];
+
+type Action = "create" | "status" | "report";
+
+interface ColumnMapping {
+  address?: string | string[]; // several columns are joined with ", "
+  lat?: string;
+  lon?: string;
+}
+
+interface FeatureCollection {
+  type: "FeatureCollection";
+  features: {
+    type: "Feature";
+    geometry: { type: string; coordinates: unknown } | null;
+    properties: Record<string, unknown> | null;
+  }[];
+}
+
+interface CreatePayload {
+  action: "create";
+  format: "csv" | "geojson";
+  content: string | FeatureCollection; // CSV text, or a GeoJSON FeatureCollection
+  columns?: ColumnMapping;
+  delimiter?: string;
+  source?: string;
+  reuse_existing?: boolean; // applies to rows that need geocoding
+}
+
+interface StatusPayload {
+  action: "status";
+  import_id: string;
+}
+
+interface ReportPayload {
+  action: "report";
+  import_id: string;
+  format?: "json" | "csv";
+  errors_only?: boolean;
+}
+
+type RequestPayload = CreatePayload | StatusPayload | ReportPayload;
+
+interface ParsedRow {
+  row_number: number;
+  raw: Record<string, unknown>;
+  address: string | null;
+  lat: number | null;
+  lon: number | null;
+  error?: string;
+}
+
+interface RowOutcome {
+  status: "inserted" | "invalid" | "geocoding";
+  error?: string;
+  registry_id?: string;
+  job_position?: number;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = typeof value === "number" ? value : Number(String(value).trim());
+  return Number.isFinite(n) ? n : NaN;
+}
+
+// Shared row validation for both formats
+function validateRow(row: ParsedRow): ParsedRow {
+  const { lat, lon, address } = row;
+
+  if ((lat === null) !== (lon === null)) {
+    return { ...row, error: "Both lat and lon are required when either is given" };
+  }
+  if (Number.isNaN(lat) || Number.isNaN(lon)) {
+    return { ...row, error: "lat and lon must be numbers" };
+  }
+  if (lat !== null && lon !== null && (lat < -90 || lat > 90 || lon < -180 || lon > 180)) {
+    return { ...row, error: "Coordinates out of range (lat: -90..90, lon: -180..180)" };
+  }
+  if (lat === null && !address) {
+    return { ...row, error: "Row has neither coordinates nor an address" };
+  }
+  return row;
+}
+
+function joinAddress(record: Record<string, unknown>, columns: string[]): string | null {
+  const parts = columns
+    .map((c) => record[c])
+    .filter((v) => v !== null && v !== undefined && String(v).trim() !== "")
+    .map((v) => String(v).trim());
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+// Returns an error message or the rows of a CSV document
+function parseCsvRows(
+  content: string,
+  mapping: ColumnMapping,
+  delimiter: string,
+): string | ParsedRow[] {
+  const [header, ...lines] = parseCsv(content, delimiter);
+  if (!header) return "CSV content is empty";
+
+  const names = header.map((h) => h.trim());
+  const find = (candidates: string[]) =>
+    names.find((n) => candidates.includes(n.toLowerCase())) ?? null;
+
+  const addressColumns = mapping.address
+    ? [mapping.address].flat()
+    : [find(DEFAULT_ADDRESS_COLUMNS)].filter((c): c is string => c !== null);
+  const latColumn = mapping.lat ?? find(DEFAULT_LAT_COLUMNS);
+  const lonColumn = mapping.lon ?? find(DEFAULT_LON_COLUMNS);
+
+  for (const column of [...addressColumns, mapping.lat, mapping.lon]) {
+    if (column && !names.includes(column)) return `Unknown column '${column}'`;
+  }
+  if (addressColumns.length === 0 && !(latColumn && lonColumn)) {
+    return "CSV needs an address column or lat/lon columns (see 'columns')";
+  }
+
+  return lines.map((fields, i) => {
+    const raw: Record<string, unknown> = {};
+    names.forEach((name, j) => (raw[name] = fields[j] ?? ""));
+
+    return validateRow({
+      row_number: i + 1,
+      raw,
+      address: joinAddress(raw, addressColumns),
+      lat: latColumn ? toNumber(raw[latColumn]) : null,
+      lon: lonColumn ? toNumber(raw[lonColumn]) : null,
+    });
+  });
+}
+
+// Returns an error message or the rows of a GeoJSON FeatureCollection
+function parseGeoJsonRows(
+  content: string | FeatureCollection,
+  mapping: ColumnMapping,
+): string | ParsedRow[] {
+  let collection: FeatureCollection;
+  try {
+    collection = typeof content === "string" ? JSON.parse(content) : content;
+  } catch {
+    return "GeoJSON content is not valid JSON";
+  }
+
+  if (collection?.type !== "FeatureCollection" || !Array.isArray(collection.features)) {
+    return "GeoJSON content must be a FeatureCollection";
+  }
+
+  const addressProps = mapping.address ? [mapping.address].flat() : DEFAULT_ADDRESS_COLUMNS;
+
+  return collection.features.map((feature, i) => {
+    const raw = { ...(feature?.properties ?? {}) };
+    const row: ParsedRow = {
+      row_number: i + 1,
+      raw,
+      address: joinAddress(raw, addressProps),
+      lat: null,
+      lon: null,
+    };
+    const geometry = feature?.geometry;
+
+    if (geometry) {
+      if (geometry.type !== "Point" || !Array.isArray(geometry.coordinates)) {
+        return { ...row, error: "Only Point geometries are supported" };
+      }
+      const [lon, lat] = geometry.coordinates;
+      row.lon = toNumber(lon) ?? NaN;
+      row.lat = toNumber(lat) ?? NaN;
+    }
+
+    return validateRow(row);
+  });
+}
+
+serve<RequestPayload>(registryImportSpec, async (payload, { caller }) => {
+  // Caller's client so RLS limits reads to the caller's own imports
+  const supabase = caller.client;
+
+  switch (payload.action) {
+    // --- CREATE an import ---
+    case "create": {
+      const {
+        format,
+        content,
+        columns = {},
+        delimiter = ",",
+        source,
+        reuse_existing = false,
+      } = payload;
+
+      if (format === "csv" && typeof content !== "string") {
+        return jsonResponse({ error: "CSV 'content' must be a string" }, 400);
+      }
+
+      const rows = format === "csv"
+        ? parseCsvRows(content as string, columns, delimiter)
+        : parseGeoJsonRows(content, columns);
+
+      if (typeof rows === "string") return jsonResponse({ error: rows }, 400);
+      if (rows.length === 0) return jsonResponse({ error: "No rows to import" }, 400);
+
+      if (rows.length > MAX_IMPORT_ROWS) {
+        return jsonResponse({ error: `Import exceeds maximum of ${MAX_IMPORT_ROWS} rows` }, 400);
+      }
+
+      // Rows go into the caller's active organization
+      const org_id = await requireEditorOrg(caller);
+      if (org_id instanceof Response) return org_id;
+
+      const serviceClient = createServiceClient();
+      const created_by = caller.userId;
+      const rowSource = source ?? `${format}_import`;
+
+      const { data: imported, error } = await serviceClient
+        .from("registry_imports")
+        .insert({ format, source: rowSource, total_rows: rows.length, created_by })
+        .select()
+        .single();
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      const located = rows.filter((r) => !r.error && r.lat !== null);
+      const toGeocode = rows.filter((r) => !r.error && r.lat === null);
+      const report = new Map<number, RowOutcome>();
+
+      for (const r of rows.filter((r) => r.error)) {
+        report.set(r.row_number, { status: "invalid", error: r.error });
+      }
+
+      // Rows with coordinates go straight into geo_registry
+      for (let i = 0; i < located.length; i += INSERT_CHUNK_SIZE) {
+        const chunk = located.slice(i, i + INSERT_CHUNK_SIZE);
+        const { data: inserted, error: insertError } = await serviceClient
+          .from("geo_registry")
+          .insert(chunk.map((r) => ({
+            raw_address: r.address ?? `${r.lat}, ${r.lon}`,
+            parsed_address: r.address ? parseMongolianAddress(r.address) : null,
+            coordinates: `SRID=4326;POINT(${r.lon} ${r.lat})`,
+            source: rowSource,
+            metadata: { import_id: imported.id, attributes: r.raw },
+            created_by,
+            org_id,
+          })))
+          .select("id");
+
+        chunk.forEach((r, j) =>
+          report.set(
+            r.row_number,
+            insertError
+              ? { status: "invalid", error: `Database insert failed: ${insertError.message}` }
+              : { status: "inserted", registry_id: inserted[j].id },
+          )
+        );
+      }
+
+      // Rows with only an address are geocoded asynchronously by the geocode-worker
+      if (toGeocode.length > 0) {
+        const job = await createGeocodeJob(serviceClient, {
+          addresses: toGeocode.map((r) => r.address),
+          source: rowSource,
+          reuse_existing,
+          created_by,
+          org_id,
+        });
+
+        await serviceClient
+          .from("registry_imports")
+          .update({ geocode_job_id: job.id })
+          .eq("id", imported.id);
+
+        toGeocode.forEach((r, position) =>
+          report.set(r.row_number, { status: "geocoding", job_position: position })
+        );
+        imported.geocode_job_id = job.id;
+      }
+
+      const reportRows = rows.map((r) => ({
+        import_id: imported.id,
+        row_number: r.row_number,
+        raw: r.raw,
+        ...report.get(r.row_number)!,
+      }));
+
+      for (let i = 0; i < reportRows.length; i += INSERT_CHUNK_SIZE * 2) {
+        const { error: reportError } = await serviceClient
+          .from("registry_import_rows")
+          .insert(reportRows.slice(i, i + INSERT_CHUNK_SIZE * 2));
+
+        if (reportError) return jsonResponse({ error: reportError.message }, 500);
+      }
+
+      const counts = (status: string) => reportRows.filter((r) => r.status === status).length;
+
+      return jsonResponse({
+        ...imported,
+        summary: {
+          total: rows.length,
+          inserted: counts("inserted"),
+          invalid: counts("invalid"),
+          geocoding: counts("geocoding"),
+        },
+      }, 201);
+    }
+
+    // --- STATUS of an import, including progress of its geocode job ---
+    case "status": {
+      const { import_id } = payload;
+
+      const { data: imported, error } = await supabase
+        .from("registry_imports")
+        .select()
+        .eq("id", import_id)
+        .maybeSingle();
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!imported) return jsonResponse({ error: "Import not found" }, 404);
+
+      const { data: counts, error: summaryError } = await supabase.rpc(
+        "registry_import_summary",
+        { import_id },
+      );
+
+      if (summaryError) return jsonResponse({ error: summaryError.message }, 500);
+
+      const summary: Record<string, number> = {
+        total: imported.total_rows,
+        inserted: 0,
+        invalid: 0,
+        geocoding: 0,
+        not_found: 0,
+        error: 0,
+      };
+      for (const { status, count } of counts) summary[status] = count;
+
+      return jsonResponse({ ...imported, summary });
+    }
+
+    // --- REPORT: per-row outcome, as JSON or a downloadable CSV ---
+    case "report": {
+      const { import_id, format = "json", errors_only = false } = payload;
+
+      const rows: { row_number: number }[] = [];
+      for (let after = 0;;) {
+        let query = supabase
+          .rpc("registry_import_report", { import_id })
+          .gt("row_number", after)
+          .order("row_number", { ascending: true })
+          .limit(REPORT_PAGE_SIZE);
+        if (errors_only) query = query.not("status", "in", "(inserted,geocoding)");
+
+        const { data, error } = await query;
+        if (error) return jsonResponse({ error: error.message }, 500);
+
+        rows.push(...data);
+        if (data.length < REPORT_PAGE_SIZE) break;
+        after = data[data.length - 1].row_number;
+      }
+
+      if (format === "csv") {
+        const csv = toCsv(["row_number", "status", "error", "registry_id", "raw"], rows);
+        return new Response(csv, {
+          status: 200,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": `attachment; filename="import-${import_id}-report.csv"`,
+          },
+        });
+      }
+
+      return jsonResponse({ count: rows.length, rows });
+    }
+  }
+});
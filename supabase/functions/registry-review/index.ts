@@ -0,0 +1,285 @@
+import { createServiceClient } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { confidenceMetadata, verifiedConfidence } from "../_shared/confidence.ts";
+import { VERIFIED_SOURCE } from "../_shared/geocode-cache.ts";
+import { distanceM } from "../_shared/geocoding.ts";
+import {
+  type ADDRESS_FIELDS,
+  type REASONS,
+  registryReviewSpec,
+} from "../_shared/schemas/registry-review.ts";
+
+const DEFAULT_THRESHOLD = 0.5;
+const DEFAULT_PAGE_SIZE = 50;
+
+interface QueueRequest {
+  action: "queue";
+  threshold?: number;
+  reason?: typeof REASONS[number];
+  owned_only?: boolean; // default true
+  page_size?: number;
+  cursor?: string; // next_cursor from the previous page
+}
+
+interface FlagRequest {
+  action: "flag";
+  registry_id: string;
+  reason: string;
+}
+
+interface DismissRequest {
+  action: "dismiss";
+  registry_id: string;
+  note?: string;
+}
+
+interface CorrectRequest {
+  action: "correct";
+  registry_id: string;
+  reason: string;
+  lat?: number;
+  lon?: number;
+  standardized_address?: Partial<Record<typeof ADDRESS_FIELDS[number], string | null>>;
+}
+
+type RequestPayload = QueueRequest | FlagRequest | DismissRequest | CorrectRequest;
+
+interface Cursor {
+  confidence: number;
+  id: string;
+}
+
+// Cursors are opaque to clients: base64 of the last row's keyset position
+function encodeCursor(cursor: Cursor): string {
+  return btoa(JSON.stringify(cursor));
+}
+
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const cursor = JSON.parse(atob(value));
+    return typeof cursor.confidence === "number" && typeof cursor.id === "string" ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+function validateCorrection(payload: CorrectRequest): string | null {
+  const { lat, lon, standardized_address } = payload;
+
+  if ((lat === undefined) !== (lon === undefined)) {
+    return "'lat' and 'lon' must be given together";
+  }
+  if (lat === undefined && standardized_address === undefined) {
+    return "Provide 'lat' and 'lon', 'standardized_address', or both";
+  }
+  return null;
+}
+
+serve<RequestPayload>(registryReviewSpec, async (payload, { caller }) => {
+  // Act as the caller so RLS policies are enforced
+  const supabase = caller.client;
+
+  switch (payload.action) {
+    // --- QUEUE: entries below the confidence threshold or with open flags ---
+    case "queue": {
+      const {
+        threshold = DEFAULT_THRESHOLD,
+        reason,
+        owned_only = true,
+        page_size = DEFAULT_PAGE_SIZE,
+        cursor,
+      } = payload;
+
+      const after = cursor !== undefined ? decodeCursor(cursor) : null;
+      if (cursor !== undefined && !after) {
+        return jsonResponse({ error: "'cursor' is invalid" }, 400);
+      }
+
+      const { data, error } = await supabase.rpc("review_queue", {
+        threshold,
+        reason_filter: reason ?? null,
+        owned_only: owned_only !== false,
+        after_confidence: after?.confidence ?? null,
+        after_id: after?.id ?? null,
+        page_size,
+      });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      const rows = data ?? [];
+      const entries = rows.map(
+        ({ coordinates, sort_confidence: _, ...row }: Record<string, unknown>) => ({
+          ...row,
+          coordinates: coordinates ? JSON.parse(coordinates as string) : null,
+        }),
+      );
+
+      const last = rows[rows.length - 1];
+      const next_cursor = rows.length === page_size
+        ? encodeCursor({ confidence: last.sort_confidence, id: last.id })
+        : null;
+
+      return jsonResponse({ threshold, count: entries.length, entries, next_cursor });
+    }
+
+    // --- FLAG: report an entry as wrong so it shows up in its owner's queue ---
+    case "flag": {
+      const { registry_id, reason } = payload;
+
+      const { data: entry, error: entryError } = await supabase
+        .from("geo_registry")
+        .select("id")
+        .eq("id", registry_id)
+        .maybeSingle();
+
+      if (entryError) return jsonResponse({ error: entryError.message }, 500);
+      if (!entry) return jsonResponse({ error: "Entry not found" }, 404);
+
+      const { data: flag, error } = await supabase
+        .from("registry_flags")
+        .insert({ registry_id, reason: reason.trim(), created_by: caller.userId })
+        .select()
+        .single();
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      return jsonResponse({ flag }, 201);
+    }
+
+    // --- DISMISS: close the open flags of an entry without changing it ---
+    case "dismiss": {
+      const { registry_id, note } = payload;
+      // RLS limits the update to flags on entries the caller can edit
+      const { data, error } = await supabase
+        .from("registry_flags")
+        .update({
+          status: "dismissed",
+          resolved_by: caller.userId,
+          resolved_at: new Date().toISOString(),
+          resolution_note: note ?? null,
+        })
+        .eq("registry_id", registry_id)
+        .eq("status", "open")
+        .select("id");
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      return jsonResponse({ registry_id, flags_dismissed: data?.length ?? 0 });
+    }
+
+    // --- CORRECT: move the point and/or fix the address, marking the entry verified ---
+    case "correct": {
+      const invalid = validateCorrection(payload);
+      if (invalid) return jsonResponse({ error: invalid }, 400);
+
+      const { registry_id, reason, lat, lon, standardized_address } = payload;
+      const { data: entry, error: entryError } = await supabase
+        .from("geo_registry")
+        .select(
+          "id, normalized_address, standardized_address, source, confidence_score, metadata, org_id",
+        )
+        .eq("id", registry_id)
+        .maybeSingle();
+
+      if (entryError) return jsonResponse({ error: entryError.message }, 500);
+      if (!entry) return jsonResponse({ error: "Entry not found" }, 404);
+
+      const { data: isEditor, error: roleError } = await supabase.rpc("has_org_role", {
+        org: entry.org_id,
+        min_role: "editor",
+      });
+
+      if (roleError) return jsonResponse({ error: roleError.message }, 500);
+      if (!isEditor) {
+        return jsonResponse(
+          { error: "Only editors of the entry's organization can correct it" },
+          403,
+        );
+      }
+
+      const { data: current, error: coordError } = await supabase.rpc("registry_coordinates", {
+        registry_ids: [registry_id],
+      });
+
+      if (coordError) return jsonResponse({ error: coordError.message }, 500);
+
+      const previous = current?.[0] as { lat: number; lon: number } | undefined;
+      const point = lat !== undefined ? { lat, lon: lon! } : previous;
+      const moved_m = previous && point
+        ? Math.round(distanceM(previous.lat, previous.lon, point.lat, point.lon) * 100) / 100
+        : null;
+
+      const address = { ...entry.standardized_address, ...standardized_address };
+      const correctedAt = new Date().toISOString();
+
+      const update: Record<string, unknown> = {
+        standardized_address: address,
+        source: VERIFIED_SOURCE,
+        confidence_score: 1.0,
+        metadata: {
+          ...entry.metadata,
+          confidence: confidenceMetadata(verifiedConfidence()),
+          correction: {
+            reason: reason.trim(),
+            corrected_by: caller.userId,
+            corrected_at: correctedAt,
+            previous_source: entry.source,
+            previous_confidence: entry.confidence_score,
+            moved_m,
+          },
+        },
+      };
+      if (lat !== undefined) update.coordinates = `SRID=4326;POINT(${lon} ${lat})`;
+
+      const { data: corrected, error } = await supabase
+        .from("geo_registry")
+        .update(update)
+        .eq("id", registry_id)
+        .select()
+        .single();
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      const { data: resolved, error: flagError } = await supabase
+        .from("registry_flags")
+        .update({
+          status: "resolved",
+          resolved_by: caller.userId,
+          resolved_at: correctedAt,
+          resolution_note: reason.trim(),
+        })
+        .eq("registry_id", registry_id)
+        .eq("status", "open")
+        .select("id");
+
+      if (flagError) return jsonResponse({ error: flagError.message }, 500);
+
+      // Corrections are read by the geocode functions with the service role, so later
+      // geocodes of the same normalized address in this organization return this location
+      if (point && entry.normalized_address) {
+        const service = createServiceClient();
+        const { error: storeError } = await service.from("geocode_corrections").upsert({
+          org_id: entry.org_id,
+          normalized_address: entry.normalized_address,
+          registry_id,
+          lat: point.lat,
+          lon: point.lon,
+          standardized_address: address,
+          reason: reason.trim(),
+          verified_by: caller.userId,
+          verified_at: correctedAt,
+        });
+
+        if (storeError) return jsonResponse({ error: storeError.message }, 500);
+      }
+
+      return jsonResponse({
+        registry_id,
+        moved_m,
+        flags_resolved: resolved?.length ?? 0,
+        entry: corrected,
+      });
+    }
+  }
+});
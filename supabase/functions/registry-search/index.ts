@@ -0,0 +1,111 @@
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { registrySearchSpec, type SORTS } from "../_shared/schemas/registry-search.ts";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+type Sort = typeof SORTS[number];
+
+interface SearchRequest {
+  bbox?: [number, number, number, number]; // [min_lon, min_lat, max_lon, max_lat]
+  polygon?: { type: "Polygon" | "MultiPolygon"; coordinates: unknown[] };
+  fence_id?: string;
+  source?: string;
+  min_confidence?: number;
+  max_confidence?: number;
+  country_code?: string;
+  city?: string;
+  created_by?: string;
+  created_after?: string;
+  created_before?: string;
+  near?: { lat: number; lon: number }; // origin for distance sort and distance_m
+  sort?: Sort;
+  page_size?: number;
+  cursor?: string; // next_cursor from the previous page
+}
+
+interface Cursor {
+  sort: Sort;
+  key: number;
+  id: string;
+}
+
+// Cursors are opaque to clients: base64 of the sort and the last row's keyset position
+function encodeCursor(cursor: Cursor): string {
+  return btoa(JSON.stringify(cursor));
+}
+
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const cursor = JSON.parse(atob(value));
+    return typeof cursor.key === "number" && typeof cursor.id === "string" ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+function validate(payload: SearchRequest, sort: Sort): string | null {
+  const { bbox, near } = payload;
+
+  if (bbox !== undefined && (bbox[0] >= bbox[2] || bbox[1] >= bbox[3])) {
+    return "'bbox' minimums must be smaller than its maximums";
+  }
+
+  if (sort === "distance" && near === undefined) {
+    return "'near' is required to sort by distance";
+  }
+
+  return null;
+}
+
+serve<SearchRequest>(registrySearchSpec, async (payload, { caller }) => {
+  const { near, cursor, page_size = DEFAULT_PAGE_SIZE } = payload;
+  const sort = payload.sort ?? (near ? "distance" : "recency");
+
+  const invalid = validate(payload, sort);
+  if (invalid) return jsonResponse({ error: invalid }, 400);
+
+  const after = cursor !== undefined ? decodeCursor(cursor) : null;
+  if (cursor !== undefined && (!after || after.sort !== sort)) {
+    return jsonResponse({ error: "'cursor' is invalid or belongs to a different sort" }, 400);
+  }
+
+  // Act as the caller so RLS policies are enforced
+  const supabase = caller.client;
+
+  const { data, error } = await supabase.rpc("search_geo_registry", {
+    bbox: payload.bbox ?? null,
+    area: payload.polygon ? JSON.stringify(payload.polygon) : null,
+    fence_id: payload.fence_id ?? null,
+    source_filter: payload.source ?? null,
+    min_confidence: payload.min_confidence ?? null,
+    max_confidence: payload.max_confidence ?? null,
+    country_code: payload.country_code ?? null,
+    city: payload.city ?? null,
+    created_by_filter: payload.created_by ?? null,
+    created_after: payload.created_after ?? null,
+    created_before: payload.created_before ?? null,
+    near_lat: near?.lat ?? null,
+    near_lon: near?.lon ?? null,
+    sort,
+    after_key: after?.key ?? null,
+    after_id: after?.id ?? null,
+    page_size,
+  });
+
+  if (error) return jsonResponse({ error: error.message }, 500);
+
+  const rows: { sort_key: number; id: string; [key: string]: unknown }[] = data ?? [];
+  const results = rows.map(({ sort_key: _, coordinates, distance_m, ...row }) => ({
+    ...row,
+    coordinates: JSON.parse(coordinates as string),
+    ...(near ? { distance_m: Math.round((distance_m as number) * 100) / 100 } : {}),
+  }));
+
+  const last = rows[rows.length - 1];
+  const next_cursor = rows.length === page_size
+    ? encodeCursor({ sort, key: last.sort_key, id: last.id })
+    : null;
+
+  return jsonResponse({ count: results.length, sort, results, next_cursor });
+});
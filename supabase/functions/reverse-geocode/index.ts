@@ -1,5 +1,15 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { corsHeaders } from "../_shared/cors.ts";
+import { createServiceClient } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { confidenceMetadata, scoreReverse } from "../_shared/confidence.ts";
+import {
+  buildStandardized,
+  type GeocodeResult,
+  GeocodingProviderError,
+} from "../_shared/geocoding.ts";
+import { requireEditorOrg } from "../_shared/organizations.ts";
+import { getGeocodingProvider } from "../_shared/providers/mod.ts";
+import { reverseGeocodeSpec } from "../_shared/schemas/reverse-geocode.ts";
 
 interface ReverseGeocodeRequest {
   lat: number;
@@ -7,139 +17,53 @@ interface ReverseGeocodeRequest {
   source?: string;
 }
 
-interface NominatimReverseResult {
-  lat: string;
-  lon: string;
-  display_name: string;
-  address: {
-    house_number?: string;
-    road?: string;
-    city?: string;
-    state?: string;
-    postcode?: string;
-    country?: string;
-    country_code?: string;
-  };
-}
+serve<ReverseGeocodeRequest>(reverseGeocodeSpec, async ({ lat, lon, source }, { caller }) => {
+  // The result is stored in the caller's active organization
+  const org_id = await requireEditorOrg(caller);
+  if (org_id instanceof Response) return org_id;
 
-Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
-  }
+  const provider = getGeocodingProvider();
 
+  let result: GeocodeResult | null;
   try {
-    const { lat, lon, source }: ReverseGeocodeRequest = await req.json();
-
-    if (typeof lat !== "number" || typeof lon !== "number") {
-      return new Response(
-        JSON.stringify({ error: "'lat' and 'lon' must be numbers" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
-
-    if (lat < -90 || lat > 90 || lon < -180 || lon > 180) {
-      return new Response(
-        JSON.stringify({ error: "Coordinates out of range (lat: -90..90, lon: -180..180)" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
-
-    // Reverse geocode via OpenStreetMap Nominatim
-    const nominatimUrl =
-      `https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lon}&format=json&addressdetails=1`;
-
-    const geoRes = await fetch(nominatimUrl, {
-      headers: { "User-Agent": "map.gerege.ai/1.0" },
-    });
-
-    if (!geoRes.ok) {
-      return new Response(
-        JSON.stringify({ error: "Reverse geocoding service request failed" }),
-        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
-
-    const result: NominatimReverseResult & { error?: string } = await geoRes.json();
-
-    if (result.error) {
-      return new Response(
-        JSON.stringify({ error: "No results found for the given coordinates" }),
-        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
-
-    // Build standardized address from Nominatim components
-    const standardized_address = {
-      house_number: result.address.house_number ?? null,
-      road: result.address.road ?? null,
-      city: result.address.city ?? null,
-      state: result.address.state ?? null,
-      postcode: result.address.postcode ?? null,
-      country: result.address.country ?? null,
-      country_code: result.address.country_code ?? null,
-      formatted: result.display_name,
-    };
-
-    // Confidence heuristic: how many address components were resolved
-    const fields = [
-      result.address.house_number,
-      result.address.road,
-      result.address.city,
-      result.address.state,
-      result.address.postcode,
-      result.address.country,
-    ];
-    const filled = fields.filter(Boolean).length;
-    const confidence_score = parseFloat((filled / fields.length).toFixed(2));
-
-    // Insert into geo_registry using the service role
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
-    );
-
-    // Extract the calling user's JWT so we can set created_by
-    const authHeader = req.headers.get("Authorization");
-    let created_by: string | null = null;
-
-    if (authHeader) {
-      const userClient = createClient(
-        Deno.env.get("SUPABASE_URL")!,
-        Deno.env.get("SUPABASE_ANON_KEY")!,
-        { global: { headers: { Authorization: authHeader } } },
-      );
-      const { data: { user } } = await userClient.auth.getUser();
-      created_by = user?.id ?? null;
-    }
-
-    const { data, error } = await supabase
-      .from("geo_registry")
-      .insert({
-        raw_address: result.display_name,
-        standardized_address,
-        coordinates: `SRID=4326;POINT(${lon} ${lat})`,
-        source: source ?? "nominatim_reverse",
-        confidence_score,
-        created_by,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
-
-    return new Response(
-      JSON.stringify(data),
-      { status: 201, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-    );
+    result = await provider.reverse(lat, lon);
   } catch (err) {
-    return new Response(
-      JSON.stringify({ error: (err as Error).message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-    );
+    if (!(err instanceof GeocodingProviderError)) throw err;
+    return jsonResponse({ error: "Reverse geocoding service request failed" }, 502);
   }
+
+  if (!result) {
+    return jsonResponse({ error: "No results found for the given coordinates" }, 404);
+  }
+
+  const standardized_address = buildStandardized(result);
+  const confidence = scoreReverse({ lat, lon }, result);
+
+  // Insert into geo_registry using the service role, in the caller's active organization
+  const supabase = createServiceClient();
+  const created_by = caller.userId;
+
+  const { data, error } = await supabase
+    .from("geo_registry")
+    .insert({
+      raw_address: result.display_name,
+      standardized_address,
+      coordinates: `SRID=4326;POINT(${lon} ${lat})`,
+      source: source ?? `${provider.name}_reverse`,
+      confidence_score: confidence.score,
+      metadata: {
+        provider: provider.name,
+        // The row keeps the requested point; the matched place's is needed to rescore
+        matched_point: { lat: result.lat, lon: result.lon },
+        confidence: confidenceMetadata(confidence),
+      },
+      created_by,
+      org_id,
+    })
+    .select()
+    .single();
+
+  if (error) return jsonResponse({ error: error.message }, 500);
+
+  return jsonResponse(data, 201);
 });
@@ -0,0 +1,223 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createServiceClient } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { requireEditorOrg } from "../_shared/organizations.ts";
+import { routingSpec } from "../_shared/schemas/routing.ts";
+
+// A location: coordinates, or a geo_registry entry
+type Waypoint = { lat: number; lon: number } | { registry_id: string };
+
+interface RouteRequest {
+  action: "route";
+  from: Waypoint;
+  to: Waypoint;
+  profile?: string;
+  snap_m?: number;
+}
+
+interface MatrixRequest {
+  action: "matrix";
+  registry_ids: string[];
+  profile?: string;
+  snap_m?: number;
+}
+
+interface Isochrone {
+  minutes: number;
+  area_m2: number;
+  reached_vertices: number;
+  boundary: unknown;
+  boundary_wkt: string;
+  geofence_id: string | null;
+}
+
+interface IsochroneRequest {
+  action: "isochrone";
+  origin: Waypoint;
+  minutes: number | number[];
+  profile?: string;
+  snap_m?: number;
+  // Store each isochrone as a geofence named "<name> (<n> min)"
+  save_as_geofence?: { name: string; description?: string };
+}
+
+type RequestPayload = RouteRequest | MatrixRequest | IsochroneRequest;
+
+// Resolve a waypoint to coordinates, or return an error message
+async function resolveWaypoint(
+  supabase: SupabaseClient,
+  name: string,
+  waypoint: Waypoint,
+): Promise<string | { lat: number; lon: number }> {
+  if ("registry_id" in waypoint) {
+    const { data, error } = await supabase.rpc("registry_coordinates", {
+      registry_ids: [waypoint.registry_id],
+    });
+
+    if (error) throw new Error(error.message);
+
+    const [entry] = data ?? [];
+    if (!entry) return `'${name}': geo_registry entry not found`;
+
+    const { lat, lon } = entry;
+    return { lat, lon };
+  }
+
+  return { lat: waypoint.lat, lon: waypoint.lon };
+}
+
+serve<RequestPayload>(routingSpec, async (payload, { caller }) => {
+  const { profile = "car", snap_m = 1000 } = payload;
+
+  // Act as the caller so RLS policies are enforced
+  const supabase = caller.client;
+
+  switch (payload.action) {
+    // --- ROUTE between two points ---
+    case "route": {
+      const from = await resolveWaypoint(supabase, "from", payload.from);
+      if (typeof from === "string") return jsonResponse({ error: from }, 400);
+
+      const to = await resolveWaypoint(supabase, "to", payload.to);
+      if (typeof to === "string") return jsonResponse({ error: to }, 400);
+
+      const { data, error } = await supabase.rpc("route_between", {
+        from_lat: from.lat,
+        from_lon: from.lon,
+        to_lat: to.lat,
+        to_lon: to.lon,
+        profile,
+        snap_m,
+      });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      const [route] = data ?? [];
+      if (!route) {
+        return jsonResponse(
+          { error: `No route found (points must be within ${snap_m} m of the road network)` },
+          404,
+        );
+      }
+
+      return jsonResponse({
+        profile,
+        from,
+        to,
+        distance_m: Math.round(route.distance_m * 10) / 10,
+        duration_s: Math.round(route.duration_s),
+        geometry: route.geometry ? JSON.parse(route.geometry) : null,
+      });
+    }
+
+    // --- MATRIX of travel distance / time between registry entries ---
+    case "matrix": {
+      const { registry_ids } = payload;
+
+      const ids = [...new Set(registry_ids)];
+      const { data, error } = await supabase.rpc("route_matrix", {
+        registry_ids: ids,
+        profile,
+        snap_m,
+      });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+
+      // Square matrices in the order of the distinct input ids; null = unreachable
+      const index = new Map(ids.map((id, i) => [id, i]));
+      const square = () =>
+        ids.map((_, i) => ids.map((_, j): number | null => (i === j ? 0 : null)));
+      const distances_m = square();
+      const durations_s = square();
+      const found = new Set<string>();
+
+      for (const row of data ?? []) {
+        const i = index.get(row.from_id)!;
+        const j = index.get(row.to_id)!;
+        found.add(row.from_id);
+        distances_m[i][j] = row.distance_m === null ? null : Math.round(row.distance_m * 10) / 10;
+        durations_s[i][j] = row.duration_s === null ? null : Math.round(row.duration_s);
+      }
+
+      return jsonResponse({
+        profile,
+        registry_ids: ids,
+        missing: ids.filter((id) => !found.has(id)),
+        distances_m,
+        durations_s,
+      });
+    }
+
+    // --- ISOCHRONE: area reachable within N minutes, optionally saved as geofences ---
+    case "isochrone": {
+      const { minutes, save_as_geofence } = payload;
+      const steps = Array.isArray(minutes) ? minutes : [minutes];
+
+      // Saved geofences go into the caller's active organization
+      const org_id = save_as_geofence ? await requireEditorOrg(caller) : null;
+      if (org_id instanceof Response) return org_id;
+
+      const origin = await resolveWaypoint(supabase, "origin", payload.origin);
+      if (typeof origin === "string") return jsonResponse({ error: origin }, 400);
+
+      const isochrones: Isochrone[] = [];
+      for (const m of [...new Set(steps)].sort((a, b) => a - b)) {
+        const { data, error } = await supabase.rpc("isochrone", {
+          lat: origin.lat,
+          lon: origin.lon,
+          max_seconds: m * 60,
+          profile,
+          snap_m,
+        });
+
+        if (error) return jsonResponse({ error: error.message }, 500);
+
+        const [area] = data ?? [];
+        if (!area) {
+          return jsonResponse(
+            { error: `Origin is not within ${snap_m} m of the road network` },
+            404,
+          );
+        }
+
+        isochrones.push({
+          minutes: m,
+          area_m2: Math.round(area.area_m2),
+          reached_vertices: area.reached_vertices,
+          boundary: JSON.parse(area.boundary),
+          boundary_wkt: area.boundary_wkt,
+          geofence_id: null,
+        });
+      }
+
+      if (save_as_geofence) {
+        // Use service role for insert, as the geofence function does for create
+        const serviceClient = createServiceClient();
+
+        const { data, error } = await serviceClient
+          .from("geofences")
+          .insert(isochrones.map((iso) => ({
+            name: `${save_as_geofence.name} (${iso.minutes} min)`,
+            description: save_as_geofence.description ?? null,
+            boundary: iso.boundary_wkt,
+            metadata: {
+              isochrone: { origin, minutes: iso.minutes, profile },
+            },
+            created_by: caller.userId,
+            org_id,
+          })))
+          .select("id");
+
+        if (error) return jsonResponse({ error: error.message }, 500);
+        data.forEach((row: { id: string }, i: number) => (isochrones[i].geofence_id = row.id));
+      }
+
+      return jsonResponse({
+        profile,
+        origin,
+        isochrones: isochrones.map(({ boundary_wkt: _, ...iso }) => iso),
+      });
+    }
+  }
+});
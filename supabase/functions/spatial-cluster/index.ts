@@ -1,100 +1,144 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { corsHeaders } from "../_shared/cors.ts";
+import { createServiceClient } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { requireEditorOrg } from "../_shared/organizations.ts";
+import { spatialClusterSpec } from "../_shared/schemas/spatial-cluster.ts";
 
 interface SpatialClusterRequest {
+  algorithm?: "dbscan" | "kmeans" | "grid";
   lat: number;
   lon: number;
   radius_m?: number;
+  // DBSCAN: largest gap within a cluster; grid: cell size
   cluster_distance_m?: number;
   min_points?: number;
+  // K-means
+  num_clusters?: number;
+  hull?: "convex" | "concave" | "none";
+  hull_convexity?: number;
+  hull_buffer_m?: number;
+  // Store cluster hulls as geofences named "<name> (cluster <id>)"
+  save_as_geofence?: { name: string; description?: string; cluster_ids?: number[] };
 }
 
-Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
+interface ClusterRow {
+  cluster_id: number;
+  cluster_center: string;
+  point_count: number;
+  member_ids: string[];
+  addresses: string[];
+  avg_confidence: number;
+  hull_geojson: string | null;
+  hull_wkt: string | null;
+  hull_area_m2: number | null;
+}
+
+serve<SpatialClusterRequest>(spatialClusterSpec, async (payload, { caller }) => {
+  const {
+    algorithm = "dbscan",
+    lat,
+    lon,
+    radius_m = 5000,
+    cluster_distance_m = 500,
+    min_points = 1,
+    hull = "convex",
+    hull_convexity = 0.5,
+    hull_buffer_m = 0,
+    save_as_geofence,
+  } = payload;
+
+  if (algorithm !== "kmeans" && cluster_distance_m > radius_m) {
+    return jsonResponse({ error: "'cluster_distance_m' must be between 1 and radius_m" }, 400);
+  }
+  if (save_as_geofence && hull === "none") {
+    return jsonResponse({ error: "'save_as_geofence' needs a hull" }, 400);
   }
 
-  try {
-    const {
-      lat,
-      lon,
-      radius_m = 5000,
-      cluster_distance_m = 500,
-      min_points = 1,
-    }: SpatialClusterRequest = await req.json();
-
-    if (typeof lat !== "number" || typeof lon !== "number") {
-      return new Response(
-        JSON.stringify({ error: "'lat' and 'lon' must be numbers" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
+  // Saved geofences go into the caller's active organization
+  const org_id = save_as_geofence ? await requireEditorOrg(caller) : null;
+  if (org_id instanceof Response) return org_id;
 
-    if (lat < -90 || lat > 90 || lon < -180 || lon > 180) {
-      return new Response(
-        JSON.stringify({ error: "Coordinates out of range (lat: -90..90, lon: -180..180)" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
+  // Act as the caller so RLS policies are enforced
+  const { data, error } = await caller.client.rpc("spatial_clusters", {
+    lat,
+    lon,
+    radius_m,
+    algorithm,
+    cluster_distance_m,
+    min_points,
+    num_clusters: payload.num_clusters ?? null,
+    hull,
+    hull_convexity,
+    hull_buffer_m,
+  });
 
-    if (radius_m <= 0 || radius_m > 100000) {
-      return new Response(
-        JSON.stringify({ error: "'radius_m' must be between 1 and 100000 meters" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
-    }
+  if (error) return jsonResponse({ error: error.message }, 500);
+
+  const rows: ClusterRow[] = data ?? [];
+  const geofenceIds = new Map<number, string>();
 
-    if (cluster_distance_m <= 0 || cluster_distance_m > radius_m) {
-      return new Response(
-        JSON.stringify({ error: "'cluster_distance_m' must be between 1 and radius_m" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
+  if (save_as_geofence) {
+    const byId = new Map(rows.map((row) => [row.cluster_id, row]));
+    const { cluster_ids } = save_as_geofence;
+
+    const unknown = (cluster_ids ?? []).filter((id) => !byId.has(id));
+    if (unknown.length > 0) {
+      return jsonResponse({ error: `Unknown cluster_ids: ${unknown.join(", ")}` }, 400);
     }
 
-    // Use caller's JWT so RLS policies are enforced
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_ANON_KEY")!,
-      { global: { headers: { Authorization: req.headers.get("Authorization")! } } },
-    );
+    // Hulls of one or two entries are points or lines unless buffered
+    const selected = cluster_ids
+      ? cluster_ids.map((id) => byId.get(id)!)
+      : rows.filter((row) => row.hull_wkt !== null);
+    const flat = selected.find((row) => row.hull_wkt === null);
+    if (flat) {
+      return jsonResponse({
+        error: `Cluster ${flat.cluster_id} has no polygon hull; set 'hull_buffer_m' to save it`,
+      }, 400);
+    }
 
-    const { data, error } = await supabase.rpc("spatial_clusters", {
-      lat,
-      lon,
-      radius_m,
-      cluster_distance_m,
-      min_points,
-    });
-
-    if (error) {
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
+    if (selected.length === 0) {
+      return jsonResponse({
+        error: "No cluster has a polygon hull to save; set 'hull_buffer_m' to save small ones",
+      }, 400);
     }
 
-    // Parse GeoJSON center strings and format response
-    const clusters = (data ?? []).map(
-      (row: {
-        cluster_id: number;
-        cluster_center: string;
-        point_count: number;
-        addresses: string[];
-        avg_confidence: number;
-      }) => ({
-        ...row,
-        cluster_center: JSON.parse(row.cluster_center),
-      }),
-    );
+    // Use service role for insert, as the geofence function does for create
+    const serviceClient = createServiceClient();
 
-    return new Response(
-      JSON.stringify({ count: clusters.length, clusters }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
-    );
-  } catch (err) {
-    return new Response(
-      JSON.stringify({ error: (err as Error).message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    const { data: fences, error: insertError } = await serviceClient
+      .from("geofences")
+      .insert(selected.map((row) => ({
+        name: `${save_as_geofence.name} (cluster ${row.cluster_id})`,
+        description: save_as_geofence.description ?? null,
+        boundary: row.hull_wkt,
+        metadata: {
+          cluster: {
+            origin: { lat, lon },
+            algorithm,
+            cluster_id: row.cluster_id,
+            member_ids: row.member_ids,
+          },
+        },
+        created_by: caller.userId,
+        org_id,
+      })))
+      .select("id");
+
+    if (insertError) return jsonResponse({ error: insertError.message }, 500);
+    fences.forEach((fence: { id: string }, i: number) =>
+      geofenceIds.set(selected[i].cluster_id, fence.id)
     );
   }
+
+  // Parse the GeoJSON strings and drop the EWKT only needed for geofences
+  const clusters = rows.map(({ hull_geojson, hull_wkt: _, hull_area_m2, ...row }) => ({
+    ...row,
+    cluster_center: JSON.parse(row.cluster_center),
+    hull: hull_geojson === null ? null : JSON.parse(hull_geojson),
+    hull_area_m2: hull_area_m2 === null ? null : Math.round(hull_area_m2),
+    geofence_id: geofenceIds.get(row.cluster_id) ?? null,
+  }));
+
+  return jsonResponse({ algorithm, count: clusters.length, clusters });
 });
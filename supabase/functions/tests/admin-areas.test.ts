@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { type Body, call, type CallOptions, createUser, seedEntries } from "./helpers.ts";
+
+// Square boundary from its south-west corner, in an area no other test uses
+const square = (lon: number, lat: number, size: number) => ({
+  type: "Polygon",
+  coordinates: [[
+    [lon, lat],
+    [lon + size, lat],
+    [lon + size, lat + size],
+    [lon, lat + size],
+    [lon, lat],
+  ]],
+});
+
+interface Area {
+  id: string;
+  code: string;
+  level: number;
+  kind: string;
+  parent_id: string | null;
+  entry_count: number;
+}
+
+interface Hierarchy {
+  hierarchy: Area[];
+}
+
+interface Counts {
+  areas: Area[];
+}
+
+const feature = (properties: Record<string, unknown>, geometry: unknown) => ({
+  type: "Feature",
+  properties,
+  geometry,
+});
+
+Deno.test("admin-areas", async (t) => {
+  const user = await createUser("areas");
+  await seedEntries(user, [
+    { lat: 10.5, lon: -29.75, raw_address: "In the sum" },
+    { lat: 10.5, lon: -29.25, raw_address: "Elsewhere in the aimag" },
+  ]);
+
+  const areas = <T = Body>(payload: Record<string, unknown>, as: CallOptions["as"] = user) =>
+    call<T>("admin-areas", payload, { as });
+
+  await t.step("imports boundaries with the service role only", async () => {
+    const aimag = {
+      action: "import",
+      level: 1,
+      kind: "aimag",
+      geojson: {
+        type: "FeatureCollection",
+        features: [feature({ code: "T1", name: "Test aimag" }, square(-30, 10, 1))],
+      },
+    };
+
+    const denied = await areas(aimag);
+    assert.equal(denied.status, 403);
+
+    const { status, body } = await areas<{ loaded: number; registry_rows_updated: number }>(
+      aimag,
+      "service_role",
+    );
+    assert.equal(status, 200);
+    assert.equal(body.loaded, 1);
+    assert.ok(body.registry_rows_updated >= 2);
+
+    // The parent is found from the geometry when parent_code is missing
+    const sum = await areas({
+      action: "import",
+      level: 2,
+      properties: { code: "CODE", name: "NAME" },
+      geojson: {
+        type: "FeatureCollection",
+        features: [feature({ CODE: 101, NAME: "Test sum", kind: "sum" }, square(-30, 10, 0.5))],
+      },
+    }, "service_role");
+    assert.equal(sum.body.loaded, 1);
+  });
+
+  await t.step("looks up the hierarchy at a point, coarsest first", async () => {
+    const { status, body } = await areas<Hierarchy>({ action: "lookup", lat: 10.2, lon: -29.8 });
+
+    assert.equal(status, 200);
+    assert.deepEqual(body.hierarchy.map((a) => [a.code, a.level, a.kind]), [
+      ["T1", 1, "aimag"],
+      ["101", 2, "sum"],
+    ]);
+    assert.equal(body.hierarchy[1].parent_id, body.hierarchy[0].id);
+  });
+
+  await t.step("counts the caller's entries per area", async () => {
+    const lookup = await areas<Hierarchy>({ action: "lookup", lat: 10.2, lon: -29.8 });
+    const aimagId = lookup.body.hierarchy[0].id;
+
+    const aimag = await areas<Counts>({ action: "counts", level: 1 });
+    const t1 = aimag.body.areas.find((a) => a.code === "T1");
+    assert.equal(t1?.entry_count, 2);
+
+    const children = await areas<Counts>({ action: "counts", parent_id: aimagId });
+    assert.deepEqual(children.body.areas.map((a) => [a.code, a.entry_count]), [["101", 1]]);
+
+    const other = await createUser("areas-other");
+    const hidden = await areas<Counts>({ action: "counts", parent_id: aimagId }, other);
+    assert.equal(hidden.body.areas[0].entry_count, 0);
+  });
+
+  await t.step("rejects features without a code, a name or a polygon", async () => {
+    const { status, body } = await areas({
+      action: "import",
+      level: 3,
+      geojson: {
+        type: "FeatureCollection",
+        features: [feature({ code: "X" }, square(-30, 10, 0.1))],
+      },
+    }, "service_role");
+    assert.equal(status, 400);
+    assert.equal(body.error, "features[0]: missing 'name'");
+
+    const point = await areas({
+      action: "import",
+      level: 3,
+      geojson: {
+        type: "FeatureCollection",
+        features: [feature({ code: "X", name: "X" }, { type: "Point", coordinates: [0, 0] })],
+      },
+    }, "service_role");
+    assert.equal(point.body.error, "features[0]: geometry must be a Polygon or MultiPolygon");
+  });
+});
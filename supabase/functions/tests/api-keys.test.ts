@@ -0,0 +1,175 @@
+import assert from "node:assert/strict";
+import { type Body, call, createUser, seedEntries } from "./helpers.ts";
+
+interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  key?: string;
+  key_hash?: string;
+}
+
+interface Usage {
+  function_name: string;
+  requests: number;
+  rejected: number;
+}
+
+Deno.test("api-keys", async (t) => {
+  const user = await createUser("keys");
+  await seedEntries(user, [{ lat: 47.92, lon: 106.92, raw_address: "Key visible" }]);
+
+  const create = (options: Record<string, unknown>) =>
+    call<ApiKey & { key: string }>("api-keys", { action: "create", ...options }, { as: user });
+
+  const { status, body: created } = await create({
+    name: " Reporting ",
+    functions: ["registry-search", "parse-address"],
+    monthly_quota: 3,
+  });
+  assert.equal(status, 201);
+  const apiKey = { apiKey: created.key };
+
+  await t.step("returns the key once, and lists it without", async () => {
+    assert.equal(created.name, "Reporting");
+    assert.ok(created.key.startsWith(created.prefix));
+
+    const { body } = await call<{ count: number; keys: ApiKey[] }>("api-keys", {
+      action: "list",
+    }, { as: user });
+    assert.equal(body.count, 1);
+    assert.equal(body.keys[0].id, created.id);
+    assert.equal(body.keys[0].key, undefined);
+    assert.equal(body.keys[0].key_hash, undefined);
+  });
+
+  await t.step("acts as the member in their organization", async () => {
+    const { status, body } = await call<{ results: { raw_address: string }[] }>(
+      "registry-search",
+      {},
+      { as: apiKey },
+    );
+
+    assert.equal(status, 200);
+    assert.deepEqual(body.results.map((r) => r.raw_address), [
+      "Key visible",
+    ]);
+  });
+
+  await t.step("is limited to its functions", async () => {
+    const { status, body } = await call("geocode", { address: "Darkhan" }, { as: apiKey });
+
+    assert.equal(status, 403);
+    assert.equal(body.error, "This API key is not allowed to call geocode");
+  });
+
+  await t.step("cannot manage keys or organizations", async () => {
+    const keys = await call("api-keys", { action: "list" }, { as: apiKey });
+    assert.equal(keys.status, 403);
+  });
+
+  await t.step("stops at the monthly quota", async () => {
+    await call("parse-address", { address: "Darkhan" }, { as: apiKey });
+    await call("parse-address", { address: "Darkhan" }, { as: apiKey });
+
+    const { status, body, headers } = await call("parse-address", { address: "Darkhan" }, {
+      as: apiKey,
+    });
+    assert.equal(status, 429);
+    assert.equal(body.code, "quota_exceeded");
+    assert.equal(headers.get("X-Quota-Limit"), "3");
+    assert.equal(headers.get("X-Quota-Remaining"), "0");
+    assert.ok(Number(headers.get("Retry-After")) > 0);
+  });
+
+  await t.step("stops at the rate limit", async () => {
+    const { body: limited } = await create({ name: "Burst", rate_limit_per_minute: 1 });
+    const burst = { apiKey: limited.key };
+
+    // Three calls, so one crossing into a new minute still leaves two in the same one
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await call("parse-address", { address: "x" }, { as: burst })).status);
+    }
+    assert.equal(statuses[2], 429);
+  });
+
+  await t.step("reports usage per function, with rejected requests", async () => {
+    const { body } = await call<Body & { usage: Usage[] }>("api-keys", {
+      action: "usage",
+      key_id: created.id,
+    }, { as: user });
+
+    assert.equal(body.monthly_quota, 3);
+    assert.equal(body.current_period_requests, 3);
+    assert.equal(body.quota_remaining, 0);
+
+    const byFunction = Object.fromEntries(
+      body.usage.map((u) => [u.function_name, u]),
+    );
+    assert.equal(byFunction["parse-address"].requests, 2);
+    assert.equal(byFunction["parse-address"].rejected, 1);
+    assert.equal(byFunction["registry-search"].requests, 1);
+  });
+
+  await t.step("revoked keys are rejected", async () => {
+    const revoked = await call("api-keys", { action: "revoke", key_id: created.id }, {
+      as: user,
+    });
+    assert.deepEqual(revoked.body, { key_id: created.id, revoked: true });
+
+    const { status, body } = await call("registry-search", {}, { as: apiKey });
+    assert.equal(status, 401);
+    assert.equal(body.code, "invalid_api_key");
+
+    const again = await call("api-keys", { action: "revoke", key_id: created.id }, {
+      as: user,
+    });
+    assert.equal(again.status, 404);
+  });
+
+  await t.step("keys act as their creator and write only in their organization", async () => {
+    const member = await createUser("keys-member");
+    const asMember = await create({ name: "Someone else", user_id: member.id });
+    assert.equal(asMember.status, 400);
+
+    const { body: writer } = await create({ name: "Writer", functions: ["geofence"] });
+    const team = await call("organizations", { action: "create", name: "Keys team" }, {
+      as: user,
+    });
+    assert.equal(team.status, 201);
+
+    const fence = await call<{ id: string }>("geofence", {
+      action: "create",
+      name: "Team fence",
+      polygon: [[106.9, 47.9], [106.92, 47.9], [106.92, 47.92], [106.9, 47.9]],
+    }, { as: user });
+    assert.equal(fence.status, 201);
+
+    // The key stays in the personal organization it was created in
+    const writerKey = { apiKey: writer.key };
+    const updated = await call("geofence", {
+      action: "update",
+      fence_id: fence.body.id,
+      name: "Renamed with a key",
+    }, { as: writerKey });
+    assert.equal(updated.status, 404);
+
+    const deleted = await call("geofence", { action: "delete", fence_id: fence.body.id }, {
+      as: writerKey,
+    });
+    assert.equal(deleted.status, 404);
+  });
+
+  await t.step("only admins create keys for their organization", async () => {
+    const other = await createUser("keys-other");
+    const { body: orgs } = await call("organizations", { action: "list" }, { as: user });
+
+    const { status } = await call("api-keys", {
+      action: "create",
+      name: "Intruder",
+      org_id: orgs.active_org_id,
+    }, { as: other });
+    assert.equal(status, 403);
+  });
+});
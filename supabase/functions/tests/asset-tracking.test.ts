@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { call, createUser } from "./helpers.ts";
+
+const INSIDE = { lat: 47.92, lon: 106.92 };
+const OUTSIDE = { lat: 47.8, lon: 106.8 };
+
+interface Tracking {
+  processed: number;
+  count: number;
+  events: {
+    asset_id: string;
+    fence_name: string;
+    event_type: string;
+    occurred_at: string;
+    location: { type: string };
+  }[];
+  assets: { asset_id: string; location: { coordinates: number[] } }[];
+  error?: string;
+}
+
+// Timestamps in the format Postgres returns them
+const at = (minutes: number) =>
+  new Date(Date.UTC(2026, 0, 1, 8, minutes)).toISOString().replace(".000Z", "+00:00");
+
+Deno.test("asset-tracking", async (t) => {
+  const user = await createUser("assets");
+  const track = (payload: Record<string, unknown>, as = user) =>
+    call<Tracking>("asset-tracking", payload, { as });
+
+  const { body: fence } = await call("geofence", {
+    action: "create",
+    name: "Depot",
+    polygon: [[106.9, 47.9], [106.95, 47.9], [106.95, 47.95], [106.9, 47.95], [106.9, 47.9]],
+    metadata: { dwell_seconds: 600 },
+  }, { as: user });
+
+  await t.step("replays batches in time order into enter, dwell and exit events", async () => {
+    const { status, body } = await track({
+      action: "ping",
+      pings: [
+        { asset_id: "truck-1", ...OUTSIDE, recorded_at: at(30) },
+        { asset_id: "truck-1", ...INSIDE, recorded_at: at(5) },
+        { asset_id: "truck-1", ...OUTSIDE, recorded_at: at(0) },
+        { asset_id: "truck-1", ...INSIDE, recorded_at: at(20) },
+      ],
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.processed, 4);
+    assert.deepEqual(
+      body.events.map((e) => [e.asset_id, e.fence_name, e.event_type, e.occurred_at]),
+      [
+        ["truck-1", "Depot", "enter", at(5)],
+        ["truck-1", "Depot", "dwell", at(20)],
+        ["truck-1", "Depot", "exit", at(30)],
+      ],
+    );
+  });
+
+  await t.step("ignores pings older than the asset's latest", async () => {
+    const { body } = await track({
+      action: "ping",
+      asset_id: "truck-1",
+      ...INSIDE,
+      recorded_at: at(10),
+    });
+    assert.deepEqual(body, { processed: 1, count: 0, events: [] });
+  });
+
+  await t.step("replays pings without recorded_at as received, after earlier ones", async () => {
+    const { body } = await track({
+      action: "ping",
+      pings: [
+        { asset_id: "van-1", ...OUTSIDE },
+        { asset_id: "van-1", ...INSIDE, recorded_at: at(0) },
+      ],
+    });
+
+    assert.deepEqual(body.events.map((e) => e.event_type), ["enter", "exit"]);
+    assert.equal(body.events[0].occurred_at, at(0));
+  });
+
+  await t.step("lists the assets inside a fence", async () => {
+    await track({ action: "ping", asset_id: "truck-2", ...INSIDE });
+
+    const { body } = await track({ action: "occupants", fence_id: fence.id });
+    assert.equal(body.count, 1);
+    assert.equal(body.assets[0].asset_id, "truck-2");
+    assert.deepEqual(body.assets[0].location.coordinates, [INSIDE.lon, INSIDE.lat]);
+  });
+
+  await t.step("returns an asset's history, newest first", async () => {
+    const { body } = await track({ action: "history", asset_id: "truck-1" });
+    assert.deepEqual(body.events.map((e) => e.event_type), ["exit", "dwell", "enter"]);
+    assert.equal(body.events[0].location.type, "Point");
+
+    const enters = await track({ action: "history", asset_id: "truck-1", event_type: "enter" });
+    assert.equal(enters.body.count, 1);
+
+    const window = await track({
+      action: "history",
+      asset_id: "truck-1",
+      since: at(10),
+      until: at(30),
+    });
+    assert.deepEqual(window.body.events.map((e) => e.event_type), ["dwell"]);
+  });
+
+  await t.step("needs a position without pings", async () => {
+    const { status, body } = await track({ action: "ping", asset_id: "truck-1" });
+
+    assert.equal(status, 400);
+    assert.equal(body.error, "'asset_id', 'lat' and 'lon' are required unless 'pings' is given");
+  });
+
+  await t.step("assets and fences are private to the caller", async () => {
+    const other = await createUser("assets-other");
+
+    const history = await track({ action: "history", asset_id: "truck-1" }, other);
+    assert.equal(history.body.count, 0);
+
+    const ping = await track({ action: "ping", asset_id: "truck-1", ...INSIDE }, other);
+    assert.equal(ping.body.count, 0);
+  });
+});
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { call, createUser, seedEntries } from "./helpers.ts";
+
+interface Suggestions {
+  count: number;
+  fallback_used: boolean;
+  fallback_error?: string;
+  provider?: string;
+  suggestions: {
+    origin: string;
+    id: string | null;
+    label: string;
+    lat: number;
+    distance_m?: number;
+  }[];
+}
+
+Deno.test("autocomplete", async (t) => {
+  const user = await createUser("autocomplete");
+
+  const [avenue] = await seedEntries(user, [
+    { lat: 47.9175, lon: 106.92, raw_address: "Улаанбаатар, Энхтайваны өргөн чөлөө 5" },
+  ]);
+
+  await t.step("matches romanized word prefixes without asking the provider", async () => {
+    const { status, body } = await call<Suggestions>("autocomplete", { q: "ulaanbaatar enkht" }, {
+      as: user,
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.fallback_used, false);
+    assert.equal(body.suggestions[0].origin, "registry");
+    assert.equal(body.suggestions[0].id, avenue.id);
+    assert.equal(body.suggestions[0].lat, 47.9175);
+  });
+
+  await t.step("adds distance_m with near", async () => {
+    const { body } = await call<Suggestions>("autocomplete", {
+      q: "Улаанбаатар",
+      near: { lat: 47.9175, lon: 106.92 },
+    }, { as: user });
+
+    assert.equal(body.suggestions[0].distance_m, 0);
+  });
+
+  await t.step("falls back to the provider when nothing local matches", async () => {
+    const { body } = await call<Suggestions>("autocomplete", { q: "Kharkh" }, { as: user });
+
+    assert.equal(body.fallback_used, true);
+    assert.equal(body.provider, "nominatim");
+    assert.equal(body.suggestions[0].origin, "provider");
+    assert.equal(body.suggestions[0].id, null);
+    assert.equal(body.suggestions[0].label, "Kharkhorin, Övörkhangai, Mongolia");
+  });
+
+  await t.step("reports provider failures next to the local results", async () => {
+    const { status, body } = await call<Suggestions>("autocomplete", { q: "Unreachable" }, {
+      as: user,
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.fallback_used, false);
+    assert.equal(body.fallback_error, "Geocoding service request failed");
+  });
+
+  await t.step("searches the registry only with fallback false", async () => {
+    const { body } = await call<Suggestions>("autocomplete", { q: "Kharkh", fallback: false }, {
+      as: user,
+    });
+
+    assert.deepEqual(body, { count: 0, fallback_used: false, suggestions: [] });
+  });
+
+  await t.step("does not suggest other organizations' entries", async () => {
+    const other = await createUser("autocomplete-other");
+    const { body } = await call<Suggestions>(
+      "autocomplete",
+      { q: "ulaanbaatar", fallback: false },
+      {
+        as: other,
+      },
+    );
+
+    assert.equal(body.count, 0);
+  });
+});
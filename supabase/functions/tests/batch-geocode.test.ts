@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { call, createUser, type ErrorBody } from "./helpers.ts";
+
+interface BatchResult {
+  address: string;
+  status: string;
+  error?: string;
+  reused?: boolean;
+  cache_hit?: boolean;
+  data: { provider: string; lat: number; standardized_address: Record<string, string> };
+}
+
+interface Batch {
+  summary: Record<string, number>;
+  results: BatchResult[];
+}
+
+Deno.test("batch-geocode", async (t) => {
+  const user = await createUser("batch");
+
+  await t.step("reports a result per address, including failures", async () => {
+    const { status, body } = await call<Batch>("batch-geocode", {
+      addresses: ["Darkhan", "Nowhere Land", "Unreachable Street", "", 42],
+      source: "batch_test",
+    }, { as: user });
+
+    assert.equal(status, 200);
+    assert.deepEqual(body.summary, {
+      total: 5,
+      succeeded: 1,
+      not_found: 1,
+      failed: 3,
+      inserted: 1,
+      cache_hits: body.summary.cache_hits,
+    });
+
+    const [found, missing, upstream, empty, number] = body.results;
+    assert.equal(found.status, "success");
+    assert.equal(found.data.provider, "nominatim");
+    assert.equal(found.data.lat, 49.4867);
+    assert.equal(found.data.standardized_address.city, "Darkhan");
+    assert.equal(missing.status, "not_found");
+    assert.deepEqual(upstream, {
+      address: "Unreachable Street",
+      status: "error",
+      error: "Geocoding service request failed",
+    });
+    assert.equal(empty.error, "Invalid address string");
+    assert.equal(number.error, "Invalid address string");
+  });
+
+  await t.step("stores only successful rows, in the caller's organization", async () => {
+    const { data, error } = await user.client
+      .from("geo_registry")
+      .select("raw_address, source, created_by")
+      .eq("source", "batch_test");
+
+    assert.equal(error, null);
+    assert.deepEqual(data, [{ raw_address: "Darkhan", source: "batch_test", created_by: user.id }]);
+  });
+
+  await t.step("does not cache upstream failures", async () => {
+    const { body } = await call<Batch>("batch-geocode", { addresses: ["Unreachable Street"] }, {
+      as: user,
+    });
+
+    assert.equal(body.results[0].status, "error");
+    assert.equal(body.summary.cache_hits, 0);
+  });
+
+  await t.step("reuses existing rows on request, apart from cache hits", async () => {
+    const { body } = await call<Batch>("batch-geocode", {
+      addresses: ["Darkhan", "darkhan"],
+      reuse_existing: true,
+    }, { as: user });
+
+    assert.equal(body.summary.succeeded, 2);
+    assert.equal(body.summary.inserted, 0);
+    assert.equal(body.summary.cache_hits, 0);
+    assert.ok(body.results.every((r) => r.reused && !r.cache_hit));
+  });
+
+  await t.step("reuse does not reach into other organizations", async () => {
+    const other = await createUser("batch-other");
+    const { body } = await call<Batch>("batch-geocode", {
+      addresses: ["Darkhan"],
+      reuse_existing: true,
+    }, { as: other });
+
+    assert.equal(body.results[0].status, "success");
+    assert.equal(body.results[0].reused, false);
+    assert.equal(body.summary.inserted, 1);
+  });
+
+  await t.step("validates the batch", async () => {
+    const empty = await call<ErrorBody>("batch-geocode", { addresses: [] }, { as: user });
+    assert.equal(empty.status, 400);
+    assert.equal(empty.body.code, "validation_failed");
+    assert.equal(empty.body.details?.[0].path, "addresses");
+
+    const tooMany = await call<Batch>("batch-geocode", {
+      addresses: Array.from({ length: 51 }, (_, i) => `Address ${i}`),
+    }, { as: user });
+    assert.equal(tooMany.status, 400);
+  });
+});
@@ -0,0 +1,100 @@
+// Stand-in for the upstream services the functions call during the end-to-end tests:
+//
+//   deno run --allow-net --allow-env --allow-read supabase/functions/tests/fixture-server.ts
+//
+// /search and /reverse answer like Nominatim from the fixture provider's places
+// (GEOCODER_FIXTURE_FILE replaces them). Queries containing "unreachable" get a 503, so
+// upstream failures can be provoked per address.
+//
+// POST /hooks/<status> records a webhook delivery and answers with that status;
+// GET /hooks returns every delivery recorded so far. FIXTURE_PORT (default 8089) sets the
+// listening port.
+import type { BBox, GeocodeResult, SearchOptions } from "../_shared/geocoding.ts";
+import { FixtureProvider } from "../_shared/providers/fixture.ts";
+
+const port = Number(Deno.env.get("FIXTURE_PORT") ?? 8089);
+const provider = new FixtureProvider({ fixtureFile: Deno.env.get("GEOCODER_FIXTURE_FILE") });
+
+interface RecordedDelivery {
+  path: string;
+  id: string | null;
+  event: string | null;
+  signature: string | null;
+  body: unknown;
+  received_at: string;
+}
+
+const deliveries: RecordedDelivery[] = [];
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Nominatim's format=json shape, as parsed by NominatimProvider
+function toNominatim(r: GeocodeResult) {
+  return {
+    lat: String(r.lat),
+    lon: String(r.lon),
+    display_name: r.display_name,
+    ...(r.bbox ? { boundingbox: [r.bbox[1], r.bbox[3], r.bbox[0], r.bbox[2]].map(String) } : {}),
+    importance: r.importance,
+    place_rank: r.place_rank,
+    addresstype: r.place_type,
+    address: r.address,
+  };
+}
+
+function searchOptions(params: URLSearchParams): SearchOptions {
+  const viewbox = params.get("viewbox")?.split(",").map(Number) as BBox | undefined;
+  return {
+    limit: Number(params.get("limit") ?? 10),
+    viewbox,
+    bounded: params.get("bounded") === "1",
+    country_codes: params.get("countrycodes")?.split(","),
+  };
+}
+
+async function geocoding(url: URL): Promise<Response> {
+  const { pathname, searchParams } = url;
+
+  if (pathname === "/search") {
+    const q = searchParams.get("q") ?? "";
+    if (/unreachable/i.test(q)) return json({ error: "Service unavailable" }, 503);
+
+    const results = await provider.search(q, searchOptions(searchParams));
+    return json(results.map(toNominatim));
+  }
+
+  const lat = Number(searchParams.get("lat"));
+  const lon = Number(searchParams.get("lon"));
+  const result = await provider.reverse(lat, lon);
+  return json(result ? toNominatim(result) : { error: "Unable to geocode" });
+}
+
+async function webhook(req: Request, url: URL): Promise<Response> {
+  if (req.method === "GET") return json(deliveries);
+
+  const status = Number(url.pathname.split("/")[2]) || 200;
+  deliveries.push({
+    path: url.pathname,
+    id: req.headers.get("X-Webhook-Id"),
+    event: req.headers.get("X-Webhook-Event"),
+    signature: req.headers.get("X-Webhook-Signature"),
+    body: await req.json(),
+    received_at: new Date().toISOString(),
+  });
+
+  return new Response(status < 300 ? "ok" : "simulated failure", { status });
+}
+
+Deno.serve({ port }, (req) => {
+  const url = new URL(req.url);
+
+  if (url.pathname === "/search" || url.pathname === "/reverse") return geocoding(url);
+  if (url.pathname === "/hooks" || url.pathname.startsWith("/hooks/")) return webhook(req, url);
+
+  return json({ error: "Not found" }, 404);
+});
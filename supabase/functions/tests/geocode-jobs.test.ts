@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { type Body, call, createUser } from "./helpers.ts";
+
+interface Job {
+  id: string;
+  status: string;
+  total: number;
+  summary: Record<string, number>;
+}
+
+interface JobResults {
+  count: number;
+  results: {
+    position: number;
+    status: string;
+    registry_id: string | null;
+    error: string | null;
+    result: { reused: boolean } | null;
+  }[];
+}
+
+Deno.test("geocode-jobs and geocode-worker", async (t) => {
+  const user = await createUser("jobs");
+  const jobs = <T = Job>(payload: Record<string, unknown>, as = user) =>
+    call<T>("geocode-jobs", payload, { as });
+
+  const { status, body: job } = await jobs({
+    action: "submit",
+    addresses: ["Darkhan", "Nowhere Land", "darkhan", "", "Unreachable Street"],
+    source: "job_test",
+    reuse_existing: true,
+  });
+
+  await t.step("queues the job, failing invalid entries up front", async () => {
+    assert.equal(status, 202);
+    assert.equal(job.status, "queued");
+    assert.equal(job.total, 5);
+
+    const { body } = await jobs({ action: "status", job_id: job.id });
+    assert.equal(body.summary.pending, 4);
+    assert.equal(body.summary.failed, 1);
+    assert.equal(body.summary.progress, 20);
+  });
+
+  await t.step("cancels jobs that have not finished", async () => {
+    const { body: other } = await jobs({ action: "submit", addresses: ["Zaisan"] });
+
+    const cancelled = await jobs({ action: "cancel", job_id: other.id });
+    assert.equal(cancelled.status, 200);
+    assert.equal(cancelled.body.status, "cancelled");
+
+    const again = await jobs({ action: "cancel", job_id: other.id });
+    assert.equal(again.status, 409);
+  });
+
+  await t.step("the worker only runs with the service role", async () => {
+    const { status } = await call("geocode-worker", {}, { as: user });
+    assert.equal(status, 403);
+  });
+
+  await t.step("the worker processes queued jobs", async () => {
+    const { status, body } = await call<{ jobs: (Body & { job_id: string })[] }>(
+      "geocode-worker",
+      {},
+      { as: "service_role" },
+    );
+
+    assert.equal(status, 200);
+    const run = body.jobs.find((j) => j.job_id === job.id);
+    assert.deepEqual(run, { job_id: job.id, processed: 4, status: "completed" });
+
+    const { body: finished } = await jobs({ action: "status", job_id: job.id });
+    assert.equal(finished.status, "completed");
+    assert.equal(finished.summary.succeeded, 2);
+    assert.equal(finished.summary.not_found, 1);
+    assert.equal(finished.summary.failed, 2);
+    assert.equal(finished.summary.inserted, 1);
+    assert.equal(finished.summary.reused, 1);
+    assert.equal(finished.summary.progress, 100);
+  });
+
+  await t.step("results page by position and filter by status", async () => {
+    const { body } = await jobs<JobResults>({ action: "results", job_id: job.id });
+    assert.deepEqual(body.results.map((r) => r.status), [
+      "success",
+      "not_found",
+      "success",
+      "error",
+      "error",
+    ]);
+
+    // The repeat reuses the row inserted for the first occurrence
+    const [first, , repeat] = body.results;
+    assert.equal(repeat.registry_id, first.registry_id);
+    assert.equal(repeat.result?.reused, true);
+    assert.equal(body.results[4].error, "Geocoding service request failed");
+
+    const page = await jobs<JobResults>({
+      action: "results",
+      job_id: job.id,
+      status: "error",
+      limit: 1,
+    });
+    assert.equal(page.body.count, 1);
+    assert.equal(page.body.results[0].position, 3);
+    assert.equal(page.body.results[0].error, "Invalid address string");
+
+    const { data } = await user.client.from("geo_registry").select("source").eq(
+      "id",
+      first.registry_id!,
+    );
+    assert.deepEqual(data, [{ source: "job_test" }]);
+  });
+
+  await t.step("other users cannot see or cancel the job", async () => {
+    const other = await createUser("jobs-other");
+
+    assert.equal((await jobs({ action: "status", job_id: job.id }, other)).status, 404);
+    assert.equal((await jobs({ action: "cancel", job_id: job.id }, other)).status, 404);
+
+    const { body } = await jobs<JobResults>({ action: "results", job_id: job.id }, other);
+    assert.equal(body.count, 0);
+  });
+});
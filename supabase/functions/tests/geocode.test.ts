@@ -0,0 +1,201 @@
+import assert from "node:assert/strict";
+import { call, createUser, type ErrorBody } from "./helpers.ts";
+
+interface Entry {
+  id: string;
+  raw_address: string;
+  source: string;
+  parsed_address: Record<string, unknown>;
+  standardized_address: Record<string, string>;
+  metadata: Record<string, unknown>;
+  confidence_score: number;
+  created_by: string;
+  cache_hit: boolean;
+  reused: boolean;
+}
+
+interface Candidates {
+  count: number;
+  candidate_set_id: string;
+  candidates: { standardized_address: Record<string, string>; distance_m: number }[];
+}
+
+Deno.test("geocode", async (t) => {
+  const user = await createUser("geocode");
+
+  await t.step("inserts the top result with provenance and confidence", async () => {
+    const { status, body } = await call<Entry>("geocode", { address: "State Department Store" }, {
+      as: user,
+    });
+
+    assert.equal(status, 201);
+    assert.equal(body.raw_address, "State Department Store");
+    assert.equal(body.source, "nominatim");
+    assert.equal(body.standardized_address.road, "Peace Avenue");
+    assert.equal(body.standardized_address.house_number, "44");
+    assert.equal(body.metadata.provider, "nominatim");
+    assert.ok(body.confidence_score > 0 && body.confidence_score <= 1);
+    assert.equal(body.created_by, user.id);
+    assert.equal(body.cache_hit, false);
+    assert.equal(body.reused, false);
+  });
+
+  await t.step("keeps landmark names in the provider query", async () => {
+    const { status, body } = await call<Entry>("geocode", {
+      address: "Sukhbaatar Square, Ulaanbaatar",
+    }, { as: user });
+
+    assert.equal(status, 201);
+    assert.equal(body.standardized_address.road, "Peace Avenue");
+    assert.equal(body.parsed_address.district, "Сүхбаатар");
+  });
+
+  await t.step("answers repeated addresses from the cache", async () => {
+    const { status, body } = await call("geocode", { address: "state department store!" }, {
+      as: user,
+    });
+
+    assert.equal(status, 201);
+    assert.equal(body.cache_hit, true);
+  });
+
+  await t.step("scores a cache hit the same as the lookup that filled it", async () => {
+    // Two markets match; the score must not depend on whether the provider was asked
+    const miss = await call<Entry>("geocode", { address: "Central Market" }, { as: user });
+    const hit = await call<Entry>("geocode", { address: "central market" }, { as: user });
+
+    assert.equal(miss.body.cache_hit, false);
+    assert.equal(hit.body.cache_hit, true);
+    assert.equal(hit.body.confidence_score, miss.body.confidence_score);
+    assert.deepEqual(hit.body.metadata.confidence, miss.body.metadata.confidence);
+  });
+
+  await t.step("returns the existing entry with reuse_existing", async () => {
+    const { status, body } = await call("geocode", {
+      address: "State Department Store",
+      reuse_existing: true,
+    }, { as: user });
+
+    assert.equal(status, 200);
+    assert.equal(body.reused, true);
+    assert.equal(body.cache_hit, false);
+  });
+
+  await t.step("404 when nothing matches", async () => {
+    const { status, body } = await call("geocode", { address: "Nowhere Land" }, { as: user });
+
+    assert.equal(status, 404);
+    assert.equal(body.code, "not_found");
+  });
+
+  await t.step("502 when the provider fails", async () => {
+    const { status, body } = await call("geocode", { address: "Unreachable Street" }, {
+      as: user,
+    });
+
+    assert.equal(status, 502);
+    assert.equal(body.code, "upstream_error");
+    assert.equal(body.error, "Geocoding service request failed");
+  });
+
+  await t.step("candidates are ranked by proximity and committed once", async () => {
+    const darkhan = { lat: 49.4867, lon: 105.9228 };
+    const candidates = await call<Candidates>("geocode", {
+      mode: "candidates",
+      address: "Central Market",
+      proximity: darkhan,
+    }, { as: user });
+
+    assert.equal(candidates.status, 200);
+    assert.equal(candidates.body.count, 2);
+    assert.equal(candidates.body.candidates[0].standardized_address.city, "Darkhan");
+    assert.ok(candidates.body.candidates[0].distance_m < candidates.body.candidates[1].distance_m);
+
+    const { candidate_set_id } = candidates.body;
+    const committed = await call<Entry>("geocode", {
+      mode: "commit",
+      candidate_set_id,
+      candidate_index: 1,
+    }, { as: user });
+    assert.equal(committed.status, 201);
+    assert.equal(committed.body.standardized_address.city, "Ulaanbaatar");
+    assert.equal(committed.body.metadata.candidate_index, 1);
+
+    const again = await call("geocode", { mode: "commit", candidate_set_id, candidate_index: 0 }, {
+      as: user,
+    });
+    assert.equal(again.status, 409);
+    assert.equal(again.body.registry_id, committed.body.id);
+  });
+
+  await t.step("concurrent commits of one set add a single entry", async () => {
+    const { body } = await call("geocode", { mode: "candidates", address: "Central Market" }, {
+      as: user,
+    });
+    const commit = { mode: "commit", candidate_set_id: body.candidate_set_id, candidate_index: 0 };
+
+    const replies = await Promise.all([
+      call("geocode", commit, { as: user }),
+      call("geocode", commit, { as: user }),
+      call("geocode", commit, { as: user }),
+    ]);
+    const statuses = replies.map((r) => r.status).sort();
+    assert.deepEqual(statuses, [201, 409, 409]);
+
+    const created = replies.find((r) => r.status === 201)!;
+    for (const r of replies.filter((r) => r.status === 409)) {
+      assert.equal(r.body.registry_id, created.body.id);
+    }
+  });
+
+  await t.step("candidate sets are private to their requester", async () => {
+    const { body } = await call("geocode", { mode: "candidates", address: "Central Market" }, {
+      as: user,
+    });
+    const other = await createUser("geocode-other");
+
+    const { status } = await call("geocode", {
+      mode: "commit",
+      candidate_set_id: body.candidate_set_id,
+      candidate_index: 0,
+    }, { as: other });
+    assert.equal(status, 404);
+  });
+
+  await t.step("country_codes and bounded viewboxes filter results", async () => {
+    const elsewhere = await call("geocode", {
+      mode: "candidates",
+      address: "Central Market",
+      country_codes: ["KZ"],
+    }, { as: user });
+    assert.equal(elsewhere.body.count, 0);
+
+    const bounded = await call<Candidates>("geocode", {
+      mode: "candidates",
+      address: "Central Market",
+      viewbox: [106.8, 47.8, 107.0, 48.0],
+      bounded: true,
+    }, { as: user });
+    assert.equal(bounded.body.count, 1);
+    assert.equal(bounded.body.candidates[0].standardized_address.city, "Ulaanbaatar");
+  });
+
+  await t.step("validates the request", async () => {
+    const missing = await call<ErrorBody>("geocode", {}, { as: user });
+    assert.equal(missing.status, 400);
+    assert.equal(missing.body.code, "validation_failed");
+    assert.equal(missing.body.details?.[0].path, "address");
+
+    const viewbox = await call("geocode", {
+      address: "Darkhan",
+      viewbox: [107, 48, 106, 47],
+    }, { as: user });
+    assert.equal(viewbox.status, 400);
+
+    const mode = await call<ErrorBody>("geocode", { mode: "batch", address: "Darkhan" }, {
+      as: user,
+    });
+    assert.equal(mode.status, 400);
+    assert.match(mode.body.error, /'mode' must be one of: single, candidates, commit/);
+  });
+});
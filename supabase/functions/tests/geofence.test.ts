@@ -0,0 +1,194 @@
+import assert from "node:assert/strict";
+import { call, createUser, type ErrorBody, seedEntries, type TestUser } from "./helpers.ts";
+
+interface Fence {
+  id: string;
+  name: string;
+  metadata: Record<string, unknown>;
+  boundary: { type: string; coordinates: unknown[] };
+}
+
+interface Check {
+  inside: boolean;
+  count: number;
+  fences: Fence[];
+}
+
+// Downtown box with a hole around the square, and a second part in Zaisan
+const DOWNTOWN = [[106.9, 47.91], [106.93, 47.91], [106.93, 47.93], [106.9, 47.93], [106.9, 47.91]];
+const SQUARE = [
+  [106.915, 47.917],
+  [106.92, 47.917],
+  [106.92, 47.92],
+  [106.915, 47.92],
+  [106.915, 47.917],
+];
+const ZAISAN = [
+  [106.91, 47.87],
+  [106.925, 47.87],
+  [106.925, 47.88],
+  [106.91, 47.88],
+  [106.91, 47.87],
+];
+
+async function check(user: TestUser, lat: number, lon: number) {
+  const { status, body } = await call<Check>("geofence", { action: "check", lat, lon }, {
+    as: user,
+  });
+  assert.equal(status, 200);
+  return body;
+}
+
+Deno.test("geofence", async (t) => {
+  const owner = await createUser("fence");
+  let fenceId = "";
+
+  await t.step("creates a fence from a polygon with holes and several parts", async () => {
+    const { status, body } = await call<Fence>("geofence", {
+      action: "create",
+      name: "Downtown without the square",
+      geometry: { type: "MultiPolygon", coordinates: [[DOWNTOWN, SQUARE], [ZAISAN]] },
+      metadata: { zone: "A" },
+    }, { as: owner });
+
+    assert.equal(status, 201);
+    assert.equal(body.name, "Downtown without the square");
+    assert.deepEqual(body.metadata, { zone: "A" });
+    fenceId = body.id;
+  });
+
+  await t.step("check: point inside the outer ring", async () => {
+    const body = await check(owner, 47.925, 106.905);
+    assert.equal(body.inside, true);
+    assert.equal(body.fences[0].id, fenceId);
+    assert.equal(body.fences[0].boundary.type, "MultiPolygon");
+  });
+
+  await t.step("check: point inside the hole is outside the fence", async () => {
+    const body = await check(owner, 47.9185, 106.9175);
+    assert.equal(body.inside, false);
+    assert.equal(body.count, 0);
+  });
+
+  await t.step("check: point inside the second part", async () => {
+    const body = await check(owner, 47.875, 106.92);
+    assert.equal(body.inside, true);
+  });
+
+  await t.step("check: vertices of the outer ring and the hole are covered", async () => {
+    assert.equal((await check(owner, 47.91, 106.9)).inside, true);
+    assert.equal((await check(owner, 47.917, 106.915)).inside, true);
+  });
+
+  await t.step("check: a meter either side of the west edge", async () => {
+    // 0.00001° of longitude is ~0.75 m here
+    assert.equal((await check(owner, 47.92, 106.90001)).inside, true);
+    assert.equal((await check(owner, 47.92, 106.89999)).inside, false);
+  });
+
+  await t.step("check: edges are great-circle arcs, not parallels", async () => {
+    // A 10° wide fence: its east-west edges bow ~0.1° towards the pole midway, so a
+    // point just north of the south edge's parallel is outside and one just north of
+    // the north edge's parallel is inside
+    const { status } = await call("geofence", {
+      action: "create",
+      name: "Wide band",
+      polygon: [[60, 45], [70, 45], [70, 50], [60, 50], [60, 45]],
+    }, { as: owner });
+    assert.equal(status, 201);
+
+    assert.equal((await check(owner, 45.05, 65)).inside, false);
+    assert.equal((await check(owner, 50.05, 65)).inside, true);
+  });
+
+  await t.step("check: point outside every fence", async () => {
+    const body = await check(owner, 0, 0);
+    assert.deepEqual(body, { inside: false, count: 0, fences: [] });
+  });
+
+  await t.step("rejects self-intersecting boundaries with the location", async () => {
+    const { status, body } = await call<ErrorBody & { location: { type: string } }>("geofence", {
+      action: "create",
+      name: "Bow tie",
+      polygon: [[106.9, 47.91], [106.93, 47.93], [106.93, 47.91], [106.9, 47.93], [106.9, 47.91]],
+    }, { as: owner });
+
+    assert.equal(status, 400);
+    assert.match(body.error, /^Invalid geometry: Self-intersection/);
+    assert.equal(body.location.type, "Point");
+  });
+
+  await t.step("rejects open rings", async () => {
+    const { status, body } = await call<ErrorBody>("geofence", {
+      action: "create",
+      name: "Open",
+      polygon: DOWNTOWN.slice(0, 4),
+    }, { as: owner });
+
+    assert.equal(status, 400);
+    assert.match(body.error, /closed/);
+  });
+
+  await t.step("get, update and list", async () => {
+    const got = await call<Fence>("geofence", { action: "get", fence_id: fenceId }, { as: owner });
+    assert.equal(got.status, 200);
+    assert.equal(got.body.boundary.coordinates.length, 2);
+
+    const updated = await call("geofence", {
+      action: "update",
+      fence_id: fenceId,
+      name: "Central UB",
+      description: null,
+    }, { as: owner });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.body.name, "Central UB");
+
+    const list = await call("geofence", { action: "list" }, { as: owner });
+    assert.equal(list.body.count, 2);
+  });
+
+  await t.step("entries lists registry rows inside the fence only", async () => {
+    await seedEntries(owner, [
+      { lat: 47.925, lon: 106.905, raw_address: "Inside" },
+      { lat: 47.9185, lon: 106.9175, raw_address: "In the hole" },
+      { lat: 47.95, lon: 106.95, raw_address: "Outside" },
+    ]);
+
+    const { status, body } = await call<{
+      entries: { raw_address: string; coordinates: { type: string } }[];
+    }>("geofence", { action: "entries", fence_id: fenceId }, { as: owner });
+
+    assert.equal(status, 200);
+    assert.deepEqual(body.entries.map((e) => e.raw_address), ["Inside"]);
+    assert.equal(body.entries[0].coordinates.type, "Point");
+  });
+
+  await t.step("fences of other organizations are invisible and read-only", async () => {
+    const other = await createUser("fence-other");
+
+    assert.equal((await check(other, 47.925, 106.905)).inside, false);
+
+    const got = await call("geofence", { action: "get", fence_id: fenceId }, { as: other });
+    assert.equal(got.status, 404);
+
+    const updated = await call("geofence", {
+      action: "update",
+      fence_id: fenceId,
+      name: "Taken over",
+    }, { as: other });
+    assert.equal(updated.status, 404);
+
+    const deleted = await call("geofence", { action: "delete", fence_id: fenceId }, { as: other });
+    assert.equal(deleted.status, 404);
+  });
+
+  await t.step("delete", async () => {
+    const { status, body } = await call("geofence", { action: "delete", fence_id: fenceId }, {
+      as: owner,
+    });
+
+    assert.equal(status, 200);
+    assert.deepEqual(body, { deleted: true, id: fenceId });
+    assert.equal((await check(owner, 47.925, 106.905)).inside, false);
+  });
+});
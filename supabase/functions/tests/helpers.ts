@@ -0,0 +1,191 @@
+// Shared setup of the end-to-end tests. They run against the local stack started by
+// scripts/test.sh, which passes its URL and keys in the environment.
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const SUPABASE_URL = env("SUPABASE_URL");
+export const ANON_KEY = env("SUPABASE_ANON_KEY");
+export const SERVICE_ROLE_KEY = env("SUPABASE_SERVICE_ROLE_KEY");
+
+// The fixture server as seen from the tests, and from the functions inside Docker
+export const FIXTURE_URL = Deno.env.get("FIXTURE_URL") ?? "http://127.0.0.1:8089";
+export const FIXTURE_URL_FROM_FUNCTIONS = Deno.env.get("FIXTURE_URL_FROM_FUNCTIONS") ??
+  "http://host.docker.internal:8089";
+
+function env(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not set; run the tests with scripts/test.sh`);
+  return value;
+}
+
+// Clients without background token refresh, which the test sanitizers would report
+function client(key: string, token?: string): SupabaseClient {
+  return createClient(SUPABASE_URL, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    ...(token ? { global: { headers: { Authorization: `Bearer ${token}` } } } : {}),
+  });
+}
+
+export const service = client(SERVICE_ROLE_KEY);
+
+export interface TestUser {
+  id: string;
+  email: string;
+  token: string;
+  // PostgREST client acting as the user, so RLS applies
+  client: SupabaseClient;
+}
+
+/**
+ * Sign up a new confirmed user. Every user gets a personal organization, so data created
+ * by one test's users is invisible to the others.
+ */
+export async function createUser(label = "user"): Promise<TestUser> {
+  const email = `${label}-${crypto.randomUUID().slice(0, 8)}@example.com`;
+  const password = crypto.randomUUID();
+
+  const { data: created, error } = await service.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true,
+  });
+  if (error) throw error;
+
+  const { data: session, error: signInError } = await client(ANON_KEY).auth
+    .signInWithPassword({ email, password });
+  if (signInError) throw signInError;
+
+  const token = session.session!.access_token;
+  return { id: created.user.id, email, token, client: client(ANON_KEY, token) };
+}
+
+// A JSON response body. Tests that read into it name the shape they expect with call<T>()
+export type Body = Record<string, unknown>;
+
+// The error envelope of every function
+export interface ErrorBody {
+  error: string;
+  code: string;
+  details?: { path: string; message: string }[];
+  request_id: string;
+}
+
+export interface Reply<T = Body> {
+  status: number;
+  headers: Headers;
+  body: T;
+}
+
+export interface CallOptions {
+  // A user, the service role key, an API key, or nobody
+  as?: TestUser | "service_role" | { apiKey: string } | null;
+  method?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Call an edge function. `path` is the function name, optionally followed by a path and
+ * query. Objects are sent as JSON, strings as they are. JSON responses are parsed; other
+ * bodies are returned as bytes.
+ */
+export async function call<T = Body>(
+  path: string,
+  body?: unknown,
+  { as, method = "POST", headers = {} }: CallOptions = {},
+): Promise<Reply<T>> {
+  const auth: Record<string, string> = as === "service_role"
+    ? { Authorization: `Bearer ${SERVICE_ROLE_KEY}` }
+    : as && "apiKey" in as
+    ? { "X-API-Key": as.apiKey }
+    : as
+    ? { Authorization: `Bearer ${as.token}` }
+    : {};
+
+  const res = await fetch(`${SUPABASE_URL}/functions/v1/${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", ...auth, ...headers },
+    body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+  const isJson = res.headers.get("Content-Type")?.includes("application/json");
+  return {
+    status: res.status,
+    headers: res.headers,
+    body: (isJson ? await res.json() : new Uint8Array(await res.arrayBuffer())) as T,
+  };
+}
+
+/**
+ * A user whose active organization is a team they only view, created by another user.
+ * The functions that add entries or geofences must turn them away.
+ */
+export async function createViewer(label = "viewer"): Promise<TestUser> {
+  const viewer = await createUser(label);
+  const admin = await createUser(`${label}-admin`);
+
+  const team = await call("organizations", { action: "create", name: `${label} team` }, {
+    as: admin,
+  });
+  const org_id = team.body.org_id;
+  await call("organizations", { action: "add_member", org_id, email: viewer.email }, {
+    as: admin,
+  });
+  await call("organizations", { action: "switch", org_id }, { as: viewer });
+
+  return viewer;
+}
+
+export interface Seed {
+  lat: number;
+  lon: number;
+  raw_address?: string;
+  source?: string;
+  confidence_score?: number;
+  standardized_address?: Record<string, string>;
+}
+
+/**
+ * Insert registry entries as `user`, straight through PostgREST, into the user's active
+ * organization. Returns the new rows in the order given.
+ */
+export async function seedEntries(
+  user: TestUser,
+  seeds: Seed[],
+): Promise<{ id: string; raw_address: string }[]> {
+  const { data, error } = await user.client
+    .from("geo_registry")
+    .insert(seeds.map(({ lat, lon, raw_address, source = "test_seed", ...rest }) => ({
+      raw_address: raw_address ?? `${lat}, ${lon}`,
+      coordinates: `SRID=4326;POINT(${lon} ${lat})`,
+      source,
+      ...rest,
+    })))
+    .select("id, raw_address");
+
+  if (error) throw error;
+  return data;
+}
+
+// The point `north` and `east` meters from an origin, close enough for test layouts
+export function offset(
+  origin: { lat: number; lon: number },
+  north: number,
+  east = 0,
+): { lat: number; lon: number } {
+  const lat = origin.lat + north / 111320;
+  const lon = origin.lon + east / (111320 * Math.cos((origin.lat * Math.PI) / 180));
+  return { lat, lon };
+}
+
+export interface ReceivedDelivery<T> {
+  id: string;
+  event: string;
+  signature: string;
+  // The signed envelope, with the event payload as `data`
+  body: { id: string; type: string; created_at: string; data: T };
+}
+
+// Webhook deliveries the fixture server has received
+export async function receivedDeliveries<T = Body>(): Promise<ReceivedDelivery<T>[]> {
+  const res = await fetch(`${FIXTURE_URL}/hooks`);
+  return await res.json();
+}
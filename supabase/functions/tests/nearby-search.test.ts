@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { call, createUser, type ErrorBody, offset, seedEntries } from "./helpers.ts";
+
+const origin = { lat: 47.9184, lon: 106.9177 };
+
+interface Neighbour {
+  raw_address: string;
+  distance_m: number;
+  bearing_deg: number;
+  coordinates: { type: string };
+}
+
+interface Nearby {
+  count: number;
+  results: Neighbour[];
+  points: { results: Neighbour[] }[];
+}
+
+Deno.test("nearby-search", async (t) => {
+  const user = await createUser("nearby");
+
+  await seedEntries(user, [
+    { ...offset(origin, 100), raw_address: "100 m north", confidence_score: 0.9 },
+    { ...offset(origin, 0, 400), raw_address: "400 m east", confidence_score: 0.4 },
+    { ...offset(origin, -2000), raw_address: "2 km south", confidence_score: 0.8 },
+  ]);
+
+  const names = (rows: { raw_address: string }[]) => rows.map((r) => r.raw_address);
+
+  await t.step("radius: entries within the radius, nearest first", async () => {
+    const { status, body } = await call<Nearby>("nearby-search", { ...origin, radius_m: 1000 }, {
+      as: user,
+    });
+
+    assert.equal(status, 200);
+    assert.deepEqual(names(body.results), ["100 m north", "400 m east"]);
+    assert.ok(Math.abs(body.results[0].distance_m - 100) < 1);
+    assert.equal(body.results[0].coordinates.type, "Point");
+  });
+
+  await t.step("knn: the k nearest with distance and bearing", async () => {
+    const { body } = await call<Nearby>("nearby-search", { mode: "knn", ...origin, k: 2 }, {
+      as: user,
+    });
+
+    assert.deepEqual(names(body.results), ["100 m north", "400 m east"]);
+    const north = body.results[0].bearing_deg;
+    assert.ok(Math.min(north, 360 - north) < 1);
+    assert.ok(Math.abs(body.results[1].bearing_deg - 90) < 1);
+  });
+
+  await t.step("knn: filters by distance and confidence", async () => {
+    const { body } = await call<Nearby>("nearby-search", {
+      mode: "knn",
+      ...origin,
+      k: 5,
+      min_confidence: 0.5,
+      max_distance_m: 5000,
+    }, { as: user });
+
+    assert.deepEqual(names(body.results), ["100 m north", "2 km south"]);
+  });
+
+  await t.step("knn: batches of points keep their order", async () => {
+    const { body } = await call<Nearby>("nearby-search", {
+      mode: "knn",
+      k: 1,
+      points: [offset(origin, -2000), origin],
+    }, { as: user });
+
+    assert.equal(body.count, 2);
+    assert.deepEqual(names(body.points[0].results), ["2 km south"]);
+    assert.deepEqual(names(body.points[1].results), ["100 m north"]);
+  });
+
+  await t.step("knn: rejects batches with more than 1000 results", async () => {
+    const { status, body } = await call<ErrorBody>("nearby-search", {
+      mode: "knn",
+      k: 11,
+      points: Array.from({ length: 91 }, () => origin),
+    }, { as: user });
+
+    assert.equal(status, 400);
+    assert.equal(body.error, "'points' × 'k' must be at most 1000; split the batch");
+  });
+
+  await t.step("knn: needs a point", async () => {
+    const { status } = await call<Nearby>("nearby-search", { mode: "knn", k: 1 }, { as: user });
+    assert.equal(status, 400);
+  });
+
+  await t.step("other organizations' entries are not found", async () => {
+    const other = await createUser("nearby-other");
+    const { body } = await call<Nearby>("nearby-search", { ...origin, radius_m: 50000 }, {
+      as: other,
+    });
+    assert.equal(body.count, 0);
+  });
+});
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { FUNCTION_SPECS } from "../_shared/schemas/mod.ts";
+import { call } from "./helpers.ts";
+
+interface Operation {
+  requestBody: { content: Record<string, { schema: unknown }> };
+  responses: Record<number, { content: Record<string, { schema: { $ref: string } }> }>;
+  security: Record<string, string[]>[];
+}
+
+interface Document {
+  openapi: string;
+  paths: Record<string, Record<string, Operation>>;
+}
+
+Deno.test("openapi", async (t) => {
+  const { status, body } = await call<Document>("openapi", undefined, { as: null, method: "GET" });
+
+  await t.step("is served without credentials", () => {
+    assert.equal(status, 200);
+    assert.equal(body.openapi, "3.1.0");
+  });
+
+  await t.step("has one path per function, with its method", () => {
+    const expected = FUNCTION_SPECS.map((spec) => [
+      spec.path ?? `/${spec.name}`,
+      (spec.method ?? "POST").toLowerCase(),
+    ]);
+    const actual = Object.entries(body.paths).map(([path, operations]) => [
+      path,
+      Object.keys(operations)[0],
+    ]);
+
+    assert.deepEqual(actual.sort(), expected.sort());
+  });
+
+  await t.step("documents the schemas that validate requests", () => {
+    const geocode = body.paths["/geocode"].post;
+
+    assert.deepEqual(
+      geocode.requestBody.content["application/json"].schema,
+      JSON.parse(JSON.stringify(FUNCTION_SPECS.find((s) => s.name === "geocode")!.request)),
+    );
+    assert.equal(
+      geocode.responses[400].content["application/json"].schema.$ref,
+      "#/components/schemas/Error",
+    );
+  });
+
+  await t.step("lists how each function may be called", () => {
+    assert.deepEqual(body.paths["/parse-address"].post.security, [
+      { bearerAuth: [] },
+      { apiKeyAuth: [] },
+      {},
+    ]);
+    assert.deepEqual(body.paths["/geocode-worker"].post.security, [{ bearerAuth: [] }]);
+    assert.equal(body.paths["/geocode-worker"].post.responses[429], undefined);
+  });
+});
@@ -0,0 +1,186 @@
+import assert from "node:assert/strict";
+import { call, createUser, seedEntries, type TestUser } from "./helpers.ts";
+
+interface Membership {
+  org_id: string;
+  name: string;
+  role: string;
+  active: boolean;
+}
+
+async function visibleAddresses(user: TestUser): Promise<string[]> {
+  const { data, error } = await user.client.from("geo_registry").select("raw_address");
+  if (error) throw error;
+  return data.map((r) => r.raw_address).sort();
+}
+
+Deno.test("organizations and row level security", async (t) => {
+  const alice = await createUser("alice");
+  const bob = await createUser("bob");
+  let teamId = "";
+
+  await t.step("every user starts in a personal organization", async () => {
+    const { status, body } = await call<{
+      count: number;
+      active_org_id: string;
+      organizations: { id: string; personal: boolean; role: string }[];
+    }>("organizations", { action: "list" }, { as: alice });
+
+    assert.equal(status, 200);
+    assert.equal(body.count, 1);
+    assert.equal(body.organizations[0].personal, true);
+    assert.equal(body.organizations[0].role, "admin");
+    assert.equal(body.active_org_id, body.organizations[0].id);
+  });
+
+  await t.step("users only see entries of their own organization", async () => {
+    await seedEntries(alice, [{ lat: 47.9, lon: 106.9, raw_address: "Alice personal" }]);
+    await seedEntries(bob, [{ lat: 47.9, lon: 106.9, raw_address: "Bob personal" }]);
+
+    assert.deepEqual(await visibleAddresses(alice), ["Alice personal"]);
+    assert.deepEqual(await visibleAddresses(bob), ["Bob personal"]);
+  });
+
+  await t.step("users cannot write into another user's organization", async () => {
+    const { data: alicesOrg } = await alice.client.rpc("active_org_id");
+    const { error } = await bob.client.from("geo_registry").insert({
+      raw_address: "Intruder",
+      coordinates: "SRID=4326;POINT(106.9 47.9)",
+      org_id: alicesOrg,
+    });
+
+    assert.equal(error?.code, "42501");
+  });
+
+  await t.step("create switches to the new organization", async () => {
+    const { status, body } = await call<Membership>("organizations", {
+      action: "create",
+      name: " Team ",
+    }, {
+      as: alice,
+    });
+
+    assert.equal(status, 201);
+    assert.equal(body.name, "Team");
+    assert.equal(body.role, "admin");
+    assert.equal(body.active, true);
+    teamId = body.org_id;
+
+    // The personal entry stays behind in the personal organization
+    assert.deepEqual(await visibleAddresses(alice), []);
+    await seedEntries(alice, [{ lat: 47.91, lon: 106.91, raw_address: "Team entry" }]);
+  });
+
+  await t.step("viewers read the organization's entries but cannot change them", async () => {
+    const added = await call("organizations", {
+      action: "add_member",
+      org_id: teamId,
+      email: bob.email,
+    }, { as: alice });
+    assert.equal(added.status, 200);
+    assert.equal(added.body.role, "viewer");
+
+    // Membership alone does not change bob's active organization
+    assert.deepEqual(await visibleAddresses(bob), ["Bob personal"]);
+
+    const switched = await call("organizations", { action: "switch", org_id: teamId }, {
+      as: bob,
+    });
+    assert.equal(switched.status, 200);
+    assert.deepEqual(await visibleAddresses(bob), ["Team entry"]);
+
+    await assert.rejects(seedEntries(bob, [{ lat: 47.91, lon: 106.91, raw_address: "Viewer" }]));
+
+    const { data: entries } = await bob.client.from("geo_registry").select("id");
+    const deleted = await call("registry-history", {
+      action: "delete",
+      registry_id: entries![0].id,
+    }, { as: bob });
+    assert.equal(deleted.status, 404);
+  });
+
+  await t.step("viewers cannot add entries or geofences through the functions", async () => {
+    const geocoded = await call("geocode", { address: "Zaisan, Ulaanbaatar" }, { as: bob });
+    assert.equal(geocoded.status, 403);
+    assert.equal(geocoded.body.code, "forbidden");
+
+    const fence = await call("geofence", {
+      action: "create",
+      name: "Viewer fence",
+      polygon: [[106.9, 47.9], [106.92, 47.9], [106.92, 47.92], [106.9, 47.9]],
+    }, { as: bob });
+    assert.equal(fence.status, 403);
+
+    const imported = await call("registry-import", {
+      action: "create",
+      format: "csv",
+      content: "address,lat,lon\nViewer import,47.91,106.91\n",
+    }, { as: bob });
+    assert.equal(imported.status, 403);
+
+    assert.deepEqual(await visibleAddresses(bob), ["Team entry"]);
+  });
+
+  await t.step("editors can write", async () => {
+    const promoted = await call("organizations", {
+      action: "set_role",
+      org_id: teamId,
+      user_id: bob.id,
+      role: "editor",
+    }, { as: alice });
+    assert.equal(promoted.status, 200);
+
+    await seedEntries(bob, [{ lat: 47.91, lon: 106.91, raw_address: "Editor entry" }]);
+    assert.deepEqual(await visibleAddresses(alice), ["Editor entry", "Team entry"]);
+  });
+
+  await t.step("only admins manage members", async () => {
+    const carol = await createUser("carol");
+    const denied = await call("organizations", {
+      action: "add_member",
+      org_id: teamId,
+      email: carol.email,
+    }, { as: bob });
+    assert.equal(denied.status, 403);
+
+    const members = await call("organizations", { action: "members", org_id: teamId }, {
+      as: bob,
+    });
+    assert.equal(members.body.count, 2);
+
+    const outsider = await call("organizations", { action: "members", org_id: teamId }, {
+      as: carol,
+    });
+    assert.equal(outsider.status, 404);
+  });
+
+  await t.step("the last admin cannot be demoted", async () => {
+    const { status, body } = await call("organizations", {
+      action: "set_role",
+      org_id: teamId,
+      user_id: alice.id,
+      role: "viewer",
+    }, { as: alice });
+
+    assert.equal(status, 409);
+    assert.equal(body.code, "conflict");
+  });
+
+  await t.step("removed members fall back to their personal organization", async () => {
+    const removed = await call("organizations", {
+      action: "remove_member",
+      org_id: teamId,
+      user_id: bob.id,
+    }, { as: alice });
+    assert.equal(removed.status, 200);
+
+    assert.deepEqual(await visibleAddresses(bob), ["Bob personal"]);
+  });
+
+  await t.step("API keys cannot manage organizations", async () => {
+    const { status } = await call("organizations", { action: "list" }, {
+      as: { apiKey: "gk_0000" },
+    });
+    assert.equal(status, 403);
+  });
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { call } from "./helpers.ts";
+
+type Parsed = Record<string, string>;
+
+const ADDRESS = "БЗД 26-р хороо, 45-р байр, 2 орц, 67 тоот";
+
+Deno.test("parse-address", async (t) => {
+  await t.step("parses without credentials", async () => {
+    const { status, body } = await call<{ parsed: Parsed; geocoding_query: string }>(
+      "parse-address",
+      { address: ADDRESS },
+      { as: null },
+    );
+
+    assert.equal(status, 200);
+    assert.equal(body.parsed.district, "Баянзүрх");
+    assert.equal(body.parsed.khoroo, "26");
+    assert.equal(body.parsed.building, "45");
+    assert.equal(body.parsed.door, "67");
+    assert.equal(body.geocoding_query, "Улаанбаатар, Баянзүрх дүүрэг, 26-р хороо, 45-р байр");
+  });
+
+  await t.step("parses batches, failing invalid entries individually", async () => {
+    const { status, body } = await call<{
+      count: number;
+      results: { parsed?: Parsed; error?: string }[];
+    }>("parse-address", {
+      addresses: [ADDRESS, "", 7],
+    }, { as: null });
+
+    assert.equal(status, 200);
+    assert.equal(body.count, 3);
+    assert.equal(body.results[0].parsed?.door, "67");
+    assert.equal(body.results[1].error, "Invalid address string");
+    assert.equal(body.results[2].error, "Invalid address string");
+  });
+
+  // The request pipeline shared by every function
+  await t.step("echoes the caller's request id, or assigns one", async () => {
+    const given = await call("parse-address", { address: ADDRESS }, {
+      as: null,
+      headers: { "X-Request-Id": "test-run.42" },
+    });
+    assert.equal(given.headers.get("X-Request-Id"), "test-run.42");
+
+    const assigned = await call("parse-address", { address: ADDRESS }, {
+      as: null,
+      headers: { "X-Request-Id": "not a valid id" },
+    });
+    assert.match(assigned.headers.get("X-Request-Id")!, /^[0-9a-f-]{36}$/);
+  });
+
+  await t.step("rejects malformed JSON", async () => {
+    const { status, body, headers } = await call("parse-address", "{ not json", { as: null });
+
+    assert.equal(status, 400);
+    assert.equal(body.code, "invalid_json");
+    assert.equal(body.request_id, headers.get("X-Request-Id"));
+  });
+
+  await t.step("reports every schema violation", async () => {
+    const { status, body } = await call("parse-address", { address: 5 }, { as: null });
+
+    assert.equal(status, 400);
+    assert.equal(body.code, "validation_failed");
+    assert.deepEqual(body.details, [{ path: "address", message: "'address' must be a string" }]);
+  });
+
+  await t.step("rejects other methods", async () => {
+    const { status, body } = await call("parse-address", undefined, { as: null, method: "GET" });
+
+    assert.equal(status, 405);
+    assert.equal(body.code, "method_not_allowed");
+  });
+});
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { call, createUser, seedEntries } from "./helpers.ts";
+
+interface Rescored {
+  processed: number;
+  updated: number;
+  changed: number;
+  next_after_id: string | null;
+  results: {
+    id: string;
+    previous_score: number;
+    confidence_score: number;
+    confidence_breakdown: Record<string, number>;
+  }[];
+}
+
+Deno.test("recompute-confidence", async (t) => {
+  const user = await createUser("confidence");
+
+  const geocoded = await call("geocode", { address: "Darkhan" }, { as: user });
+  assert.equal(geocoded.status, 201);
+  const { id, confidence_score } = geocoded.body;
+
+  // Seeded rows have no provider and are never rescored
+  await seedEntries(user, [{ lat: 47.92, lon: 106.92, confidence_score: 0.5 }]);
+
+  await t.step("skips entries already scored by the current model", async () => {
+    const { status, body } = await call<Rescored>("recompute-confidence", {}, { as: user });
+
+    assert.equal(status, 200);
+    assert.deepEqual(body, {
+      processed: 0,
+      updated: 0,
+      changed: 0,
+      next_after_id: null,
+      results: [],
+    });
+  });
+
+  await t.step("rescores geocoded entries from their stored result", async () => {
+    await user.client.from("geo_registry").update({ confidence_score: 0.1 }).eq("id", id);
+
+    const { body } = await call<Rescored>("recompute-confidence", { only_outdated: false }, {
+      as: user,
+    });
+
+    assert.equal(body.processed, 1);
+    assert.equal(body.changed, 1);
+    assert.equal(body.results[0].id, id);
+    assert.equal(body.results[0].previous_score, 0.1);
+    assert.equal(body.results[0].confidence_score, confidence_score);
+    assert.ok(body.results[0].confidence_breakdown);
+  });
+
+  await t.step("pages with next_after_id", async () => {
+    const first = await call<Rescored>("recompute-confidence", { only_outdated: false, limit: 1 }, {
+      as: user,
+    });
+    assert.equal(first.body.next_after_id, id);
+
+    const next = await call<Rescored>("recompute-confidence", {
+      only_outdated: false,
+      after_id: first.body.next_after_id,
+    }, { as: user });
+    assert.equal(next.body.processed, 0);
+  });
+
+  await t.step("only rescores the caller's entries", async () => {
+    const other = await createUser("confidence-other");
+    const { body } = await call<Rescored>("recompute-confidence", {
+      registry_ids: [id],
+      only_outdated: false,
+    }, { as: other });
+
+    assert.equal(body.processed, 0);
+  });
+});
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { call, createUser, type ErrorBody, offset, seedEntries } from "./helpers.ts";
+
+const origin = { lat: 47.9175, lon: 106.92 };
+
+interface Pairs {
+  count: number;
+  pairs: {
+    id: string;
+    entry_a: { id: string };
+    entry_b: { id: string };
+    text_similarity: number;
+    distance_m: number;
+  }[];
+}
+
+Deno.test("registry-duplicates", async (t) => {
+  const user = await createUser("duplicates");
+
+  const [first, second] = await seedEntries(user, [
+    { ...origin, raw_address: "Peace Avenue 5" },
+    { ...offset(origin, 10), raw_address: "Peace avenue 5" },
+    // Same address too far away, and a different address next door
+    { ...offset(origin, 2000), raw_address: "Peace Avenue 5" },
+    { ...offset(origin, 0, 5), raw_address: "Zaisan Memorial" },
+  ]);
+
+  let candidateId: string;
+
+  await t.step("detects nearby entries with similar addresses", async () => {
+    const { status, body } = await call("registry-duplicates", { action: "detect" }, {
+      as: user,
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.max_distance_m, 50);
+    assert.equal(body.candidates, 1);
+  });
+
+  await t.step("lists pending pairs with both entries", async () => {
+    const { body } = await call<Pairs>("registry-duplicates", { action: "list" }, { as: user });
+
+    assert.equal(body.count, 1);
+    const [pair] = body.pairs;
+    assert.deepEqual([pair.entry_a.id, pair.entry_b.id].sort(), [first.id, second.id].sort());
+    assert.equal(pair.text_similarity, 1);
+    assert.ok(Math.abs(pair.distance_m - 10) < 1);
+    candidateId = pair.id;
+  });
+
+  await t.step("merges into the canonical entry and redirects the merged id", async () => {
+    const { status, body } = await call<{ merged: number; entry: { id: string } }>(
+      "registry-duplicates",
+      {
+        action: "merge",
+        canonical_id: first.id,
+        merged_ids: [second.id],
+      },
+      { as: user },
+    );
+
+    assert.equal(status, 200);
+    assert.equal(body.merged, 1);
+    assert.equal(body.entry.id, first.id);
+
+    const resolved = await call<{
+      resolved: { id: string; canonical_id: string; merged: boolean; entry: { id: string } }[];
+    }>("registry-duplicates", {
+      action: "resolve",
+      registry_ids: [second.id, first.id],
+    }, { as: user });
+    const byId = Object.fromEntries(
+      resolved.body.resolved.map((r) => [r.id, r]),
+    );
+    assert.equal(byId[second.id].canonical_id, first.id);
+    assert.equal(byId[second.id].merged, true);
+    assert.equal(byId[second.id].entry.id, first.id);
+    assert.equal(byId[first.id].merged, false);
+
+    const list = await call<Pairs>("registry-duplicates", { action: "list" }, { as: user });
+    assert.equal(list.body.count, 0);
+  });
+
+  await t.step("rejects invalid merges", async () => {
+    const self = await call("registry-duplicates", {
+      action: "merge",
+      canonical_id: first.id,
+      merged_ids: [first.id],
+    }, { as: user });
+    assert.equal(self.status, 400);
+
+    const gone = await call("registry-duplicates", {
+      action: "merge",
+      canonical_id: first.id,
+      merged_ids: [second.id],
+    }, { as: user });
+    assert.equal(gone.status, 404);
+  });
+
+  await t.step("dismisses pairs that are not duplicates", async () => {
+    const [twin] = await seedEntries(user, [
+      { ...offset(origin, 0, 20), raw_address: "Peace Avenue 5" },
+    ]);
+    await call("registry-duplicates", { action: "detect" }, { as: user });
+
+    const list = await call<Pairs>("registry-duplicates", { action: "list" }, { as: user });
+    const pair = list.body.pairs.find((p) => p.entry_a.id === twin.id || p.entry_b.id === twin.id);
+    assert.ok(pair);
+    assert.notEqual(pair.id, candidateId);
+
+    const dismissed = await call("registry-duplicates", {
+      action: "dismiss",
+      candidate_id: pair.id,
+    }, { as: user });
+    assert.deepEqual(dismissed.body, { candidate_id: pair.id, dismissed: true });
+
+    const again = await call("registry-duplicates", {
+      action: "dismiss",
+      candidate_id: pair.id,
+    }, { as: user });
+    assert.equal(again.status, 404);
+  });
+
+  await t.step("only editors of the organization can merge", async () => {
+    const other = await createUser("duplicates-other");
+    const [third] = await seedEntries(user, [{ ...offset(origin, -10), raw_address: "X" }]);
+
+    const { status, body } = await call<ErrorBody>("registry-duplicates", {
+      action: "merge",
+      canonical_id: first.id,
+      merged_ids: [third.id],
+    }, { as: other });
+
+    assert.equal(status, 403);
+    assert.equal(body.error, "Only editors of the organization can merge entries");
+  });
+});
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { call, createUser, type ErrorBody, seedEntries, type TestUser } from "./helpers.ts";
+
+const text = (body: Uint8Array) => new TextDecoder().decode(body);
+
+Deno.test("registry-export", async (t) => {
+  const user = await createUser("export");
+
+  await seedEntries(user, [
+    { lat: 47.92, lon: 106.92, raw_address: "Peace Avenue 1", confidence_score: 0.9 },
+    { lat: 47.91, lon: 106.93, raw_address: 'Quoted "name", with comma', confidence_score: 0.4 },
+    { lat: 49.48, lon: 105.92, raw_address: "Darkhan", confidence_score: 0.7 },
+  ]);
+
+  const exportAs = <T = Uint8Array>(payload: Record<string, unknown>, as: TestUser = user) =>
+    call<T>("registry-export", payload, { as });
+
+  await t.step("streams GeoJSON by default, as a download", async () => {
+    const { status, headers, body } = await exportAs({});
+
+    assert.equal(status, 200);
+    assert.equal(headers.get("Content-Type"), "application/geo+json");
+    assert.match(
+      headers.get("Content-Disposition")!,
+      /^attachment; filename="registry-.*\.geojson"$/,
+    );
+
+    const collection = JSON.parse(text(body));
+    assert.equal(collection.type, "FeatureCollection");
+    assert.equal(collection.features.length, 3);
+    const darkhan = collection.features.find(
+      (f: { properties: { raw_address: string } }) => f.properties.raw_address === "Darkhan",
+    );
+    assert.deepEqual(darkhan.geometry, { type: "Point", coordinates: [105.92, 49.48] });
+  });
+
+  await t.step("filters by bbox and confidence", async () => {
+    const { body } = await exportAs({ bbox: [106.8, 47.85, 107.0, 47.95], min_confidence: 0.5 });
+    const collection = JSON.parse(text(body));
+
+    assert.deepEqual(
+      collection.features.map((f: { properties: { raw_address: string } }) =>
+        f.properties.raw_address
+      ),
+      ["Peace Avenue 1"],
+    );
+  });
+
+  await t.step("writes CSV with quoting", async () => {
+    const { headers, body } = await exportAs({ format: "csv", max_confidence: 0.5 });
+    const lines = text(body).trim().split("\r\n");
+
+    assert.match(headers.get("Content-Type")!, /^text\/csv/);
+    assert.equal(
+      lines[0],
+      "id,raw_address,formatted,lat,lon,source,confidence_score,created_by,created_at",
+    );
+    assert.equal(lines.length, 2);
+    assert.ok(lines[1].includes('"Quoted ""name"", with comma"'));
+  });
+
+  await t.step("writes KML and GPX documents", async () => {
+    const kml = await exportAs({ format: "kml" });
+    assert.equal(kml.headers.get("Content-Type"), "application/vnd.google-earth.kml+xml");
+    assert.equal(text(kml.body).match(/<Placemark>/g)?.length, 3);
+    assert.ok(text(kml.body).includes("&quot;name&quot;"));
+
+    const gpx = await exportAs({ format: "gpx" });
+    assert.equal(text(gpx.body).match(/<wpt /g)?.length, 3);
+    assert.ok(text(gpx.body).trimEnd().endsWith("</gpx>"));
+  });
+
+  await t.step("exports geofences", async () => {
+    await call("geofence", {
+      action: "create",
+      name: "Exported fence",
+      polygon: [[106.9, 47.9], [106.95, 47.9], [106.95, 47.95], [106.9, 47.95], [106.9, 47.9]],
+    }, { as: user });
+
+    const { headers, body } = await exportAs({ dataset: "geofences" });
+    const collection = JSON.parse(text(body));
+
+    assert.match(headers.get("Content-Disposition")!, /filename="geofences-/);
+    assert.equal(collection.features.length, 1);
+    assert.equal(collection.features[0].properties.name, "Exported fence");
+    assert.equal(collection.features[0].geometry.type, "MultiPolygon");
+  });
+
+  await t.step("rejects an inverted bbox", async () => {
+    const { status, body } = await exportAs<ErrorBody>({ bbox: [107, 47.9, 106.9, 47.95] });
+
+    assert.equal(status, 400);
+    assert.equal(body.error, "'bbox' minimums must be smaller than its maximums");
+  });
+
+  await t.step("exports only the caller's organization", async () => {
+    const other = await createUser("export-other");
+    const { body } = await exportAs({}, other);
+
+    assert.equal(JSON.parse(text(body)).features.length, 0);
+  });
+});
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { call, createUser, seedEntries } from "./helpers.ts";
+
+interface History {
+  current_version: number;
+  deleted: boolean;
+  versions: {
+    operation: string;
+    changed_fields: string[];
+    changes: Record<string, { old: unknown; new: unknown }>;
+    coordinates: { type: string };
+  }[];
+}
+
+interface Reverted {
+  reverted_to: number;
+  entry: { raw_address: string };
+}
+
+Deno.test("registry-history", async (t) => {
+  const user = await createUser("history");
+  const [entry] = await seedEntries(user, [{ lat: 47.92, lon: 106.92, raw_address: "First" }]);
+  const registry_id = entry.id;
+
+  await user.client.from("geo_registry").update({ raw_address: "Second" }).eq("id", registry_id);
+
+  await t.step("lists versions newest first, with what each changed", async () => {
+    const { status, body } = await call<History>("registry-history", {
+      action: "history",
+      registry_id,
+    }, {
+      as: user,
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.current_version, 2);
+    assert.equal(body.deleted, false);
+    assert.deepEqual(body.versions.map((v) => v.operation), [
+      "update",
+      "insert",
+    ]);
+    assert.ok(body.versions[0].changed_fields.includes("raw_address"));
+    assert.deepEqual(body.versions[0].changes.raw_address, { old: "First", new: "Second" });
+    assert.equal(body.versions[1].coordinates.type, "Point");
+  });
+
+  await t.step("reverts to an earlier version as a new version", async () => {
+    const { status, body } = await call<Reverted>("registry-history", {
+      action: "revert",
+      registry_id,
+      version: 1,
+    }, { as: user });
+
+    assert.equal(status, 200);
+    assert.equal(body.reverted_to, 1);
+    assert.equal(body.entry.raw_address, "First");
+
+    const history = await call("registry-history", { action: "history", registry_id }, {
+      as: user,
+    });
+    assert.equal(history.body.current_version, 3);
+  });
+
+  await t.step("soft deletes, hiding the entry until it is restored", async () => {
+    const deleted = await call("registry-history", { action: "delete", registry_id }, {
+      as: user,
+    });
+    assert.deepEqual(deleted.body, { registry_id, deleted: true });
+
+    const hidden = await user.client.from("geo_registry").select("id").eq("id", registry_id);
+    assert.deepEqual(hidden.data, []);
+
+    const history = await call("registry-history", { action: "history", registry_id }, {
+      as: user,
+    });
+    assert.equal(history.body.deleted, true);
+
+    const revert = await call("registry-history", { action: "revert", registry_id, version: 1 }, {
+      as: user,
+    });
+    assert.equal(revert.status, 404);
+
+    const restored = await call("registry-history", { action: "restore", registry_id }, {
+      as: user,
+    });
+    assert.deepEqual(restored.body, { registry_id, restored: true });
+
+    const visible = await user.client.from("geo_registry").select("id").eq("id", registry_id);
+    assert.equal(visible.data?.length, 1);
+  });
+
+  await t.step("restoring an entry that is not deleted is a 404", async () => {
+    const { status } = await call("registry-history", { action: "restore", registry_id }, {
+      as: user,
+    });
+    assert.equal(status, 404);
+  });
+
+  await t.step("other organizations can neither see nor change the entry", async () => {
+    const other = await createUser("history-other");
+
+    for (const action of ["history", "delete", "restore"]) {
+      const { status } = await call("registry-history", { action, registry_id }, { as: other });
+      assert.equal(status, 404, action);
+    }
+  });
+
+  await t.step("validates the action", async () => {
+    const { status, body } = await call("registry-history", { action: "purge", registry_id }, {
+      as: user,
+    });
+
+    assert.equal(status, 400);
+    assert.equal(body.code, "validation_failed");
+  });
+});
@@ -0,0 +1,189 @@
+import assert from "node:assert/strict";
+import { call, createUser, type ErrorBody } from "./helpers.ts";
+
+const CSV = [
+  "name,address,latitude,longitude",
+  "located,Peace Avenue 1,47.91,106.91",
+  "geocoded,Darkhan,,",
+  "out of range,,91,0",
+  "unknown,Nowhere Land,,",
+  "half a point,,47.9,",
+].join("\n");
+
+interface Import {
+  id: string;
+  source: string;
+  geocode_job_id: string | null;
+  summary: Record<string, number>;
+}
+
+interface Report {
+  rows: { status: string; error: string | null; registry_id: string }[];
+}
+
+Deno.test("registry-import", async (t) => {
+  const user = await createUser("import");
+  const imports = <T = Import>(payload: Record<string, unknown>, as = user) =>
+    call<T>("registry-import", payload, { as });
+
+  const { status, body: imported } = await imports({
+    action: "create",
+    format: "csv",
+    content: CSV,
+    source: "import_test",
+  });
+
+  await t.step("inserts located rows and queues the rest for geocoding", async () => {
+    assert.equal(status, 201);
+    assert.deepEqual(imported.summary, { total: 5, inserted: 1, invalid: 2, geocoding: 2 });
+    assert.ok(imported.geocode_job_id);
+
+    const { body } = await imports<Report>({ action: "report", import_id: imported.id });
+    assert.deepEqual(body.rows.map((r) => r.status), [
+      "inserted",
+      "geocoding",
+      "invalid",
+      "geocoding",
+      "invalid",
+    ]);
+    assert.equal(body.rows[2].error, "Coordinates out of range (lat: -90..90, lon: -180..180)");
+    assert.equal(body.rows[4].error, "Both lat and lon are required when either is given");
+
+    const { data } = await user.client
+      .from("geo_registry")
+      .select("raw_address, source, metadata")
+      .eq("id", body.rows[0].registry_id)
+      .single();
+    assert.equal(data!.raw_address, "Peace Avenue 1");
+    assert.equal(data!.source, "import_test");
+    assert.equal(data!.metadata.attributes.name, "located");
+  });
+
+  await t.step("reports geocoding outcomes once the worker has run", async () => {
+    await call("geocode-worker", {}, { as: "service_role" });
+
+    const { body } = await imports({ action: "status", import_id: imported.id });
+    assert.deepEqual(body.summary, {
+      total: 5,
+      inserted: 2,
+      invalid: 2,
+      geocoding: 0,
+      not_found: 1,
+      error: 0,
+    });
+  });
+
+  await t.step("downloads the errors as CSV", async () => {
+    const { status, headers, body } = await imports<Uint8Array>({
+      action: "report",
+      import_id: imported.id,
+      format: "csv",
+      errors_only: true,
+    });
+
+    assert.equal(status, 200);
+    assert.match(headers.get("Content-Type")!, /^text\/csv/);
+    assert.match(headers.get("Content-Disposition")!, /report\.csv"$/);
+
+    const lines = new TextDecoder().decode(body).trim().split(/\r?\n/);
+    assert.equal(lines[0], "row_number,status,error,registry_id,raw");
+    assert.deepEqual(lines.slice(1).map((l) => l.split(",").slice(0, 2).join(",")), [
+      "3,invalid",
+      "4,not_found",
+      "5,invalid",
+    ]);
+  });
+
+  await t.step("imports GeoJSON points with their properties", async () => {
+    const { status, body } = await imports({
+      action: "create",
+      format: "geojson",
+      content: {
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [106.92, 47.92] },
+            properties: { address: "Point feature", kind: "shop" },
+          },
+          {
+            type: "Feature",
+            geometry: { type: "LineString", coordinates: [[106.9, 47.9], [106.91, 47.91]] },
+            properties: { address: "Line feature" },
+          },
+        ],
+      },
+    });
+
+    assert.equal(status, 201);
+    assert.deepEqual(body.summary, { total: 2, inserted: 1, invalid: 1, geocoding: 0 });
+    assert.equal(body.source, "geojson_import");
+    assert.equal(body.geocode_job_id, null);
+
+    const report = await imports<Report>({
+      action: "report",
+      import_id: body.id,
+      errors_only: true,
+    });
+    assert.equal(report.body.rows[0].error, "Only Point geometries are supported");
+  });
+
+  await t.step("reads tab-separated content", async () => {
+    const { status, body } = await imports({
+      action: "create",
+      format: "csv",
+      content: "address\tlat\tlon\nTab separated\t47.92\t106.92\n",
+      delimiter: "\t",
+    });
+
+    assert.equal(status, 201);
+    assert.equal(body.summary.inserted, 1);
+  });
+
+  await t.step("counts and reports imports larger than a page of rows", async () => {
+    const lines = Array.from({ length: 1001 }, (_, i) => `Bulk ${i},47.9,106.9`);
+    const { body } = await imports({
+      action: "create",
+      format: "csv",
+      content: ["address,lat,lon", ...lines].join("\n"),
+    });
+
+    const status = await imports({ action: "status", import_id: body.id });
+    assert.equal(status.body.summary.total, 1001);
+    assert.equal(status.body.summary.inserted, 1001);
+
+    const report = await imports<Report & { count: number }>({
+      action: "report",
+      import_id: body.id,
+    });
+    assert.equal(report.body.count, 1001);
+    assert.equal(report.body.rows[1000].status, "inserted");
+  });
+
+  await t.step("rejects unusable content", async () => {
+    const object = await imports<ErrorBody>({ action: "create", format: "csv", content: { a: 1 } });
+    assert.equal(object.body.error, "CSV 'content' must be a string");
+
+    const column = await imports<ErrorBody>({
+      action: "create",
+      format: "csv",
+      content: CSV,
+      columns: { address: "street" },
+    });
+    assert.equal(column.status, 400);
+    assert.equal(column.body.error, "Unknown column 'street'");
+
+    const empty = await imports<ErrorBody>({
+      action: "create",
+      format: "csv",
+      content: "address\n",
+    });
+    assert.equal(empty.body.error, "No rows to import");
+  });
+
+  await t.step("imports are private to their creator", async () => {
+    const other = await createUser("import-other");
+    const { status } = await imports({ action: "status", import_id: imported.id }, other);
+    assert.equal(status, 404);
+  });
+});
@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import { call, createUser, type ErrorBody, seedEntries } from "./helpers.ts";
+
+interface Queue {
+  threshold: number;
+  next_cursor: string | null;
+  entries: {
+    raw_address: string;
+    low_confidence: boolean;
+    open_flags: number;
+    latest_flag_reason: string | null;
+  }[];
+}
+
+interface Corrected {
+  flags_resolved: number;
+  moved_m: number;
+  entry: {
+    source: string;
+    confidence_score: number;
+    standardized_address: Record<string, string>;
+    metadata: { correction: Record<string, unknown> };
+  };
+}
+
+Deno.test("registry-review", async (t) => {
+  const user = await createUser("review");
+
+  const [low, , flagged] = await seedEntries(user, [
+    { lat: 47.92, lon: 106.92, raw_address: "Low", confidence_score: 0.2 },
+    { lat: 47.93, lon: 106.93, raw_address: "High", confidence_score: 0.9 },
+    { lat: 49.46, lon: 105.95, raw_address: "Darkhan", confidence_score: 0.95 },
+  ]);
+
+  const names = (rows: { raw_address: string }[]) => rows.map((r) => r.raw_address);
+
+  await t.step("flags an entry", async () => {
+    const { status, body } = await call<{ flag: { reason: string; status: string } }>(
+      "registry-review",
+      {
+        action: "flag",
+        registry_id: flagged.id,
+        reason: " Wrong town center ",
+      },
+      { as: user },
+    );
+
+    assert.equal(status, 201);
+    assert.equal(body.flag.reason, "Wrong town center");
+    assert.equal(body.flag.status, "open");
+  });
+
+  await t.step("queues low-confidence and flagged entries, lowest first", async () => {
+    const { status, body } = await call<Queue>("registry-review", { action: "queue" }, {
+      as: user,
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.threshold, 0.5);
+    assert.deepEqual(names(body.entries), ["Low", "Darkhan"]);
+    assert.equal(body.entries[0].low_confidence, true);
+    assert.equal(body.entries[1].open_flags, 1);
+    assert.equal(body.entries[1].latest_flag_reason, "Wrong town center");
+
+    const flaggedOnly = await call<Queue>(
+      "registry-review",
+      { action: "queue", reason: "flagged" },
+      {
+        as: user,
+      },
+    );
+    assert.deepEqual(names(flaggedOnly.body.entries), ["Darkhan"]);
+  });
+
+  await t.step("pages the queue with next_cursor", async () => {
+    const first = await call<Queue>("registry-review", { action: "queue", page_size: 1 }, {
+      as: user,
+    });
+    assert.deepEqual(names(first.body.entries), ["Low"]);
+
+    const second = await call<Queue>("registry-review", {
+      action: "queue",
+      page_size: 1,
+      cursor: first.body.next_cursor,
+    }, { as: user });
+    assert.deepEqual(names(second.body.entries), ["Darkhan"]);
+
+    const invalid = await call<Queue>("registry-review", { action: "queue", cursor: "nope" }, {
+      as: user,
+    });
+    assert.equal(invalid.status, 400);
+  });
+
+  await t.step("corrects an entry, resolving its flags", async () => {
+    const { status, body } = await call<Corrected>("registry-review", {
+      action: "correct",
+      registry_id: flagged.id,
+      reason: "Surveyed",
+      lat: 49.469,
+      lon: 105.964,
+      standardized_address: { city: "Darkhan" },
+    }, { as: user });
+
+    assert.equal(status, 200);
+    assert.equal(body.flags_resolved, 1);
+    assert.ok(body.moved_m > 1000);
+    assert.equal(body.entry.source, "manual_verified");
+    assert.equal(body.entry.confidence_score, 1);
+    assert.equal(body.entry.standardized_address.city, "Darkhan");
+    assert.equal(body.entry.metadata.correction.previous_confidence, 0.95);
+
+    const queue = await call<Queue>("registry-review", { action: "queue" }, { as: user });
+    assert.deepEqual(names(queue.body.entries), ["Low"]);
+  });
+
+  await t.step("later geocodes of the address return the correction", async () => {
+    const { status, body } = await call<{
+      corrected: boolean;
+      source: string;
+      metadata: Record<string, unknown>;
+    }>("geocode", { address: "Darkhan" }, { as: user });
+
+    assert.equal(status, 201);
+    assert.equal(body.corrected, true);
+    assert.equal(body.source, "manual_verified");
+    assert.equal(body.metadata.verified_correction, flagged.id);
+  });
+
+  await t.step("dismisses open flags without changing the entry", async () => {
+    await call("registry-review", { action: "flag", registry_id: low.id, reason: "Dup" }, {
+      as: user,
+    });
+    const { body } = await call("registry-review", {
+      action: "dismiss",
+      registry_id: low.id,
+      note: "Checked",
+    }, { as: user });
+
+    assert.deepEqual(body, { registry_id: low.id, flags_dismissed: 1 });
+  });
+
+  await t.step("needs both coordinates, or an address", async () => {
+    const { status, body } = await call<ErrorBody>("registry-review", {
+      action: "correct",
+      registry_id: low.id,
+      reason: "Half a point",
+      lat: 47.9,
+    }, { as: user });
+
+    assert.equal(status, 400);
+    assert.equal(body.error, "'lat' and 'lon' must be given together");
+  });
+
+  await t.step("other organizations cannot flag or correct the entry", async () => {
+    const other = await createUser("review-other");
+
+    const flag = await call("registry-review", {
+      action: "flag",
+      registry_id: low.id,
+      reason: "Spam",
+    }, { as: other });
+    assert.equal(flag.status, 404);
+
+    const correct = await call("registry-review", {
+      action: "correct",
+      registry_id: low.id,
+      reason: "Spam",
+      lat: 0,
+      lon: 0,
+    }, { as: other });
+    assert.equal(correct.status, 404);
+  });
+});
@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { call, createUser, type ErrorBody, seedEntries } from "./helpers.ts";
+
+interface Search {
+  count: number;
+  sort: string;
+  next_cursor: string | null;
+  results: { raw_address: string; distance_m?: number }[];
+}
+
+Deno.test("registry-search", async (t) => {
+  const user = await createUser("search");
+
+  await seedEntries(user, [
+    {
+      lat: 47.92,
+      lon: 106.92,
+      raw_address: "UB high",
+      confidence_score: 0.95,
+      standardized_address: { city: "Ulaanbaatar", country_code: "mn" },
+    },
+    {
+      lat: 47.91,
+      lon: 106.93,
+      raw_address: "UB low",
+      confidence_score: 0.3,
+      standardized_address: { city: "Ulaanbaatar", country_code: "mn" },
+    },
+    {
+      lat: 49.48,
+      lon: 105.92,
+      raw_address: "Darkhan",
+      confidence_score: 0.7,
+      source: "other_seed",
+      standardized_address: { city: "Darkhan", country_code: "mn" },
+    },
+  ]);
+
+  const names = (rows: { raw_address: string }[]) => rows.map((r) => r.raw_address);
+
+  await t.step("filters by bbox and confidence", async () => {
+    const { status, body } = await call<Search>("registry-search", {
+      bbox: [106.8, 47.85, 107.0, 47.95],
+      min_confidence: 0.5,
+    }, { as: user });
+
+    assert.equal(status, 200);
+    assert.deepEqual(names(body.results), ["UB high"]);
+  });
+
+  await t.step("filters by polygon, city and source", async () => {
+    const polygon = await call<Search>("registry-search", {
+      polygon: {
+        type: "Polygon",
+        coordinates: [[[105, 49], [106, 49], [106, 50], [105, 50], [105, 49]]],
+      },
+    }, { as: user });
+    assert.deepEqual(names(polygon.body.results), ["Darkhan"]);
+
+    const city = await call<Search>(
+      "registry-search",
+      { city: "ULAANBAATAR", sort: "confidence" },
+      {
+        as: user,
+      },
+    );
+    assert.deepEqual(names(city.body.results), ["UB high", "UB low"]);
+
+    const source = await call<Search>("registry-search", { source: "other_seed" }, { as: user });
+    assert.deepEqual(names(source.body.results), ["Darkhan"]);
+  });
+
+  await t.step("sorts by distance from near, with distance_m", async () => {
+    const { body } = await call<Search>("registry-search", { near: { lat: 49.48, lon: 105.92 } }, {
+      as: user,
+    });
+
+    assert.equal(body.sort, "distance");
+    assert.deepEqual(names(body.results), ["Darkhan", "UB low", "UB high"]);
+    assert.equal(body.results[0].distance_m, 0);
+  });
+
+  await t.step("pages with next_cursor until it is null", async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const { body } = await call<Search>("registry-search", {
+        sort: "confidence",
+        page_size: 2,
+        ...(cursor ? { cursor } : {}),
+      }, { as: user });
+      seen.push(...names(body.results));
+      cursor = body.next_cursor ?? undefined;
+    } while (cursor);
+
+    assert.deepEqual(seen, ["UB high", "Darkhan", "UB low"]);
+  });
+
+  await t.step("rejects cursors of another sort", async () => {
+    const first = await call<Search>("registry-search", { sort: "confidence", page_size: 1 }, {
+      as: user,
+    });
+    const { status } = await call<Search>("registry-search", {
+      sort: "recency",
+      cursor: first.body.next_cursor,
+    }, { as: user });
+
+    assert.equal(status, 400);
+  });
+
+  await t.step("rejects distance sort without near", async () => {
+    const { status, body } = await call<ErrorBody>("registry-search", { sort: "distance" }, {
+      as: user,
+    });
+
+    assert.equal(status, 400);
+    assert.equal(body.error, "'near' is required to sort by distance");
+  });
+
+  await t.step("only searches the caller's organization", async () => {
+    const other = await createUser("search-other");
+    const { body } = await call<Search>("registry-search", {}, { as: other });
+
+    assert.equal(body.count, 0);
+  });
+});
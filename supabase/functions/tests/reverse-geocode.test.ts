@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { call, createUser } from "./helpers.ts";
+
+interface Place {
+  id: string;
+  raw_address: string;
+  source: string;
+  standardized_address: Record<string, string>;
+  metadata: Record<string, unknown>;
+  confidence_score: number;
+}
+
+Deno.test("reverse-geocode", async (t) => {
+  const user = await createUser("reverse");
+
+  await t.step("stores the nearest place at the requested point", async () => {
+    const { status, body } = await call<Place>("reverse-geocode", { lat: 47.874, lon: 106.918 }, {
+      as: user,
+    });
+
+    assert.equal(status, 201);
+    assert.equal(body.raw_address, "Zaisan, Khan-Uul, Ulaanbaatar, 17011, Mongolia");
+    assert.equal(body.source, "nominatim_reverse");
+    assert.equal(body.standardized_address.postcode, "17011");
+    assert.deepEqual(body.metadata.matched_point, { lat: 47.8735, lon: 106.9179 });
+    assert.ok(body.confidence_score > 0);
+
+    // The row keeps the requested coordinates
+    const { data } = await user.client.rpc("registry_coordinates", { registry_ids: [body.id] });
+    assert.deepEqual(data, [{ id: body.id, lat: 47.874, lon: 106.918 }]);
+  });
+
+  await t.step("404 when nothing is near", async () => {
+    const { status, body } = await call("reverse-geocode", { lat: 10, lon: 10 }, { as: user });
+
+    assert.equal(status, 404);
+    assert.equal(body.error, "No results found for the given coordinates");
+  });
+
+  await t.step("validates coordinates", async () => {
+    const { status, body } = await call("reverse-geocode", { lat: 91, lon: 0 }, { as: user });
+
+    assert.equal(status, 400);
+    assert.equal(body.error, "'lat' must be between -90 and 90");
+  });
+});
@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import {
+  type Body,
+  call,
+  createUser,
+  createViewer,
+  offset,
+  seedEntries,
+  service,
+} from "./helpers.ts";
+
+// A three-vertex road, west to east, in an otherwise empty area. The eastern segment is
+// one-way for cars.
+const WEST = { lat: 46.0, lon: 100.0 };
+const MIDDLE = offset(WEST, 0, 1000);
+const EAST = offset(WEST, 0, 2000);
+const VERTEX_IDS = [9_000_001, 9_000_002, 9_000_003];
+
+const point = ({ lat, lon }: { lat: number; lon: number }) => `SRID=4326;POINT(${lon} ${lat})`;
+const line = (a: { lat: number; lon: number }, b: { lat: number; lon: number }) =>
+  `SRID=4326;LINESTRING(${a.lon} ${a.lat},${b.lon} ${b.lat})`;
+
+interface Isochrones {
+  isochrones: {
+    minutes: number;
+    reached_vertices: number;
+    boundary: { type: string };
+    geofence_id: string;
+  }[];
+}
+
+async function seedRoadGraph() {
+  // The graph is shared reference data, written with the service role
+  const { error: verticesError } = await service.from("road_vertices").upsert(
+    [WEST, MIDDLE, EAST].map((v, i) => ({ id: VERTEX_IDS[i], geom: point(v) })),
+  );
+  if (verticesError) throw verticesError;
+
+  const edge = (id: number, source: number, target: number, reverse: number) => ({
+    id,
+    source,
+    target,
+    length_m: 1000,
+    car_cost_s: 60,
+    car_reverse_cost_s: reverse,
+    foot_cost_s: 720,
+  });
+  const { error: edgesError } = await service.from("road_edges").upsert([
+    { ...edge(9_000_001, VERTEX_IDS[0], VERTEX_IDS[1], 60), geom: line(WEST, MIDDLE) },
+    { ...edge(9_000_002, VERTEX_IDS[1], VERTEX_IDS[2], -1), geom: line(MIDDLE, EAST) },
+  ]);
+  if (edgesError) throw edgesError;
+}
+
+Deno.test("routing", async (t) => {
+  await seedRoadGraph();
+  const user = await createUser("routing");
+  const [west, east] = await seedEntries(user, [
+    { ...WEST, raw_address: "West end" },
+    { ...EAST, raw_address: "East end" },
+  ]);
+
+  const routing = <T = Body>(payload: Record<string, unknown>) =>
+    call<T>("routing", payload, { as: user });
+
+  await t.step("route: fastest path with distance, duration and geometry", async () => {
+    const { status, body } = await routing<Body & { geometry: { type: string } }>({
+      action: "route",
+      from: WEST,
+      to: EAST,
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.profile, "car");
+    assert.equal(body.distance_m, 2000);
+    assert.equal(body.duration_s, 120);
+    assert.equal(body.geometry.type, "LineString");
+  });
+
+  await t.step("route: one-way roads apply to cars but not walking", async () => {
+    const car = await routing({ action: "route", from: { registry_id: east.id }, to: WEST });
+    assert.equal(car.status, 404);
+
+    const foot = await routing({ action: "route", from: EAST, to: WEST, profile: "foot" });
+    assert.equal(foot.body.duration_s, 1440);
+  });
+
+  await t.step("route: points must be near the network", async () => {
+    const { status, body } = await routing({ action: "route", from: WEST, to: { lat: 0, lon: 0 } });
+
+    assert.equal(status, 404);
+    assert.equal(body.error, "No route found (points must be within 1000 m of the road network)");
+  });
+
+  await t.step("matrix: square matrices in input order, null when unreachable", async () => {
+    const { body } = await routing({ action: "matrix", registry_ids: [west.id, east.id] });
+
+    assert.deepEqual(body.missing, []);
+    assert.deepEqual(body.distances_m, [[0, 2000], [null, 0]]);
+    assert.deepEqual(body.durations_s, [[0, 120], [null, 0]]);
+  });
+
+  await t.step("matrix: at most 32 entries, so every pair fits in one response", async () => {
+    const registry_ids = Array.from({ length: 33 }, () => crypto.randomUUID());
+    const { status, body } = await routing({ action: "matrix", registry_ids });
+
+    assert.equal(status, 400);
+    assert.equal(body.code, "validation_failed");
+  });
+
+  await t.step("isochrone: vertices reached in time, saved as geofences", async () => {
+    const { status, body } = await routing<Isochrones>({
+      action: "isochrone",
+      origin: { registry_id: west.id },
+      minutes: [1.5, 3],
+      save_as_geofence: { name: "West end reach" },
+    });
+
+    assert.equal(status, 200);
+    assert.deepEqual(
+      body.isochrones.map((i) => [i.minutes, i.reached_vertices]),
+      [[1.5, 2], [3, 3]],
+    );
+    assert.equal(body.isochrones[0].boundary.type, "MultiPolygon");
+
+    const fence = await call("geofence", {
+      action: "get",
+      fence_id: body.isochrones[1].geofence_id,
+    }, {
+      as: user,
+    });
+    assert.equal(fence.body.name, "West end reach (3 min)");
+  });
+
+  await t.step("isochrone: only editors save geofences", async () => {
+    const viewer = await createViewer("routing-viewer");
+    const isochrone = { action: "isochrone", origin: WEST, minutes: 3 };
+
+    const saved = await call("routing", {
+      ...isochrone,
+      save_as_geofence: { name: "Viewer reach" },
+    }, { as: viewer });
+    assert.equal(saved.status, 403);
+
+    const viewed = await call("routing", isochrone, { as: viewer });
+    assert.equal(viewed.status, 200);
+  });
+
+  await t.step("registry waypoints must be visible to the caller", async () => {
+    const other = await createUser("routing-other");
+    const { status, body } = await call("routing", {
+      action: "route",
+      from: { registry_id: west.id },
+      to: EAST,
+    }, { as: other });
+
+    assert.equal(status, 400);
+    assert.equal(body.error, "'from': geo_registry entry not found");
+  });
+});
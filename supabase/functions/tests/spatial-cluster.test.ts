@@ -0,0 +1,268 @@
+import assert from "node:assert/strict";
+import { call, createUser, createViewer, type ErrorBody, offset, seedEntries } from "./helpers.ts";
+
+const origin = { lat: 47.9184, lon: 106.9177 };
+
+interface Cluster {
+  cluster_id: number;
+  cluster_center: { type: string; coordinates: number[] };
+  point_count: number;
+  member_ids: string[];
+  addresses: string[];
+  avg_confidence: number;
+  hull: { type: string } | null;
+  hull_area_m2: number | null;
+  geofence_id: string | null;
+}
+
+interface Clusters {
+  algorithm: string;
+  count: number;
+  clusters: Cluster[];
+}
+
+Deno.test("spatial-cluster", async (t) => {
+  const user = await createUser("cluster");
+
+  // Three entries within ~50 m, two more ~3 km north, one lone entry ~1.5 km east
+  const west = [offset(origin, 0), offset(origin, 30), offset(origin, 15, 30)];
+  const north = [offset(origin, 3000), offset(origin, 3040)];
+  const lone = offset(origin, 0, 1500);
+  // Two entries 400 m apart east-west, well away from the others
+  const south = offset(origin, -20000);
+  const pair = [south, offset(south, 0, 400)];
+
+  const seeded = await seedEntries(user, [
+    ...west.map((p, i) => ({ ...p, raw_address: `West ${i}`, confidence_score: 0.9 })),
+    ...north.map((p, i) => ({ ...p, raw_address: `North ${i}`, confidence_score: 0.5 + i * 0.25 })),
+    { ...lone, raw_address: "Lone", confidence_score: 0.3 },
+    ...pair.map((p, i) => ({ ...p, raw_address: `Pair ${i}` })),
+  ]);
+  const westIds = seeded.slice(0, 3).map((e) => e.id).sort();
+
+  const dense = { ...origin, radius_m: 10000, cluster_distance_m: 300, min_points: 2 };
+  const counts = (clusters: { point_count: number }[]) => clusters.map((c) => c.point_count);
+
+  await t.step("groups dense entries and drops noise below min_points", async () => {
+    const { status, body } = await call<Clusters>("spatial-cluster", dense, { as: user });
+
+    assert.equal(status, 200);
+    assert.equal(body.algorithm, "dbscan");
+    assert.equal(body.count, 2);
+
+    const [big, small] = body.clusters;
+    assert.equal(big.point_count, 3);
+    assert.deepEqual(big.member_ids, westIds);
+    assert.deepEqual([...big.addresses].sort(), ["West 0", "West 1", "West 2"]);
+    assert.equal(big.avg_confidence, 0.9);
+    assert.equal(small.point_count, 2);
+    assert.deepEqual([...small.addresses].sort(), ["North 0", "North 1"]);
+    assert.equal(small.avg_confidence, 0.63);
+  });
+
+  await t.step("returns each cluster center as a GeoJSON point at the centroid", async () => {
+    const { body } = await call<Clusters>("spatial-cluster", dense, { as: user });
+
+    const center = body.clusters[1].cluster_center;
+    assert.equal(center.type, "Point");
+    const [lon, lat] = center.coordinates;
+    assert.ok(Math.abs(lat - (north[0].lat + north[1].lat) / 2) < 1e-4);
+    assert.ok(Math.abs(lon - origin.lon) < 1e-4);
+  });
+
+  await t.step("keeps single entries as clusters with min_points 1", async () => {
+    const { body } = await call<Clusters>("spatial-cluster", {
+      ...origin,
+      radius_m: 10000,
+      cluster_distance_m: 300,
+      min_points: 1,
+    }, { as: user });
+
+    assert.deepEqual(counts(body.clusters), [3, 2, 1]);
+  });
+
+  await t.step("measures cluster distance in meters east-west too", async () => {
+    // 400 m east is ~0.0054° of longitude here, more than 450 m worth of latitude
+    const joined = await call<Clusters>("spatial-cluster", {
+      ...south,
+      radius_m: 1000,
+      cluster_distance_m: 450,
+    }, { as: user });
+    assert.deepEqual(counts(joined.body.clusters), [2]);
+
+    const split = await call<Clusters>("spatial-cluster", {
+      ...south,
+      radius_m: 1000,
+      cluster_distance_m: 350,
+    }, { as: user });
+    assert.deepEqual(counts(split.body.clusters), [1, 1]);
+  });
+
+  await t.step("returns convex hulls with their area", async () => {
+    const { body } = await call<Clusters>("spatial-cluster", dense, { as: user });
+
+    const [big, small] = body.clusters;
+    assert.equal(big.hull?.type, "Polygon");
+    // A triangle with a 30 m base and a 30 m height
+    assert.ok(Math.abs(big.hull_area_m2! - 450) < 5);
+    // Two entries only span a line
+    assert.equal(small.hull?.type, "LineString");
+    assert.equal(small.hull_area_m2, 0);
+  });
+
+  await t.step("returns concave, buffered or no hulls", async () => {
+    const concave = await call<Clusters>("spatial-cluster", { ...dense, hull: "concave" }, {
+      as: user,
+    });
+    assert.equal(concave.body.clusters[0].hull?.type, "Polygon");
+
+    const buffered = await call<Clusters>("spatial-cluster", { ...dense, hull_buffer_m: 10 }, {
+      as: user,
+    });
+    assert.equal(buffered.body.clusters[1].hull?.type, "Polygon");
+    assert.ok(buffered.body.clusters[1].hull_area_m2! > 0);
+
+    const none = await call<Clusters>("spatial-cluster", { ...dense, hull: "none" }, { as: user });
+    assert.equal(none.body.clusters[0].hull, null);
+    assert.equal(none.body.clusters[0].hull_area_m2, null);
+  });
+
+  await t.step("kmeans: assigns every entry to one of num_clusters clusters", async () => {
+    const { status, body } = await call<Clusters>("spatial-cluster", {
+      algorithm: "kmeans",
+      ...origin,
+      radius_m: 10000,
+      num_clusters: 3,
+    }, { as: user });
+
+    assert.equal(status, 200);
+    assert.equal(body.algorithm, "kmeans");
+    assert.deepEqual(counts(body.clusters), [3, 2, 1]);
+    assert.deepEqual(body.clusters[0].member_ids, westIds);
+  });
+
+  await t.step("kmeans: requires num_clusters", async () => {
+    const { status, body } = await call<ErrorBody>("spatial-cluster", {
+      algorithm: "kmeans",
+      ...origin,
+    }, {
+      as: user,
+    });
+
+    assert.equal(status, 400);
+    assert.equal(body.code, "validation_failed");
+  });
+
+  await t.step("grid: groups entries by cell and drops sparse cells", async () => {
+    const grid = { algorithm: "grid", ...origin, radius_m: 10000, cluster_distance_m: 1000 };
+
+    const all = await call<Clusters>("spatial-cluster", grid, { as: user });
+    assert.equal(all.status, 200);
+    assert.equal(counts(all.body.clusters).reduce((a, b) => a + b, 0), 6);
+
+    // The lone entry is more than a cell's diagonal from any other
+    const busy = await call<Clusters>("spatial-cluster", { ...grid, min_points: 2 }, { as: user });
+    assert.ok(
+      busy.body.clusters.every((c) => !c.addresses.includes("Lone")),
+    );
+  });
+
+  await t.step("saves polygon hulls as geofences", async () => {
+    const { status, body } = await call<Clusters>("spatial-cluster", {
+      ...dense,
+      save_as_geofence: { name: "Hotspot" },
+    }, { as: user });
+
+    assert.equal(status, 200);
+    const [big, small] = body.clusters;
+    assert.equal(small.geofence_id, null);
+
+    const fence = await call<{
+      name: string;
+      metadata: { cluster: { member_ids: string[] } };
+    }>("geofence", { action: "get", fence_id: big.geofence_id }, {
+      as: user,
+    });
+    assert.equal(fence.body.name, `Hotspot (cluster ${big.cluster_id})`);
+    assert.deepEqual(fence.body.metadata.cluster.member_ids, westIds);
+  });
+
+  await t.step("saves the clusters asked for, buffered into polygons", async () => {
+    const listed = await call<Clusters>("spatial-cluster", dense, { as: user });
+    const northId = listed.body.clusters[1].cluster_id;
+    const save_as_geofence = { name: "North", cluster_ids: [northId] };
+
+    const line = await call<ErrorBody>("spatial-cluster", { ...dense, save_as_geofence }, {
+      as: user,
+    });
+    assert.equal(line.status, 400);
+    assert.equal(
+      line.body.error,
+      `Cluster ${northId} has no polygon hull; set 'hull_buffer_m' to save it`,
+    );
+
+    const { body } = await call<Clusters>("spatial-cluster", {
+      ...dense,
+      hull_buffer_m: 25,
+      save_as_geofence,
+    }, { as: user });
+    assert.equal(body.clusters[0].geofence_id, null);
+    assert.equal(typeof body.clusters[1].geofence_id, "string");
+
+    const check = await call("geofence", { action: "check", ...north[0] }, { as: user });
+    assert.equal(check.body.inside, true);
+  });
+
+  await t.step("rejects unknown clusters and saving without a hull", async () => {
+    const unknown = await call<ErrorBody>("spatial-cluster", {
+      ...dense,
+      save_as_geofence: { name: "Nowhere", cluster_ids: [99] },
+    }, { as: user });
+    assert.equal(unknown.status, 400);
+    assert.equal(unknown.body.error, "Unknown cluster_ids: 99");
+
+    const hullless = await call<Clusters>("spatial-cluster", {
+      ...dense,
+      hull: "none",
+      save_as_geofence: { name: "Nowhere" },
+    }, { as: user });
+    assert.equal(hullless.status, 400);
+
+    // Single entries only have points for hulls
+    const pointsOnly = await call<Clusters>("spatial-cluster", {
+      ...south,
+      radius_m: 1000,
+      cluster_distance_m: 350,
+      save_as_geofence: { name: "Nowhere" },
+    }, { as: user });
+    assert.equal(pointsOnly.status, 400);
+  });
+
+  await t.step("only editors save geofences", async () => {
+    const viewer = await createViewer("cluster-viewer");
+    const { status } = await call<Clusters>("spatial-cluster", {
+      ...dense,
+      save_as_geofence: { name: "Viewer hotspot" },
+    }, { as: viewer });
+
+    assert.equal(status, 403);
+  });
+
+  await t.step("rejects a cluster distance larger than the radius", async () => {
+    const { status, body } = await call<ErrorBody>("spatial-cluster", {
+      ...origin,
+      radius_m: 100,
+      cluster_distance_m: 500,
+    }, { as: user });
+
+    assert.equal(status, 400);
+    assert.equal(body.code, "invalid_request");
+  });
+
+  await t.step("requires credentials", async () => {
+    const { status, body } = await call<ErrorBody>("spatial-cluster", origin, { as: null });
+
+    assert.equal(status, 401);
+    assert.equal(body.code, "unauthenticated");
+  });
+});
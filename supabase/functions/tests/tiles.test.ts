@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { call, createUser, type ErrorBody, seedEntries, type TestUser } from "./helpers.ts";
+
+const point = { lat: 47.92, lon: 106.92 };
+
+// Web Mercator tile containing a point
+function tileOf({ lat, lon }: { lat: number; lon: number }, z: number) {
+  const n = 2 ** z;
+  const rad = (lat * Math.PI) / 180;
+  const x = Math.floor(((lon + 180) / 360) * n);
+  const y = Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n);
+  return `${z}/${x}/${y}`;
+}
+
+const contains = (tile: Uint8Array, text: string) => new TextDecoder().decode(tile).includes(text);
+
+Deno.test("tiles", async (t) => {
+  const user = await createUser("tiles");
+  await seedEntries(user, [{ ...point, raw_address: "Tile point" }]);
+
+  const tile = <T = Uint8Array>(path: string, as: TestUser = user) =>
+    call<T>(`tiles/${path}`, undefined, { as, method: "GET" });
+
+  await t.step("returns registry points as a vector tile", async () => {
+    const { status, headers, body } = await tile(tileOf(point, 15));
+
+    assert.equal(status, 200);
+    assert.equal(headers.get("Content-Type"), "application/vnd.mapbox-vector-tile");
+    assert.ok(contains(body, "registry"));
+    assert.ok(contains(body, "Tile point"));
+  });
+
+  await t.step("clusters points up to cluster_max_zoom", async () => {
+    const { body } = await tile(`${tileOf(point, 15)}?cluster_max_zoom=15`);
+
+    assert.ok(contains(body, "point_count"));
+    assert.ok(!contains(body, "Tile point"));
+  });
+
+  await t.step("empty tiles are 204", async () => {
+    const { status } = await tile(tileOf({ lat: -40, lon: -60 }, 15));
+    assert.equal(status, 204);
+  });
+
+  await t.step("rejects tiles out of range", async () => {
+    const { status, body } = await tile<ErrorBody>("2/4/0");
+
+    assert.equal(status, 400);
+    assert.equal(body.error, "Tile out of range (z: 0..22, x/y: 0..2^z-1)");
+  });
+
+  await t.step("only draws the caller's organization", async () => {
+    const other = await createUser("tiles-other");
+    const { status } = await tile(tileOf(point, 15), other);
+    assert.equal(status, 204);
+  });
+});
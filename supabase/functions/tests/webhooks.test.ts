@@ -0,0 +1,225 @@
+import assert from "node:assert/strict";
+import { signPayload } from "../_shared/webhooks.ts";
+import {
+  type Body,
+  call,
+  createUser,
+  FIXTURE_URL_FROM_FUNCTIONS,
+  receivedDeliveries,
+  seedEntries,
+} from "./helpers.ts";
+
+const SECRET = "test-secret-0123456789";
+
+interface LowConfidence {
+  entry: { raw_address: string };
+}
+
+interface Subscription {
+  id: string;
+  secret?: string;
+  event_types: string[];
+  active: boolean;
+}
+
+interface TestDelivery {
+  ok: boolean;
+  status_code: number | null;
+  error: string | null;
+  delivery_id: string;
+}
+
+interface Deliveries {
+  count: number;
+  deliveries: {
+    id: string;
+    event_type: string;
+    status: string;
+    attempts: number;
+    last_status_code: number | null;
+    last_error: string | null;
+    payload: LowConfidence;
+  }[];
+}
+
+Deno.test("webhooks and webhook-dispatcher", async (t) => {
+  const user = await createUser("webhooks");
+  const hooks = <T = Body>(payload: Record<string, unknown>, as = user) =>
+    call<T>("webhooks", payload, { as });
+
+  const { status, body: subscription } = await hooks<Subscription>({
+    action: "create",
+    url: `${FIXTURE_URL_FROM_FUNCTIONS}/hooks/200`,
+    event_types: ["geocode.low_confidence", "geocode.low_confidence"],
+    low_confidence_threshold: 0.5,
+    secret: SECRET,
+  });
+
+  await t.step("creates subscriptions, returning the secret once", async () => {
+    assert.equal(status, 201);
+    assert.equal(subscription.secret, SECRET);
+    assert.deepEqual(subscription.event_types, ["geocode.low_confidence"]);
+
+    const { body } = await hooks<{ count: number; subscriptions: Subscription[] }>({
+      action: "list",
+    });
+    assert.equal(body.count, 1);
+    assert.equal(body.subscriptions[0].secret, undefined);
+  });
+
+  await t.step("validates the url and secret, refusing internal addresses", async () => {
+    const ftp = await hooks({
+      action: "create",
+      url: "ftp://example.com/hook",
+      event_types: ["geofence.enter"],
+    });
+    assert.equal(ftp.status, 400);
+    assert.equal(ftp.body.error, "'url' must be an http(s) URL");
+
+    const short = await hooks({
+      action: "create",
+      url: "https://example.com/hook",
+      event_types: ["geofence.enter"],
+      secret: "short",
+    });
+    assert.equal(short.body.code, "validation_failed");
+
+    for (
+      const url of ["http://localhost:8080/", "http://169.254.169.254/latest", "http://10.0.0.5/"]
+    ) {
+      const internal = await hooks({ action: "create", url, event_types: ["geofence.enter"] });
+      assert.equal(internal.status, 400, url);
+      assert.equal(
+        internal.body.error,
+        "'url' must not point to a loopback, private or link-local address",
+      );
+    }
+
+    const moved = await hooks({
+      action: "update",
+      subscription_id: subscription.id,
+      url: "http://[::1]/hooks",
+    });
+    assert.equal(moved.status, 400);
+  });
+
+  await t.step("test sends a signed webhook.test event right away", async () => {
+    const { body } = await hooks<TestDelivery>({
+      action: "test",
+      subscription_id: subscription.id,
+    });
+
+    assert.equal(body.ok, true);
+    assert.equal(body.status_code, 200);
+
+    const received = (await receivedDeliveries<{ subscription_id: string }>()).find((d) =>
+      d.id === body.delivery_id
+    )!;
+    assert.equal(received.event, "webhook.test");
+    assert.equal(received.body.data.subscription_id, subscription.id);
+
+    const timestamp = Number(received.signature.match(/^t=(\d+),/)![1]);
+    assert.equal(
+      received.signature,
+      await signPayload(SECRET, timestamp, JSON.stringify(received.body)),
+    );
+  });
+
+  await t.step("low-confidence entries queue deliveries", async () => {
+    await seedEntries(user, [
+      { lat: 47.92, lon: 106.92, raw_address: "Doubtful", confidence_score: 0.2 },
+      { lat: 47.92, lon: 106.92, raw_address: "Certain", confidence_score: 0.9 },
+    ]);
+
+    const { body } = await hooks<Deliveries>({ action: "deliveries", status: "pending" });
+    assert.equal(body.count, 1);
+    assert.equal(body.deliveries[0].event_type, "geocode.low_confidence");
+    assert.equal(body.deliveries[0].payload.entry.raw_address, "Doubtful");
+  });
+
+  await t.step("the dispatcher only runs with the service role", async () => {
+    const { status } = await call("webhook-dispatcher", {}, { as: user });
+    assert.equal(status, 403);
+  });
+
+  await t.step("the dispatcher sends due deliveries", async () => {
+    const { status, body } = await call<{ delivered: number }>("webhook-dispatcher", {}, {
+      as: "service_role",
+    });
+    assert.equal(status, 200);
+    assert.ok(body.delivered >= 1);
+
+    const { body: log } = await hooks<Deliveries>({
+      action: "deliveries",
+      subscription_id: subscription.id,
+    });
+    const sent = log.deliveries.find((d) => d.event_type === "geocode.low_confidence")!;
+    assert.equal(sent.status, "delivered");
+    assert.equal(sent.attempts, 1);
+    assert.equal(sent.last_status_code, 200);
+
+    const received = (await receivedDeliveries<LowConfidence>()).find((d) => d.id === sent.id)!;
+    assert.equal(received.body.data.entry.raw_address, "Doubtful");
+  });
+
+  await t.step("failed deliveries can be redelivered, and are retried", async () => {
+    const { body: failing } = await hooks<Subscription>({
+      action: "create",
+      url: `${FIXTURE_URL_FROM_FUNCTIONS}/hooks/500`,
+      event_types: ["geofence.enter"],
+    });
+
+    const test = await hooks<TestDelivery>({ action: "test", subscription_id: failing.id });
+    assert.deepEqual([test.body.ok, test.body.status_code, test.body.error], [
+      false,
+      500,
+      "HTTP 500",
+    ]);
+
+    const redelivered = await hooks({ action: "redeliver", delivery_id: test.body.delivery_id });
+    assert.equal(redelivered.body.status, "pending");
+    assert.equal(redelivered.body.attempts, 0);
+
+    await call("webhook-dispatcher", {}, { as: "service_role" });
+    const { body } = await hooks<Deliveries>({ action: "deliveries", subscription_id: failing.id });
+    assert.equal(body.deliveries[0].status, "pending");
+    assert.equal(body.deliveries[0].attempts, 1);
+    assert.equal(body.deliveries[0].last_error, "HTTP 500");
+
+    const again = await hooks({ action: "redeliver", delivery_id: test.body.delivery_id });
+    assert.equal(again.status, 409);
+  });
+
+  await t.step("updates, pauses and rotates secrets", async () => {
+    const { body } = await hooks<Subscription>({
+      action: "update",
+      subscription_id: subscription.id,
+      active: false,
+      rotate_secret: true,
+    });
+
+    assert.equal(body.active, false);
+    assert.match(body.secret!, /^whsec_[0-9a-f]{48}$/);
+
+    const nothing = await hooks({ action: "update", subscription_id: subscription.id });
+    assert.equal(nothing.body.error, "Nothing to update");
+  });
+
+  await t.step("subscriptions are private to their creator", async () => {
+    const other = await createUser("webhooks-other");
+
+    const test = await hooks({ action: "test", subscription_id: subscription.id }, other);
+    assert.equal(test.status, 404);
+
+    const deleted = await hooks({ action: "delete", subscription_id: subscription.id }, other);
+    assert.equal(deleted.status, 404);
+  });
+
+  await t.step("deletes subscriptions", async () => {
+    const { body } = await hooks({ action: "delete", subscription_id: subscription.id });
+    assert.deepEqual(body, { deleted: true, id: subscription.id });
+
+    const again = await hooks({ action: "delete", subscription_id: subscription.id });
+    assert.equal(again.status, 404);
+  });
+});
@@ -0,0 +1,58 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { MAX_ZOOM, tilesSpec } from "../_shared/schemas/tiles.ts";
+
+const TILE_PATH = /\/(\d+)\/(\d+)\/(\d+)(?:\.(?:mvt|pbf))?$/;
+
+// PostgREST returns bytea as a "\x"-prefixed hex string
+function decodeBytea(hex: string) {
+  const digits = hex.startsWith("\\x") ? hex.slice(2) : hex;
+  const bytes = new Uint8Array(digits.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+serve(tilesSpec, async (_payload, { req, caller }) => {
+  const url = new URL(req.url);
+  const match = url.pathname.match(TILE_PATH);
+
+  if (!match) {
+    return jsonResponse({ error: "Tile path must be /tiles/{z}/{x}/{y}" }, 400);
+  }
+
+  const [z, x, y] = match.slice(1, 4).map(Number);
+  const size = 2 ** z;
+
+  if (z > MAX_ZOOM || x >= size || y >= size) {
+    return jsonResponse({ error: `Tile out of range (z: 0..${MAX_ZOOM}, x/y: 0..2^z-1)` }, 400);
+  }
+
+  const clusterParam = url.searchParams.get("cluster_max_zoom");
+  const cluster_max_zoom = clusterParam !== null ? Number(clusterParam) : 13;
+
+  if (!Number.isInteger(cluster_max_zoom) || cluster_max_zoom < -1) {
+    return jsonResponse({ error: "'cluster_max_zoom' must be an integer >= -1" }, 400);
+  }
+
+  // Act as the caller so RLS policies are enforced
+  const { data, error } = await caller.client.rpc("map_tile", { z, x, y, cluster_max_zoom });
+
+  if (error) return jsonResponse({ error: error.message }, 500);
+
+  const tile = decodeBytea(data ?? "");
+  if (tile.length === 0) {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  return new Response(tile, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/vnd.mapbox-vector-tile",
+      "Cache-Control": "private, max-age=60",
+    },
+  });
+});
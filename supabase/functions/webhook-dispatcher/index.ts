@@ -0,0 +1,87 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import {
+  backoffSeconds,
+  type DeliveryOutcome,
+  MAX_DELIVERY_ATTEMPTS,
+  sendDelivery,
+  type WebhookDelivery,
+} from "../_shared/webhooks.ts";
+import { webhookDispatcherSpec } from "../_shared/schemas/workers.ts";
+
+const WORKER_BUDGET_MS = 50_000; // stay well inside the edge function wall-clock limit
+const BATCH_SIZE = 25;
+const LEASE_SECONDS = 60;
+
+interface ClaimedDelivery extends WebhookDelivery {
+  attempts: number;
+  subscription_id: string;
+  active: boolean;
+}
+
+// Record one attempt: delivered, retried later with backoff, or given up on
+async function recordAttempt(
+  supabase: SupabaseClient,
+  delivery: ClaimedDelivery,
+  outcome: DeliveryOutcome,
+): Promise<"delivered" | "pending" | "failed"> {
+  const attempts = delivery.attempts + 1;
+  const status = outcome.ok
+    ? "delivered"
+    : attempts >= MAX_DELIVERY_ATTEMPTS
+    ? "failed"
+    : "pending";
+
+  const { error } = await supabase
+    .from("webhook_deliveries")
+    .update({
+      status,
+      attempts,
+      last_status_code: outcome.status_code,
+      last_error: outcome.error,
+      delivered_at: outcome.ok ? new Date().toISOString() : null,
+      next_attempt_at: new Date(Date.now() + backoffSeconds(attempts) * 1000).toISOString(),
+    })
+    .eq("id", delivery.id);
+
+  if (error) throw new Error(error.message);
+  return status;
+}
+
+serve(webhookDispatcherSpec, async (_payload, { caller }) => {
+  const started = Date.now();
+  const supabase = caller.client;
+
+  const counts = { delivered: 0, pending: 0, failed: 0 };
+
+  while (Date.now() - started < WORKER_BUDGET_MS) {
+    const { data: claimed, error: claimError } = await supabase.rpc(
+      "claim_webhook_deliveries",
+      { batch_size: BATCH_SIZE, lease_seconds: LEASE_SECONDS },
+    );
+
+    if (claimError) return jsonResponse({ error: claimError.message }, 500);
+    if (!claimed?.length) break;
+
+    const statuses = await Promise.all(
+      (claimed as ClaimedDelivery[]).map(async (delivery) => {
+        // Deliveries queued before a subscription was paused are not sent
+        if (!delivery.active) {
+          const { error } = await supabase
+            .from("webhook_deliveries")
+            .update({ status: "failed", last_error: "Subscription is inactive" })
+            .eq("id", delivery.id);
+          if (error) throw new Error(error.message);
+          return "failed" as const;
+        }
+
+        return recordAttempt(supabase, delivery, await sendDelivery(delivery));
+      }),
+    );
+
+    for (const status of statuses) counts[status]++;
+  }
+
+  return jsonResponse({ ...counts, elapsed_ms: Date.now() - started });
+});
@@ -0,0 +1,254 @@
+import { createServiceClient } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/http.ts";
+import { serve } from "../_shared/handler.ts";
+import { checkWebhookUrl, generateSecret, sendDelivery } from "../_shared/webhooks.ts";
+import { webhooksSpec } from "../_shared/schemas/webhooks.ts";
+
+const SUBSCRIPTION_COLUMNS =
+  "id, url, event_types, fence_ids, low_confidence_threshold, active, description, created_at";
+const DELIVERY_COLUMNS =
+  "id, subscription_id, event_type, payload, status, attempts, next_attempt_at, " +
+  "last_status_code, last_error, delivered_at, created_at";
+
+interface SubscriptionFields {
+  url?: string;
+  event_types?: string[];
+  fence_ids?: string[] | null;
+  low_confidence_threshold?: number;
+  active?: boolean;
+  description?: string | null;
+}
+
+interface CreatePayload extends SubscriptionFields {
+  action: "create";
+  secret?: string; // generated when omitted
+}
+
+interface UpdatePayload extends SubscriptionFields {
+  action: "update";
+  subscription_id: string;
+  rotate_secret?: boolean;
+}
+
+interface SubscriptionPayload {
+  action: "delete" | "test";
+  subscription_id: string;
+}
+
+interface DeliveriesPayload {
+  action: "deliveries";
+  subscription_id?: string;
+  status?: "pending" | "delivered" | "failed";
+  limit?: number;
+}
+
+interface RedeliverPayload {
+  action: "redeliver";
+  delivery_id: string;
+}
+
+type RequestPayload =
+  | CreatePayload
+  | UpdatePayload
+  | SubscriptionPayload
+  | DeliveriesPayload
+  | RedeliverPayload
+  | { action: "list" };
+
+// Pick the subscription columns present in the payload
+async function subscriptionChanges(
+  fields: SubscriptionFields,
+): Promise<string | Record<string, unknown>> {
+  const { url, event_types, fence_ids, low_confidence_threshold, active, description } = fields;
+  const changes: Record<string, unknown> = {};
+
+  if (url !== undefined) {
+    const refused = await checkWebhookUrl(url);
+    if (refused) return refused;
+    changes.url = url;
+  }
+
+  if (event_types !== undefined) changes.event_types = [...new Set(event_types)];
+  if (fence_ids !== undefined) changes.fence_ids = fence_ids;
+  if (low_confidence_threshold !== undefined) {
+    changes.low_confidence_threshold = low_confidence_threshold;
+  }
+  if (active !== undefined) changes.active = active;
+  if (description !== undefined) changes.description = description;
+
+  return changes;
+}
+
+serve<RequestPayload>(webhooksSpec, async (payload, { caller }) => {
+  // Act as the caller so RLS restricts everything to the caller's subscriptions
+  const supabase = caller.client;
+
+  switch (payload.action) {
+    // --- CREATE a subscription; the secret is only returned here ---
+    case "create": {
+      const { secret, ...fields } = payload;
+
+      const changes = await subscriptionChanges(fields);
+      if (typeof changes === "string") return jsonResponse({ error: changes }, 400);
+
+      const { data, error } = await supabase
+        .from("webhook_subscriptions")
+        .insert({ ...changes, secret: secret ?? generateSecret() })
+        .select(`${SUBSCRIPTION_COLUMNS}, secret`)
+        .single();
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      return jsonResponse(data, 201);
+    }
+
+    // --- LIST the caller's subscriptions ---
+    case "list": {
+      const { data, error } = await supabase
+        .from("webhook_subscriptions")
+        .select(SUBSCRIPTION_COLUMNS)
+        .order("created_at", { ascending: false });
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      return jsonResponse({ count: (data ?? []).length, subscriptions: data });
+    }
+
+    // --- UPDATE fields, pause / resume, or rotate the secret ---
+    case "update": {
+      const { subscription_id, rotate_secret, ...fields } = payload;
+
+      const changes = await subscriptionChanges(fields);
+      if (typeof changes === "string") return jsonResponse({ error: changes }, 400);
+      if (rotate_secret) changes.secret = generateSecret();
+
+      if (Object.keys(changes).length === 0) {
+        return jsonResponse({ error: "Nothing to update" }, 400);
+      }
+
+      const { data, error } = await supabase
+        .from("webhook_subscriptions")
+        .update(changes)
+        .eq("id", subscription_id)
+        .select(rotate_secret ? `${SUBSCRIPTION_COLUMNS}, secret` : SUBSCRIPTION_COLUMNS);
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!data?.length) return jsonResponse({ error: "Subscription not found" }, 404);
+      return jsonResponse(data[0]);
+    }
+
+    // --- DELETE a subscription and its delivery log ---
+    case "delete": {
+      const { subscription_id } = payload;
+
+      const { data, error } = await supabase
+        .from("webhook_subscriptions")
+        .delete()
+        .eq("id", subscription_id)
+        .select("id");
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      if (!data?.length) return jsonResponse({ error: "Subscription not found" }, 404);
+      return jsonResponse({ deleted: true, id: subscription_id });
+    }
+
+    // --- TEST: send a webhook.test event right away and log it ---
+    case "test": {
+      const { subscription_id } = payload;
+
+      const { data: subscription, error: subError } = await supabase
+        .from("webhook_subscriptions")
+        .select("id, url, secret, created_by")
+        .eq("id", subscription_id)
+        .maybeSingle();
+
+      if (subError) return jsonResponse({ error: subError.message }, 500);
+      if (!subscription) return jsonResponse({ error: "Subscription not found" }, 404);
+
+      // Deliveries are read-only for users, so the log entry is written with the service role
+      const serviceClient = createServiceClient();
+
+      const { data: delivery, error: insertError } = await serviceClient
+        .from("webhook_deliveries")
+        .insert({
+          subscription_id,
+          event_type: "webhook.test",
+          payload: { message: "Test delivery", subscription_id },
+          // Sent below; not picked up by the dispatcher
+          status: "failed",
+          created_by: subscription.created_by,
+        })
+        .select("id, event_type, payload, created_at")
+        .single();
+
+      if (insertError) return jsonResponse({ error: insertError.message }, 500);
+
+      const outcome = await sendDelivery({
+        ...delivery,
+        url: subscription.url,
+        secret: subscription.secret,
+      });
+
+      await serviceClient
+        .from("webhook_deliveries")
+        .update({
+          status: outcome.ok ? "delivered" : "failed",
+          attempts: 1,
+          last_status_code: outcome.status_code,
+          last_error: outcome.error,
+          delivered_at: outcome.ok ? new Date().toISOString() : null,
+        })
+        .eq("id", delivery.id);
+
+      return jsonResponse({ delivery_id: delivery.id, ...outcome });
+    }
+
+    // --- DELIVERIES: the delivery log, newest first ---
+    case "deliveries": {
+      const { subscription_id, status, limit = 50 } = payload;
+
+      let query = supabase
+        .from("webhook_deliveries")
+        .select(DELIVERY_COLUMNS)
+        .order("created_at", { ascending: false })
+        .limit(Math.min(limit, 500));
+
+      if (subscription_id) query = query.eq("subscription_id", subscription_id);
+      if (status) query = query.eq("status", status);
+
+      const { data, error } = await query;
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      return jsonResponse({ count: (data ?? []).length, deliveries: data });
+    }
+
+    // --- REDELIVER: queue a failed delivery for another round of attempts ---
+    case "redeliver": {
+      const { delivery_id } = payload;
+
+      // Ownership check through RLS before updating with the service role
+      const { data: existing, error: readError } = await supabase
+        .from("webhook_deliveries")
+        .select("id, status")
+        .eq("id", delivery_id)
+        .maybeSingle();
+
+      if (readError) return jsonResponse({ error: readError.message }, 500);
+      if (!existing) return jsonResponse({ error: "Delivery not found" }, 404);
+
+      if (existing.status !== "failed") {
+        return jsonResponse({ error: "Only failed deliveries can be redelivered" }, 409);
+      }
+
+      const serviceClient = createServiceClient();
+
+      const { data, error } = await serviceClient
+        .from("webhook_deliveries")
+        .update({ status: "pending", attempts: 0, next_attempt_at: new Date().toISOString() })
+        .eq("id", delivery_id)
+        .select(DELIVERY_COLUMNS)
+        .single();
+
+      if (error) return jsonResponse({ error: error.message }, 500);
+      return jsonResponse(data);
+    }
+  }
+});
@@ -0,0 +1,7 @@
+-- Provenance metadata for geo_registry rows (e.g. which geocoding provider produced them)
+alter table geo_registry
+  add column metadata jsonb not null default '{}';
+
+-- Allow filtering rows by the provider that produced them
+create index idx_geo_registry_provider
+  on geo_registry ((metadata ->> 'provider'));
@@ -0,0 +1,43 @@
+-- Normalized form of an address used as the geocode cache and dedup key.
+-- Must stay in sync with normalizeAddress() in _shared/geocode-cache.ts.
+create or replace function normalize_address(address text)
+returns text
+language sql immutable parallel safe
+as $$
+  select trim(regexp_replace(lower(normalize(address, nfkc)), '[^[:alnum:]]+', ' ', 'g'));
+$$;
+
+-- Lets geocode functions find existing registry rows for the same address
+alter table geo_registry
+  add column normalized_address text
+  generated always as (normalize_address(raw_address)) stored;
+
+create index idx_geo_registry_normalized_address
+  on geo_registry (normalized_address);
+
+-- Provider responses keyed by normalized address, so repeated lookups skip the upstream call
+create table geocode_cache (
+  normalized_address text not null,
+  provider text not null,
+  result jsonb,  -- null caches a "not found" answer
+  registry_id uuid references geo_registry(id) on delete set null,
+  created_at timestamptz default now(),
+  expires_at timestamptz not null,
+  primary key (normalized_address, provider)
+);
+
+create index idx_geocode_cache_expires_at on geocode_cache (expires_at);
+
+-- RLS with no policies: only the service role used by the edge functions can access the cache
+alter table geocode_cache enable row level security;
+
+-- Remove expired cache entries, returns the number of rows deleted
+create or replace function purge_geocode_cache()
+returns bigint
+language sql volatile
+as $$
+  with deleted as (
+    delete from geocode_cache where expires_at <= now() returning 1
+  )
+  select count(*) from deleted;
+$$;
@@ -0,0 +1,21 @@
+-- Ranked candidate lists returned by `geocode` in candidates mode. The caller
+-- commits one of them to geo_registry in a follow-up request.
+create table geocode_candidate_sets (
+  id uuid primary key default gen_random_uuid(),
+  raw_address text not null,
+  provider text not null,
+  candidates jsonb not null,  -- provider results in ranked order
+  committed_registry_id uuid references geo_registry(id) on delete set null,
+  created_by uuid references auth.users(id) default auth.uid(),
+  created_at timestamptz default now(),
+  expires_at timestamptz not null default now() + interval '1 day'
+);
+
+create index idx_geocode_candidate_sets_expires_at on geocode_candidate_sets (expires_at);
+
+-- Enable RLS (rows are written by the edge function using the service role)
+alter table geocode_candidate_sets enable row level security;
+
+create policy "Users can view own geocode candidate sets"
+  on geocode_candidate_sets for select to authenticated
+  using (auth.uid() = created_by);
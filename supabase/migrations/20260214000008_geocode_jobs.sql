@@ -0,0 +1,150 @@
+-- Asynchronous batch geocoding jobs processed by the geocode-worker function
+create table geocode_jobs (
+  id uuid primary key default gen_random_uuid(),
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'completed', 'cancelled')),
+  source text,
+  reuse_existing boolean not null default false,
+  total int not null,
+  locked_until timestamptz,  -- worker lease; an expired lease lets another worker resume the job
+  created_by uuid references auth.users(id) default auth.uid(),
+  created_at timestamptz default now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+create index idx_geocode_jobs_pending on geocode_jobs (created_at)
+  where status in ('queued', 'running');
+
+create table geocode_job_items (
+  job_id uuid not null references geocode_jobs(id) on delete cascade,
+  position int not null,
+  address text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'success', 'not_found', 'error')),
+  result jsonb,
+  error text,
+  registry_id uuid references geo_registry(id) on delete set null,
+  processed_at timestamptz,
+  primary key (job_id, position)
+);
+
+create index idx_geocode_job_items_pending on geocode_job_items (job_id, position)
+  where status = 'pending';
+
+-- Enable RLS (jobs are written by the edge functions using the service role)
+alter table geocode_jobs enable row level security;
+alter table geocode_job_items enable row level security;
+
+create policy "Users can view own geocode jobs"
+  on geocode_jobs for select to authenticated
+  using (auth.uid() = created_by);
+
+create policy "Users can view items of own geocode jobs"
+  on geocode_job_items for select to authenticated
+  using (exists (
+    select 1 from geocode_jobs j where j.id = job_id and j.created_by = auth.uid()
+  ));
+
+-- RPC: progress summary of a job, in the same shape as batch-geocode's summary
+create or replace function geocode_job_summary(job_id uuid)
+returns table (
+  total bigint,
+  pending bigint,
+  succeeded bigint,
+  not_found bigint,
+  failed bigint,
+  inserted bigint
+)
+language sql stable
+as $$
+  select
+    count(*) as total,
+    count(*) filter (where i.status = 'pending') as pending,
+    count(*) filter (where i.status = 'success') as succeeded,
+    count(*) filter (where i.status = 'not_found') as not_found,
+    count(*) filter (where i.status = 'error') as failed,
+    count(i.registry_id) as inserted
+  from geocode_job_items i
+  where i.job_id = geocode_job_summary.job_id;
+$$;
+
+-- RPC: lease the oldest job that has work left and no live worker
+create or replace function claim_geocode_job(lease_seconds int default 120)
+returns setof geocode_jobs
+language sql volatile
+as $$
+  update geocode_jobs j
+  set status = 'running',
+      started_at = coalesce(j.started_at, now()),
+      locked_until = now() + make_interval(secs => lease_seconds)
+  where j.id = (
+    select q.id from geocode_jobs q
+    where q.status in ('queued', 'running')
+      and (q.locked_until is null or q.locked_until < now())
+    order by q.created_at
+    limit 1
+    for update skip locked
+  )
+  returning j.*;
+$$;
+
+-- RPC: record a chunk of processed items and their geo_registry rows atomically,
+-- so a worker crash never leaves rows inserted for items still marked pending.
+-- Each element of `items`: { position, status, result?, error?, row? } where `row`
+-- holds the geo_registry columns to insert and `registry_id` an existing row to reuse.
+create or replace function complete_geocode_job_items(job_id uuid, items jsonb)
+returns int
+language plpgsql volatile
+as $$
+declare
+  item jsonb;
+  new_id uuid;
+  done int := 0;
+begin
+  for item in select * from jsonb_array_elements(items) loop
+    -- Skip items another worker already finished after our lease expired
+    perform 1 from geocode_job_items i
+    where i.job_id = complete_geocode_job_items.job_id
+      and i.position = (item ->> 'position')::int
+      and i.status = 'pending'
+    for update;
+
+    if not found then
+      continue;
+    end if;
+
+    new_id := (item ->> 'registry_id')::uuid;
+
+    if item ? 'row' then
+      insert into geo_registry (
+        raw_address, standardized_address, coordinates, source,
+        confidence_score, metadata, created_by
+      )
+      values (
+        item -> 'row' ->> 'raw_address',
+        item -> 'row' -> 'standardized_address',
+        (item -> 'row' ->> 'coordinates')::geography,
+        item -> 'row' ->> 'source',
+        (item -> 'row' ->> 'confidence_score')::float,
+        coalesce(item -> 'row' -> 'metadata', '{}'),
+        (item -> 'row' ->> 'created_by')::uuid
+      )
+      returning id into new_id;
+    end if;
+
+    update geocode_job_items i
+    set status = item ->> 'status',
+        result = item -> 'result',
+        error = item ->> 'error',
+        registry_id = new_id,
+        processed_at = now()
+    where i.job_id = complete_geocode_job_items.job_id
+      and i.position = (item ->> 'position')::int;
+
+    done := done + 1;
+  end loop;
+
+  return done;
+end;
+$$;
@@ -0,0 +1,67 @@
+-- CSV / GeoJSON imports into geo_registry. Rows with coordinates are inserted
+-- directly; rows with only an address are geocoded through a geocode job.
+create table registry_imports (
+  id uuid primary key default gen_random_uuid(),
+  format text not null check (format in ('csv', 'geojson')),
+  source text,
+  total_rows int not null,
+  geocode_job_id uuid references geocode_jobs(id) on delete set null,
+  created_by uuid references auth.users(id) default auth.uid(),
+  created_at timestamptz default now()
+);
+
+create table registry_import_rows (
+  import_id uuid not null references registry_imports(id) on delete cascade,
+  row_number int not null,  -- 1-based data row (CSV header excluded) or feature index + 1
+  status text not null check (status in ('inserted', 'invalid', 'geocoding')),
+  error text,
+  raw jsonb,
+  registry_id uuid references geo_registry(id) on delete set null,
+  job_position int,  -- item position in the import's geocode job
+  primary key (import_id, row_number)
+);
+
+-- Enable RLS (imports are written by the edge function using the service role)
+alter table registry_imports enable row level security;
+alter table registry_import_rows enable row level security;
+
+create policy "Users can view own registry imports"
+  on registry_imports for select to authenticated
+  using (auth.uid() = created_by);
+
+create policy "Users can view rows of own registry imports"
+  on registry_import_rows for select to authenticated
+  using (exists (
+    select 1 from registry_imports i where i.id = import_id and i.created_by = auth.uid()
+  ));
+
+-- RPC: per-row outcome of an import, resolving geocoded rows through their job items
+create or replace function registry_import_report(import_id uuid)
+returns table (
+  row_number int,
+  status text,
+  error text,
+  registry_id uuid,
+  raw jsonb
+)
+language sql stable
+as $$
+  select
+    r.row_number,
+    case
+      when r.status <> 'geocoding' then r.status
+      when j.status = 'success' then 'inserted'
+      when j.status = 'pending' then 'geocoding'
+      when j.status = 'not_found' then 'not_found'
+      else 'error'
+    end as status,
+    coalesce(r.error, j.error) as error,
+    coalesce(r.registry_id, j.registry_id) as registry_id,
+    r.raw
+  from registry_import_rows r
+  join registry_imports i on i.id = r.import_id
+  left join geocode_job_items j
+    on j.job_id = i.geocode_job_id and j.position = r.job_position
+  where r.import_id = registry_import_report.import_id
+  order by r.row_number;
+$$;
@@ -0,0 +1,100 @@
+-- RPC: page through geo_registry for export, ordered by id for keyset pagination.
+-- bbox is [min_lon, min_lat, max_lon, max_lat]; every filter is optional.
+create or replace function export_geo_registry(
+  bbox double precision[] default null,
+  fence_id uuid default null,
+  source_filter text default null,
+  min_confidence float default null,
+  max_confidence float default null,
+  created_by_filter uuid default null,
+  created_after timestamptz default null,
+  created_before timestamptz default null,
+  after_id uuid default null,
+  page_size int default 1000
+)
+returns table (
+  id uuid,
+  raw_address text,
+  standardized_address jsonb,
+  lon double precision,
+  lat double precision,
+  source text,
+  confidence_score float,
+  metadata jsonb,
+  created_by uuid,
+  created_at timestamptz
+)
+language sql stable
+as $$
+  select
+    g.id,
+    g.raw_address,
+    g.standardized_address,
+    st_x(g.coordinates::geometry) as lon,
+    st_y(g.coordinates::geometry) as lat,
+    g.source,
+    g.confidence_score,
+    g.metadata,
+    g.created_by,
+    g.created_at
+  from geo_registry g
+  where (bbox is null or st_intersects(
+          g.coordinates,
+          st_makeenvelope(bbox[1], bbox[2], bbox[3], bbox[4], 4326)::geography))
+    and (fence_id is null or exists (
+          select 1 from geofences f
+          where f.id = fence_id and st_covers(f.boundary, g.coordinates)))
+    and (source_filter is null or g.source = source_filter)
+    and (min_confidence is null or g.confidence_score >= min_confidence)
+    and (max_confidence is null or g.confidence_score <= max_confidence)
+    and (created_by_filter is null or g.created_by = created_by_filter)
+    and (created_after is null or g.created_at >= created_after)
+    and (created_before is null or g.created_at < created_before)
+    and (after_id is null or g.id > after_id)
+  order by g.id
+  limit page_size;
+$$;
+
+-- RPC: page through geofences for export with the boundary as GeoJSON and WKT
+create or replace function export_geofences(
+  bbox double precision[] default null,
+  fence_id uuid default null,
+  created_by_filter uuid default null,
+  created_after timestamptz default null,
+  created_before timestamptz default null,
+  after_id uuid default null,
+  page_size int default 200
+)
+returns table (
+  id uuid,
+  name text,
+  description text,
+  metadata jsonb,
+  boundary text,
+  boundary_wkt text,
+  created_by uuid,
+  created_at timestamptz
+)
+language sql stable
+as $$
+  select
+    f.id,
+    f.name,
+    f.description,
+    f.metadata,
+    st_asgeojson(f.boundary)::text as boundary,
+    st_astext(f.boundary) as boundary_wkt,
+    f.created_by,
+    f.created_at
+  from geofences f
+  where (bbox is null or st_intersects(
+          f.boundary,
+          st_makeenvelope(bbox[1], bbox[2], bbox[3], bbox[4], 4326)::geography))
+    and (fence_id is null or f.id = fence_id)
+    and (created_by_filter is null or f.created_by = created_by_filter)
+    and (created_after is null or f.created_at >= created_after)
+    and (created_before is null or f.created_at < created_before)
+    and (after_id is null or f.id > after_id)
+  order by f.id
+  limit page_size;
+$$;
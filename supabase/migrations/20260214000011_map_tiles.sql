@@ -0,0 +1,75 @@
+-- RPC: Mapbox Vector Tile with a `registry` point layer and a `geofences` polygon layer.
+-- Below `cluster_max_zoom` + 1 registry points are clustered with ST_ClusterDBSCAN (as in
+-- spatial_clusters) using a distance of 1/16 of the tile width. Not security definer,
+-- so the caller's RLS visibility applies.
+create or replace function map_tile(
+  z int,
+  x int,
+  y int,
+  cluster_max_zoom int default 13
+)
+returns bytea
+language plpgsql stable
+as $$
+declare
+  bounds geometry := st_tileenvelope(z, x, y);
+  -- Slightly larger search area so features on tile edges are not cut off
+  search geography := st_transform(st_tileenvelope(z, x, y, margin => 0.0625), 4326)::geography;
+  cluster_eps double precision := (st_xmax(bounds) - st_xmin(bounds)) / 16;
+  registry_layer bytea;
+  fence_layer bytea;
+begin
+  if z <= cluster_max_zoom then
+    select st_asmvt(t, 'registry', 4096, 'geom') into registry_layer
+    from (
+      select
+        c.cid as cluster_id,
+        count(*) as point_count,
+        round(avg(c.confidence_score)::numeric, 2)::float as avg_confidence,
+        -- Singleton clusters keep their registry id so clients can link to the row
+        case when count(*) = 1 then min(c.id::text) end as id,
+        st_asmvtgeom(st_centroid(st_collect(c.geom)), bounds) as geom
+      from (
+        select
+          g.id,
+          g.confidence_score,
+          st_transform(g.coordinates::geometry, 3857) as geom,
+          st_clusterdbscan(
+            st_transform(g.coordinates::geometry, 3857),
+            eps := cluster_eps,
+            minpoints := 1
+          ) over () as cid
+        from geo_registry g
+        where g.coordinates && search
+      ) c
+      group by c.cid
+    ) t;
+  else
+    select st_asmvt(t, 'registry', 4096, 'geom') into registry_layer
+    from (
+      select
+        g.id::text as id,
+        g.raw_address,
+        g.source,
+        g.confidence_score,
+        st_asmvtgeom(st_transform(g.coordinates::geometry, 3857), bounds) as geom
+      from geo_registry g
+      where g.coordinates && search
+    ) t;
+  end if;
+
+  select st_asmvt(t, 'geofences', 4096, 'geom') into fence_layer
+  from (
+    select
+      f.id::text as id,
+      f.name,
+      f.description,
+      st_asmvtgeom(st_transform(f.boundary::geometry, 3857), bounds) as geom
+    from geofences f
+    where f.boundary && search
+  ) t;
+
+  -- MVT layers are independent protobuf messages and can simply be concatenated
+  return coalesce(registry_layer, '') || coalesce(fence_layer, '');
+end;
+$$;
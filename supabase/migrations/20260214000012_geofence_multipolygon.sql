@@ -0,0 +1,48 @@
+-- Allow polygons with holes and multi-part fences: store every boundary as a MultiPolygon
+alter table geofences
+  alter column boundary type geography(multipolygon, 4326)
+  using st_multi(boundary::geometry)::geography;
+
+-- RPC: validate a GeoJSON Polygon / MultiPolygon. For invalid input `reason` explains the
+-- problem (e.g. "Self-intersection") and `location` is a GeoJSON point where it occurs.
+create or replace function geofence_validate(boundary_geojson text)
+returns table (
+  valid boolean,
+  reason text,
+  location text
+)
+language sql immutable
+as $$
+  select
+    d.valid,
+    d.reason,
+    st_asgeojson(d.location)::text as location
+  from st_isvaliddetail(st_setsrid(st_geomfromgeojson(boundary_geojson), 4326)) d;
+$$;
+
+-- RPC: a single geofence with its boundary as GeoJSON
+create or replace function geofence_get(fence_id uuid)
+returns table (
+  id uuid,
+  name text,
+  description text,
+  metadata jsonb,
+  boundary text,
+  area_m2 double precision,
+  created_by uuid,
+  created_at timestamptz
+)
+language sql stable
+as $$
+  select
+    g.id,
+    g.name,
+    g.description,
+    g.metadata,
+    st_asgeojson(g.boundary)::text as boundary,
+    st_area(g.boundary) as area_m2,
+    g.created_by,
+    g.created_at
+  from geofences g
+  where g.id = fence_id;
+$$;
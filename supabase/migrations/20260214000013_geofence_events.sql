@@ -0,0 +1,229 @@
+-- Tracked assets (vehicles, couriers, devices) identified by a caller-chosen asset_id
+create table tracked_assets (
+  id uuid primary key default gen_random_uuid(),
+  asset_id text not null,
+  last_location geography(point, 4326),
+  last_seen_at timestamptz,
+  created_by uuid references auth.users(id) default auth.uid(),
+  created_at timestamptz default now(),
+  unique (created_by, asset_id)
+);
+
+-- Fences each asset is currently inside
+create table asset_fence_state (
+  asset_ref uuid not null references tracked_assets(id) on delete cascade,
+  fence_id uuid not null references geofences(id) on delete cascade,
+  entered_at timestamptz not null,
+  last_seen_at timestamptz not null,
+  dwell_emitted boolean not null default false,
+  created_by uuid references auth.users(id) default auth.uid(),
+  primary key (asset_ref, fence_id)
+);
+
+create index idx_asset_fence_state_fence on asset_fence_state (fence_id);
+
+-- Transition history
+create table geofence_events (
+  id uuid primary key default gen_random_uuid(),
+  asset_ref uuid not null references tracked_assets(id) on delete cascade,
+  fence_id uuid references geofences(id) on delete set null,
+  event_type text not null check (event_type in ('enter', 'exit', 'dwell')),
+  occurred_at timestamptz not null,
+  location geography(point, 4326) not null,
+  created_by uuid references auth.users(id) default auth.uid(),
+  created_at timestamptz default now()
+);
+
+create index idx_geofence_events_asset on geofence_events (asset_ref, occurred_at desc);
+create index idx_geofence_events_fence on geofence_events (fence_id, occurred_at desc);
+
+-- Enable RLS: assets, their state and events are private to their owner
+alter table tracked_assets enable row level security;
+alter table asset_fence_state enable row level security;
+alter table geofence_events enable row level security;
+
+create policy "Users manage own tracked assets"
+  on tracked_assets for all to authenticated
+  using (auth.uid() = created_by)
+  with check (auth.uid() = created_by);
+
+create policy "Users manage own asset fence state"
+  on asset_fence_state for all to authenticated
+  using (auth.uid() = created_by)
+  with check (auth.uid() = created_by);
+
+create policy "Users view own geofence events"
+  on geofence_events for select to authenticated
+  using (auth.uid() = created_by);
+
+create policy "Users insert own geofence events"
+  on geofence_events for insert to authenticated
+  with check (auth.uid() = created_by);
+
+-- RPC: record a location ping and return the enter / exit / dwell events it causes.
+-- A fence's dwell threshold is metadata.dwell_seconds, falling back to `dwell_seconds`.
+-- Pings older than the asset's latest ping are ignored so late deliveries cannot
+-- replay transitions out of order.
+create or replace function record_asset_ping(
+  asset_id text,
+  lat double precision,
+  lon double precision,
+  recorded_at timestamptz default now(),
+  dwell_seconds int default 300
+)
+returns table (
+  event_id uuid,
+  fence_id uuid,
+  fence_name text,
+  event_type text,
+  occurred_at timestamptz
+)
+language plpgsql volatile
+as $$
+declare
+  pt geography := st_point(lon, lat)::geography;
+  asset tracked_assets;
+  inside uuid[];
+  created uuid[] := '{}';
+  batch uuid[];
+begin
+  insert into tracked_assets (asset_id)
+  values (record_asset_ping.asset_id)
+  on conflict on constraint tracked_assets_created_by_asset_id_key do update set asset_id = excluded.asset_id
+  returning * into asset;
+
+  if asset.last_seen_at is not null and asset.last_seen_at > recorded_at then
+    return;
+  end if;
+
+  update tracked_assets
+  set last_location = pt, last_seen_at = recorded_at
+  where id = asset.id;
+
+  select coalesce(array_agg(g.id), '{}') into inside
+  from geofences g
+  where st_covers(g.boundary, pt);
+
+  -- Exits: fences the asset was in but no longer is
+  with left_fences as (
+    delete from asset_fence_state s
+    where s.asset_ref = asset.id and not (s.fence_id = any (inside))
+    returning s.fence_id
+  ),
+  inserted as (
+    insert into geofence_events (asset_ref, fence_id, event_type, occurred_at, location)
+    select asset.id, l.fence_id, 'exit', recorded_at, pt from left_fences l
+    returning id
+  )
+  select array_agg(id) into batch from inserted;
+  created := created || coalesce(batch, '{}');
+
+  -- Enters: fences the asset is in now but was not before
+  with entered as (
+    insert into asset_fence_state (asset_ref, fence_id, entered_at, last_seen_at)
+    select asset.id, f.id, recorded_at, recorded_at
+    from unnest(inside) as f(id)
+    on conflict on constraint asset_fence_state_pkey do nothing
+    returning asset_fence_state.fence_id
+  ),
+  inserted as (
+    insert into geofence_events (asset_ref, fence_id, event_type, occurred_at, location)
+    select asset.id, n.fence_id, 'enter', recorded_at, pt from entered n
+    returning id
+  )
+  select array_agg(id) into batch from inserted;
+  created := created || coalesce(batch, '{}');
+
+  -- Dwell: reported once per visit, when the asset has stayed past the threshold
+  with dwelling as (
+    update asset_fence_state s
+    set dwell_emitted = true
+    from geofences g
+    where s.asset_ref = asset.id
+      and g.id = s.fence_id
+      and not s.dwell_emitted
+      and recorded_at - s.entered_at
+        >= make_interval(secs => coalesce((g.metadata ->> 'dwell_seconds')::double precision, dwell_seconds))
+    returning s.fence_id
+  ),
+  inserted as (
+    insert into geofence_events (asset_ref, fence_id, event_type, occurred_at, location)
+    select asset.id, d.fence_id, 'dwell', recorded_at, pt from dwelling d
+    returning id
+  )
+  select array_agg(id) into batch from inserted;
+  created := created || coalesce(batch, '{}');
+
+  update asset_fence_state s
+  set last_seen_at = recorded_at
+  where s.asset_ref = asset.id;
+
+  return query
+  select e.id, e.fence_id, g.name, e.event_type, e.occurred_at
+  from geofence_events e
+  left join geofences g on g.id = e.fence_id
+  where e.id = any (created)
+  order by case e.event_type when 'exit' then 0 when 'enter' then 1 else 2 end;
+end;
+$$;
+
+-- RPC: assets currently inside a geofence
+create or replace function geofence_occupants(fence_id uuid)
+returns table (
+  asset_id text,
+  entered_at timestamptz,
+  last_seen_at timestamptz,
+  dwell_seconds double precision,
+  location text
+)
+language sql stable
+as $$
+  select
+    t.asset_id,
+    s.entered_at,
+    s.last_seen_at,
+    extract(epoch from s.last_seen_at - s.entered_at) as dwell_seconds,
+    st_asgeojson(t.last_location)::text as location
+  from asset_fence_state s
+  join tracked_assets t on t.id = s.asset_ref
+  where s.fence_id = geofence_occupants.fence_id
+  order by s.entered_at;
+$$;
+
+-- RPC: an asset's event history, newest first
+create or replace function asset_event_history(
+  asset_id text,
+  since timestamptz default null,
+  until timestamptz default null,
+  event_type_filter text default null,
+  fence_id_filter uuid default null,
+  max_results int default 100
+)
+returns table (
+  event_id uuid,
+  fence_id uuid,
+  fence_name text,
+  event_type text,
+  occurred_at timestamptz,
+  location text
+)
+language sql stable
+as $$
+  select
+    e.id,
+    e.fence_id,
+    g.name,
+    e.event_type,
+    e.occurred_at,
+    st_asgeojson(e.location)::text
+  from geofence_events e
+  join tracked_assets t on t.id = e.asset_ref
+  left join geofences g on g.id = e.fence_id
+  where t.asset_id = asset_event_history.asset_id
+    and (since is null or e.occurred_at >= since)
+    and (until is null or e.occurred_at < until)
+    and (event_type_filter is null or e.event_type = event_type_filter)
+    and (fence_id_filter is null or e.fence_id = fence_id_filter)
+  order by e.occurred_at desc, e.id
+  limit max_results;
+$$;
@@ -0,0 +1,183 @@
+-- Per-user webhook subscriptions and their delivery log, sent by the webhook-dispatcher function
+create table webhook_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  url text not null check (url ~ '^https?://'),
+  secret text not null,
+  event_types text[] not null check (
+    cardinality(event_types) > 0 and event_types <@ array[
+      'geofence.enter', 'geofence.exit', 'geofence.dwell',
+      'registry.inside_fence', 'geocode.low_confidence'
+    ]
+  ),
+  fence_ids uuid[],  -- registry.inside_fence: fences to watch besides the caller's own
+  low_confidence_threshold float not null default 0.5,
+  active boolean not null default true,
+  description text,
+  created_by uuid references auth.users(id) default auth.uid(),
+  created_at timestamptz default now()
+);
+
+create index idx_webhook_subscriptions_owner on webhook_subscriptions (created_by)
+  where active;
+
+create table webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  subscription_id uuid not null references webhook_subscriptions(id) on delete cascade,
+  event_type text not null,
+  payload jsonb not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'delivered', 'failed')),
+  attempts int not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_status_code int,
+  last_error text,
+  delivered_at timestamptz,
+  created_by uuid references auth.users(id),
+  created_at timestamptz default now()
+);
+
+create index idx_webhook_deliveries_due on webhook_deliveries (next_attempt_at)
+  where status = 'pending';
+create index idx_webhook_deliveries_subscription on webhook_deliveries
+  (subscription_id, created_at desc);
+
+-- Enable RLS: subscriptions belong to their owner; deliveries are written by the
+-- triggers below and the dispatcher (service role) and are read-only for the owner
+alter table webhook_subscriptions enable row level security;
+alter table webhook_deliveries enable row level security;
+
+create policy "Users manage own webhook subscriptions"
+  on webhook_subscriptions for all to authenticated
+  using (auth.uid() = created_by)
+  with check (auth.uid() = created_by);
+
+create policy "Users view own webhook deliveries"
+  on webhook_deliveries for select to authenticated
+  using (auth.uid() = created_by);
+
+-- Queue one delivery per active subscription of `owner` listening to `event_type`.
+-- Security definer: events raised by one user can notify another (e.g. a fence owner).
+create or replace function enqueue_webhook_event(owner uuid, event_type text, payload jsonb)
+returns int
+language sql volatile security definer set search_path = public
+as $$
+  with queued as (
+    insert into webhook_deliveries (subscription_id, event_type, payload, created_by)
+    select s.id, event_type, payload, s.created_by
+    from webhook_subscriptions s
+    where s.created_by = owner
+      and s.active
+      and event_type = any (s.event_types)
+    returning 1
+  )
+  select count(*)::int from queued;
+$$;
+
+revoke execute on function enqueue_webhook_event(uuid, text, jsonb) from public, anon, authenticated;
+
+-- geofence.enter / geofence.exit / geofence.dwell for the asset owner
+create or replace function webhook_on_geofence_event()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  perform enqueue_webhook_event(new.created_by, 'geofence.' || new.event_type, jsonb_build_object(
+    'event_id', new.id,
+    'asset_id', (select t.asset_id from tracked_assets t where t.id = new.asset_ref),
+    'fence_id', new.fence_id,
+    'fence_name', (select g.name from geofences g where g.id = new.fence_id),
+    'occurred_at', new.occurred_at,
+    'location', st_asgeojson(new.location)::jsonb
+  ));
+  return null;
+end;
+$$;
+
+create trigger geofence_events_webhook
+  after insert on geofence_events
+  for each row execute function webhook_on_geofence_event();
+
+-- registry.inside_fence for the owners of (or watchers of) fences containing a new row,
+-- and geocode.low_confidence for the row's creator
+create or replace function webhook_on_registry_insert()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  entry jsonb := jsonb_build_object(
+    'id', new.id,
+    'raw_address', new.raw_address,
+    'standardized_address', new.standardized_address,
+    'location', st_asgeojson(new.coordinates)::jsonb,
+    'source', new.source,
+    'confidence_score', new.confidence_score,
+    'created_at', new.created_at
+  );
+begin
+  insert into webhook_deliveries (subscription_id, event_type, payload, created_by)
+  select s.id, 'registry.inside_fence',
+    jsonb_build_object('fence_id', g.id, 'fence_name', g.name, 'entry', entry),
+    s.created_by
+  from geofences g
+  join webhook_subscriptions s
+    on s.active
+    and 'registry.inside_fence' = any (s.event_types)
+    and (s.created_by = g.created_by or g.id = any (s.fence_ids))
+  where st_covers(g.boundary, new.coordinates);
+
+  if new.confidence_score is not null then
+    insert into webhook_deliveries (subscription_id, event_type, payload, created_by)
+    select s.id, 'geocode.low_confidence', jsonb_build_object('entry', entry), s.created_by
+    from webhook_subscriptions s
+    where s.created_by = new.created_by
+      and s.active
+      and 'geocode.low_confidence' = any (s.event_types)
+      and new.confidence_score < s.low_confidence_threshold;
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger geo_registry_webhook
+  after insert on geo_registry
+  for each row execute function webhook_on_registry_insert();
+
+-- RPC (service role): lease due deliveries for the dispatcher. Leased rows are pushed
+-- back by `lease_seconds` so a crashed dispatcher's deliveries are retried later.
+create or replace function claim_webhook_deliveries(
+  batch_size int default 50,
+  lease_seconds int default 60
+)
+returns table (
+  id uuid,
+  event_type text,
+  payload jsonb,
+  attempts int,
+  created_at timestamptz,
+  subscription_id uuid,
+  url text,
+  secret text,
+  active boolean
+)
+language sql volatile
+as $$
+  with due as (
+    select d.id from webhook_deliveries d
+    where d.status = 'pending' and d.next_attempt_at <= now()
+    order by d.next_attempt_at
+    limit batch_size
+    for update skip locked
+  ),
+  leased as (
+    update webhook_deliveries d
+    set next_attempt_at = now() + make_interval(secs => lease_seconds)
+    from due
+    where d.id = due.id
+    returning d.*
+  )
+  select l.id, l.event_type, l.payload, l.attempts, l.created_at, s.id, s.url, s.secret, s.active
+  from leased l
+  join webhook_subscriptions s on s.id = l.subscription_id
+  order by l.created_at;
+$$;
@@ -0,0 +1,104 @@
+-- Indexes backing the attribute filters and sorts of search_geo_registry
+create index idx_geo_registry_created_at on geo_registry (created_at desc, id);
+create index idx_geo_registry_confidence on geo_registry (confidence_score desc, id);
+create index idx_geo_registry_source on geo_registry (source);
+create index idx_geo_registry_country_code
+  on geo_registry (lower(standardized_address ->> 'country_code'));
+create index idx_geo_registry_city on geo_registry (lower(standardized_address ->> 'city'));
+
+-- RPC: general registry search combining spatial and attribute filters.
+-- Spatial filters (all optional, combined with AND): bbox [min_lon, min_lat, max_lon, max_lat],
+-- a GeoJSON Polygon / MultiPolygon `area`, and a geofence id.
+-- Rows are ordered by (sort_key, id) ascending, where sort_key is the distance from
+-- (near_lat, near_lon) for 'distance', the negated confidence for 'confidence' and the
+-- negated creation epoch for 'recency'; pass the last row's pair as after_key / after_id
+-- to fetch the next page.
+create or replace function search_geo_registry(
+  bbox double precision[] default null,
+  area text default null,
+  fence_id uuid default null,
+  source_filter text default null,
+  min_confidence float default null,
+  max_confidence float default null,
+  country_code text default null,
+  city text default null,
+  created_by_filter uuid default null,
+  created_after timestamptz default null,
+  created_before timestamptz default null,
+  near_lat double precision default null,
+  near_lon double precision default null,
+  sort text default 'recency',
+  after_key double precision default null,
+  after_id uuid default null,
+  page_size int default 50
+)
+returns table (
+  id uuid,
+  raw_address text,
+  standardized_address jsonb,
+  coordinates text,
+  source text,
+  confidence_score float,
+  metadata jsonb,
+  created_by uuid,
+  created_at timestamptz,
+  distance_m double precision,
+  sort_key double precision
+)
+language sql stable
+as $$
+  with params as (
+    select
+      case when near_lat is not null and near_lon is not null
+        then st_point(near_lon, near_lat)::geography end as origin,
+      case when area is not null then st_geomfromgeojson(area)::geography end as area_geog
+  ),
+  matches as (
+    select
+      g.*,
+      case when p.origin is not null then st_distance(g.coordinates, p.origin) end as dist
+    from geo_registry g, params p
+    where (bbox is null or st_intersects(
+            g.coordinates,
+            st_makeenvelope(bbox[1], bbox[2], bbox[3], bbox[4], 4326)::geography))
+      and (p.area_geog is null or st_covers(p.area_geog, g.coordinates))
+      and (fence_id is null or exists (
+            select 1 from geofences f
+            where f.id = fence_id and st_covers(f.boundary, g.coordinates)))
+      and (source_filter is null or g.source = source_filter)
+      and (min_confidence is null or g.confidence_score >= min_confidence)
+      and (max_confidence is null or g.confidence_score <= max_confidence)
+      and (country_code is null
+        or lower(g.standardized_address ->> 'country_code') = lower(country_code))
+      and (city is null or lower(g.standardized_address ->> 'city') = lower(city))
+      and (created_by_filter is null or g.created_by = created_by_filter)
+      and (created_after is null or g.created_at >= created_after)
+      and (created_before is null or g.created_at < created_before)
+  ),
+  keyed as (
+    select
+      m.*,
+      case sort
+        when 'distance' then m.dist
+        when 'confidence' then -coalesce(m.confidence_score, -1)
+        else -extract(epoch from m.created_at)::double precision
+      end as k
+    from matches m
+  )
+  select
+    k.id,
+    k.raw_address,
+    k.standardized_address,
+    st_asgeojson(k.coordinates)::text as coordinates,
+    k.source,
+    k.confidence_score,
+    k.metadata,
+    k.created_by,
+    k.created_at,
+    k.dist as distance_m,
+    k.k as sort_key
+  from keyed k
+  where after_id is null or (k.k, k.id) > (after_key, after_id)
+  order by k.k, k.id
+  limit page_size;
+$$;
@@ -0,0 +1,108 @@
+-- Fuzzy text search and typeahead over geo_registry
+create extension if not exists pg_trgm with schema extensions;
+
+-- Romanize Mongolian Cyrillic so "Улаанбаатар" and "Ulaanbaatar" share one search form.
+-- Follows the common Mongolian Latin spelling (х → kh, ө/ү → o/u). Input is expected to be
+-- lowercase.
+create or replace function mn_transliterate(input text)
+returns text
+language sql immutable parallel safe
+as $$
+  select translate(
+    replace(replace(replace(replace(replace(replace(replace(replace(replace(replace(
+      input,
+      'х', 'kh'), 'ц', 'ts'), 'ч', 'ch'), 'ш', 'sh'), 'щ', 'sh'),
+      'ж', 'j'), 'ё', 'yo'), 'ю', 'yu'), 'я', 'ya'), 'е', 'ye'),
+    'абвгдзийклмноөпрстуүфыьэъ',
+    'abvgdziiklmnooprstuufyie'
+  );
+$$;
+
+-- Search form of an entry: raw and formatted address, normalized and romanized
+create or replace function registry_search_text(raw_address text, standardized jsonb)
+returns text
+language sql immutable parallel safe
+as $$
+  select mn_transliterate(normalize_address(
+    raw_address || ' ' || coalesce(standardized ->> 'formatted', '')
+  ));
+$$;
+
+alter table geo_registry
+  add column search_text text
+  generated always as (registry_search_text(raw_address, standardized_address)) stored;
+
+create index idx_geo_registry_search_trgm
+  on geo_registry using gin (search_text extensions.gin_trgm_ops);
+create index idx_geo_registry_search_fts
+  on geo_registry using gin (to_tsvector('simple', search_text));
+
+-- RPC: typeahead over the registry. Matches by trigram word similarity or by word
+-- prefixes, keeps the best-confidence row per normalized address and ranks by
+-- text score, boosted by closeness to (near_lat, near_lon) when given.
+create or replace function registry_autocomplete(
+  q text,
+  near_lat double precision default null,
+  near_lon double precision default null,
+  max_results int default 10,
+  min_similarity float default 0.3
+)
+returns table (
+  id uuid,
+  raw_address text,
+  standardized_address jsonb,
+  coordinates text,
+  source text,
+  confidence_score float,
+  similarity float,
+  distance_m double precision,
+  score float
+)
+language sql stable
+as $$
+  with query as (
+    select
+      mn_transliterate(normalize_address(q)) as text,
+      -- "ulaan baat" -> 'ulaan':* & 'baat':*
+      nullif(array_to_string(array(
+        select quote_literal(w) || ':*'
+        from unnest(regexp_split_to_array(mn_transliterate(normalize_address(q)), ' ')) w
+        where w <> ''
+      ), ' & '), '') as prefixes,
+      case when near_lat is not null and near_lon is not null
+        then st_point(near_lon, near_lat)::geography end as origin
+  ),
+  matches as (
+    select distinct on (g.normalized_address)
+      g.*,
+      greatest(
+        extensions.word_similarity(qr.text, g.search_text),
+        case when to_tsvector('simple', g.search_text) @@ to_tsquery('simple', qr.prefixes)
+          then 0.9 else 0 end
+      ) as sim,
+      case when qr.origin is not null then st_distance(g.coordinates, qr.origin) end as dist
+    from geo_registry g, query qr
+    where qr.text <> ''
+      and (
+        qr.text operator(extensions.<%) g.search_text
+        or to_tsvector('simple', g.search_text) @@ to_tsquery('simple', qr.prefixes)
+      )
+    order by g.normalized_address, g.confidence_score desc nulls last, g.created_at desc
+  )
+  select
+    m.id,
+    m.raw_address,
+    m.standardized_address,
+    st_asgeojson(m.coordinates)::text as coordinates,
+    m.source,
+    m.confidence_score,
+    m.sim as similarity,
+    m.dist as distance_m,
+    -- Closeness on the same 25 km scale as rankByProximity() in _shared/geocoding.ts
+    m.sim * (case when m.dist is null then 1 else 0.7 + 0.3 / (1 + m.dist / 25000) end)
+      + 0.05 * coalesce(m.confidence_score, 0) as score
+  from matches m
+  where m.sim >= min_similarity
+  order by score desc, m.id
+  limit max_results;
+$$;
@@ -0,0 +1,94 @@
+-- RPC: k nearest geo_registry rows to a point, independent of any radius.
+-- Candidates come from the GIST index's `<->` ordering and are re-sorted by exact
+-- geodesic distance. bearing_deg is the initial bearing from the query point
+-- (0 = north, clockwise). Every filter is optional.
+create or replace function nearest_registry(
+  lat double precision,
+  lon double precision,
+  k int default 5,
+  max_distance_m double precision default null,
+  source_filter text default null,
+  min_confidence float default null,
+  max_confidence float default null,
+  country_code text default null
+)
+returns table (
+  id uuid,
+  raw_address text,
+  standardized_address jsonb,
+  coordinates text,
+  source text,
+  confidence_score float,
+  created_at timestamptz,
+  distance_m double precision,
+  bearing_deg double precision
+)
+language sql stable
+as $$
+  with origin as (
+    select st_point(lon, lat)::geography as pt
+  ),
+  candidates as (
+    select g.*
+    from geo_registry g, origin o
+    where (max_distance_m is null or st_dwithin(g.coordinates, o.pt, max_distance_m))
+      and (source_filter is null or g.source = source_filter)
+      and (min_confidence is null or g.confidence_score >= min_confidence)
+      and (max_confidence is null or g.confidence_score <= max_confidence)
+      and (country_code is null
+        or lower(g.standardized_address ->> 'country_code') = lower(country_code))
+    order by g.coordinates <-> o.pt
+    -- `<->` on geography is a sphere distance; over-fetch so the spheroid re-sort is exact
+    limit k * 2
+  )
+  select
+    c.id,
+    c.raw_address,
+    c.standardized_address,
+    st_asgeojson(c.coordinates)::text as coordinates,
+    c.source,
+    c.confidence_score,
+    c.created_at,
+    st_distance(c.coordinates, o.pt) as distance_m,
+    degrees(st_azimuth(o.pt, c.coordinates)) as bearing_deg
+  from candidates c, origin o
+  order by distance_m, c.id
+  limit k;
+$$;
+
+-- RPC: nearest_registry for many query points in one call.
+-- `points` is a JSON array of { "lat": .., "lon": .. }; point_index is its 0-based position.
+-- The API returns at most max_rows (1000) rows, so the results are only complete while
+-- points × k stays within that; nearby-search rejects larger batches.
+create or replace function nearest_registry_batch(
+  points jsonb,
+  k int default 5,
+  max_distance_m double precision default null,
+  source_filter text default null,
+  min_confidence float default null,
+  max_confidence float default null,
+  country_code text default null
+)
+returns table (
+  point_index int,
+  id uuid,
+  raw_address text,
+  standardized_address jsonb,
+  coordinates text,
+  source text,
+  confidence_score float,
+  created_at timestamptz,
+  distance_m double precision,
+  bearing_deg double precision
+)
+language sql stable
+as $$
+  select (p.ordinality - 1)::int, n.*
+  from jsonb_array_elements(points) with ordinality as p(point, ordinality)
+  cross join lateral nearest_registry(
+    (p.point ->> 'lat')::double precision,
+    (p.point ->> 'lon')::double precision,
+    k, max_distance_m, source_filter, min_confidence, max_confidence, country_code
+  ) n
+  order by p.ordinality, n.distance_m;
+$$;
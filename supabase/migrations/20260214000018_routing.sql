@@ -0,0 +1,271 @@
+-- Road-network routing on a graph imported from OpenStreetMap with osm2pgrouting
+create extension if not exists pgrouting with schema extensions;
+
+create table road_vertices (
+  id bigint primary key,
+  geom geometry(point, 4326) not null
+);
+
+create index idx_road_vertices_geom on road_vertices using gist (geom);
+
+-- Travel costs are in seconds; a negative cost closes that direction to the profile
+create table road_edges (
+  id bigint primary key,
+  osm_id bigint,
+  source bigint not null references road_vertices(id),
+  target bigint not null references road_vertices(id),
+  highway text,
+  name text,
+  length_m double precision not null,
+  car_cost_s double precision not null,
+  car_reverse_cost_s double precision not null,
+  foot_cost_s double precision not null,
+  geom geometry(linestring, 4326) not null
+);
+
+create index idx_road_edges_source on road_edges (source);
+create index idx_road_edges_target on road_edges (target);
+create index idx_road_edges_geom on road_edges using gist (geom);
+
+-- The graph is public reference data: readable by everyone signed in, written by admins
+alter table road_vertices enable row level security;
+alter table road_edges enable row level security;
+
+create policy "Authenticated users can view road vertices"
+  on road_vertices for select to authenticated using (true);
+
+create policy "Authenticated users can view road edges"
+  on road_edges for select to authenticated using (true);
+
+-- Rebuild road_vertices / road_edges from osm2pgrouting output (its `ways`,
+-- `ways_vertices_pgr` and `configuration` tables in `source_schema`). Cars use the
+-- speed-based costs computed by osm2pgrouting; walking is 5 km/h in both directions and
+-- excluded from motorways and trunk roads. Returns the number of edges loaded.
+create or replace function refresh_road_graph(source_schema text default 'routing')
+returns bigint
+language plpgsql volatile
+as $$
+declare
+  loaded bigint;
+begin
+  truncate road_edges, road_vertices;
+
+  execute format(
+    'insert into road_vertices (id, geom) select id, the_geom from %I.ways_vertices_pgr',
+    source_schema
+  );
+
+  execute format($sql$
+    insert into road_edges (
+      id, osm_id, source, target, highway, name, length_m,
+      car_cost_s, car_reverse_cost_s, foot_cost_s, geom
+    )
+    select
+      w.gid, w.osm_id, w.source, w.target, c.tag_value, w.name, w.length_m,
+      case when c.tag_value in ('footway', 'path', 'pedestrian', 'steps', 'cycleway', 'bridleway')
+        then -1 else w.cost_s end,
+      case when c.tag_value in ('footway', 'path', 'pedestrian', 'steps', 'cycleway', 'bridleway')
+        then -1 else w.reverse_cost_s end,
+      case when c.tag_value in ('motorway', 'motorway_link', 'trunk', 'trunk_link')
+        then -1 else w.length_m / (5000.0 / 3600) end,
+      w.the_geom
+    from %I.ways w
+    left join %I.configuration c on c.tag_id = w.tag_id
+  $sql$, source_schema, source_schema);
+
+  get diagnostics loaded = row_count;
+  return loaded;
+end;
+$$;
+
+-- pgRouting edges query for a travel profile
+create or replace function road_edges_sql(profile text)
+returns text
+language plpgsql immutable
+as $$
+begin
+  case profile
+    when 'car' then
+      return 'select id, source, target, car_cost_s as cost, car_reverse_cost_s as reverse_cost '
+        'from public.road_edges';
+    when 'foot' then
+      return 'select id, source, target, foot_cost_s as cost, foot_cost_s as reverse_cost '
+        'from public.road_edges';
+    else
+      raise exception 'Unknown routing profile: %', profile;
+  end case;
+end;
+$$;
+
+-- Closest graph vertex to a point within snap_m meters, or null
+create or replace function nearest_road_vertex(
+  lat double precision,
+  lon double precision,
+  snap_m double precision default 1000
+)
+returns bigint
+language sql stable
+as $$
+  select v.id
+  from road_vertices v
+  where st_dwithin(v.geom::geography, st_point(lon, lat)::geography, snap_m)
+  order by v.geom <-> st_setsrid(st_point(lon, lat), 4326)
+  limit 1;
+$$;
+
+-- Coordinates of geo_registry entries, for functions that take entries as waypoints
+create or replace function registry_coordinates(registry_ids uuid[])
+returns table (id uuid, lat double precision, lon double precision)
+language sql stable
+as $$
+  select g.id, st_y(g.coordinates::geometry), st_x(g.coordinates::geometry)
+  from geo_registry g
+  where g.id = any (registry_ids);
+$$;
+
+-- RPC: fastest route between two points for a profile. Returns no row when either point
+-- is farther than snap_m from the graph or no path exists.
+create or replace function route_between(
+  from_lat double precision,
+  from_lon double precision,
+  to_lat double precision,
+  to_lon double precision,
+  profile text default 'car',
+  snap_m double precision default 1000
+)
+returns table (
+  distance_m double precision,
+  duration_s double precision,
+  geometry text,
+  from_vertex bigint,
+  to_vertex bigint
+)
+language plpgsql stable
+as $$
+declare
+  src bigint := nearest_road_vertex(from_lat, from_lon, snap_m);
+  dst bigint := nearest_road_vertex(to_lat, to_lon, snap_m);
+begin
+  if src is null or dst is null then
+    return;
+  end if;
+
+  if src = dst then
+    return query select 0::double precision, 0::double precision, null::text, src, dst;
+    return;
+  end if;
+
+  return query
+  select
+    sum(e.length_m),
+    max(p.agg_cost + p.cost),
+    st_asgeojson(st_linemerge(st_collect(e.geom order by p.path_seq)))::text,
+    src,
+    dst
+  from pgr_dijkstra(road_edges_sql(profile), src, dst, directed => true) p
+  join road_edges e on e.id = p.edge
+  having count(*) > 0;
+end;
+$$;
+
+-- RPC: travel distance / time between every pair of the given geo_registry entries.
+-- Pairs without a path (or entries too far from the graph) have null measurements.
+create or replace function route_matrix(
+  registry_ids uuid[],
+  profile text default 'car',
+  snap_m double precision default 1000
+)
+returns table (
+  from_id uuid,
+  to_id uuid,
+  distance_m double precision,
+  duration_s double precision
+)
+language plpgsql stable
+as $$
+declare
+  ids uuid[];
+  snapped bigint[];
+  vertices bigint[];
+begin
+  select array_agg(g.id), array_agg(nearest_road_vertex(
+    st_y(g.coordinates::geometry), st_x(g.coordinates::geometry), snap_m
+  ))
+  into ids, snapped
+  from geo_registry g
+  where g.id = any (registry_ids);
+
+  vertices := array(select distinct v from unnest(snapped) v where v is not null);
+
+  return query
+  with points as (
+    select * from unnest(ids, snapped) as t(registry_id, vertex)
+  ),
+  paths as (
+    select p.start_vid, p.end_vid, max(p.agg_cost + p.cost) as duration_s,
+      sum(e.length_m) as distance_m
+    from pgr_dijkstra(road_edges_sql(profile), vertices, vertices, directed => true) p
+    join road_edges e on e.id = p.edge
+    where cardinality(vertices) > 1
+    group by p.start_vid, p.end_vid
+  )
+  select
+    a.registry_id,
+    b.registry_id,
+    case when a.vertex = b.vertex then 0 else paths.distance_m end,
+    case when a.vertex = b.vertex then 0 else paths.duration_s end
+  from points a
+  cross join points b
+  left join paths on paths.start_vid = a.vertex and paths.end_vid = b.vertex
+  where a.registry_id <> b.registry_id
+  order by a.registry_id, b.registry_id;
+end;
+$$;
+
+-- RPC: area reachable from a point within max_seconds, as the concave hull of the graph
+-- vertices reached. Returns the boundary as GeoJSON and as EWKT ready for geofences.
+create or replace function isochrone(
+  lat double precision,
+  lon double precision,
+  max_seconds double precision,
+  profile text default 'car',
+  snap_m double precision default 1000
+)
+returns table (
+  boundary text,
+  boundary_wkt text,
+  area_m2 double precision,
+  reached_vertices int
+)
+language plpgsql stable
+as $$
+declare
+  src bigint := nearest_road_vertex(lat, lon, snap_m);
+begin
+  if src is null then
+    return;
+  end if;
+
+  return query
+  with reached as (
+    select v.geom
+    from pgr_drivingDistance(road_edges_sql(profile), src, max_seconds, directed => true) d
+    join road_vertices v on v.id = d.node
+  ),
+  hull as (
+    -- Buffer by ~50 m so hulls of very few vertices still form a polygon
+    select st_multi(st_buffer(
+      st_concavehull(st_collect(r.geom), 0.3)::geography, 50
+    )::geometry) as geom,
+    count(*)::int as n
+    from reached r
+  )
+  select
+    st_asgeojson(h.geom)::text,
+    'SRID=4326;' || st_astext(h.geom),
+    st_area(h.geom::geography),
+    h.n
+  from hull h
+  where h.n > 0;
+end;
+$$;
@@ -0,0 +1,64 @@
+-- Structured Mongolian address components parsed from raw_address (aimag, sum / district,
+-- khoroo, building, entrance, door, ...), stored alongside the provider's result
+alter table geo_registry add column parsed_address jsonb;
+
+create index idx_geo_registry_parsed_district on geo_registry ((parsed_address ->> 'district'))
+  where parsed_address is not null;
+
+-- Recreated to store the parsed address sent by the geocode-worker
+create or replace function complete_geocode_job_items(job_id uuid, items jsonb)
+returns int
+language plpgsql volatile
+as $$
+declare
+  item jsonb;
+  new_id uuid;
+  done int := 0;
+begin
+  for item in select * from jsonb_array_elements(items) loop
+    -- Skip items another worker already finished after our lease expired
+    perform 1 from geocode_job_items i
+    where i.job_id = complete_geocode_job_items.job_id
+      and i.position = (item ->> 'position')::int
+      and i.status = 'pending'
+    for update;
+
+    if not found then
+      continue;
+    end if;
+
+    new_id := (item ->> 'registry_id')::uuid;
+
+    if item ? 'row' then
+      insert into geo_registry (
+        raw_address, parsed_address, standardized_address, coordinates, source,
+        confidence_score, metadata, created_by
+      )
+      values (
+        item -> 'row' ->> 'raw_address',
+        item -> 'row' -> 'parsed_address',
+        item -> 'row' -> 'standardized_address',
+        (item -> 'row' ->> 'coordinates')::geography,
+        item -> 'row' ->> 'source',
+        (item -> 'row' ->> 'confidence_score')::float,
+        coalesce(item -> 'row' -> 'metadata', '{}'),
+        (item -> 'row' ->> 'created_by')::uuid
+      )
+      returning id into new_id;
+    end if;
+
+    update geocode_job_items i
+    set status = item ->> 'status',
+        result = item -> 'result',
+        error = item ->> 'error',
+        registry_id = new_id,
+        processed_at = now()
+    where i.job_id = complete_geocode_job_items.job_id
+      and i.position = (item ->> 'position')::int;
+
+    done := done + 1;
+  end loop;
+
+  return done;
+end;
+$$;
@@ -0,0 +1,17 @@
+-- Write recomputed confidence scores in one call. Each element of `scores`:
+-- { id, confidence_score, confidence } where `confidence` replaces metadata.confidence.
+-- Runs with the caller's rights, so RLS limits updates to their own rows.
+create or replace function apply_confidence_scores(scores jsonb)
+returns int
+language sql volatile
+as $$
+  with updated as (
+    update geo_registry g
+    set confidence_score = (s ->> 'confidence_score')::float,
+        metadata = coalesce(g.metadata, '{}') || jsonb_build_object('confidence', s -> 'confidence')
+    from jsonb_array_elements(scores) s
+    where g.id = (s ->> 'id')::uuid
+    returning 1
+  )
+  select count(*)::int from updated;
+$$;
@@ -0,0 +1,181 @@
+-- Official administrative boundaries (country, aimags, sums / districts, bags / khoroos),
+-- kept apart from the user-drawn geofences. Level 0 is the country, 1 an aimag or the
+-- capital, 2 a sum or district (düüreg), 3 a bag or khoroo.
+create table admin_boundaries (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,  -- official code, e.g. the COD-AB P-code
+  name text not null,
+  name_en text,
+  level smallint not null check (level between 0 and 3),
+  kind text,  -- aimag, capital, sum, district, bag, khoroo
+  parent_id uuid references admin_boundaries(id) on delete set null,
+  boundary geometry(multipolygon, 4326) not null,
+  properties jsonb not null default '{}',
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create index idx_admin_boundaries_boundary on admin_boundaries using gist (boundary);
+create index idx_admin_boundaries_level on admin_boundaries (level);
+create index idx_admin_boundaries_parent on admin_boundaries (parent_id);
+
+-- Reference data: readable by everyone signed in, loaded with the service role
+alter table admin_boundaries enable row level security;
+
+create policy "Authenticated users can view admin boundaries"
+  on admin_boundaries for select to authenticated using (true);
+
+-- Admin areas containing each registry entry, coarsest first
+alter table geo_registry add column admin_area_ids uuid[] not null default '{}';
+
+create index idx_geo_registry_admin_area_ids on geo_registry using gin (admin_area_ids);
+
+-- Ids of the admin areas covering a point, coarsest first
+create or replace function admin_area_ids_at(point geometry)
+returns uuid[]
+language sql stable
+as $$
+  select coalesce(array_agg(b.id order by b.level), '{}')
+  from admin_boundaries b
+  where st_covers(b.boundary, point);
+$$;
+
+create or replace function geo_registry_admin_areas()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.admin_area_ids := admin_area_ids_at(new.coordinates::geometry);
+  return new;
+end;
+$$;
+
+create trigger geo_registry_admin_areas
+  before insert or update of coordinates on geo_registry
+  for each row execute function geo_registry_admin_areas();
+
+-- Re-run the enrichment for every registry row, after boundaries were loaded or changed.
+-- Returns the number of rows whose admin areas changed.
+create or replace function refresh_registry_admin_areas()
+returns bigint
+language plpgsql volatile
+as $$
+declare
+  changed bigint;
+begin
+  update geo_registry g
+  set admin_area_ids = a.ids
+  from (
+    select r.id, admin_area_ids_at(r.coordinates::geometry) as ids
+    from geo_registry r
+  ) a
+  where g.id = a.id and g.admin_area_ids is distinct from a.ids;
+
+  get diagnostics changed = row_count;
+  return changed;
+end;
+$$;
+
+-- Insert or update boundaries by code. Each element of `features`:
+-- { code, name, name_en?, level, kind?, parent_code?, geometry (GeoJSON), properties? }.
+-- Geometries are repaired and reduced to their polygons. Parents come from parent_code
+-- or, when it is missing, from the next coarser boundary containing the area.
+create or replace function upsert_admin_boundaries(features jsonb)
+returns int
+language plpgsql volatile
+as $$
+declare
+  loaded int;
+begin
+  insert into admin_boundaries (code, name, name_en, level, kind, boundary, properties)
+  select
+    f ->> 'code',
+    f ->> 'name',
+    f ->> 'name_en',
+    (f ->> 'level')::smallint,
+    f ->> 'kind',
+    st_multi(st_collectionextract(
+      st_makevalid(st_setsrid(st_geomfromgeojson(f ->> 'geometry'), 4326)), 3
+    )),
+    coalesce(f -> 'properties', '{}')
+  from jsonb_array_elements(features) f
+  on conflict (code) do update
+  set name = excluded.name,
+      name_en = excluded.name_en,
+      level = excluded.level,
+      kind = excluded.kind,
+      boundary = excluded.boundary,
+      properties = excluded.properties,
+      updated_at = now();
+
+  get diagnostics loaded = row_count;
+
+  update admin_boundaries b
+  set parent_id = p.id
+  from jsonb_array_elements(features) f
+  join admin_boundaries p on p.code = f ->> 'parent_code'
+  where b.code = f ->> 'code';
+
+  update admin_boundaries b
+  set parent_id = (
+    select p.id
+    from admin_boundaries p
+    where p.level < b.level and st_covers(p.boundary, st_pointonsurface(b.boundary))
+    order by p.level desc
+    limit 1
+  )
+  from jsonb_array_elements(features) f
+  where b.code = f ->> 'code' and f ->> 'parent_code' is null;
+
+  return loaded;
+end;
+$$;
+
+-- RPC: the admin hierarchy at a point, coarsest first
+create or replace function admin_areas_at(lat double precision, lon double precision)
+returns table (
+  id uuid,
+  code text,
+  name text,
+  name_en text,
+  level smallint,
+  kind text,
+  parent_id uuid
+)
+language sql stable
+as $$
+  select b.id, b.code, b.name, b.name_en, b.level, b.kind, b.parent_id
+  from admin_boundaries b
+  where st_covers(b.boundary, st_setsrid(st_point(lon, lat), 4326))
+  order by b.level;
+$$;
+
+-- RPC: number of registry entries per admin area, optionally for one level, the children
+-- of one area, or one source
+create or replace function admin_area_counts(
+  level_filter smallint default null,
+  parent_filter uuid default null,
+  source_filter text default null
+)
+returns table (
+  id uuid,
+  code text,
+  name text,
+  name_en text,
+  level smallint,
+  kind text,
+  parent_id uuid,
+  entry_count bigint
+)
+language sql stable
+as $$
+  select b.id, b.code, b.name, b.name_en, b.level, b.kind, b.parent_id, count(g.id)
+  from admin_boundaries b
+  left join geo_registry g
+    on g.admin_area_ids @> array[b.id]
+    and (source_filter is null or g.source = source_filter)
+  where (level_filter is null or b.level = level_filter)
+    and (parent_filter is null or b.parent_id = parent_filter)
+  group by b.id
+  order by count(g.id) desc, b.name;
+$$;
@@ -0,0 +1,260 @@
+-- Versioned history of geo_registry rows, soft delete and restore.
+-- Every insert, update and delete stores a snapshot of the resulting row; deletes by
+-- users only mark the row as deleted so it can be restored.
+alter table geo_registry
+  add column deleted_at timestamptz,
+  add column deleted_by uuid references auth.users(id);
+
+create index idx_geo_registry_deleted_at on geo_registry (deleted_at)
+  where deleted_at is not null;
+
+create table geo_registry_history (
+  id bigint generated always as identity primary key,
+  registry_id uuid not null,  -- no foreign key: history outlives purged rows
+  version int not null,
+  operation text not null
+    check (operation in ('insert', 'update', 'delete', 'restore', 'revert', 'purge')),
+  changed_fields text[] not null default '{}',
+  raw_address text,
+  standardized_address jsonb,
+  parsed_address jsonb,
+  coordinates geography(point, 4326),
+  source text,
+  confidence_score float,
+  metadata jsonb,
+  deleted_at timestamptz,
+  owner uuid,  -- created_by of the row
+  actor uuid default auth.uid(),
+  actor_role text,  -- e.g. authenticated or service_role
+  changed_at timestamptz not null default now(),
+  unique (registry_id, version)
+);
+
+create index idx_geo_registry_history_changed_at on geo_registry_history (changed_at);
+
+-- Written by the trigger only; owners can read the history of their rows
+alter table geo_registry_history enable row level security;
+
+create policy "Users can view history of own geo_registry entries"
+  on geo_registry_history for select to authenticated
+  using (owner = auth.uid());
+
+-- Deleted rows disappear from every read that goes through RLS
+drop policy "Authenticated users can view geo_registry" on geo_registry;
+
+create policy "Authenticated users can view geo_registry"
+  on geo_registry for select
+  to authenticated
+  using (deleted_at is null);
+
+-- Record a version. The operation is inferred from the change, or taken from the
+-- geo_registry.operation setting for restore / revert done by the RPCs below.
+create or replace function geo_registry_record_history()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  snapshot geo_registry;
+  op text;
+  fields text[] := '{}';
+begin
+  if tg_op = 'INSERT' then
+    snapshot := new;
+    op := 'insert';
+  elsif tg_op = 'DELETE' then
+    snapshot := old;
+    op := 'purge';
+  else
+    snapshot := new;
+    op := case
+      when old.deleted_at is null and new.deleted_at is not null then 'delete'
+      when old.deleted_at is not null and new.deleted_at is null then 'restore'
+      else 'update'
+    end;
+    op := coalesce(nullif(current_setting('geo_registry.operation', true), ''), op);
+
+    select coalesce(array_agg(n.key order by n.key), '{}') into fields
+    from jsonb_each(to_jsonb(new)) n
+    join jsonb_each(to_jsonb(old)) o using (key)
+    where n.value is distinct from o.value
+      and n.key not in ('normalized_address', 'search_text', 'admin_area_ids');
+
+    -- Only derived columns changed
+    if fields = '{}' then
+      return null;
+    end if;
+  end if;
+
+  insert into geo_registry_history (
+    registry_id, version, operation, changed_fields, raw_address, standardized_address,
+    parsed_address, coordinates, source, confidence_score, metadata, deleted_at, owner,
+    actor_role
+  )
+  values (
+    snapshot.id,
+    coalesce(
+      (select max(h.version) from geo_registry_history h where h.registry_id = snapshot.id),
+      0
+    ) + 1,
+    op,
+    fields,
+    snapshot.raw_address,
+    snapshot.standardized_address,
+    snapshot.parsed_address,
+    snapshot.coordinates,
+    snapshot.source,
+    snapshot.confidence_score,
+    snapshot.metadata,
+    snapshot.deleted_at,
+    snapshot.created_by,
+    coalesce(auth.role(), current_user)
+  );
+
+  return null;
+end;
+$$;
+
+create trigger geo_registry_history
+  after insert or update or delete on geo_registry
+  for each row execute function geo_registry_record_history();
+
+-- Existing rows start with their current content as version 1
+insert into geo_registry_history (
+  registry_id, version, operation, raw_address, standardized_address, parsed_address,
+  coordinates, source, confidence_score, metadata, owner, actor, actor_role, changed_at
+)
+select
+  g.id, 1, 'insert', g.raw_address, g.standardized_address, g.parsed_address,
+  g.coordinates, g.source, g.confidence_score, g.metadata, g.created_by, g.created_by,
+  null, coalesce(g.created_at, now())
+from geo_registry g;
+
+-- Turn deletes into soft deletes. purge_deleted_registry() sets
+-- geo_registry.hard_delete to remove rows for good.
+create or replace function geo_registry_soft_delete()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if current_setting('geo_registry.hard_delete', true) = 'on' then
+    return old;
+  end if;
+
+  if old.deleted_at is null then
+    update geo_registry
+    set deleted_at = now(), deleted_by = auth.uid()
+    where id = old.id;
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger geo_registry_soft_delete
+  before delete on geo_registry
+  for each row execute function geo_registry_soft_delete();
+
+-- RPC: versions of a registry entry, newest first, with coordinates as GeoJSON
+create or replace function registry_history(registry_id uuid)
+returns table (
+  version int,
+  operation text,
+  changed_fields text[],
+  raw_address text,
+  standardized_address jsonb,
+  parsed_address jsonb,
+  coordinates text,
+  source text,
+  confidence_score float,
+  metadata jsonb,
+  deleted_at timestamptz,
+  actor uuid,
+  actor_role text,
+  changed_at timestamptz
+)
+language sql stable
+as $$
+  select
+    h.version, h.operation, h.changed_fields, h.raw_address, h.standardized_address,
+    h.parsed_address, st_asgeojson(h.coordinates)::text, h.source, h.confidence_score,
+    h.metadata, h.deleted_at, h.actor, h.actor_role, h.changed_at
+  from geo_registry_history h
+  where h.registry_id = registry_history.registry_id
+  order by h.version desc;
+$$;
+
+-- RPC: undo a soft delete. Only the owner may restore; returns false if the entry does
+-- not exist, is not theirs or is not deleted.
+create or replace function restore_registry_entry(registry_id uuid)
+returns boolean
+language plpgsql security definer set search_path = public
+as $$
+begin
+  update geo_registry g
+  set deleted_at = null, deleted_by = null
+  where g.id = restore_registry_entry.registry_id
+    and g.created_by = auth.uid()
+    and g.deleted_at is not null;
+
+  return found;
+end;
+$$;
+
+-- RPC: bring an entry back to the content of an earlier version, recorded as a new
+-- 'revert' version. Deleted entries must be restored first.
+create or replace function revert_registry_entry(registry_id uuid, target_version int)
+returns boolean
+language plpgsql security definer set search_path = public
+as $$
+declare
+  target geo_registry_history;
+  reverted int;
+begin
+  select * into target
+  from geo_registry_history h
+  where h.registry_id = revert_registry_entry.registry_id
+    and h.version = target_version
+    and h.owner = auth.uid();
+
+  if not found then
+    return false;
+  end if;
+
+  perform set_config('geo_registry.operation', 'revert', true);
+
+  update geo_registry g
+  set raw_address = target.raw_address,
+      standardized_address = target.standardized_address,
+      parsed_address = target.parsed_address,
+      coordinates = target.coordinates,
+      source = target.source,
+      confidence_score = target.confidence_score,
+      metadata = target.metadata
+  where g.id = revert_registry_entry.registry_id
+    and g.created_by = auth.uid()
+    and g.deleted_at is null;
+
+  get diagnostics reverted = row_count;
+  perform set_config('geo_registry.operation', '', true);
+  return reverted > 0;
+end;
+$$;
+
+-- Remove rows soft-deleted longer ago than `older_than` (service role). Their history is
+-- kept, ending with a 'purge' version. Returns the number of rows removed.
+create or replace function purge_deleted_registry(older_than interval default '30 days')
+returns bigint
+language plpgsql volatile
+as $$
+declare
+  purged bigint;
+begin
+  perform set_config('geo_registry.hard_delete', 'on', true);
+
+  delete from geo_registry where deleted_at < now() - older_than;
+  get diagnostics purged = row_count;
+
+  perform set_config('geo_registry.hard_delete', '', true);
+  return purged;
+end;
+$$;
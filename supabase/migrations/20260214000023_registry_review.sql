@@ -0,0 +1,130 @@
+-- Manual review of geocoded entries: user flags, a review queue and verified corrections
+-- that later geocodes of the same address reuse.
+create table registry_flags (
+  id uuid primary key default gen_random_uuid(),
+  registry_id uuid not null references geo_registry(id) on delete cascade,
+  reason text not null,
+  status text not null default 'open' check (status in ('open', 'resolved', 'dismissed')),
+  created_by uuid references auth.users(id) default auth.uid(),
+  created_at timestamptz default now(),
+  resolved_by uuid references auth.users(id),
+  resolved_at timestamptz,
+  resolution_note text
+);
+
+create index idx_registry_flags_open on registry_flags (registry_id) where status = 'open';
+
+alter table registry_flags enable row level security;
+
+-- Anyone signed in can flag an entry; its owner sees and resolves the flags
+create policy "Authenticated users can flag geo_registry entries"
+  on registry_flags for insert to authenticated
+  with check (auth.uid() = created_by);
+
+create policy "Users can view own flags and flags on own entries"
+  on registry_flags for select to authenticated
+  using (
+    auth.uid() = created_by or exists (
+      select 1 from geo_registry g where g.id = registry_id and g.created_by = auth.uid()
+    )
+  );
+
+create policy "Entry owners can resolve flags"
+  on registry_flags for update to authenticated
+  using (exists (
+    select 1 from geo_registry g where g.id = registry_id and g.created_by = auth.uid()
+  ));
+
+-- Verified location per normalized address, used by the geocode functions ahead of the
+-- provider. One correction per address: the latest verification wins.
+create table geocode_corrections (
+  normalized_address text primary key,
+  registry_id uuid not null references geo_registry(id) on delete cascade,
+  lat double precision not null,
+  lon double precision not null,
+  standardized_address jsonb,
+  reason text not null,
+  verified_by uuid references auth.users(id),
+  verified_at timestamptz not null default now()
+);
+
+-- RLS with no policies: written and read by the edge functions with the service role
+alter table geocode_corrections enable row level security;
+
+-- Keyset index for the queue's confidence ordering
+create index idx_geo_registry_review
+  on geo_registry ((coalesce(confidence_score, 0)), id)
+  where deleted_at is null;
+
+-- RPC: entries needing review, lowest confidence first. An entry is listed when its
+-- confidence is below `threshold` (unless already verified) or it has open flags.
+-- `reason_filter` limits the queue to 'low_confidence' or 'flagged' entries.
+create or replace function review_queue(
+  threshold float default 0.5,
+  reason_filter text default null,
+  owned_only boolean default true,
+  after_confidence float default null,
+  after_id uuid default null,
+  page_size int default 50
+)
+returns table (
+  id uuid,
+  raw_address text,
+  standardized_address jsonb,
+  coordinates text,
+  source text,
+  confidence_score float,
+  low_confidence boolean,
+  open_flags bigint,
+  latest_flag_reason text,
+  created_by uuid,
+  created_at timestamptz,
+  sort_confidence float
+)
+language sql stable
+as $$
+  with candidates as (
+    select
+      g.*,
+      coalesce(
+        g.source is distinct from 'manual_verified' and g.confidence_score < threshold, false
+      ) as is_low,
+      f.open_flags,
+      f.latest_reason
+    from geo_registry g
+    cross join lateral (
+      select
+        count(*) as open_flags,
+        (array_agg(rf.reason order by rf.created_at desc))[1] as latest_reason
+      from registry_flags rf
+      where rf.registry_id = g.id and rf.status = 'open'
+    ) f
+    where g.deleted_at is null
+      and (not owned_only or g.created_by = auth.uid())
+      and (
+        after_id is null
+        or (coalesce(g.confidence_score, 0), g.id) > (after_confidence, after_id)
+      )
+  )
+  select
+    c.id,
+    c.raw_address,
+    c.standardized_address,
+    st_asgeojson(c.coordinates)::text,
+    c.source,
+    c.confidence_score,
+    c.is_low,
+    c.open_flags,
+    c.latest_reason,
+    c.created_by,
+    c.created_at,
+    coalesce(c.confidence_score, 0)
+  from candidates c
+  where case reason_filter
+    when 'low_confidence' then c.is_low
+    when 'flagged' then c.open_flags > 0
+    else c.is_low or c.open_flags > 0
+  end
+  order by coalesce(c.confidence_score, 0), c.id
+  limit page_size;
+$$;
@@ -0,0 +1,368 @@
+-- Near-duplicate detection and merging of geo_registry entries. Candidate pairs are found
+-- by distance and address similarity; a merge keeps one canonical entry, soft-deletes the
+-- others and redirects their ids to it.
+alter table geo_registry add column merged_ids uuid[] not null default '{}';
+
+alter table geo_registry_history drop constraint geo_registry_history_operation_check;
+alter table geo_registry_history add constraint geo_registry_history_operation_check
+  check (operation in ('insert', 'update', 'delete', 'restore', 'revert', 'purge', 'merge'));
+
+create table registry_duplicate_candidates (
+  id uuid primary key default gen_random_uuid(),
+  registry_id_a uuid not null references geo_registry(id) on delete cascade,
+  registry_id_b uuid not null references geo_registry(id) on delete cascade,
+  distance_m double precision not null,
+  text_similarity float not null,
+  similarity float not null,  -- combined score used for ordering, 0-1
+  status text not null default 'pending' check (status in ('pending', 'merged', 'dismissed')),
+  detected_at timestamptz not null default now(),
+  reviewed_by uuid references auth.users(id),
+  reviewed_at timestamptz,
+  check (registry_id_a < registry_id_b),
+  unique (registry_id_a, registry_id_b)
+);
+
+create index idx_registry_duplicate_candidates_pending
+  on registry_duplicate_candidates (similarity desc, id) where status = 'pending';
+create index idx_registry_duplicate_candidates_b on registry_duplicate_candidates (registry_id_b);
+
+-- Readable like geo_registry itself; written by the RPCs below
+alter table registry_duplicate_candidates enable row level security;
+
+create policy "Authenticated users can view duplicate candidates"
+  on registry_duplicate_candidates for select to authenticated using (true);
+
+-- Where each merged entry went. No foreign key on merged_id: redirects outlive purges.
+create table geo_registry_redirects (
+  merged_id uuid primary key,
+  canonical_id uuid not null references geo_registry(id) on delete cascade,
+  merged_by uuid references auth.users(id),
+  merged_at timestamptz not null default now()
+);
+
+create index idx_geo_registry_redirects_canonical on geo_registry_redirects (canonical_id);
+
+alter table geo_registry_redirects enable row level security;
+
+create policy "Authenticated users can view geo_registry redirects"
+  on geo_registry_redirects for select to authenticated using (true);
+
+-- The entry an id currently stands for: its canonical entry if it was merged, else itself
+create or replace function canonical_registry_id(registry_id uuid)
+returns uuid
+language sql stable
+as $$
+  select coalesce(
+    (select r.canonical_id from geo_registry_redirects r where r.merged_id = registry_id),
+    registry_id
+  );
+$$;
+
+-- RPC: canonical id for each of the given ids, with merged = true for redirected ones
+create or replace function resolve_registry_ids(registry_ids uuid[])
+returns table (id uuid, canonical_id uuid, merged boolean)
+language sql stable
+as $$
+  select r.id, canonical_registry_id(r.id), canonical_registry_id(r.id) <> r.id
+  from unnest(registry_ids) as r(id);
+$$;
+
+-- Waypoints given as merged entries resolve to their canonical entry's coordinates,
+-- reported under the id that was asked for
+create or replace function registry_coordinates(registry_ids uuid[])
+returns table (id uuid, lat double precision, lon double precision)
+language sql stable
+as $$
+  select r.id, st_y(g.coordinates::geometry), st_x(g.coordinates::geometry)
+  from unnest(registry_ids) as r(id)
+  join geo_registry g on g.id = canonical_registry_id(r.id);
+$$;
+
+create or replace function route_matrix(
+  registry_ids uuid[],
+  profile text default 'car',
+  snap_m double precision default 1000
+)
+returns table (
+  from_id uuid,
+  to_id uuid,
+  distance_m double precision,
+  duration_s double precision
+)
+language plpgsql stable
+as $$
+declare
+  ids uuid[];
+  snapped bigint[];
+  vertices bigint[];
+begin
+  select array_agg(c.id), array_agg(nearest_road_vertex(c.lat, c.lon, snap_m))
+  into ids, snapped
+  from registry_coordinates(registry_ids) c;
+
+  vertices := array(select distinct v from unnest(snapped) v where v is not null);
+
+  return query
+  with points as (
+    select * from unnest(ids, snapped) as t(registry_id, vertex)
+  ),
+  paths as (
+    select p.start_vid, p.end_vid, max(p.agg_cost + p.cost) as duration_s,
+      sum(e.length_m) as distance_m
+    from pgr_dijkstra(road_edges_sql(profile), vertices, vertices, directed => true) p
+    join road_edges e on e.id = p.edge
+    where cardinality(vertices) > 1
+    group by p.start_vid, p.end_vid
+  )
+  select
+    a.registry_id,
+    b.registry_id,
+    case when a.vertex = b.vertex then 0 else paths.distance_m end,
+    case when a.vertex = b.vertex then 0 else paths.duration_s end
+  from points a
+  cross join points b
+  left join paths on paths.start_vid = a.vertex and paths.end_vid = b.vertex
+  where a.registry_id <> b.registry_id
+  order by a.registry_id, b.registry_id;
+end;
+$$;
+
+-- Find pairs of live entries within max_distance_m of each other whose search text has a
+-- trigram similarity of at least min_text_similarity. Pairs are scored 0.6 text / 0.4
+-- distance and upserted as pending candidates; reviewed pairs are left alone.
+-- `created_after` limits the scan to pairs with at least one newer entry, for incremental
+-- runs. Returns the number of pending candidates written.
+create or replace function detect_registry_duplicates(
+  max_distance_m double precision default 50,
+  min_text_similarity float default 0.5,
+  source_filter text default null,
+  owned_only boolean default false,
+  created_after timestamptz default null
+)
+returns bigint
+language plpgsql volatile security definer set search_path = public
+as $$
+declare
+  written bigint;
+begin
+  insert into registry_duplicate_candidates as c (
+    registry_id_a, registry_id_b, distance_m, text_similarity, similarity
+  )
+  select
+    a.id,
+    b.id,
+    d.distance_m,
+    t.text_similarity,
+    round((0.6 * t.text_similarity + 0.4 * (1 - d.distance_m / max_distance_m))::numeric, 3)
+  from geo_registry a
+  join geo_registry b
+    on a.id < b.id
+    and st_dwithin(a.coordinates, b.coordinates, max_distance_m)
+  cross join lateral (
+    select st_distance(a.coordinates, b.coordinates) as distance_m
+  ) d
+  cross join lateral (
+    select extensions.similarity(a.search_text, b.search_text) as text_similarity
+  ) t
+  where a.deleted_at is null
+    and b.deleted_at is null
+    and t.text_similarity >= min_text_similarity
+    and (source_filter is null or (a.source = source_filter and b.source = source_filter))
+    and (not owned_only or (a.created_by = auth.uid() and b.created_by = auth.uid()))
+    and (created_after is null or a.created_at > created_after or b.created_at > created_after)
+  on conflict (registry_id_a, registry_id_b) do update
+  set distance_m = excluded.distance_m,
+      text_similarity = excluded.text_similarity,
+      similarity = excluded.similarity,
+      detected_at = now()
+  where c.status = 'pending';
+
+  get diagnostics written = row_count;
+  return written;
+end;
+$$;
+
+-- RPC: pending candidate pairs, most similar first, with both entries
+create or replace function registry_duplicate_pairs(
+  min_similarity float default 0,
+  owned_only boolean default true,
+  after_similarity float default null,
+  after_id uuid default null,
+  page_size int default 50
+)
+returns table (
+  id uuid,
+  similarity float,
+  text_similarity float,
+  distance_m double precision,
+  detected_at timestamptz,
+  entry_a jsonb,
+  entry_b jsonb
+)
+language sql stable
+as $$
+  select
+    c.id,
+    c.similarity,
+    c.text_similarity,
+    c.distance_m,
+    c.detected_at,
+    jsonb_build_object(
+      'id', a.id, 'raw_address', a.raw_address, 'standardized_address', a.standardized_address,
+      'coordinates', st_asgeojson(a.coordinates)::jsonb, 'source', a.source,
+      'confidence_score', a.confidence_score, 'created_by', a.created_by,
+      'created_at', a.created_at
+    ),
+    jsonb_build_object(
+      'id', b.id, 'raw_address', b.raw_address, 'standardized_address', b.standardized_address,
+      'coordinates', st_asgeojson(b.coordinates)::jsonb, 'source', b.source,
+      'confidence_score', b.confidence_score, 'created_by', b.created_by,
+      'created_at', b.created_at
+    )
+  from registry_duplicate_candidates c
+  join geo_registry a on a.id = c.registry_id_a
+  join geo_registry b on b.id = c.registry_id_b
+  where c.status = 'pending'
+    and c.similarity >= min_similarity
+    and (not owned_only or (a.created_by = auth.uid() and b.created_by = auth.uid()))
+    and (after_id is null or (c.similarity, c.id) < (after_similarity, after_id))
+  order by c.similarity desc, c.id desc
+  limit page_size;
+$$;
+
+-- RPC: merge entries into a canonical one. The caller must own every entry (the service
+-- role may merge any). Merged entries are soft-deleted and redirected, and the cache,
+-- corrections, flags and candidate sets pointing at them move to the canonical entry.
+-- Returns the number of entries merged.
+create or replace function merge_registry_entries(canonical_id uuid, merged_ids uuid[])
+returns int
+language plpgsql volatile security definer set search_path = public
+as $$
+declare
+  losers uuid[];
+  merged int;
+begin
+  losers := array(
+    select distinct m from unnest(merged_ids) m where m is distinct from canonical_id
+  );
+
+  if cardinality(losers) = 0 then
+    raise exception 'Nothing to merge' using errcode = '22023';
+  end if;
+
+  perform 1 from geo_registry g
+  where g.id = canonical_id or g.id = any (losers)
+  for update;
+
+  if (
+    select count(*) from geo_registry g
+    where (g.id = canonical_id or g.id = any (losers)) and g.deleted_at is null
+  ) <> cardinality(losers) + 1 then
+    raise exception 'Entry not found or deleted' using errcode = 'P0002';
+  end if;
+
+  if coalesce(auth.role(), '') <> 'service_role' and exists (
+    select 1 from geo_registry g
+    where (g.id = canonical_id or g.id = any (losers))
+      and g.created_by is distinct from auth.uid()
+  ) then
+    raise exception 'Only entries you own can be merged' using errcode = '42501';
+  end if;
+
+  perform set_config('geo_registry.operation', 'merge', true);
+
+  update geo_registry g
+  set merged_ids = array(
+    select distinct m from unnest(
+      g.merged_ids || losers || (
+        select coalesce(array_agg(x), '{}')
+        from geo_registry l, unnest(l.merged_ids) x
+        where l.id = any (losers)
+      )
+    ) m
+  )
+  where g.id = canonical_id;
+
+  update geo_registry g
+  set deleted_at = now(), deleted_by = auth.uid()
+  where g.id = any (losers);
+
+  get diagnostics merged = row_count;
+  perform set_config('geo_registry.operation', '', true);
+
+  -- Earlier redirects to a merged entry now point at the canonical one as well
+  update geo_registry_redirects r
+  set canonical_id = merge_registry_entries.canonical_id
+  where r.canonical_id = any (losers);
+
+  insert into geo_registry_redirects (merged_id, canonical_id, merged_by)
+  select l, merge_registry_entries.canonical_id, auth.uid() from unnest(losers) l
+  on conflict (merged_id) do update
+  set canonical_id = excluded.canonical_id, merged_by = excluded.merged_by, merged_at = now();
+
+  update geocode_cache set registry_id = merge_registry_entries.canonical_id
+  where registry_id = any (losers);
+
+  update geocode_candidate_sets set committed_registry_id = merge_registry_entries.canonical_id
+  where committed_registry_id = any (losers);
+
+  update geocode_corrections set registry_id = merge_registry_entries.canonical_id
+  where registry_id = any (losers);
+
+  update registry_flags set registry_id = merge_registry_entries.canonical_id
+  where registry_id = any (losers) and status = 'open';
+
+  -- Pairs within the merged set are done; other pending pairs of merged entries are
+  -- dropped and found again against the canonical entry by the next detection run
+  update registry_duplicate_candidates c
+  set status = 'merged', reviewed_by = auth.uid(), reviewed_at = now()
+  where c.registry_id_a = any (losers || merge_registry_entries.canonical_id)
+    and c.registry_id_b = any (losers || merge_registry_entries.canonical_id);
+
+  delete from registry_duplicate_candidates c
+  where c.status = 'pending'
+    and (c.registry_id_a = any (losers) or c.registry_id_b = any (losers));
+
+  return merged;
+end;
+$$;
+
+-- RPC: mark a candidate pair as not a duplicate. Either entry's owner may dismiss it.
+create or replace function dismiss_registry_duplicate(candidate_id uuid)
+returns boolean
+language plpgsql volatile security definer set search_path = public
+as $$
+begin
+  update registry_duplicate_candidates c
+  set status = 'dismissed', reviewed_by = auth.uid(), reviewed_at = now()
+  where c.id = candidate_id
+    and c.status = 'pending'
+    and (
+      coalesce(auth.role(), '') = 'service_role' or exists (
+        select 1 from geo_registry g
+        where g.id in (c.registry_id_a, c.registry_id_b) and g.created_by = auth.uid()
+      )
+    );
+
+  return found;
+end;
+$$;
+
+-- Merged entries come back through a new merge, not a restore
+create or replace function restore_registry_entry(registry_id uuid)
+returns boolean
+language plpgsql security definer set search_path = public
+as $$
+begin
+  update geo_registry g
+  set deleted_at = null, deleted_by = null
+  where g.id = restore_registry_entry.registry_id
+    and g.created_by = auth.uid()
+    and g.deleted_at is not null
+    and not exists (
+      select 1 from geo_registry_redirects r where r.merged_id = g.id
+    );
+
+  return found;
+end;
+$$;
@@ -0,0 +1,785 @@
+-- Organizations with member roles. Registry entries and geofences belong to an
+-- organization: members read the data of their active organization, editors and admins
+-- change it, admins manage the members. Every user starts with a personal organization.
+create table organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  personal boolean not null default false,
+  created_by uuid references auth.users(id) default auth.uid(),
+  created_at timestamptz default now()
+);
+
+create table organization_members (
+  org_id uuid not null references organizations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role text not null default 'viewer' check (role in ('viewer', 'editor', 'admin')),
+  added_by uuid references auth.users(id) default auth.uid(),
+  created_at timestamptz default now(),
+  primary key (org_id, user_id)
+);
+
+create index idx_organization_members_user on organization_members (user_id);
+
+-- The organization each user last switched to
+create table user_active_org (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  org_id uuid not null references organizations(id) on delete cascade,
+  updated_at timestamptz not null default now()
+);
+
+-- Whether `member` has at least `min_role` in `org`. Security definer so policies on the
+-- membership table itself can use it.
+create or replace function has_org_role(
+  org uuid,
+  min_role text default 'viewer',
+  member uuid default auth.uid()
+)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select exists (
+    select 1 from organization_members m
+    where m.org_id = org
+      and m.user_id = member
+      and array_position(array['viewer', 'editor', 'admin'], m.role)
+        >= array_position(array['viewer', 'editor', 'admin'], min_role)
+  );
+$$;
+
+-- The organization a user works in: the one they switched to while still a member,
+-- otherwise their personal or oldest membership. Users may only ask about themselves;
+-- the service role may ask about anyone.
+create or replace function active_org_id(user_id uuid default auth.uid())
+returns uuid
+language sql stable security definer set search_path = public
+as $$
+  select coalesce(
+    (
+      select a.org_id from user_active_org a
+      join organization_members m on m.org_id = a.org_id and m.user_id = a.user_id
+      where a.user_id = active_org_id.user_id
+    ),
+    (
+      select m.org_id from organization_members m
+      join organizations o on o.id = m.org_id
+      where m.user_id = active_org_id.user_id
+      order by o.personal desc, m.created_at, m.org_id
+      limit 1
+    )
+  )
+  where auth.uid() is null or auth.uid() = active_org_id.user_id;
+$$;
+
+alter table organizations enable row level security;
+alter table organization_members enable row level security;
+alter table user_active_org enable row level security;
+
+-- Organizations and memberships are created through the RPCs below
+create policy "Members can view their organizations"
+  on organizations for select to authenticated
+  using (has_org_role(id));
+
+create policy "Admins can rename organizations"
+  on organizations for update to authenticated
+  using (has_org_role(id, 'admin'))
+  with check (has_org_role(id, 'admin'));
+
+create policy "Members can view fellow members"
+  on organization_members for select to authenticated
+  using (has_org_role(org_id));
+
+create policy "Admins can change member roles"
+  on organization_members for update to authenticated
+  using (has_org_role(org_id, 'admin'))
+  with check (has_org_role(org_id, 'admin'));
+
+create policy "Admins can remove members and members can leave"
+  on organization_members for delete to authenticated
+  using (has_org_role(org_id, 'admin') or user_id = auth.uid());
+
+create policy "Users can view own active organization"
+  on user_active_org for select to authenticated
+  using (user_id = auth.uid());
+
+-- Every organization keeps at least one admin, unless it or the user is being deleted
+create or replace function organization_members_keep_admin()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if old.role = 'admin'
+    and exists (select 1 from organizations o where o.id = old.org_id)
+    and exists (select 1 from auth.users u where u.id = old.user_id)
+    and not exists (
+      select 1 from organization_members m where m.org_id = old.org_id and m.role = 'admin'
+    )
+  then
+    raise exception 'An organization needs at least one admin' using errcode = '23514';
+  end if;
+  return null;
+end;
+$$;
+
+create trigger organization_members_keep_admin
+  after update of role or delete on organization_members
+  for each row execute function organization_members_keep_admin();
+
+-- Personal organization for every user, existing and new
+create or replace function create_personal_organization(member uuid, label text)
+returns uuid
+language plpgsql volatile security definer set search_path = public
+as $$
+declare
+  org uuid;
+begin
+  insert into organizations (name, personal, created_by)
+  values (coalesce(label, 'Personal'), true, member)
+  returning id into org;
+
+  insert into organization_members (org_id, user_id, role, added_by)
+  values (org, member, 'admin', member);
+
+  return org;
+end;
+$$;
+
+revoke execute on function create_personal_organization(uuid, text)
+  from public, anon, authenticated;
+
+select create_personal_organization(u.id, u.email) from auth.users u;
+
+create or replace function auth_user_personal_organization()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  perform create_personal_organization(new.id, new.email);
+  return null;
+end;
+$$;
+
+create trigger on_auth_user_created_personal_organization
+  after insert on auth.users
+  for each row execute function auth_user_personal_organization();
+
+-- RPC: create an organization with the caller as its admin
+create or replace function create_organization(name text)
+returns uuid
+language plpgsql volatile security definer set search_path = public
+as $$
+declare
+  org uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required' using errcode = '42501';
+  end if;
+
+  insert into organizations (name, created_by)
+  values (trim(create_organization.name), auth.uid())
+  returning id into org;
+
+  insert into organization_members (org_id, user_id, role)
+  values (org, auth.uid(), 'admin');
+
+  return org;
+end;
+$$;
+
+-- RPC: make `org_id` the caller's active organization. Returns false unless a member.
+create or replace function set_active_org(org_id uuid)
+returns boolean
+language plpgsql volatile security definer set search_path = public
+as $$
+begin
+  if not has_org_role(set_active_org.org_id) then
+    return false;
+  end if;
+
+  insert into user_active_org (user_id, org_id)
+  values (auth.uid(), set_active_org.org_id)
+  on conflict (user_id) do update set org_id = excluded.org_id, updated_at = now();
+
+  return true;
+end;
+$$;
+
+-- RPC: add the user with `email` to an organization, or change their role if already a
+-- member. Admins only. Returns the user's id, or null when no user has that email.
+create or replace function add_org_member(org_id uuid, email text, role text default 'viewer')
+returns uuid
+language plpgsql volatile security definer set search_path = public
+as $$
+declare
+  member uuid;
+begin
+  if not has_org_role(add_org_member.org_id, 'admin') then
+    raise exception 'Only organization admins can add members' using errcode = '42501';
+  end if;
+
+  select u.id into member from auth.users u where lower(u.email) = lower(trim(add_org_member.email));
+
+  if member is null then
+    return null;
+  end if;
+
+  insert into organization_members (org_id, user_id, role)
+  values (add_org_member.org_id, member, add_org_member.role)
+  on conflict on constraint organization_members_pkey do update set role = excluded.role;
+
+  return member;
+end;
+$$;
+
+-- RPC: members of an organization with their email, for members of that organization
+create or replace function org_members(org_id uuid)
+returns table (user_id uuid, email text, role text, added_by uuid, created_at timestamptz)
+language sql stable security definer set search_path = public
+as $$
+  select m.user_id, u.email::text, m.role, m.added_by, m.created_at
+  from organization_members m
+  join auth.users u on u.id = m.user_id
+  where m.org_id = org_members.org_id
+    and has_org_role(org_members.org_id)
+  order by array_position(array['admin', 'editor', 'viewer'], m.role), u.email;
+$$;
+
+-- Organization of new rows: given explicitly, or the creator's active organization
+create or replace function set_row_org_id()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.org_id := coalesce(new.org_id, active_org_id(new.created_by));
+  return new;
+end;
+$$;
+
+alter table geo_registry add column org_id uuid references organizations(id);
+alter table geofences add column org_id uuid references organizations(id);
+alter table geocode_jobs add column org_id uuid references organizations(id);
+
+create index idx_geo_registry_org on geo_registry (org_id);
+create index idx_geofences_org on geofences (org_id);
+
+create trigger geo_registry_org_id
+  before insert on geo_registry
+  for each row execute function set_row_org_id();
+
+create trigger geofences_org_id
+  before insert on geofences
+  for each row execute function set_row_org_id();
+
+-- Jobs remember the organization they were created in, for the rows the worker inserts
+create trigger geocode_jobs_org_id
+  before insert on geocode_jobs
+  for each row execute function set_row_org_id();
+
+-- Existing rows move to their creator's personal organization. Rows without a creator
+-- stay without one and are only reachable with the service role.
+update geo_registry set org_id = active_org_id(created_by) where created_by is not null;
+update geofences set org_id = active_org_id(created_by) where created_by is not null;
+update geocode_jobs set org_id = active_org_id(created_by) where created_by is not null;
+
+-- Reads are limited to the active organization, writes need the editor role. RPCs such
+-- as nearby_search, spatial_clusters, geofence_check and geofence_entries run with the
+-- caller's rights, so these policies scope them to the caller's active organization.
+drop policy "Authenticated users can view geo_registry" on geo_registry;
+drop policy "Authenticated users can insert geo_registry" on geo_registry;
+drop policy "Users can update own geo_registry entries" on geo_registry;
+drop policy "Users can delete own geo_registry entries" on geo_registry;
+
+create policy "Members can view geo_registry of their active organization"
+  on geo_registry for select to authenticated
+  using (deleted_at is null and org_id = (select active_org_id()));
+
+create policy "Editors can insert geo_registry"
+  on geo_registry for insert to authenticated
+  with check (auth.uid() = created_by and has_org_role(org_id, 'editor'));
+
+create policy "Editors can update geo_registry"
+  on geo_registry for update to authenticated
+  using (has_org_role(org_id, 'editor'))
+  with check (has_org_role(org_id, 'editor'));
+
+create policy "Editors can delete geo_registry"
+  on geo_registry for delete to authenticated
+  using (has_org_role(org_id, 'editor'));
+
+drop policy "Authenticated users can view geofences" on geofences;
+drop policy "Authenticated users can insert geofences" on geofences;
+drop policy "Users can update own geofences" on geofences;
+drop policy "Users can delete own geofences" on geofences;
+
+create policy "Members can view geofences of their active organization"
+  on geofences for select to authenticated
+  using (org_id = (select active_org_id()));
+
+create policy "Editors can insert geofences"
+  on geofences for insert to authenticated
+  with check (auth.uid() = created_by and has_org_role(org_id, 'editor'));
+
+create policy "Editors can update geofences"
+  on geofences for update to authenticated
+  using (has_org_role(org_id, 'editor'))
+  with check (has_org_role(org_id, 'editor'));
+
+create policy "Editors can delete geofences"
+  on geofences for delete to authenticated
+  using (has_org_role(org_id, 'editor'));
+
+-- History follows its entry's organization, also after the entry is purged
+alter table geo_registry_history add column org_id uuid;
+
+update geo_registry_history h set org_id = g.org_id
+from geo_registry g
+where g.id = h.registry_id;
+
+drop policy "Users can view history of own geo_registry entries" on geo_registry_history;
+
+create policy "Members can view history of their active organization"
+  on geo_registry_history for select to authenticated
+  using (org_id = (select active_org_id()));
+
+create or replace function geo_registry_record_history()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  snapshot geo_registry;
+  op text;
+  fields text[] := '{}';
+begin
+  if tg_op = 'INSERT' then
+    snapshot := new;
+    op := 'insert';
+  elsif tg_op = 'DELETE' then
+    snapshot := old;
+    op := 'purge';
+  else
+    snapshot := new;
+    op := case
+      when old.deleted_at is null and new.deleted_at is not null then 'delete'
+      when old.deleted_at is not null and new.deleted_at is null then 'restore'
+      else 'update'
+    end;
+    op := coalesce(nullif(current_setting('geo_registry.operation', true), ''), op);
+
+    select coalesce(array_agg(n.key order by n.key), '{}') into fields
+    from jsonb_each(to_jsonb(new)) n
+    join jsonb_each(to_jsonb(old)) o using (key)
+    where n.value is distinct from o.value
+      and n.key not in ('normalized_address', 'search_text', 'admin_area_ids');
+
+    -- Only derived columns changed
+    if fields = '{}' then
+      return null;
+    end if;
+  end if;
+
+  insert into geo_registry_history (
+    registry_id, version, operation, changed_fields, raw_address, standardized_address,
+    parsed_address, coordinates, source, confidence_score, metadata, deleted_at, owner,
+    org_id, actor_role
+  )
+  values (
+    snapshot.id,
+    coalesce(
+      (select max(h.version) from geo_registry_history h where h.registry_id = snapshot.id),
+      0
+    ) + 1,
+    op,
+    fields,
+    snapshot.raw_address,
+    snapshot.standardized_address,
+    snapshot.parsed_address,
+    snapshot.coordinates,
+    snapshot.source,
+    snapshot.confidence_score,
+    snapshot.metadata,
+    snapshot.deleted_at,
+    snapshot.created_by,
+    snapshot.org_id,
+    coalesce(auth.role(), current_user)
+  );
+
+  return null;
+end;
+$$;
+
+-- Restore and revert are open to the entry organization's editors
+create or replace function restore_registry_entry(registry_id uuid)
+returns boolean
+language plpgsql security definer set search_path = public
+as $$
+begin
+  update geo_registry g
+  set deleted_at = null, deleted_by = null
+  where g.id = restore_registry_entry.registry_id
+    and has_org_role(g.org_id, 'editor')
+    and g.deleted_at is not null
+    and not exists (
+      select 1 from geo_registry_redirects r where r.merged_id = g.id
+    );
+
+  return found;
+end;
+$$;
+
+create or replace function revert_registry_entry(registry_id uuid, target_version int)
+returns boolean
+language plpgsql security definer set search_path = public
+as $$
+declare
+  target geo_registry_history;
+  reverted int;
+begin
+  select * into target
+  from geo_registry_history h
+  where h.registry_id = revert_registry_entry.registry_id
+    and h.version = target_version;
+
+  if not found then
+    return false;
+  end if;
+
+  perform set_config('geo_registry.operation', 'revert', true);
+
+  update geo_registry g
+  set raw_address = target.raw_address,
+      standardized_address = target.standardized_address,
+      parsed_address = target.parsed_address,
+      coordinates = target.coordinates,
+      source = target.source,
+      confidence_score = target.confidence_score,
+      metadata = target.metadata
+  where g.id = revert_registry_entry.registry_id
+    and has_org_role(g.org_id, 'editor')
+    and g.deleted_at is null;
+
+  get diagnostics reverted = row_count;
+  perform set_config('geo_registry.operation', '', true);
+  return reverted > 0;
+end;
+$$;
+
+-- Entries can be flagged by members who see them; flags are resolved by the entry
+-- organization's editors
+drop policy "Authenticated users can flag geo_registry entries" on registry_flags;
+drop policy "Entry owners can resolve flags" on registry_flags;
+
+create policy "Members can flag visible geo_registry entries"
+  on registry_flags for insert to authenticated
+  with check (
+    auth.uid() = created_by and exists (select 1 from geo_registry g where g.id = registry_id)
+  );
+
+create policy "Editors can resolve flags"
+  on registry_flags for update to authenticated
+  using (exists (
+    select 1 from geo_registry g
+    where g.id = registry_id and has_org_role(g.org_id, 'editor')
+  ));
+
+-- Corrections apply within the organization that verified them
+alter table geocode_corrections add column org_id uuid references organizations(id);
+
+update geocode_corrections c set org_id = g.org_id
+from geo_registry g
+where g.id = c.registry_id;
+
+delete from geocode_corrections where org_id is null;
+
+alter table geocode_corrections drop constraint geocode_corrections_pkey;
+alter table geocode_corrections alter column org_id set not null;
+alter table geocode_corrections add primary key (org_id, normalized_address);
+
+-- Duplicates are only looked for, listed and merged within one organization
+drop policy "Authenticated users can view duplicate candidates" on registry_duplicate_candidates;
+
+create policy "Members can view duplicate candidates of visible entries"
+  on registry_duplicate_candidates for select to authenticated
+  using (exists (select 1 from geo_registry g where g.id = registry_id_a));
+
+drop policy "Authenticated users can view geo_registry redirects" on geo_registry_redirects;
+
+create policy "Members can view redirects to visible entries"
+  on geo_registry_redirects for select to authenticated
+  using (exists (select 1 from geo_registry g where g.id = canonical_id));
+
+create or replace function detect_registry_duplicates(
+  max_distance_m double precision default 50,
+  min_text_similarity float default 0.5,
+  source_filter text default null,
+  owned_only boolean default false,
+  created_after timestamptz default null
+)
+returns bigint
+language plpgsql volatile security definer set search_path = public
+as $$
+declare
+  written bigint;
+  org uuid := active_org_id();
+begin
+  insert into registry_duplicate_candidates as c (
+    registry_id_a, registry_id_b, distance_m, text_similarity, similarity
+  )
+  select
+    a.id,
+    b.id,
+    d.distance_m,
+    t.text_similarity,
+    round((0.6 * t.text_similarity + 0.4 * (1 - d.distance_m / max_distance_m))::numeric, 3)
+  from geo_registry a
+  join geo_registry b
+    on a.id < b.id
+    and a.org_id = b.org_id
+    and st_dwithin(a.coordinates, b.coordinates, max_distance_m)
+  cross join lateral (
+    select st_distance(a.coordinates, b.coordinates) as distance_m
+  ) d
+  cross join lateral (
+    select extensions.similarity(a.search_text, b.search_text) as text_similarity
+  ) t
+  where a.deleted_at is null
+    and b.deleted_at is null
+    and (coalesce(auth.role(), '') = 'service_role' or a.org_id = org)
+    and t.text_similarity >= min_text_similarity
+    and (source_filter is null or (a.source = source_filter and b.source = source_filter))
+    and (not owned_only or (a.created_by = auth.uid() and b.created_by = auth.uid()))
+    and (created_after is null or a.created_at > created_after or b.created_at > created_after)
+  on conflict (registry_id_a, registry_id_b) do update
+  set distance_m = excluded.distance_m,
+      text_similarity = excluded.text_similarity,
+      similarity = excluded.similarity,
+      detected_at = now()
+  where c.status = 'pending';
+
+  get diagnostics written = row_count;
+  return written;
+end;
+$$;
+
+create or replace function merge_registry_entries(canonical_id uuid, merged_ids uuid[])
+returns int
+language plpgsql volatile security definer set search_path = public
+as $$
+declare
+  losers uuid[];
+  merged int;
+begin
+  losers := array(
+    select distinct m from unnest(merged_ids) m where m is distinct from canonical_id
+  );
+
+  if cardinality(losers) = 0 then
+    raise exception 'Nothing to merge' using errcode = '22023';
+  end if;
+
+  perform 1 from geo_registry g
+  where g.id = canonical_id or g.id = any (losers)
+  for update;
+
+  if (
+    select count(*) from geo_registry g
+    where (g.id = canonical_id or g.id = any (losers)) and g.deleted_at is null
+  ) <> cardinality(losers) + 1 then
+    raise exception 'Entry not found or deleted' using errcode = 'P0002';
+  end if;
+
+  if exists (
+    select 1 from geo_registry g
+    where (g.id = canonical_id or g.id = any (losers))
+      and g.org_id is distinct from (select c.org_id from geo_registry c where c.id = canonical_id)
+  ) then
+    raise exception 'Entries of different organizations cannot be merged' using errcode = '22023';
+  end if;
+
+  if coalesce(auth.role(), '') <> 'service_role' and not has_org_role(
+    (select g.org_id from geo_registry g where g.id = canonical_id), 'editor'
+  ) then
+    raise exception 'Only editors of the organization can merge entries' using errcode = '42501';
+  end if;
+
+  perform set_config('geo_registry.operation', 'merge', true);
+
+  update geo_registry g
+  set merged_ids = array(
+    select distinct m from unnest(
+      g.merged_ids || losers || (
+        select coalesce(array_agg(x), '{}')
+        from geo_registry l, unnest(l.merged_ids) x
+        where l.id = any (losers)
+      )
+    ) m
+  )
+  where g.id = canonical_id;
+
+  update geo_registry g
+  set deleted_at = now(), deleted_by = auth.uid()
+  where g.id = any (losers);
+
+  get diagnostics merged = row_count;
+  perform set_config('geo_registry.operation', '', true);
+
+  -- Earlier redirects to a merged entry now point at the canonical one as well
+  update geo_registry_redirects r
+  set canonical_id = merge_registry_entries.canonical_id
+  where r.canonical_id = any (losers);
+
+  insert into geo_registry_redirects (merged_id, canonical_id, merged_by)
+  select l, merge_registry_entries.canonical_id, auth.uid() from unnest(losers) l
+  on conflict (merged_id) do update
+  set canonical_id = excluded.canonical_id, merged_by = excluded.merged_by, merged_at = now();
+
+  update geocode_cache set registry_id = merge_registry_entries.canonical_id
+  where registry_id = any (losers);
+
+  update geocode_candidate_sets set committed_registry_id = merge_registry_entries.canonical_id
+  where committed_registry_id = any (losers);
+
+  update geocode_corrections set registry_id = merge_registry_entries.canonical_id
+  where registry_id = any (losers);
+
+  update registry_flags set registry_id = merge_registry_entries.canonical_id
+  where registry_id = any (losers) and status = 'open';
+
+  -- Pairs within the merged set are done; other pending pairs of merged entries are
+  -- dropped and found again against the canonical entry by the next detection run
+  update registry_duplicate_candidates c
+  set status = 'merged', reviewed_by = auth.uid(), reviewed_at = now()
+  where c.registry_id_a = any (losers || merge_registry_entries.canonical_id)
+    and c.registry_id_b = any (losers || merge_registry_entries.canonical_id);
+
+  delete from registry_duplicate_candidates c
+  where c.status = 'pending'
+    and (c.registry_id_a = any (losers) or c.registry_id_b = any (losers));
+
+  return merged;
+end;
+$$;
+
+create or replace function dismiss_registry_duplicate(candidate_id uuid)
+returns boolean
+language plpgsql volatile security definer set search_path = public
+as $$
+begin
+  update registry_duplicate_candidates c
+  set status = 'dismissed', reviewed_by = auth.uid(), reviewed_at = now()
+  where c.id = candidate_id
+    and c.status = 'pending'
+    and (
+      coalesce(auth.role(), '') = 'service_role' or exists (
+        select 1 from geo_registry g
+        where g.id = c.registry_id_a and has_org_role(g.org_id, 'editor')
+      )
+    );
+
+  return found;
+end;
+$$;
+
+-- Worker rows go to the organization the job was created in
+create or replace function complete_geocode_job_items(job_id uuid, items jsonb)
+returns int
+language plpgsql volatile
+as $$
+declare
+  item jsonb;
+  new_id uuid;
+  job_org uuid;
+  done int := 0;
+begin
+  select j.org_id into job_org from geocode_jobs j where j.id = complete_geocode_job_items.job_id;
+
+  for item in select * from jsonb_array_elements(items) loop
+    -- Skip items another worker already finished after our lease expired
+    perform 1 from geocode_job_items i
+    where i.job_id = complete_geocode_job_items.job_id
+      and i.position = (item ->> 'position')::int
+      and i.status = 'pending'
+    for update;
+
+    if not found then
+      continue;
+    end if;
+
+    new_id := (item ->> 'registry_id')::uuid;
+
+    if item ? 'row' then
+      insert into geo_registry (
+        raw_address, parsed_address, standardized_address, coordinates, source,
+        confidence_score, metadata, created_by, org_id
+      )
+      values (
+        item -> 'row' ->> 'raw_address',
+        item -> 'row' -> 'parsed_address',
+        item -> 'row' -> 'standardized_address',
+        (item -> 'row' ->> 'coordinates')::geography,
+        item -> 'row' ->> 'source',
+        (item -> 'row' ->> 'confidence_score')::float,
+        coalesce(item -> 'row' -> 'metadata', '{}'),
+        (item -> 'row' ->> 'created_by')::uuid,
+        job_org
+      )
+      returning id into new_id;
+    end if;
+
+    update geocode_job_items i
+    set status = item ->> 'status',
+        result = item -> 'result',
+        error = item ->> 'error',
+        registry_id = new_id,
+        processed_at = now()
+    where i.job_id = complete_geocode_job_items.job_id
+      and i.position = (item ->> 'position')::int;
+
+    done := done + 1;
+  end loop;
+
+  return done;
+end;
+$$;
+
+-- registry.inside_fence only for fences of the entry's organization and subscribers who
+-- are members of it
+create or replace function webhook_on_registry_insert()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  entry jsonb := jsonb_build_object(
+    'id', new.id,
+    'raw_address', new.raw_address,
+    'standardized_address', new.standardized_address,
+    'location', st_asgeojson(new.coordinates)::jsonb,
+    'source', new.source,
+    'confidence_score', new.confidence_score,
+    'created_at', new.created_at
+  );
+begin
+  insert into webhook_deliveries (subscription_id, event_type, payload, created_by)
+  select s.id, 'registry.inside_fence',
+    jsonb_build_object('fence_id', g.id, 'fence_name', g.name, 'entry', entry),
+    s.created_by
+  from geofences g
+  join webhook_subscriptions s
+    on s.active
+    and 'registry.inside_fence' = any (s.event_types)
+    and (s.created_by = g.created_by or g.id = any (s.fence_ids))
+  where st_covers(g.boundary, new.coordinates)
+    and g.org_id = new.org_id
+    and has_org_role(new.org_id, 'viewer', s.created_by);
+
+  if new.confidence_score is not null then
+    insert into webhook_deliveries (subscription_id, event_type, payload, created_by)
+    select s.id, 'geocode.low_confidence', jsonb_build_object('entry', entry), s.created_by
+    from webhook_subscriptions s
+    where s.created_by = new.created_by
+      and s.active
+      and 'geocode.low_confidence' = any (s.event_types)
+      and new.confidence_score < s.low_confidence_threshold;
+  end if;
+
+  return null;
+end;
+$$;
@@ -0,0 +1,193 @@
+-- API keys for server-to-server callers. A key acts as one member of one organization,
+-- may be limited to some edge functions, and has a per-minute rate limit and an optional
+-- monthly quota. Only the SHA-256 hash of a key is stored.
+create table api_keys (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  prefix text not null, -- leading characters of the key, shown in listings
+  key_hash text not null unique,
+  org_id uuid not null references organizations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade, -- member the key acts as
+  functions text[] check (functions is null or cardinality(functions) > 0), -- null: all
+  rate_limit_per_minute integer not null default 60 check (rate_limit_per_minute > 0),
+  monthly_quota integer check (monthly_quota > 0), -- null: unlimited
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  last_used_at timestamptz,
+  -- Fixed one-minute window of the rate limit
+  window_start timestamptz,
+  window_requests integer not null default 0,
+  created_by uuid references auth.users(id) default auth.uid(),
+  created_at timestamptz default now()
+);
+
+create index idx_api_keys_org on api_keys (org_id);
+create index idx_api_keys_user on api_keys (user_id);
+
+-- Requests per key, month and function. Rejected requests (rate limited or over quota)
+-- are counted separately and do not use up the quota.
+create table api_key_usage (
+  key_id uuid not null references api_keys(id) on delete cascade,
+  period date not null, -- first day of the month (UTC)
+  function_name text not null,
+  requests bigint not null default 0,
+  rejected bigint not null default 0,
+  primary key (key_id, period, function_name)
+);
+
+alter table api_keys enable row level security;
+alter table api_key_usage enable row level security;
+
+-- Admins manage the keys of their organization; members see the keys acting as them
+create policy "Members can view own keys and admins all keys of the organization"
+  on api_keys for select to authenticated
+  using (user_id = auth.uid() or has_org_role(org_id, 'admin'));
+
+create policy "Admins can create keys for members of the organization"
+  on api_keys for insert to authenticated
+  with check (
+    created_by = auth.uid()
+    and has_org_role(org_id, 'admin')
+    and has_org_role(org_id, 'viewer', user_id)
+  );
+
+create policy "Usage is visible with its key"
+  on api_key_usage for select to authenticated
+  using (exists (select 1 from api_keys k where k.id = key_id));
+
+-- Revoke a key: admins of its organization or the member it acts as
+create or replace function revoke_api_key(key_id uuid)
+returns boolean
+language plpgsql security definer set search_path = public
+as $$
+begin
+  update api_keys k set revoked_at = now()
+  where k.id = revoke_api_key.key_id
+    and k.revoked_at is null
+    and (k.user_id = auth.uid() or has_org_role(k.org_id, 'admin'));
+
+  return found;
+end;
+$$;
+
+-- Authenticate a request made with an API key and count it against the key's limits.
+-- Returns one row whose status is ok, invalid (unknown, revoked, expired, or its member
+-- left the organization), forbidden (function not allowed), rate_limited or
+-- quota_exceeded. Only the edge functions call this, with the service role.
+create or replace function consume_api_key(key_hash text, function_name text)
+returns table (
+  status text,
+  key_id uuid,
+  user_id uuid,
+  org_id uuid,
+  rate_limit integer,
+  rate_remaining integer,
+  monthly_quota integer,
+  quota_remaining bigint,
+  retry_after integer
+)
+language plpgsql security definer set search_path = public
+as $$
+declare
+  k api_keys%rowtype;
+  current_window timestamptz := date_trunc('minute', now());
+  current_period date := date_trunc('month', now() at time zone 'utc')::date;
+  used bigint;
+begin
+  select * into k from api_keys a where a.key_hash = consume_api_key.key_hash for update;
+
+  if not found or k.revoked_at is not null or k.expires_at <= now()
+    or not has_org_role(k.org_id, 'viewer', k.user_id) then
+    status := 'invalid';
+    return next;
+    return;
+  end if;
+
+  key_id := k.id;
+  user_id := k.user_id;
+  org_id := k.org_id;
+  rate_limit := k.rate_limit_per_minute;
+  monthly_quota := k.monthly_quota;
+
+  if k.functions is not null and not (consume_api_key.function_name = any(k.functions)) then
+    status := 'forbidden';
+    return next;
+    return;
+  end if;
+
+  if k.window_start is distinct from current_window then
+    k.window_requests := 0;
+  end if;
+
+  select coalesce(sum(u.requests), 0) into used
+  from api_key_usage u
+  where u.key_id = k.id and u.period = current_period;
+
+  if k.window_requests >= k.rate_limit_per_minute then
+    status := 'rate_limited';
+    retry_after := ceil(extract(epoch from current_window + interval '1 minute' - now()));
+  elsif k.monthly_quota is not null and used >= k.monthly_quota then
+    status := 'quota_exceeded';
+    retry_after := ceil(extract(
+      epoch from (current_period + interval '1 month') at time zone 'utc' - now()
+    ));
+  else
+    status := 'ok';
+    k.window_requests := k.window_requests + 1;
+    used := used + 1;
+  end if;
+
+  update api_keys a set
+    window_start = current_window,
+    window_requests = k.window_requests,
+    last_used_at = case when status = 'ok' then now() else a.last_used_at end
+  where a.id = k.id;
+
+  insert into api_key_usage as u (key_id, period, function_name, requests, rejected)
+  values (
+    k.id,
+    current_period,
+    consume_api_key.function_name,
+    case when status = 'ok' then 1 else 0 end,
+    case when status = 'ok' then 0 else 1 end
+  )
+  on conflict on constraint api_key_usage_pkey do update set
+    requests = u.requests + excluded.requests,
+    rejected = u.rejected + excluded.rejected;
+
+  rate_remaining := greatest(k.rate_limit_per_minute - k.window_requests, 0);
+  quota_remaining := case when k.monthly_quota is not null
+    then greatest(k.monthly_quota - used, 0) end;
+  return next;
+end;
+$$;
+
+revoke execute on function consume_api_key(text, text) from public, anon, authenticated;
+
+-- Requests made with an API key carry the key's organization as an `org_id` claim, which
+-- takes precedence over the organization the member last switched to
+create or replace function active_org_id(user_id uuid default auth.uid())
+returns uuid
+language sql stable security definer set search_path = public
+as $$
+  select coalesce(
+    (
+      select m.org_id from organization_members m
+      where m.org_id = (auth.jwt() ->> 'org_id')::uuid
+        and m.user_id = active_org_id.user_id
+    ),
+    (
+      select a.org_id from user_active_org a
+      join organization_members m on m.org_id = a.org_id and m.user_id = a.user_id
+      where a.user_id = active_org_id.user_id
+    ),
+    (
+      select m.org_id from organization_members m
+      join organizations o on o.id = m.org_id
+      where m.user_id = active_org_id.user_id
+      order by o.personal desc, m.created_at, m.org_id
+      limit 1
+    )
+  )
+  where auth.uid() is null or auth.uid() = active_org_id.user_id;
+$$;
@@ -0,0 +1,127 @@
+-- Clustering in meters instead of degrees. Points are projected to the UTM zone of the query
+-- point, so distances and areas stay accurate east-west at Mongolia's latitude (about 48°,
+-- where a degree of longitude is only ~75 km). Adds k-means and grid clustering next to
+-- DBSCAN, and returns member ids and a hull for each cluster.
+
+-- SRID of the WGS 84 / UTM zone containing a point (326xx north, 327xx south). The
+-- Norway and Svalbard exceptions to the zone grid are ignored.
+create or replace function utm_srid(lat double precision, lon double precision)
+returns int
+language sql immutable
+as $$
+  select case when lat >= 0 then 32600 else 32700 end
+    + least(floor((lon + 180) / 6)::int + 1, 60);
+$$;
+
+-- The return type changes, so the old signature has to go first
+drop function if exists spatial_clusters(
+  double precision, double precision, double precision, double precision, int
+);
+
+-- RPC: clusters of registry entries within radius_m of a point.
+--   dbscan  density clusters, cluster_distance_m apart at most; clusters smaller than
+--           min_points are noise and left out
+--   kmeans  num_clusters clusters (fewer when there are fewer entries), every entry assigned
+--   grid    square cells of cluster_distance_m on the UTM grid; cells with fewer than
+--           min_points entries are left out
+-- hull is 'convex', 'concave' (hull_convexity: 1 is the convex hull, lower follows the
+-- points more tightly) or 'none', buffered by hull_buffer_m. Hulls of one or two entries
+-- are points or lines unless buffered. hull_wkt is EWKT ready for geofences, null when the
+-- hull is not a polygon.
+create or replace function spatial_clusters(
+  lat double precision,
+  lon double precision,
+  radius_m double precision default 5000,
+  algorithm text default 'dbscan',
+  cluster_distance_m double precision default 500,
+  min_points int default 1,
+  num_clusters int default null,
+  hull text default 'convex',
+  hull_convexity double precision default 0.5,
+  hull_buffer_m double precision default 0
+)
+returns table (
+  cluster_id int,
+  cluster_center text,
+  point_count bigint,
+  member_ids uuid[],
+  addresses text[],
+  avg_confidence float,
+  hull_geojson text,
+  hull_wkt text,
+  hull_area_m2 double precision
+)
+language sql stable
+as $$
+  with candidates as (
+    select
+      g.id,
+      g.raw_address,
+      g.confidence_score,
+      st_transform(g.coordinates::geometry, utm_srid(lat, lon)) as geom
+    from geo_registry g
+    where st_dwithin(g.coordinates, st_point(lon, lat)::geography, radius_m)
+  ),
+  -- Only the branch of the chosen algorithm has rows, so only its window function runs
+  clustered as (
+    select c.*, st_clusterdbscan(c.geom, eps := cluster_distance_m, minpoints := min_points)
+      over () as cid
+    from candidates c
+    where algorithm = 'dbscan'
+    union all
+    select c.*, st_clusterkmeans(
+      c.geom, least(num_clusters, (select count(*) from candidates)::int)
+    ) over () as cid
+    from candidates c
+    where algorithm = 'kmeans'
+    union all
+    select c.*, (dense_rank() over (
+      order by floor(st_x(c.geom) / cluster_distance_m), floor(st_y(c.geom) / cluster_distance_m)
+    ))::int - 1 as cid
+    from candidates c
+    where algorithm = 'grid'
+  ),
+  grouped as (
+    select
+      c.cid,
+      st_collect(c.geom) as geom,
+      count(*) as n,
+      array_agg(c.id order by c.id) as ids,
+      array_agg(c.raw_address order by c.id) as addresses,
+      avg(c.confidence_score) as confidence
+    from clustered c
+    where c.cid is not null
+    group by c.cid
+    having algorithm <> 'grid' or count(*) >= min_points
+  ),
+  outlines as (
+    select
+      gr.*,
+      case hull
+        when 'convex' then st_convexhull(gr.geom)
+        when 'concave' then st_concavehull(gr.geom, hull_convexity)
+      end as outline
+    from grouped gr
+  ),
+  hulls as (
+    -- A zero buffer would turn points and lines into empty polygons
+    select o.*,
+      case when hull_buffer_m > 0 then st_buffer(o.outline, hull_buffer_m) else o.outline end
+        as hull_geom
+    from outlines o
+  )
+  select
+    h.cid,
+    st_asgeojson(st_transform(st_centroid(h.geom), 4326))::text,
+    h.n,
+    h.ids,
+    h.addresses,
+    round(h.confidence::numeric, 2)::float,
+    st_asgeojson(st_transform(h.hull_geom, 4326))::text,
+    case when st_dimension(h.hull_geom) = 2
+      then 'SRID=4326;' || st_astext(st_multi(st_transform(h.hull_geom, 4326)))
+    end,
+    st_area(h.hull_geom)
+  from hulls h
+  order by h.n desc, h.cid;
+$$;
@@ -0,0 +1,6 @@
+-- Jobs are inserted as 'submitting' and queued once all their items are in. A queued job
+-- whose items were still being inserted could be claimed by the worker, which found no
+-- pending items and completed it, leaving the rest of the items unprocessed.
+alter table geocode_jobs drop constraint geocode_jobs_status_check;
+alter table geocode_jobs add constraint geocode_jobs_status_check
+  check (status in ('submitting', 'queued', 'running', 'completed', 'cancelled'));
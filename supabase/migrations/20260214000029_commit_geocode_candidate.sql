@@ -0,0 +1,49 @@
+-- Commit a geocode candidate: insert its geo_registry row and record it on the candidate
+-- set in one transaction. The set is locked first, so concurrent commits of the same set
+-- insert a single row; the others get the committed row's id with created = false.
+-- `entry` holds the geo_registry columns, as the `row` of complete_geocode_job_items.
+create or replace function commit_geocode_candidate(candidate_set_id uuid, entry jsonb)
+returns table (registry_id uuid, created boolean)
+language plpgsql volatile
+as $$
+declare
+  committed uuid;
+  new_id uuid;
+begin
+  select s.committed_registry_id into committed
+  from geocode_candidate_sets s
+  where s.id = commit_geocode_candidate.candidate_set_id
+  for update;
+
+  if committed is not null then
+    return query select committed, false;
+    return;
+  end if;
+
+  insert into geo_registry (
+    raw_address, parsed_address, standardized_address, coordinates, source,
+    confidence_score, metadata, created_by, org_id
+  )
+  values (
+    entry ->> 'raw_address',
+    entry -> 'parsed_address',
+    entry -> 'standardized_address',
+    (entry ->> 'coordinates')::geography,
+    entry ->> 'source',
+    (entry ->> 'confidence_score')::float,
+    coalesce(entry -> 'metadata', '{}'),
+    (entry ->> 'created_by')::uuid,
+    (entry ->> 'org_id')::uuid
+  )
+  returning id into new_id;
+
+  update geocode_candidate_sets s
+  set committed_registry_id = new_id
+  where s.id = commit_geocode_candidate.candidate_set_id;
+
+  return query select new_id, true;
+end;
+$$;
+
+-- Called by the geocode function with the service role
+revoke execute on function commit_geocode_candidate(uuid, jsonb) from public, anon, authenticated;
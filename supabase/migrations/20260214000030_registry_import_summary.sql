@@ -0,0 +1,10 @@
+-- RPC: count of an import's rows per outcome. PostgREST caps the rows a function returns
+-- (max_rows), so imports larger than that are counted here rather than from the report.
+create or replace function registry_import_summary(import_id uuid)
+returns table (status text, count int)
+language sql stable
+as $$
+  select r.status, count(*)::int
+  from registry_import_report(registry_import_summary.import_id) r
+  group by r.status;
+$$;
@@ -0,0 +1,59 @@
+-- Writes follow reads into the active organization. With an API key that is the key's
+-- organization, so a key cannot change rows of other organizations its member edits.
+drop policy "Editors can update geo_registry" on geo_registry;
+drop policy "Editors can delete geo_registry" on geo_registry;
+drop policy "Editors can insert geo_registry" on geo_registry;
+
+create policy "Editors can insert geo_registry"
+  on geo_registry for insert to authenticated
+  with check (
+    auth.uid() = created_by
+    and org_id = (select active_org_id())
+    and has_org_role(org_id, 'editor')
+  );
+
+create policy "Editors can update geo_registry"
+  on geo_registry for update to authenticated
+  using (org_id = (select active_org_id()) and has_org_role(org_id, 'editor'))
+  with check (org_id = (select active_org_id()) and has_org_role(org_id, 'editor'));
+
+create policy "Editors can delete geo_registry"
+  on geo_registry for delete to authenticated
+  using (org_id = (select active_org_id()) and has_org_role(org_id, 'editor'));
+
+drop policy "Editors can update geofences" on geofences;
+drop policy "Editors can delete geofences" on geofences;
+drop policy "Editors can insert geofences" on geofences;
+
+create policy "Editors can insert geofences"
+  on geofences for insert to authenticated
+  with check (
+    auth.uid() = created_by
+    and org_id = (select active_org_id())
+    and has_org_role(org_id, 'editor')
+  );
+
+create policy "Editors can update geofences"
+  on geofences for update to authenticated
+  using (org_id = (select active_org_id()) and has_org_role(org_id, 'editor'))
+  with check (org_id = (select active_org_id()) and has_org_role(org_id, 'editor'));
+
+create policy "Editors can delete geofences"
+  on geofences for delete to authenticated
+  using (org_id = (select active_org_id()) and has_org_role(org_id, 'editor'));
+
+-- A key acts as the admin who created it. Acting as another member would carry that
+-- member's private data (jobs, imports, webhooks) and roles elsewhere, so existing keys
+-- made for someone else are revoked.
+drop policy "Admins can create keys for members of the organization" on api_keys;
+
+create policy "Admins can create keys acting as themselves"
+  on api_keys for insert to authenticated
+  with check (
+    created_by = auth.uid()
+    and user_id = auth.uid()
+    and has_org_role(org_id, 'admin')
+  );
+
+update api_keys set revoked_at = now()
+where user_id is distinct from created_by and revoked_at is null;
@@ -0,0 +1,29 @@
+-- RPC: progress summary of a job. Items answered with an existing row (reuse_existing)
+-- also carry a registry_id, so they are counted as `reused` rather than `inserted`.
+drop function geocode_job_summary(uuid);
+
+create function geocode_job_summary(job_id uuid)
+returns table (
+  total bigint,
+  pending bigint,
+  succeeded bigint,
+  not_found bigint,
+  failed bigint,
+  inserted bigint,
+  reused bigint
+)
+language sql stable
+as $$
+  select
+    count(*) as total,
+    count(*) filter (where i.status = 'pending') as pending,
+    count(*) filter (where i.status = 'success') as succeeded,
+    count(*) filter (where i.status = 'not_found') as not_found,
+    count(*) filter (where i.status = 'error') as failed,
+    count(i.registry_id) filter (
+      where not coalesce((i.result ->> 'reused')::boolean, false)
+    ) as inserted,
+    count(*) filter (where (i.result ->> 'reused')::boolean) as reused
+  from geocode_job_items i
+  where i.job_id = geocode_job_summary.job_id;
+$$;